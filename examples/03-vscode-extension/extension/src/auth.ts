@@ -98,9 +98,28 @@ export class AuthManager {
     }
     
     /**
-     * Logout and clear stored credentials
+     * Logout: revoke the token on the server, then clear stored credentials
      */
     async logout(): Promise<void> {
+        const token = await this.getToken();
+        if (token) {
+            const config = vscode.workspace.getConfiguration('aiAssistant');
+            const serverUrl = config.get<string>('serverUrl') || 'http://localhost:8000';
+            const clientId = config.get<string>('oauthClientId') || 'mcp-client';
+
+            try {
+                // RFC 7009 - the server answers 200 even for unknown tokens
+                await fetch(`${serverUrl}/oauth/revoke`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                    body: new URLSearchParams({ token, client_id: clientId }).toString()
+                });
+            } catch (error) {
+                // Still sign out locally when the server is unreachable
+                console.error('Failed to revoke token:', error);
+            }
+        }
+
         await this.context.secrets.delete(TOKEN_KEY);
         await this.context.secrets.delete(USER_KEY);
         
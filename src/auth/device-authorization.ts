@@ -0,0 +1,281 @@
+/**
+ * OAuth 2.0 Device Authorization Grant (RFC 8628)
+ *
+ * For CLI tools and headless clients that can't receive a browser redirect:
+ * the device requests a device code and a short user code, the user enters
+ * the user code at /oauth/device in any browser and approves it, and the
+ * device polls /oauth/token until the request is approved, denied or expired.
+ *
+ * Pending device codes live in the OAuth session storage with a TTL, so they
+ * are shared across instances when Redis storage is used.
+ */
+
+import crypto from 'crypto';
+import * as OAuth2Server from '@node-oauth/oauth2-server';
+import { SessionStorage } from './session-storage.js';
+
+export const DEVICE_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+export interface DeviceFlowConfig {
+  expiresIn?: number;   // Seconds until an unused device code expires (default: 600)
+  interval?: number;    // Minimum seconds between token polls (default: 5)
+}
+
+/**
+ * A pending, approved or denied device authorization request
+ */
+export interface DeviceAuthorization {
+  deviceCode: string;
+  userCode: string;       // Normalized: uppercase, no separator
+  clientId: string;
+  scope?: string[];
+  status: 'pending' | 'approved' | 'denied';
+  userId?: string;        // Set on approval
+  interval: number;       // Grows by 5 seconds on every slow_down
+  lastPolledAt?: string;
+  expiresAt: string;
+}
+
+/**
+ * RFC 8628 device authorization response
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+  expires_in: number;
+  interval: number;
+}
+
+const DEVICE_CODE_PREFIX = 'oauth:device:';
+const USER_CODE_PREFIX = 'oauth:device-user-code:';
+// Consonants only: no vowels (no accidental words) and nothing that looks like a digit
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+const USER_CODE_LENGTH = 8;
+const SLOW_DOWN_SECONDS = 5;
+// Expired device codes are kept a little longer so polling devices get expired_token instead of invalid_grant
+const EXPIRED_GRACE_SECONDS = 300;
+
+export class DeviceAuthorizationStore {
+  readonly expiresIn: number;
+  readonly interval: number;
+
+  constructor(
+    private storage: SessionStorage,
+    config: DeviceFlowConfig = {}
+  ) {
+    this.expiresIn = config.expiresIn ?? 600;
+    this.interval = config.interval ?? 5;
+  }
+
+  /**
+   * Start a device authorization request for a client
+   */
+  async create(clientId: string, scope: string[] | undefined, verificationUri: string): Promise<DeviceAuthorizationResponse> {
+    const userCode = generateUserCode();
+    const authorization: DeviceAuthorization = {
+      deviceCode: crypto.randomBytes(32).toString('base64url'),
+      userCode,
+      clientId,
+      scope,
+      status: 'pending',
+      interval: this.interval,
+      expiresAt: new Date(Date.now() + this.expiresIn * 1000).toISOString()
+    };
+
+    await this.save(authorization);
+    await this.storage.setItem(`${USER_CODE_PREFIX}${userCode}`, authorization.deviceCode, this.expiresIn);
+
+    const displayCode = formatUserCode(userCode);
+    const completeUri = new URL(verificationUri);
+    completeUri.searchParams.set('user_code', displayCode);
+
+    console.log(`📟 OAuth: Device authorization started for client ${clientId} (user code ${displayCode})`);
+    return {
+      device_code: authorization.deviceCode,
+      user_code: displayCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: completeUri.toString(),
+      expires_in: this.expiresIn,
+      interval: this.interval
+    };
+  }
+
+  /**
+   * Pending request for a user code as typed by the user; null when unknown, used or expired
+   */
+  async findByUserCode(userCode: string): Promise<DeviceAuthorization | null> {
+    const deviceCode = await this.storage.getItem(`${USER_CODE_PREFIX}${normalizeUserCode(userCode)}`);
+    const authorization = deviceCode ? await this.load(deviceCode) : null;
+    if (!authorization || authorization.status !== 'pending' || isExpired(authorization)) {
+      return null;
+    }
+    return authorization;
+  }
+
+  /**
+   * Approve a pending request on behalf of the signed-in user
+   */
+  async approve(userCode: string, userId: string): Promise<DeviceAuthorization | null> {
+    return this.complete(userCode, { status: 'approved', userId });
+  }
+
+  /**
+   * Deny a pending request; the device gets access_denied on its next poll
+   */
+  async deny(userCode: string): Promise<DeviceAuthorization | null> {
+    return this.complete(userCode, { status: 'denied' });
+  }
+
+  /**
+   * Handle a token poll from the device
+   * Returns the approved request (consumed, so the device code works once) or
+   * throws the RFC 8628 polling errors. The approved code is claimed by
+   * deleting it, so of two concurrent polls only one gets the tokens.
+   */
+  async poll(deviceCode: string, clientId: string, now = new Date()): Promise<DeviceAuthorization> {
+    const authorization = await this.load(deviceCode);
+    if (!authorization || authorization.clientId !== clientId) {
+      throw new OAuth2Server.InvalidGrantError('Invalid grant: device code is invalid');
+    }
+
+    if (isExpired(authorization, now)) {
+      await this.remove(authorization);
+      throw new OAuth2Server.OAuthError('The device code has expired', { code: 400, name: 'expired_token' });
+    }
+
+    if (authorization.status === 'denied') {
+      await this.remove(authorization);
+      throw new OAuth2Server.AccessDeniedError('The user denied the authorization request');
+    }
+
+    if (authorization.status === 'approved') {
+      if (!(await this.remove(authorization))) {
+        throw new OAuth2Server.InvalidGrantError('Invalid grant: device code is invalid');
+      }
+      return authorization;
+    }
+
+    const lastPolledAt = authorization.lastPolledAt ? new Date(authorization.lastPolledAt).getTime() : 0;
+    const tooFast = now.getTime() - lastPolledAt < authorization.interval * 1000;
+    authorization.lastPolledAt = now.toISOString();
+    if (tooFast) {
+      authorization.interval += SLOW_DOWN_SECONDS;
+    }
+    await this.save(authorization, now);
+
+    if (tooFast) {
+      throw new OAuth2Server.OAuthError(`Polling too fast, wait ${authorization.interval} seconds between requests`, { code: 400, name: 'slow_down' });
+    }
+    throw new OAuth2Server.OAuthError('The user has not yet approved the authorization request', { code: 400, name: 'authorization_pending' });
+  }
+
+  /**
+   * Grant type class for the token endpoint (`extendedGrantTypes`)
+   */
+  createGrantType(): typeof OAuth2Server.AbstractGrantType {
+    const poll = (deviceCode: string, clientId: string) => this.poll(deviceCode, clientId);
+    const storage = this.storage;
+
+    return class DeviceCodeGrantType extends OAuth2Server.AbstractGrantType {
+      // Set by AbstractGrantType from the token handler options, missing from its typings
+      declare model: OAuth2Server.BaseModel;
+
+      async handle(request: OAuth2Server.Request, client: OAuth2Server.Client) {
+        const deviceCode = request.body.device_code;
+        if (!deviceCode || typeof deviceCode !== 'string') {
+          throw new OAuth2Server.InvalidRequestError('Missing parameter: `device_code`');
+        }
+
+        const authorization = await poll(deviceCode, client.id);
+        const user = authorization.userId ? await storage.getUser(authorization.userId) : null;
+        if (!user) {
+          throw new OAuth2Server.InvalidGrantError('Invalid grant: user of the device authorization not found');
+        }
+
+        const scope = await this.validateScope(user, client, authorization.scope);
+        const accessToken = await this.generateAccessToken(client, user, scope || []);
+        const refreshToken = client.grants.includes('refresh_token')
+          ? await this.generateRefreshToken(client, user, scope || [])
+          : undefined;
+
+        console.log(`✅ OAuth: Device authorization completed for client ${client.id}`);
+        return this.model.saveToken({
+          accessToken,
+          accessTokenExpiresAt: this.getAccessTokenExpiresAt(),
+          refreshToken,
+          refreshTokenExpiresAt: refreshToken ? this.getRefreshTokenExpiresAt() : undefined,
+          scope: scope || undefined,
+          client,
+          user
+        }, client, user);
+      }
+    };
+  }
+
+  private async complete(userCode: string, update: Pick<DeviceAuthorization, 'status' | 'userId'>): Promise<DeviceAuthorization | null> {
+    const authorization = await this.findByUserCode(userCode);
+    if (!authorization) {
+      return null;
+    }
+
+    Object.assign(authorization, update);
+    await this.save(authorization);
+    // The user code is single use
+    await this.storage.deleteItem(`${USER_CODE_PREFIX}${authorization.userCode}`);
+
+    console.log(`📟 OAuth: Device authorization ${update.status} for client ${authorization.clientId}`);
+    return authorization;
+  }
+
+  private async load(deviceCode: string): Promise<DeviceAuthorization | null> {
+    const stored = await this.storage.getItem(`${DEVICE_CODE_PREFIX}${deviceCode}`);
+    return stored ? JSON.parse(stored) as DeviceAuthorization : null;
+  }
+
+  private async save(authorization: DeviceAuthorization, now = new Date()): Promise<void> {
+    const remaining = Math.ceil((new Date(authorization.expiresAt).getTime() - now.getTime()) / 1000);
+    await this.storage.setItem(
+      `${DEVICE_CODE_PREFIX}${authorization.deviceCode}`,
+      JSON.stringify(authorization),
+      Math.max(remaining, 0) + EXPIRED_GRACE_SECONDS
+    );
+  }
+
+  /**
+   * Delete a request and its user code; false when another caller already deleted it
+   */
+  private async remove(authorization: DeviceAuthorization): Promise<boolean> {
+    const removed = await this.storage.deleteItem(`${DEVICE_CODE_PREFIX}${authorization.deviceCode}`);
+    await this.storage.deleteItem(`${USER_CODE_PREFIX}${authorization.userCode}`);
+    return removed;
+  }
+}
+
+/**
+ * Uppercase and strip separators/whitespace, so `wdjb-mjht` matches `WDJBMJHT`
+ */
+export function normalizeUserCode(userCode: string): string {
+  return userCode.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Display form of a user code: `WDJB-MJHT`
+ */
+export function formatUserCode(userCode: string): string {
+  const normalized = normalizeUserCode(userCode);
+  return `${normalized.slice(0, 4)}-${normalized.slice(4)}`;
+}
+
+function generateUserCode(): string {
+  let code = '';
+  for (let i = 0; i < USER_CODE_LENGTH; i++) {
+    code += USER_CODE_ALPHABET[crypto.randomInt(USER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function isExpired(authorization: DeviceAuthorization, now = new Date()): boolean {
+  return new Date(authorization.expiresAt).getTime() <= now.getTime();
+}
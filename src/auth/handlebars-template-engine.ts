@@ -104,6 +104,13 @@ export class HandlebarsTemplateEngine {
         
         // URL encoding helper
         encodeUri: (str: string) => encodeURIComponent(str),
+
+        // Formatting helpers (e.g. billing statements)
+        formatNumber: (value: number) => (typeof value === 'number' ? value.toLocaleString('en-US') : value),
+        formatDate: (value: Date | string) => (value ? new Date(value).toISOString().slice(0, 10) : ''),
+        formatCents: (cents: number, currency?: string) => (typeof cents === 'number'
+          ? `${(cents / 100).toFixed(2)} ${typeof currency === 'string' ? currency : 'USD'}`
+          : ''),
         
         // Provider icon helper with Feather-style SVG icons
         providerIcon: (providerName: string) => {
@@ -141,8 +148,13 @@ export class HandlebarsTemplateEngine {
   
   /**
    * Render a template with data
+   * Other pages (e.g. 'billing/statement') can pick a layout from views/layouts and a title.
    */
-  async render(templateName: string, data: HandlebarsTemplateData): Promise<string> {
+  async render(
+    templateName: string,
+    data: HandlebarsTemplateData | Record<string, any>,
+    options: { layout?: string; title?: string } = {}
+  ): Promise<string> {
     const viewsDir = path.join(__dirname, '../views');
     const templatePath = path.join(viewsDir, `${templateName}.hbs`);
     
@@ -174,10 +186,12 @@ export class HandlebarsTemplateEngine {
       darkMode: this.config.darkMode,
       
       // Page metadata
-      title: 'Sign In',
+      title: options.title ?? 'Sign In',
       
       // Custom variables
-      ...this.config.variables
+      ...this.config.variables,
+
+      ...(options.layout ? { layout: options.layout } : {})
     };
     
     return this.hbs.renderView(templatePath, templateData);
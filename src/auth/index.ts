@@ -11,6 +11,12 @@ export { AuthManager } from './auth-manager';
 
 // OAuth authentication (recommended secure approach)
 export { OAuthAuthManager } from './oauth-auth-manager';
+export { OAuthTokenSigner } from './oauth-token-signer';
+export type { OAuthJwtConfig, OAuthAccessTokenClaims, OAuthSigningAlgorithm } from './oauth-token-signer';
+export { DeviceAuthorizationStore, DEVICE_CODE_GRANT } from './device-authorization';
+export type { DeviceFlowConfig, DeviceAuthorization, DeviceAuthorizationResponse } from './device-authorization';
+export { ServiceAccountManager, ServiceAccountError, CLIENT_CREDENTIALS_GRANT } from './service-accounts';
+export type { ServiceAccount, ServiceAccountConfig, ServicePrincipal } from './service-accounts';
 
 // Interfaces
 export type { 
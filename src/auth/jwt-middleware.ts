@@ -4,6 +4,7 @@ import type { Request, Response, NextFunction } from 'express';
 export interface OpenSaaSJWTPayload {
   userId: string;
   email: string;
+  emailVerified?: boolean; // Trial credits are only granted to verified e-mails
   organizationId?: string;
   subscriptionTier: string; // Made flexible to support any tier
   monthlyTokenQuota: number;
@@ -14,6 +15,8 @@ export interface OpenSaaSJWTPayload {
   exp: number;
   iss: string; // OpenSaaS issuer
   aud: string; // Our service identifier
+  principalType?: 'user' | 'service'; // 'service': a service account (client_credentials), userId is its owner
+  serviceAccount?: { clientId: string; name: string };
 }
 
 export type AuthContext =
@@ -44,11 +47,14 @@ export type AuthContext =
       };
       features: string[];
       organizationId?: string;
+      principalType?: 'user' | 'service';
+      clientId?: string;
     };
 
 export interface AuthenticatedRequest extends Request {
   user?: OpenSaaSJWTPayload;
   authContext?: AuthContext;
+  oauthTokenRejected?: boolean; // Bearer token OAuth refused (revoked, expired, bad signature) - never decode it unverified
 }
 
 export interface SubscriptionTierConfig {
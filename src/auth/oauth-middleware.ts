@@ -10,6 +10,9 @@ import * as OAuth2Server from '@node-oauth/oauth2-server';
 import { randomPKCECodeVerifier, calculatePKCECodeChallenge } from 'openid-client';
 import crypto from 'crypto';
 import { createSessionStorage, SessionStorage } from './session-storage.js';
+import { OAuthTokenSigner, OAuthJwtConfig } from './oauth-token-signer.js';
+import { DeviceAuthorizationStore, DeviceFlowConfig, DEVICE_CODE_GRANT, formatUserCode } from './device-authorization.js';
+import { ServiceAccountManager, ServiceAccount } from './service-accounts.js';
 import { Request, Response } from 'express';
 import { HandlebarsTemplateEngine, HandlebarsTemplateConfig, HandlebarsTemplateData, HANDLEBARS_PROVIDER_ICONS } from './handlebars-template-engine.js';
 import winston from 'winston';
@@ -20,6 +23,19 @@ let sessionStorage: SessionStorage;
 // Template engine instance for OAuth pages
 let templateEngine: HandlebarsTemplateEngine;
 
+// JWT signer for access and ID tokens (unset: opaque tokens)
+let tokenSigner: OAuthTokenSigner | undefined;
+
+// Pending device authorization requests (RFC 8628)
+let deviceAuthorizations: DeviceAuthorizationStore;
+
+// Resource server clients allowed to introspect tokens (RFC 7662)
+let introspectionClients = new Set<string>();
+
+// Sign-in session of the device verification page (HttpOnly cookie -> session storage)
+const DEVICE_SESSION_COOKIE = 'oauth_device_session';
+const DEVICE_SESSION_TTL_SECONDS = 15 * 60;
+
 // Logger instance for structured logging
 const logger = winston.createLogger({
   level: 'info',
@@ -180,8 +196,15 @@ function normalizeUserProfile(provider: string, profile: any): { id: string; ema
  * Create OAuth 2.0 Model Implementation with Session Storage
  * Uses the configured session storage backend for persistence
  */
-function createOAuthModel(storage: SessionStorage, adminUsers: string[] = []) {
+function createOAuthModel(storage: SessionStorage, adminUsers: string[] = [], signer?: OAuthTokenSigner) {
   return {
+    // Signed JWT access tokens; without a signer the library issues random opaque tokens
+    ...(signer ? {
+      async generateAccessToken(client: any, user: any, scope: any) {
+        return signer.signAccessToken(client, user, scope, client.accessTokenLifetime || 3600);
+      }
+    } : {}),
+
     // Client methods
     async getClient(clientId: string, clientSecret?: string) {
       logger.debug('OAuth client lookup', { clientId, hasSecret: clientSecret !== undefined && clientSecret !== '' });
@@ -274,6 +297,13 @@ function createOAuthModel(storage: SessionStorage, adminUsers: string[] = []) {
       }
       
       console.log(`✅ OAuth: Token saved: ${token.accessToken.substring(0, 10)}...`);
+
+      // OIDC: sign-ins with the openid scope also get an ID token (returned, not stored)
+      const scopes = Array.isArray(token.scope) ? token.scope : String(token.scope || '').split(' ');
+      if (signer && scopes.includes('openid')) {
+        return { ...tokenWithMeta, id_token: signer.signIdToken(client, user) };
+      }
+
       return tokenWithMeta;
     },
 
@@ -290,9 +320,19 @@ function createOAuthModel(storage: SessionStorage, adminUsers: string[] = []) {
       return token;
     },
 
+    // client_credentials: only service accounts have a user of their own
+    async getUserFromClient(client: any) {
+      return client.serviceAccount ? ServiceAccountManager.principal(client.serviceAccount as ServiceAccount) : false;
+    },
+
     // Scope validation with admin user support
     async validateScope(user: any, client: any, scope?: any) {
       console.log(`🔍 OAuth: Validating scope for user ${user.id}, client ${client.id}`, scope, typeof scope);
+
+      // Service accounts get exactly their assigned scopes, never the defaults or admin scopes
+      if (client.serviceAccount) {
+        return ServiceAccountManager.grantScopes(client.serviceAccount as ServiceAccount, scope);
+      }
       
       // Parse requested scopes from the OAuth flow - handle different input types
       let requestedScopes: string[] = [];
@@ -379,7 +419,7 @@ export function createOAuthServer(storageConfig: {
     keyPrefix?: string;
     instance?: any;
   };
-} = { type: 'memory' }, adminUsers: string[] = [], templateConfig?: HandlebarsTemplateConfig) {
+} = { type: 'memory' }, adminUsers: string[] = [], templateConfig?: HandlebarsTemplateConfig, jwtConfig?: OAuthJwtConfig & { issuer: string }, deviceConfig?: DeviceFlowConfig, introspectionClientIds: string[] = []) {
   logger.info('Creating OAuth 2.0 server', { storageType: storageConfig.type });
   
   // Initialize session storage - ensure it's the same instance used globally
@@ -393,13 +433,26 @@ export function createOAuthServer(storageConfig: {
     console.log(`✅ OAuth Handlebars template engine initialized with ${templateConfig ? 'custom' : 'default'} configuration`);
   }
   
+  // JWT access/ID tokens signed with keys kept in the session storage
+  tokenSigner = jwtConfig && jwtConfig.enabled !== false
+    ? new OAuthTokenSigner(sessionStorage, jwtConfig.issuer, jwtConfig)
+    : undefined;
+
+  // Device codes for CLI and headless clients, kept in the session storage
+  deviceAuthorizations = new DeviceAuthorizationStore(sessionStorage, deviceConfig);
+  introspectionClients = new Set(introspectionClientIds);
+
   // Create OAuth model with session storage and admin users
-  const oauthModel = createOAuthModel(sessionStorage, adminUsers);
+  const oauthModel = createOAuthModel(sessionStorage, adminUsers, tokenSigner);
   
   const oauth = new ExpressOAuthServer({
     model: oauthModel,
     requireClientAuthentication: {
-      authorization_code: false  // PKCE doesn't require client secret
+      authorization_code: false,  // PKCE doesn't require client secret
+      [DEVICE_CODE_GRANT]: false  // Devices are usually public clients
+    },
+    extendedGrantTypes: {
+      [DEVICE_CODE_GRANT]: deviceAuthorizations.createGrantType()
     },
     allowBearerTokensInQueryString: true,
     allowExtendedTokenAttributes: true,
@@ -410,8 +463,8 @@ export function createOAuthServer(storageConfig: {
     continueMiddleware: false
   });
   
-  logger.info('OAuth 2.0 server created', { storageType: storageConfig.type });
-  return { oauth, storage: sessionStorage };
+  logger.info('OAuth 2.0 server created', { storageType: storageConfig.type, jwt: tokenSigner?.algorithm || false });
+  return { oauth, storage: sessionStorage, tokenSigner, deviceAuthorizations };
 }
 
 /**
@@ -454,6 +507,11 @@ export async function initializeOAuthServer() {
   }
   
   await sessionStorage.initialize();
+
+  if (tokenSigner) {
+    await tokenSigner.initialize();
+    tokenSigner.startRotation();
+  }
   
   // Add default client and user
   const defaultClient = getDefaultClient();
@@ -504,12 +562,348 @@ export async function clearOAuthData() {
  * Close OAuth server and clean up resources
  */
 export async function closeOAuthServer() {
+  tokenSigner?.stopRotation();
   if (sessionStorage) {
     await sessionStorage.close();
     console.log(`✅ OAuth server closed`);
   }
 }
 
+/**
+ * RFC 7662 introspection response
+ */
+export interface TokenIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  sub?: string;
+  token_type?: 'Bearer' | 'refresh_token';
+  exp?: number;
+  iss?: string;
+  aud?: string;
+}
+
+/**
+ * Authenticate the calling client: HTTP Basic (client_secret_basic) or
+ * client_id/client_secret in the body (client_secret_post)
+ * Public clients (PKCE) may identify with client_id alone unless a secret is
+ * required; 'confidential' requires it from every client registered with one.
+ */
+async function authenticateClient(req: Request, requireSecret: boolean | 'confidential'): Promise<OAuth2Server.Client | null> {
+  let clientId: string | undefined = req.body?.client_id;
+  let clientSecret: string | undefined = req.body?.client_secret;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return null;
+    }
+    clientId = decodeURIComponent(decoded.substring(0, separator));
+    clientSecret = decodeURIComponent(decoded.substring(separator + 1));
+  }
+
+  if (!clientId || (requireSecret === true && !clientSecret)) {
+    return null;
+  }
+
+  const client = await sessionStorage.getClient(clientId);
+  if (!client || (requireSecret === 'confidential' && client.clientSecret && !clientSecret)) {
+    return null;
+  }
+
+  if (clientSecret) {
+    const expected = Buffer.from(String(client.clientSecret || ''));
+    const received = Buffer.from(clientSecret);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+  }
+
+  return client;
+}
+
+function sendInvalidClient(res: Response) {
+  res.header('WWW-Authenticate', 'Basic realm="oauth"');
+  res.status(401).json({ error: 'invalid_client', error_description: 'Client authentication failed' });
+}
+
+function toDate(value: unknown): Date | undefined {
+  return value instanceof Date ? value : value ? new Date(value as string) : undefined;
+}
+
+/**
+ * Revoke an access or refresh token (RFC 7009)
+ * Revoking a refresh token also revokes the access token issued with it.
+ * Tokens of other clients are left alone when clientId is given.
+ */
+export async function revokeToken(token: string, clientId?: string): Promise<boolean> {
+  const record = await sessionStorage.getToken(token);
+  if (!record || (clientId && record.client?.id !== clientId)) {
+    return false;
+  }
+
+  const isRefreshToken = record.refreshToken === token && record.accessToken !== token;
+  if (isRefreshToken) {
+    await sessionStorage.deleteToken(record.refreshToken!);
+  }
+  await sessionStorage.deleteToken(record.accessToken);
+  // Signed access tokens verify offline - deny them on this server until they expire
+  await tokenSigner?.revokeAccessToken(record.accessToken);
+
+  console.log(`🗑️ OAuth: Revoked ${isRefreshToken ? 'refresh token and its access token' : 'access token'} for client ${record.client?.id}`);
+  return true;
+}
+
+/**
+ * Describe a token for a resource server (RFC 7662)
+ * Only clients listed in oauth.introspectionClients learn about tokens; every
+ * other client gets `{ active: false }`.
+ */
+export async function introspectToken(token: string, clientId: string): Promise<TokenIntrospection> {
+  if (!introspectionClients.has(clientId)) {
+    return { active: false };
+  }
+
+  const record = await sessionStorage.getToken(token);
+  if (!record) {
+    return { active: false };
+  }
+
+  const isRefreshToken = record.refreshToken === token && record.accessToken !== token;
+  const expiresAt = toDate(isRefreshToken ? record.refreshTokenExpiresAt : record.accessTokenExpiresAt);
+  if (expiresAt && expiresAt.getTime() <= Date.now()) {
+    return { active: false };
+  }
+
+  const user = (record.user || {}) as Record<string, any>;
+  return {
+    active: true,
+    scope: Array.isArray(record.scope) ? record.scope.join(' ') : record.scope,
+    client_id: record.client?.id,
+    username: user.email || user.username,
+    sub: OAuthTokenSigner.subject(user),
+    token_type: isRefreshToken ? 'refresh_token' : 'Bearer',
+    exp: expiresAt ? Math.floor(expiresAt.getTime() / 1000) : undefined,
+    ...(tokenSigner ? { iss: tokenSigner.issuer, aud: isRefreshToken ? undefined : tokenSigner.audience } : {})
+  };
+}
+
+/**
+ * POST /oauth/revoke - any registered client may revoke its own tokens
+ */
+export async function handleTokenRevocation(req: Request, res: Response) {
+  try {
+    const client = await authenticateClient(req, false);
+    if (!client) {
+      return sendInvalidClient(res);
+    }
+
+    const token = req.body?.token;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+    }
+
+    // Unknown, expired or foreign tokens also get 200 so callers learn nothing about them
+    await revokeToken(token, client.id);
+    res.status(200).send();
+  } catch (error) {
+    console.error('❌ OAuth token revocation failed:', error);
+    res.status(500).json({ error: 'server_error', error_description: 'Failed to revoke token' });
+  }
+}
+
+/**
+ * POST /oauth/introspect - for resource servers, which must authenticate with a client secret
+ * and be listed in oauth.introspectionClients
+ */
+export async function handleTokenIntrospection(req: Request, res: Response) {
+  try {
+    const client = await authenticateClient(req, true);
+    if (!client) {
+      return sendInvalidClient(res);
+    }
+
+    const token = req.body?.token;
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'invalid_request', error_description: 'token is required' });
+    }
+
+    res.header('Cache-Control', 'no-store');
+    res.json(await introspectToken(token, client.id));
+  } catch (error) {
+    console.error('❌ OAuth token introspection failed:', error);
+    res.status(500).json({ error: 'server_error', error_description: 'Failed to introspect token' });
+  }
+}
+
+/**
+ * POST /oauth/device_authorization - start a device flow (RFC 8628)
+ * The client must be registered with the device_code grant. Public clients
+ * identify with client_id alone, confidential clients must send their secret.
+ */
+export async function handleDeviceAuthorization(req: Request, res: Response) {
+  try {
+    const client = await authenticateClient(req, 'confidential');
+    if (!client) {
+      return sendInvalidClient(res);
+    }
+
+    if (!client.grants?.includes(DEVICE_CODE_GRANT)) {
+      return res.status(400).json({ error: 'unauthorized_client', error_description: 'Client is not allowed to use the device_code grant' });
+    }
+
+    const scope = typeof req.body?.scope === 'string' && req.body.scope.trim()
+      ? req.body.scope.trim().split(/\s+/)
+      : undefined;
+    const baseUrl = process.env.OAUTH_BASE_URL || `http://localhost:${process.env.PORT || 8000}`;
+
+    res.header('Cache-Control', 'no-store');
+    res.json(await deviceAuthorizations.create(client.id, scope, `${baseUrl}/oauth/device`));
+  } catch (error) {
+    console.error('❌ OAuth device authorization failed:', error);
+    res.status(500).json({ error: 'server_error', error_description: 'Failed to start device authorization' });
+  }
+}
+
+/**
+ * Sign a user in to the device verification page after federated login
+ * The session lives in the session storage behind an HttpOnly cookie and
+ * carries the CSRF token the approval form must send back.
+ */
+export async function startDeviceSession(res: Response, userId: string): Promise<void> {
+  const sessionId = crypto.randomBytes(32).toString('hex');
+  const csrfToken = crypto.randomBytes(32).toString('hex');
+  await sessionStorage.setItem(`device_session_${sessionId}`, JSON.stringify({ userId, csrfToken }), DEVICE_SESSION_TTL_SECONDS);
+
+  const baseUrl = process.env.OAUTH_BASE_URL || `http://localhost:${process.env.PORT || 8000}`;
+  res.cookie(DEVICE_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: baseUrl.startsWith('https://'),
+    path: '/oauth/device',
+    maxAge: DEVICE_SESSION_TTL_SECONDS * 1000
+  });
+}
+
+/**
+ * The signed-in user of the device verification page, with their CSRF token
+ */
+async function getDeviceSession(req: Request): Promise<{ user: OAuth2Server.User; csrfToken: string } | null> {
+  const cookie = (req.headers?.cookie || '').split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${DEVICE_SESSION_COOKIE}=`));
+  const sessionId = cookie ? decodeURIComponent(cookie.slice(DEVICE_SESSION_COOKIE.length + 1)) : '';
+  if (!/^[0-9a-f]{64}$/.test(sessionId)) {
+    return null;
+  }
+
+  const session = await sessionStorage.getItem(`device_session_${sessionId}`);
+  if (!session) {
+    return null;
+  }
+
+  const { userId, csrfToken } = JSON.parse(session);
+  const user = await sessionStorage.getUser(userId);
+  return user ? { user, csrfToken } : null;
+}
+
+function isValidCsrfToken(expected: string, actual: unknown): boolean {
+  return typeof actual === 'string'
+    && actual.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+}
+
+/**
+ * GET /oauth/device - enter or confirm a user code
+ * Users without a device session sign in first and come back here with the code.
+ */
+export async function handleDeviceVerificationPage(req: Request, res: Response) {
+  const session = await getDeviceSession(req);
+  if (!session) {
+    const baseUrl = process.env.OAUTH_BASE_URL || `http://localhost:${process.env.PORT || 8000}`;
+    const loginUrl = new URL('/login', baseUrl);
+    loginUrl.searchParams.set('redirect_uri', req.originalUrl);
+    return res.redirect(loginUrl.toString());
+  }
+
+  const userCode = req.query.user_code as string | undefined;
+  if (!userCode) {
+    return renderDevicePage(res, session, { step: 'enter' });
+  }
+
+  const authorization = await deviceAuthorizations.findByUserCode(userCode);
+  if (!authorization) {
+    return renderDevicePage(res, session, {
+      step: 'enter',
+      error: { code: 'invalid_user_code', message: 'The code is invalid or has expired. Check your device and try again.' }
+    }, 400);
+  }
+
+  return renderDevicePage(res, session, {
+    step: 'confirm',
+    userCode: formatUserCode(authorization.userCode),
+    clientId: authorization.clientId,
+    scopes: authorization.scope || []
+  });
+}
+
+/**
+ * POST /oauth/device - approve or deny a user code
+ * Needs the device session and the CSRF token of the confirmation form.
+ */
+export async function handleDeviceVerificationDecision(req: Request, res: Response) {
+  const session = await getDeviceSession(req);
+  if (!session) {
+    return res.status(401).json({ error: 'access_denied', error_description: 'Sign in to approve the device' });
+  }
+  if (!isValidCsrfToken(session.csrfToken, req.body?.csrf_token)) {
+    return res.status(403).json({ error: 'access_denied', error_description: 'Invalid or missing CSRF token' });
+  }
+
+  const userCode = req.body?.user_code;
+  const approve = req.body?.action === 'approve';
+  const authorization = typeof userCode === 'string'
+    ? await (approve ? deviceAuthorizations.approve(userCode, session.user.id) : deviceAuthorizations.deny(userCode))
+    : null;
+
+  if (!authorization) {
+    return renderDevicePage(res, session, {
+      step: 'enter',
+      error: { code: 'invalid_user_code', message: 'The code is invalid or has expired. Check your device and try again.' }
+    }, 400);
+  }
+
+  return renderDevicePage(res, session, { step: approve ? 'approved' : 'denied' });
+}
+
+async function renderDevicePage(
+  res: Response,
+  session: { user: OAuth2Server.User; csrfToken: string },
+  data: Record<string, any>,
+  status = 200
+) {
+  if (!templateEngine) {
+    templateEngine = new HandlebarsTemplateEngine();
+  }
+
+  try {
+    const html = await templateEngine.render('oauth/device', {
+      ...data,
+      userName: session.user.email || session.user.username,
+      csrfToken: session.csrfToken,
+      formAction: '/oauth/device'
+    }, { title: 'Connect a device' });
+    res.setHeader('Content-Type', 'text/html');
+    res.status(status).send(html);
+  } catch (error) {
+    logger.error('Template rendering error', { error: error.message, stack: error.stack });
+    res.status(500).send('Template rendering error');
+  }
+}
+
 /**
  * Handle identity provider login initiation
  */
@@ -559,11 +953,15 @@ export async function handleProviderLogin(req: Request, res: Response) {
       originalQuery = { ...req.query };
     }
 
+    // Resume the device verification page instead of /oauth/authorize when the login started there
+    const resumePath = redirectUri?.split('?')[0] === '/oauth/device' ? '/oauth/device' : '/oauth/authorize';
+
     // Store state and PKCE data in session/storage for later verification
     await sessionStorage.setItem(`oauth_state_${state}`, JSON.stringify({
       provider,
       codeVerifier,
-      originalQuery // Store original OAuth authorize params
+      originalQuery, // Store original OAuth authorize params
+      resumePath
     }), 600); // 10 minutes
 
     if (config.type === 'oidc') {
@@ -634,7 +1032,7 @@ export async function handleProviderCallback(req: Request, res: Response) {
       });
     }
 
-    const { provider: storedProvider, codeVerifier, originalQuery } = JSON.parse(stateData);
+    const { provider: storedProvider, codeVerifier, originalQuery, resumePath } = JSON.parse(stateData);
     
     if (storedProvider !== provider) {
       return res.status(400).json({
@@ -729,17 +1127,22 @@ export async function handleProviderCallback(req: Request, res: Response) {
 
     console.log(`✅ User authenticated via ${provider}: ${user.email}`);
 
-    // Redirect back to continue OAuth authorize flow
+    // Redirect back to continue OAuth authorize flow (or device verification)
     const baseUrl = process.env.OAUTH_BASE_URL || `http://localhost:${process.env.PORT || 8000}`;
-    const resumeUrl = new URL('/oauth/authorize', baseUrl);
+    const resumeUrl = new URL(resumePath || '/oauth/authorize', baseUrl);
     Object.entries(originalQuery).forEach(([key, value]) => {
       if (typeof value === 'string') {
         resumeUrl.searchParams.set(key, value);
       }
     });
     
-    // Set session marker so OAuth authorize can find authenticated user
-    resumeUrl.searchParams.set('authenticated_user', userId);
+    if (resumePath === '/oauth/device') {
+      // Device approval needs a real session - a query marker could be forged by anyone
+      await startDeviceSession(res, userId);
+    } else {
+      // Set session marker so OAuth authorize can find authenticated user
+      resumeUrl.searchParams.set('authenticated_user', userId);
+    }
     
     res.redirect(resumeUrl.toString());
 
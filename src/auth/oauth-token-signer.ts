@@ -0,0 +1,329 @@
+/**
+ * OAuth Token Signer
+ *
+ * Signs OAuth access tokens and OIDC ID tokens as JWTs and publishes the
+ * matching public keys for /.well-known/jwks.json, so resource servers can
+ * verify tokens offline instead of calling back into the session store.
+ *
+ * Signing keys live in the OAuth session storage (shared across instances with
+ * Redis, encrypted with file storage). Keys rotate on a schedule; a retired key
+ * stays in the JWKS for an overlap window so tokens it signed keep verifying.
+ */
+
+import crypto, { KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SessionStorage } from './session-storage.js';
+
+export type OAuthSigningAlgorithm = 'RS256' | 'ES256';
+
+export interface OAuthJwtConfig {
+  enabled?: boolean;                  // Issue JWT access/ID tokens (default: true when OAuth is enabled)
+  algorithm?: OAuthSigningAlgorithm;  // Default: RS256
+  audience?: string;                  // Access token `aud` (default: `${issuer}/`, the advertised resource)
+  rotationIntervalDays?: number;      // New signing key every N days (default: 30)
+  keyOverlapHours?: number;           // Retired keys stay in the JWKS this long (default: 24, keep above token lifetimes)
+  idTokenLifetime?: number;           // Seconds (default: 3600)
+}
+
+/**
+ * Claims of a signed access token
+ */
+export interface OAuthAccessTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  client_id: string;
+  scope?: string;
+  email?: string;
+  name?: string;
+  provider?: string;
+  organization_id?: string;
+  principal_type?: 'service';   // client_credentials tokens of service accounts
+  owner_id?: string;            // Service account owner usage is attributed to
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+interface StoredSigningKey {
+  kid: string;
+  alg: OAuthSigningAlgorithm;
+  privateKey: string;     // PKCS#8 PEM
+  publicJwk: crypto.JsonWebKey;
+  createdAt: string;
+  retiredAt?: string;     // Stops signing; published until retiredAt + overlap
+}
+
+interface SigningKey extends StoredSigningKey {
+  signingKey: KeyObject;
+  verificationKey: KeyObject;
+}
+
+const KEYS_ITEM = 'oauth:signing-keys';
+const REVOKED_ITEM_PREFIX = 'oauth:revoked:';
+const HOUR_MS = 60 * 60 * 1000;
+
+export class OAuthTokenSigner {
+  readonly algorithm: OAuthSigningAlgorithm;
+  readonly audience: string;
+  private rotationIntervalMs: number;
+  private overlapMs: number;
+  private idTokenLifetime: number;
+  private keys: SigningKey[] = [];
+  private rotationTimer?: NodeJS.Timeout;
+
+  constructor(
+    private storage: SessionStorage,
+    readonly issuer: string,
+    config: OAuthJwtConfig = {}
+  ) {
+    this.algorithm = config.algorithm || 'RS256';
+    this.audience = config.audience || `${issuer}/`;
+    this.rotationIntervalMs = (config.rotationIntervalDays ?? 30) * 24 * HOUR_MS;
+    this.overlapMs = (config.keyOverlapHours ?? 24) * HOUR_MS;
+    this.idTokenLifetime = config.idTokenLifetime ?? 3600;
+  }
+
+  /**
+   * Load the signing keys, creating the first one if needed
+   */
+  async initialize(now = new Date()): Promise<void> {
+    await this.rotateIfDue(now);
+  }
+
+  /**
+   * Rotate when the active key is older than the rotation interval
+   * Keys are reloaded first so instances sharing storage pick up each other's rotations.
+   */
+  async rotateIfDue(now = new Date()): Promise<boolean> {
+    await this.loadKeys();
+
+    const active = this.activeKey();
+    if (active && now.getTime() - new Date(active.createdAt).getTime() < this.rotationIntervalMs) {
+      return false;
+    }
+
+    await this.rotate(now);
+    return true;
+  }
+
+  /**
+   * Start signing with a new key and retire the current one
+   */
+  async rotate(now = new Date()): Promise<string> {
+    const key = this.generateKey(now);
+
+    this.keys = this.keys
+      .map(existing => existing.retiredAt ? existing : { ...existing, retiredAt: now.toISOString() })
+      .filter(existing => new Date(existing.retiredAt!).getTime() + this.overlapMs > now.getTime());
+    this.keys.unshift(key);
+    await this.saveKeys();
+
+    console.log(`🔑 OAuth: Now signing tokens with key ${key.kid} (${key.alg})`);
+    return key.kid;
+  }
+
+  /**
+   * Check for due rotations on an interval (hourly by default)
+   */
+  startRotation(checkIntervalMs = HOUR_MS): void {
+    this.stopRotation();
+    this.rotationTimer = setInterval(() => {
+      this.rotateIfDue().catch(error => {
+        console.error('❌ OAuth: Signing key rotation failed:', error);
+      });
+    }, checkIntervalMs);
+    this.rotationTimer.unref?.();
+  }
+
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = undefined;
+    }
+  }
+
+  /**
+   * Public keys for /.well-known/jwks.json - the active key plus retired keys still in their overlap window
+   * Reloaded on every call so the JWKS includes keys rotated in by other instances.
+   */
+  async getJwks(now = new Date()): Promise<{ keys: Array<crypto.JsonWebKey & { kid: string; alg: string; use: 'sig' }> }> {
+    await this.loadKeys();
+    return {
+      keys: this.keys
+        .filter(key => !key.retiredAt || new Date(key.retiredAt).getTime() + this.overlapMs > now.getTime())
+        .map(key => ({ ...key.publicJwk, kid: key.kid, alg: key.alg, use: 'sig' as const }))
+    };
+  }
+
+  /**
+   * Sign an access token for an OAuth client acting for a user
+   */
+  signAccessToken(client: { id: string }, user: Record<string, any>, scope: string | string[] | undefined, lifetime: number): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: OAuthAccessTokenClaims = {
+      iss: this.issuer,
+      sub: OAuthTokenSigner.subject(user),
+      aud: this.audience,
+      client_id: client.id,
+      scope: Array.isArray(scope) ? scope.join(' ') : scope,
+      email: user.email,
+      name: user.name,
+      provider: user.provider,
+      organization_id: user.organizationId,
+      ...(user.principalType === 'service' ? { principal_type: 'service' as const, owner_id: user.ownerUserId } : {}),
+      jti: crypto.randomUUID(),
+      iat: now,
+      exp: now + lifetime
+    };
+    return this.sign(claims);
+  }
+
+  /**
+   * Sign an OIDC ID token for the client the user signed in to
+   */
+  signIdToken(client: { id: string }, user: Record<string, any>): string {
+    const now = Math.floor(Date.now() / 1000);
+    return this.sign({
+      iss: this.issuer,
+      sub: OAuthTokenSigner.subject(user),
+      aud: client.id,
+      email: user.email,
+      name: user.name,
+      iat: now,
+      exp: now + this.idTokenLifetime
+    });
+  }
+
+  /**
+   * Deny a signed access token until it expires
+   * Only this server sees the denylist; offline verifiers accept the token until `exp`.
+   */
+  async revokeAccessToken(token: string): Promise<boolean> {
+    const claims = jwt.decode(token) as OAuthAccessTokenClaims | null;
+    if (!claims?.jti || !claims.exp) {
+      return false;
+    }
+
+    const ttlSeconds = claims.exp - Math.floor(Date.now() / 1000);
+    if (ttlSeconds > 0) {
+      await this.storage.setItem(`${REVOKED_ITEM_PREFIX}${claims.jti}`, '1', ttlSeconds);
+    }
+    return true;
+  }
+
+  /**
+   * Whether the token names one of this server's signing keys in its `kid`
+   * Says nothing about validity - use verifyAccessToken for that.
+   */
+  isOwnToken(token: string): boolean {
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    return !!kid && this.keys.some(key => key.kid === kid);
+  }
+
+  /**
+   * Verify a token signed by this server; null for anything else or revoked tokens
+   * An unknown `kid` triggers one reload in case another instance rotated.
+   */
+  async verifyAccessToken(token: string): Promise<OAuthAccessTokenClaims | null> {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      return null;
+    }
+
+    let key = this.keys.find(candidate => candidate.kid === kid);
+    if (!key) {
+      await this.loadKeys();
+      key = this.keys.find(candidate => candidate.kid === kid);
+    }
+    if (!key) {
+      return null;
+    }
+
+    let claims: OAuthAccessTokenClaims;
+    try {
+      claims = jwt.verify(token, key.verificationKey, {
+        algorithms: [key.alg],
+        issuer: this.issuer,
+        audience: this.audience
+      }) as OAuthAccessTokenClaims;
+    } catch {
+      return null;
+    }
+
+    const revoked = await this.storage.getItem(`${REVOKED_ITEM_PREFIX}${claims.jti}`);
+    return revoked ? null : claims;
+  }
+
+  /**
+   * Stable subject for a user record - same precedence as OAuth request authentication
+   */
+  static subject(user: Record<string, any>): string {
+    return String(user.id || user.userId || user.email || user.username);
+  }
+
+  private sign(claims: Record<string, any>): string {
+    const key = this.activeKey();
+    if (!key) {
+      throw new Error('OAuth token signer not initialized. Call initialize() first.');
+    }
+    return jwt.sign(claims, key.signingKey, { algorithm: key.alg, keyid: key.kid });
+  }
+
+  private activeKey(): SigningKey | undefined {
+    return this.keys.find(key => !key.retiredAt);
+  }
+
+  private generateKey(now: Date): SigningKey {
+    const { privateKey, publicKey } = this.algorithm === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const publicJwk = publicKey.export({ format: 'jwk' });
+
+    return {
+      kid: thumbprint(publicJwk),
+      alg: this.algorithm,
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      publicJwk,
+      createdAt: now.toISOString(),
+      signingKey: privateKey,
+      verificationKey: publicKey
+    };
+  }
+
+  private async loadKeys(): Promise<void> {
+    const stored = await this.storage.getItem(KEYS_ITEM);
+    if (!stored) {
+      return;
+    }
+
+    this.keys = (JSON.parse(stored) as StoredSigningKey[]).map(key => ({
+      ...key,
+      signingKey: crypto.createPrivateKey(key.privateKey),
+      verificationKey: crypto.createPublicKey({ key: key.publicJwk, format: 'jwk' })
+    }));
+  }
+
+  private async saveKeys(): Promise<void> {
+    const stored: StoredSigningKey[] = this.keys.map(key => ({
+      kid: key.kid,
+      alg: key.alg,
+      privateKey: key.privateKey,
+      publicJwk: key.publicJwk,
+      createdAt: key.createdAt,
+      retiredAt: key.retiredAt
+    }));
+    await this.storage.setItem(KEYS_ITEM, JSON.stringify(stored));
+  }
+}
+
+/**
+ * RFC 7638 JWK thumbprint, used as the key ID
+ */
+function thumbprint(jwk: crypto.JsonWebKey): string {
+  const members = jwk.kty === 'EC'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+    : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+  return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
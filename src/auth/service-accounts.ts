@@ -0,0 +1,236 @@
+/**
+ * Service Accounts
+ *
+ * OAuth clients for machine-to-machine access (CI jobs, internal services)
+ * that authenticate with the client_credentials grant instead of borrowing a
+ * user's token. Admins create them with a fixed set of non-privileged scopes.
+ * Requests are attributed to the owning user, and to the owning organization's
+ * pool when one is set, for usage and billing.
+ *
+ * Service accounts are stored as OAuth clients in the session storage with
+ * their metadata under `client.serviceAccount`.
+ */
+
+import crypto from 'crypto';
+import * as OAuth2Server from '@node-oauth/oauth2-server';
+import { SessionStorage } from './session-storage.js';
+import { ConfigurableScopeManager, type ConfigurableScopeConfig } from './configurable-scopes.js';
+import type { OrganizationService } from '../services/organizations/organization-service.js';
+
+export const CLIENT_CREDENTIALS_GRANT = 'client_credentials';
+export const SERVICE_ACCOUNT_PROVIDER = 'service_account';
+
+export interface ServiceAccountConfig {
+  tokenLifetime?: number;              // Access token lifetime in seconds (default: 3600)
+  scopes?: ConfigurableScopeConfig;    // Custom scopes service accounts may be granted (privileged ones never)
+}
+
+export interface ServiceAccount {
+  clientId: string;
+  name: string;
+  ownerUserId: string;        // Usage and billing are attributed to this user
+  organizationId?: string;    // Bill this organization's pool instead (the owner must be a member)
+  scopes: string[];
+  createdBy: string;
+  createdAt: string;
+  secretRotatedAt?: string;
+}
+
+/**
+ * OAuth user behind a service account token
+ */
+export interface ServicePrincipal {
+  id: string;                 // `service:<clientId>`
+  principalType: 'service';
+  clientId: string;
+  name: string;
+  ownerUserId: string;
+  organizationId?: string;
+  provider: typeof SERVICE_ACCOUNT_PROVIDER;
+}
+
+export class ServiceAccountError extends Error {
+  constructor(message: string, public readonly code: 'NOT_FOUND' | 'BAD_REQUEST') {
+    super(message);
+    this.name = 'ServiceAccountError';
+  }
+}
+
+const INDEX_ITEM = 'oauth:service-accounts';
+
+export class ServiceAccountManager {
+  readonly tokenLifetime: number;
+  private scopeManager: ConfigurableScopeManager;
+
+  constructor(
+    private storage: SessionStorage,
+    config: ServiceAccountConfig = {},
+    private organizationService: OrganizationService | null = null
+  ) {
+    this.tokenLifetime = config.tokenLifetime ?? 3600;
+    this.scopeManager = new ConfigurableScopeManager(config.scopes);
+  }
+
+  /**
+   * Scopes a service account may hold: every non-privileged scope of
+   * DefaultScopes plus the configured custom scopes
+   */
+  allowedScopes(): string[] {
+    const scopes = new Set<string>();
+    for (const requirement of Object.values(this.scopeManager.getAllScopes())) {
+      if (requirement.privileged || requirement.requireAdminUser) {
+        continue;
+      }
+      [...(requirement.required || []), ...(requirement.anyOf || [])].forEach(scope => scopes.add(scope));
+    }
+    return Array.from(scopes).sort();
+  }
+
+  /**
+   * Create a service account; the client secret is only returned here and on rotation
+   * An organization account needs an owner who is a member of that organization.
+   */
+  async create(
+    input: { name: string; ownerUserId: string; organizationId?: string; scopes: string[] },
+    createdBy: string
+  ): Promise<{ account: ServiceAccount; clientSecret: string }> {
+    if (!input.name.trim() || !input.ownerUserId.trim()) {
+      throw new ServiceAccountError('Service accounts need a name and an owner', 'BAD_REQUEST');
+    }
+    this.assertScopesAllowed(input.scopes);
+    if (input.organizationId) {
+      await this.assertOwnerIsMember(input.ownerUserId, input.organizationId);
+    }
+
+    const account: ServiceAccount = {
+      clientId: `svc_${crypto.randomBytes(12).toString('hex')}`,
+      name: input.name.trim(),
+      ownerUserId: input.ownerUserId,
+      organizationId: input.organizationId || undefined,
+      scopes: Array.from(new Set(input.scopes)),
+      createdBy,
+      createdAt: new Date().toISOString()
+    };
+    const clientSecret = generateClientSecret();
+
+    await this.storage.setClient(account.clientId, this.toClient(account, clientSecret));
+    await this.saveIndex([...(await this.loadIndex()), account.clientId]);
+
+    console.log(`🤖 OAuth: Service account ${account.clientId} (${account.name}) created by ${createdBy}`);
+    return { account, clientSecret };
+  }
+
+  async get(clientId: string): Promise<ServiceAccount | null> {
+    const client = await this.storage.getClient(clientId);
+    return (client?.serviceAccount as ServiceAccount | undefined) ?? null;
+  }
+
+  async list(): Promise<ServiceAccount[]> {
+    const accounts = await Promise.all((await this.loadIndex()).map(clientId => this.get(clientId)));
+    return accounts.filter((account): account is ServiceAccount => account !== null);
+  }
+
+  /**
+   * Issue a new client secret; tokens issued with the old one stay valid until they expire
+   */
+  async rotateSecret(clientId: string): Promise<{ account: ServiceAccount; clientSecret: string }> {
+    const existing = await this.get(clientId);
+    if (!existing) {
+      throw new ServiceAccountError(`Service account ${clientId} not found`, 'NOT_FOUND');
+    }
+
+    const account = { ...existing, secretRotatedAt: new Date().toISOString() };
+    const clientSecret = generateClientSecret();
+    await this.storage.setClient(clientId, this.toClient(account, clientSecret));
+
+    console.log(`🔑 OAuth: Rotated secret of service account ${clientId}`);
+    return { account, clientSecret };
+  }
+
+  /**
+   * Delete a service account; its tokens stop authenticating on this server right away
+   */
+  async delete(clientId: string): Promise<boolean> {
+    if (!(await this.get(clientId))) {
+      return false;
+    }
+
+    await this.storage.deleteClient(clientId);
+    await this.saveIndex((await this.loadIndex()).filter(id => id !== clientId));
+
+    console.log(`🗑️ OAuth: Deleted service account ${clientId}`);
+    return true;
+  }
+
+  /**
+   * The user a client_credentials token is issued to
+   */
+  static principal(account: ServiceAccount): ServicePrincipal {
+    return {
+      id: `service:${account.clientId}`,
+      principalType: 'service',
+      clientId: account.clientId,
+      name: account.name,
+      ownerUserId: account.ownerUserId,
+      organizationId: account.organizationId,
+      provider: SERVICE_ACCOUNT_PROVIDER
+    };
+  }
+
+  /**
+   * Scopes for a token request: the requested ones if the account holds all of
+   * them, every scope of the account when none are requested, else false
+   */
+  static grantScopes(account: ServiceAccount, requested?: string[]): string[] | false {
+    if (!requested || requested.length === 0) {
+      return account.scopes;
+    }
+    return requested.every(scope => account.scopes.includes(scope)) ? requested : false;
+  }
+
+  private assertScopesAllowed(scopes: string[]): void {
+    if (scopes.length === 0) {
+      throw new ServiceAccountError('Service accounts need at least one scope', 'BAD_REQUEST');
+    }
+
+    const allowed = this.allowedScopes();
+    const rejected = scopes.filter(scope => !allowed.includes(scope));
+    if (rejected.length > 0) {
+      throw new ServiceAccountError(`Scopes not allowed for service accounts: ${rejected.join(', ')}`, 'BAD_REQUEST');
+    }
+  }
+
+  private async assertOwnerIsMember(ownerUserId: string, organizationId: string): Promise<void> {
+    if (!this.organizationService) {
+      throw new ServiceAccountError('Organizations are not enabled on this server', 'BAD_REQUEST');
+    }
+
+    if (!(await this.organizationService.getMembership(organizationId, ownerUserId))) {
+      throw new ServiceAccountError(`Owner ${ownerUserId} is not a member of organization ${organizationId}`, 'BAD_REQUEST');
+    }
+  }
+
+  private toClient(account: ServiceAccount, clientSecret: string): OAuth2Server.Client {
+    return {
+      id: account.clientId,
+      clientSecret,
+      grants: [CLIENT_CREDENTIALS_GRANT],
+      redirectUris: [],
+      accessTokenLifetime: this.tokenLifetime,
+      serviceAccount: account
+    };
+  }
+
+  private async loadIndex(): Promise<string[]> {
+    const stored = await this.storage.getItem(INDEX_ITEM);
+    return stored ? JSON.parse(stored) as string[] : [];
+  }
+
+  private async saveIndex(clientIds: string[]): Promise<void> {
+    await this.storage.setItem(INDEX_ITEM, JSON.stringify(clientIds));
+  }
+}
+
+function generateClientSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
@@ -60,6 +60,13 @@ export class UserManager {
    * Generate a stable device ID from device characteristics
    */
   generateDeviceId(machineId: string, additionalInfo?: any): string {
+    return UserManager.generateDeviceId(machineId, additionalInfo);
+  }
+
+  /**
+   * Device ID without a user database (e.g. trial abuse checks)
+   */
+  static generateDeviceId(machineId: string, additionalInfo?: any): string {
     const deviceInfo = {
       machineId,
       ...additionalInfo
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { UsageTracker, type UsageEvent } from './usage-tracker';
 import { PostgreSQLAdapter } from '../database/postgres-adapter';
+import { StripeClient, verifyStripeSignature } from '../services/billing/stripe-client';
 import winston from 'winston';
 
 export interface BillingEvent {
@@ -28,6 +29,17 @@ export interface BillingConfig {
   billingProvider: 'stripe' | 'lemonsqueezy' | 'opensaas';
   enableUsageBasedBilling: boolean;
   quotaWarningThresholds: number[]; // e.g., [80, 95] for 80% and 95% warnings
+  stripe?: {
+    secretKey: string;
+    apiBase?: string;                  // Default: 'https://api.stripe.com'
+    usageReportIntervalMs?: number;    // Metered usage reporting schedule (default: 1 hour)
+  };
+}
+
+export interface StripeUsageReportResult {
+  reported: number;                    // Subscription items that received a usage record
+  totalQuantity: number;               // Tokens reported across all items
+  failed: Array<{ userId: string; error: string }>;
 }
 
 export interface SubscriptionInfo {
@@ -48,11 +60,16 @@ export class BillingEngine {
   private usageTracker: UsageTracker;
   private config: BillingConfig;
   private logger: winston.Logger;
+  private stripe?: StripeClient;
+  private usageReportTimer?: NodeJS.Timeout;
 
   constructor(db: PostgreSQLAdapter, usageTracker: UsageTracker, config: BillingConfig) {
     this.db = db;
     this.usageTracker = usageTracker;
     this.config = config;
+    if (config.stripe?.secretKey) {
+      this.stripe = new StripeClient({ secretKey: config.stripe.secretKey, apiBase: config.stripe.apiBase });
+    }
 
     // Setup logging
     this.logger = winston.createLogger({
@@ -106,6 +123,8 @@ export class BillingEngine {
         amount REAL NOT NULL,
         currency TEXT NOT NULL,
         stripe_subscription_id TEXT,
+        stripe_customer_id TEXT,
+        stripe_subscription_item_id TEXT,
         lemonsqueezy_subscription_id TEXT,
         opensaas_subscription_id TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -123,6 +142,19 @@ export class BillingEngine {
       )
     `);
 
+    await this.db.execute(`
+      CREATE TABLE IF NOT EXISTS stripe_usage_reports (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        subscription_item_id TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        stripe_usage_record_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     await this.db.execute(`
       CREATE INDEX IF NOT EXISTS idx_billing_events_user_timestamp 
       ON billing_events(user_id, timestamp)
@@ -213,8 +245,10 @@ export class BillingEngine {
           provider: usageEvent.provider,
           model: usageEvent.model,
           tokens: usageEvent.totalTokens,
+          cachedInputTokens: usageEvent.cachedInputTokens,
           cost: usageEvent.cost,
-          platformFee: usageEvent.platformFee
+          platformFee: usageEvent.platformFee,
+          pricing: this.describePricing(usageEvent)
         }
       });
     }
@@ -223,6 +257,24 @@ export class BillingEngine {
     await this.checkQuotaAndAlert(usageEvent.userId);
   }
 
+  /**
+   * Catalog price applied to a usage event (kept on the billing event for audits)
+   */
+  private describePricing(usageEvent: UsageEvent): Record<string, any> {
+    const catalog = this.usageTracker.getPricingCatalog();
+    const price = catalog.getPrice(usageEvent.provider, usageEvent.model || 'default', usageEvent.timestamp)
+      ?? catalog.getDefaultPrice();
+
+    return {
+      model: price.model,
+      inputPerMillion: price.input,
+      outputPerMillion: price.output,
+      cachedInputPerMillion: price.cachedInput,
+      currency: price.currency,
+      effectiveFrom: price.effectiveFrom
+    };
+  }
+
   /**
    * Check user quota and send alerts
    */
@@ -391,14 +443,106 @@ export class BillingEngine {
 
   /**
    * Send billing event to Stripe
+   * Usage is not sent per event: reportStripeUsage() reports the aggregated
+   * usage per metered subscription item on a schedule.
    */
   private async sendToStripe(event: any, metadata: any): Promise<void> {
-    // Stripe integration would go here
-    // This is a placeholder for actual Stripe API calls
-    this.logger.info('Stripe billing integration not implemented yet', {
+    if (!this.stripe) {
+      throw new Error('Stripe secret key not configured');
+    }
+
+    this.logger.debug('Stripe billing event queued for the next usage report', {
       eventId: event.id,
-      type: event.type
+      type: event.type,
+      tokens: metadata.tokens
+    });
+  }
+
+  /**
+   * Report metered usage (tokens since the last report) to Stripe for every
+   * active subscription with a metered subscription item
+   */
+  async reportStripeUsage(until: Date = new Date()): Promise<StripeUsageReportResult> {
+    if (!this.stripe) {
+      throw new Error('Stripe secret key not configured');
+    }
+
+    const subscriptions = await this.db.all(
+      `SELECT user_id, stripe_subscription_item_id, billing_period_start FROM subscription_info
+       WHERE stripe_subscription_item_id IS NOT NULL AND status = 'active'`
+    );
+    const result: StripeUsageReportResult = { reported: 0, totalQuantity: 0, failed: [] };
+
+    for (const subscription of subscriptions) {
+      const userId = subscription.user_id;
+      const subscriptionItemId = subscription.stripe_subscription_item_id;
+
+      try {
+        const lastReport = await this.db.get(
+          'SELECT MAX(period_end) as period_end FROM stripe_usage_reports WHERE subscription_item_id = ?',
+          [subscriptionItemId]
+        );
+        const since = new Date(lastReport?.period_end ?? subscription.billing_period_start);
+        const usage = await this.usageTracker.getUsageTotals(userId, since, until);
+        if (usage.totalTokens === 0) {
+          continue;
+        }
+
+        // The idempotency key makes a retried report for the same window count once
+        const record = await this.stripe.createUsageRecord(
+          subscriptionItemId,
+          { quantity: usage.totalTokens, timestamp: until },
+          `usage_${subscriptionItemId}_${since.getTime()}_${until.getTime()}`
+        );
+
+        await this.db.execute(
+          `INSERT INTO stripe_usage_reports (
+            id, user_id, subscription_item_id, quantity, period_start, period_end, stripe_usage_record_id
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            `ur_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            userId,
+            subscriptionItemId,
+            usage.totalTokens,
+            since.toISOString(),
+            until.toISOString(),
+            record.id
+          ]
+        );
+
+        result.reported++;
+        result.totalQuantity += usage.totalTokens;
+      } catch (error: any) {
+        this.logger.error('Failed to report Stripe usage', { error: error.message, userId, subscriptionItemId });
+        result.failed.push({ userId, error: error.message });
+      }
+    }
+
+    this.logger.info(`Reported Stripe usage for ${result.reported} subscriptions (${result.totalQuantity} tokens)`, {
+      reported: result.reported,
+      failed: result.failed.length
     });
+    return result;
+  }
+
+  /**
+   * Report metered usage to Stripe on a schedule (default: hourly)
+   */
+  startStripeUsageReporting(intervalMs = this.config.stripe?.usageReportIntervalMs ?? 60 * 60 * 1000): void {
+    this.stopStripeUsageReporting();
+    this.usageReportTimer = setInterval(() => {
+      this.reportStripeUsage().catch((error: any) => {
+        this.logger.error('Scheduled Stripe usage report failed', { error: error.message });
+      });
+    }, intervalMs);
+    this.usageReportTimer.unref?.();
+  }
+
+  stopStripeUsageReporting(): void {
+    if (this.usageReportTimer) {
+      clearInterval(this.usageReportTimer);
+      this.usageReportTimer = undefined;
+    }
   }
 
   /**
@@ -648,6 +792,11 @@ export class BillingEngine {
         throw new Error('Invalid webhook signature');
       }
 
+      // Raw bodies (needed for signature checks) are parsed after verification
+      if (typeof payload === 'string' || Buffer.isBuffer(payload)) {
+        payload = JSON.parse(payload.toString());
+      }
+
       // Process based on provider and event type
       switch (provider) {
         case 'opensaas':
@@ -677,8 +826,15 @@ export class BillingEngine {
    * Verify webhook signature
    */
   private verifyWebhookSignature(provider: string, payload: any, signature?: string): boolean {
-    // Implement signature verification based on provider
-    // This is a placeholder - actual implementation depends on provider
+    if (provider === 'stripe' && this.config.stripeWebhookSecret) {
+      // Stripe signs the raw body; a parsed payload cannot be verified
+      if (typeof payload !== 'string' && !Buffer.isBuffer(payload)) {
+        return false;
+      }
+      return verifyStripeSignature(payload, signature, this.config.stripeWebhookSecret);
+    }
+
+    // Other providers: signature verification is not implemented yet
     return true;
   }
 
@@ -707,10 +863,80 @@ export class BillingEngine {
 
   /**
    * Process Stripe webhook
+   * Subscriptions carry the user ID in metadata.user_id (set at checkout).
    */
   private async processStripeWebhook(payload: any): Promise<void> {
-    // Stripe webhook processing would go here
-    this.logger.info('Stripe webhook processing not implemented yet', { type: payload.type });
+    const object = payload.data?.object ?? {};
+
+    switch (payload.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await this.handleStripeSubscription(object);
+        break;
+      case 'invoice.paid':
+      case 'invoice.payment_failed': {
+        const userId = await this.findStripeUser(object);
+        if (!userId) {
+          this.logger.warn(`No user for Stripe invoice ${object.id}`, { type: payload.type });
+          break;
+        }
+
+        if (payload.type === 'invoice.paid') {
+          await this.handlePaymentSuccess({ userId, amount: object.amount_paid / 100, currency: object.currency });
+        } else {
+          await this.handlePaymentFailure({
+            userId,
+            amount: object.amount_due / 100,
+            currency: object.currency,
+            reason: object.last_finalization_error?.message ?? 'payment_failed',
+            attemptCount: object.attempt_count
+          });
+        }
+        break;
+      }
+      default:
+        this.logger.info('Ignoring Stripe webhook', { type: payload.type });
+    }
+  }
+
+  /**
+   * Store Stripe IDs (customer, subscription, metered item) and status on the subscription
+   */
+  private async handleStripeSubscription(subscription: any): Promise<void> {
+    const userId = subscription.metadata?.user_id ?? await this.findStripeUser({ subscription: subscription.id });
+    if (!userId) {
+      throw new Error(`Stripe subscription ${subscription.id} has no user reference`);
+    }
+
+    const meteredItem = subscription.items?.data?.find((item: any) => item.price?.recurring?.usage_type === 'metered');
+    const status = subscription.status === 'trialing' ? 'trial'
+      : subscription.status === 'canceled' ? 'cancelled'
+      : subscription.status === 'incomplete_expired' ? 'expired'
+      : 'active';
+
+    const { changes } = await this.db.execute(
+      `UPDATE subscription_info 
+       SET stripe_subscription_id = ?, stripe_customer_id = ?, stripe_subscription_item_id = ?,
+           status = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = ?`,
+      [subscription.id, subscription.customer, meteredItem?.id ?? null, status, userId]
+    );
+
+    if (changes === 0) {
+      this.logger.warn(`No subscription info for user ${userId}, Stripe subscription ${subscription.id} not linked`);
+    }
+  }
+
+  private async findStripeUser(object: { subscription?: string; subscription_details?: any }): Promise<string | undefined> {
+    if (object.subscription_details?.metadata?.user_id) {
+      return object.subscription_details.metadata.user_id;
+    }
+    const row = await this.db.get(
+      'SELECT user_id FROM subscription_info WHERE stripe_subscription_id = ?',
+      [object.subscription]
+    );
+    return row?.user_id;
   }
 
   /**
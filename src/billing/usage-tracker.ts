@@ -1,5 +1,6 @@
 import { PostgreSQLAdapter } from '../database/postgres-adapter';
 import winston from 'winston';
+import { PricingCatalog, getDefaultPricingCatalog } from '../services/billing/pricing-catalog';
 
 export interface UsageEvent {
   userId: string;
@@ -10,10 +11,13 @@ export interface UsageEvent {
   model?: string;
   inputTokens: number;
   outputTokens: number;
+  cachedInputTokens?: number;
   totalTokens: number;
   cost: number;
   platformFee: number;
   totalCost: number;
+  currency?: string;
+  priceEffectiveFrom?: string;
   timestamp: Date;
   metadata?: Record<string, any>;
 }
@@ -55,36 +59,16 @@ export interface QuotaStatus {
   estimatedDaysRemaining?: number;
 }
 
-/**
- * AI Provider pricing per 1K tokens (input/output)
- */
-export const PROVIDER_PRICING = {
-  anthropic: {
-    'claude-3-sonnet': { input: 0.003, output: 0.015 },
-    'claude-3-haiku': { input: 0.00025, output: 0.00125 },
-    'claude-3-opus': { input: 0.015, output: 0.075 },
-    'claude-3.5-sonnet': { input: 0.003, output: 0.015 }
-  },
-  openai: {
-    'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-3.5-turbo': { input: 0.0015, output: 0.002 },
-    'gpt-4o': { input: 0.005, output: 0.015 }
-  },
-  google: {
-    'gemini-pro': { input: 0.0005, output: 0.0015 },
-    'gemini-pro-vision': { input: 0.00025, output: 0.0005 }
-  }
-} as const;
-
 export class UsageTracker {
   private db: PostgreSQLAdapter;
   private logger: winston.Logger;
   private platformFeePercentage: number;
+  private pricingCatalog: PricingCatalog;
 
-  constructor(db: PostgreSQLAdapter, platformFeePercentage: number = 0.20) {
+  constructor(db: PostgreSQLAdapter, platformFeePercentage: number = 0.20, pricingCatalog?: PricingCatalog) {
     this.db = db;
     this.platformFeePercentage = platformFeePercentage;
+    this.pricingCatalog = pricingCatalog ?? getDefaultPricingCatalog();
     
     // Setup logging
     this.logger = winston.createLogger({
@@ -160,51 +144,50 @@ export class UsageTracker {
   /**
    * Calculate cost for a provider/model combination
    */
-  calculateCost(provider: string, model: string, inputTokens: number, outputTokens: number): { cost: number; platformFee: number; totalCost: number } {
-    const providerPricing = PROVIDER_PRICING[provider as keyof typeof PROVIDER_PRICING];
-    
-    if (!providerPricing) {
-      this.logger.warn(`Unknown provider: ${provider}, using default pricing`);
-      // Default pricing fallback
-      const cost = (inputTokens + outputTokens) * 0.001; // $0.001 per 1K tokens
-      const platformFee = cost * this.platformFeePercentage;
-      return { cost, platformFee, totalCost: cost + platformFee };
+  calculateCost(
+    provider: string,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    cachedInputTokens = 0
+  ): { cost: number; platformFee: number; totalCost: number; currency: string; priceEffectiveFrom: string } {
+    const estimate = this.pricingCatalog.calculateCost(provider, model, { inputTokens, outputTokens, cachedInputTokens });
+
+    if (!estimate.matched) {
+      this.logger.warn(`No pricing for ${provider}/${model}, using catalog default pricing`);
     }
 
-    const modelPricing = providerPricing[model as keyof typeof providerPricing] as { input: number; output: number } | undefined;
-    
-    if (!modelPricing) {
-      this.logger.warn(`Unknown model ${model} for provider ${provider}, using average pricing`);
-      // Use average pricing for the provider
-      const models = Object.values(providerPricing) as { input: number; output: number }[];
-      const avgInput = models.reduce((sum, m) => sum + m.input, 0) / models.length;
-      const avgOutput = models.reduce((sum, m) => sum + m.output, 0) / models.length;
-      const cost = (inputTokens / 1000) * avgInput + (outputTokens / 1000) * avgOutput;
-      const platformFee = cost * this.platformFeePercentage;
-      return { cost, platformFee, totalCost: cost + platformFee };
-    }
+    const platformFee = estimate.cost * this.platformFeePercentage;
 
-    // Calculate exact cost
-    const cost = (inputTokens / 1000) * modelPricing.input + (outputTokens / 1000) * modelPricing.output;
-    const platformFee = cost * this.platformFeePercentage;
-    
     return {
-      cost: Number(cost.toFixed(6)),
+      cost: estimate.cost,
       platformFee: Number(platformFee.toFixed(6)),
-      totalCost: Number((cost + platformFee).toFixed(6))
+      totalCost: Number((estimate.cost + platformFee).toFixed(6)),
+      currency: estimate.currency,
+      priceEffectiveFrom: estimate.price.effectiveFrom
     };
   }
 
+  /**
+   * Pricing catalog used for cost calculation
+   */
+  getPricingCatalog(): PricingCatalog {
+    return this.pricingCatalog;
+  }
+
   /**
    * Record a usage event
    */
-  async recordUsage(event: Omit<UsageEvent, 'totalTokens' | 'cost' | 'platformFee' | 'totalCost'>): Promise<UsageEvent> {
+  async recordUsage(
+    event: Omit<UsageEvent, 'totalTokens' | 'cost' | 'platformFee' | 'totalCost' | 'currency' | 'priceEffectiveFrom'>
+  ): Promise<UsageEvent> {
     const totalTokens = event.inputTokens + event.outputTokens;
-    const { cost, platformFee, totalCost } = this.calculateCost(
+    const { cost, platformFee, totalCost, currency, priceEffectiveFrom } = this.calculateCost(
       event.provider,
       event.model || 'default',
       event.inputTokens,
-      event.outputTokens
+      event.outputTokens,
+      event.cachedInputTokens
     );
 
     const fullEvent: UsageEvent = {
@@ -212,7 +195,9 @@ export class UsageTracker {
       totalTokens,
       cost,
       platformFee,
-      totalCost
+      totalCost,
+      currency,
+      priceEffectiveFrom
     };
 
     try {
@@ -397,6 +382,27 @@ export class UsageTracker {
     };
   }
 
+  /**
+   * Usage totals for a user in [since, until) - e.g. for metered billing reports
+   */
+  async getUsageTotals(userId: string, since: Date, until: Date): Promise<{ totalTokens: number; totalCost: number; requestCount: number }> {
+    const totals = await this.db.get(
+      `SELECT 
+        SUM(total_tokens) as total_tokens,
+        SUM(total_cost) as total_cost,
+        COUNT(*) as request_count
+      FROM usage_events 
+      WHERE user_id = ? AND timestamp >= ? AND timestamp < ?`,
+      [userId, since.toISOString(), until.toISOString()]
+    );
+
+    return {
+      totalTokens: Number(totals?.total_tokens) || 0,
+      totalCost: Number(totals?.total_cost) || 0,
+      requestCount: Number(totals?.request_count) || 0
+    };
+  }
+
   /**
    * Check if user has exceeded quota
    */
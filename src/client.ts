@@ -15,7 +15,8 @@
  * ```
  */
 
-import { JSONRPCClient } from 'json-rpc-2.0';
+import { JSONRPCClient, createJSONRPCRequest, createJSONRPCNotification } from 'json-rpc-2.0';
+import type { JSONRPCRequest, JSONRPCResponse } from 'json-rpc-2.0';
 import { createTRPCProxyClient, type CreateTRPCClientOptions } from '@trpc/client';
 import type { AppRouter } from './trpc/root';
 import type { AIRouterType } from './trpc/routers/ai';
@@ -24,6 +25,18 @@ export interface ClientOptions {
   timeout?: number;
 }
 
+export interface BatchCall {
+  method: string;
+  params?: any;
+  notification?: boolean;   // Fire-and-forget: no entry in the batch result
+}
+
+export interface BatchResult {
+  method: string;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
 /**
  * Platform-agnostic JSON-RPC client for backend servers
  * 
@@ -35,6 +48,7 @@ export class RPCClient {
   private baseUrl: string;
   private rpcEndpoint: string;
   private timeout: number;
+  private batchCounter = 0;
 
   constructor(baseUrl = 'http://localhost:8000', options: ClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
@@ -82,6 +96,66 @@ export class RPCClient {
     await this.client.notify(method, params);
   }
 
+  /**
+   * Send several calls as one JSON-RPC batch request
+   *
+   * Returns one entry per non-notification call, in call order. Errors are
+   * reported per entry instead of rejecting the whole batch.
+   *
+   * ```typescript
+   * const [health, models] = await client.batch([
+   *   { method: 'ai.health' },
+   *   { method: 'ai.listProviders' },
+   *   { method: 'system.ping', notification: true }
+   * ]);
+   * ```
+   */
+  async batch(calls: BatchCall[]): Promise<BatchResult[]> {
+    const batchId = ++this.batchCounter;
+    const requests: JSONRPCRequest[] = calls.map((call, index) => call.notification
+      ? createJSONRPCNotification(call.method, call.params)
+      : createJSONRPCRequest(`batch-${batchId}-${index}`, call.method, call.params));
+
+    let data: any;
+    try {
+      const axios = (await import('axios')).default;
+      const response = await axios.post(this.rpcEndpoint, requests, {
+        timeout: this.timeout,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+      data = response.data;
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+        throw new Error(`Cannot connect to backend server at ${this.baseUrl}. Please ensure the server is running.`);
+      } else if (error.code === 'ETIMEDOUT') {
+        throw new Error(`Request timeout after ${this.timeout}ms. Server may be overloaded.`);
+      }
+      throw error;
+    }
+
+    // The whole batch was rejected (e.g. too many calls)
+    if (data && !Array.isArray(data) && data.error) {
+      throw new Error(`Batch rejected: ${data.error.message}${data.error.data ? ` (${data.error.data})` : ''}`);
+    }
+
+    const responses: JSONRPCResponse[] = Array.isArray(data) ? data : [];
+    const byId = new Map(responses.map(response => [response.id, response]));
+    return requests.flatMap((request, index) => {
+      if (request.id === undefined) {
+        return [];
+      }
+      const response = byId.get(request.id);
+      if (!response) {
+        return [{ method: calls[index].method, error: { code: -32603, message: 'No response for batch item' } }];
+      }
+      return [response.error
+        ? { method: calls[index].method, error: response.error }
+        : { method: calls[index].method, result: response.result }];
+    });
+  }
+
   /**
    * Get current configuration
    */
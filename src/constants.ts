@@ -11,6 +11,8 @@ export const RPC_METHODS = {
   // Core AI Methods
   HEALTH: 'health',
   GENERATE_TEXT: 'ai.generateText',
+  STREAM_TEXT: 'ai.streamText',
+  GENERATE_OBJECT: 'ai.generateObject',
   
   // Authentication Methods
   INITIALIZE_SESSION: 'initializeSession',
@@ -41,6 +43,8 @@ export const TRPC_METHODS = {
   // AI Router methods
   AI_HEALTH: 'ai.health',
   AI_GENERATE_TEXT: 'ai.generateText',
+  AI_STREAM_TEXT: 'ai.streamText',
+  AI_GENERATE_OBJECT: 'ai.generateObject',
   AI_LIST_PROVIDERS: 'ai.listProviders',
   AI_LIST_PROVIDERS_BYOK: 'ai.listProvidersBYOK',
   AI_GET_REGISTRY_HEALTH: 'ai.getRegistryHealth',
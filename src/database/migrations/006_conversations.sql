@@ -0,0 +1,30 @@
+-- Conversations Migration
+-- Server-side conversation threads with persistent message history
+
+-- Conversation threads (scoped per user)
+CREATE TABLE IF NOT EXISTS conversation_threads (
+    id VARCHAR(255) PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    title VARCHAR(500),
+    parent_thread_id VARCHAR(255), -- Source thread when forked
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Messages in a thread, ordered by seq
+CREATE TABLE IF NOT EXISTS conversation_messages (
+    seq BIGSERIAL PRIMARY KEY,
+    id VARCHAR(255) NOT NULL UNIQUE,
+    thread_id VARCHAR(255) NOT NULL REFERENCES conversation_threads(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+    content TEXT NOT NULL,
+    tool_call_id VARCHAR(255),
+    tool_name VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_conversation_threads_user_id ON conversation_threads(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_threads_updated_at ON conversation_threads(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_thread_id ON conversation_messages(thread_id, seq);
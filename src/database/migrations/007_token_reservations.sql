@@ -0,0 +1,27 @@
+-- Token Reservations
+-- Migration: 007_token_reservations.sql
+-- Holds the estimated maximum charge before an AI request, then captures the
+-- actual usage and releases the remainder (authorize-then-capture)
+
+CREATE TABLE IF NOT EXISTS token_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL,
+  request_id VARCHAR(255),
+  method VARCHAR(100),
+  reserved_tokens BIGINT NOT NULL,      -- Held from virtual_token_balance (includes platform fee)
+  captured_tokens BIGINT,               -- Charged on capture (actual usage + platform fee)
+  status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'captured', 'released', 'expired')),
+  expires_at TIMESTAMP NOT NULL,        -- Stale holds are returned to the balance after this
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  settled_at TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES user_token_accounts(user_id) ON DELETE CASCADE
+);
+
+-- Reservation events in the usage log (hold, capture, release, expire)
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS event_type VARCHAR(20) NOT NULL DEFAULT 'usage';
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS reservation_id UUID;
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS reserved_tokens BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_token_reservations_user_status ON token_reservations(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_token_reservations_expiry ON token_reservations(expires_at) WHERE status = 'held';
+CREATE INDEX IF NOT EXISTS idx_token_usage_reservation ON token_usage_log(reservation_id);
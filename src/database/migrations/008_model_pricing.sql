@@ -0,0 +1,17 @@
+-- Model Pricing
+-- Migration: 008_model_pricing.sql
+-- Admin-managed model prices, merged over the bundled pricing catalog
+-- (src/data/model-pricing.json) at startup
+
+CREATE TABLE IF NOT EXISTS model_pricing (
+  provider VARCHAR(100) NOT NULL,
+  model VARCHAR(255) NOT NULL,               -- '*' is the provider default
+  input_per_million NUMERIC(12, 6) NOT NULL,
+  output_per_million NUMERIC(12, 6) NOT NULL,
+  cached_input_per_million NUMERIC(12, 6),   -- NULL = billed at the input price
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  effective_from DATE NOT NULL,
+  updated_by VARCHAR(255),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (provider, model, effective_from)
+);
@@ -0,0 +1,7 @@
+-- Billing Rules
+-- Migration: 009_billing_rules.sql
+-- Records which billing rule (model multiplier, platform fee, minimum charge,
+-- purchase grant) produced each deduction and top-up
+
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS billing_rule JSONB;
+ALTER TABLE token_topups ADD COLUMN IF NOT EXISTS billing_rule JSONB;
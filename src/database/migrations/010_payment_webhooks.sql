@@ -0,0 +1,42 @@
+-- Payment Webhooks
+-- Migration: 010_payment_webhooks.sql
+-- Idempotent webhook event log (replayable), subscription lifecycle state,
+-- refund claw-backs on top-ups and frozen token accounts
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(50) NOT NULL,            -- 'lemonsqueezy', 'stripe'
+  event_key VARCHAR(255) NOT NULL,          -- Provider event ID, or hash of the raw body
+  event_name VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'failed', 'ignored')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  processed_at TIMESTAMP,
+  UNIQUE (provider, event_key)
+);
+
+CREATE TABLE IF NOT EXISTS billing_subscriptions (
+  provider VARCHAR(50) NOT NULL,
+  subscription_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  variant_id VARCHAR(255),
+  plan VARCHAR(100),
+  status VARCHAR(50) NOT NULL,              -- Provider status: active, past_due, cancelled, expired, ...
+  renews_at TIMESTAMP,
+  ends_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (provider, subscription_id)
+);
+
+ALTER TABLE token_topups ADD COLUMN IF NOT EXISTS refunded_tokens BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE token_topups ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+
+ALTER TABLE user_token_accounts ADD COLUMN IF NOT EXISTS frozen_at TIMESTAMP;
+ALTER TABLE user_token_accounts ADD COLUMN IF NOT EXISTS frozen_reason VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status ON payment_webhook_events(provider, status);
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_user ON billing_subscriptions(user_id);
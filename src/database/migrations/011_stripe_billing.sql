@@ -0,0 +1,9 @@
+-- Stripe Billing
+-- Migration: 011_stripe_billing.sql
+-- Stripe customer and subscription item on billing subscriptions
+-- (the subscription item receives metered usage records)
+
+ALTER TABLE billing_subscriptions ADD COLUMN IF NOT EXISTS customer_id VARCHAR(255);
+ALTER TABLE billing_subscriptions ADD COLUMN IF NOT EXISTS subscription_item_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_customer ON billing_subscriptions(provider, customer_id);
@@ -0,0 +1,47 @@
+-- Spending Budgets
+-- Migration: 012_spending_budgets.sql
+-- Daily/monthly USD or token caps per user, API key and organization,
+-- the spend ledger they are checked against and sent soft-cap alerts
+
+CREATE TABLE IF NOT EXISTS spending_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('user', 'api_key', 'organization')),
+  scope_id VARCHAR(255) NOT NULL,           -- User ID, API key fingerprint or organization ID
+  period VARCHAR(20) NOT NULL CHECK (period IN ('daily', 'monthly')),
+  unit VARCHAR(10) NOT NULL CHECK (unit IN ('usd', 'tokens')),
+  limit_amount DECIMAL(16,6) NOT NULL CHECK (limit_amount > 0),
+  alert_thresholds JSONB,                   -- Percentages; NULL uses the server default
+  hard_cap BOOLEAN NOT NULL DEFAULT TRUE,   -- Block requests that would exceed the limit
+  self_imposed BOOLEAN NOT NULL DEFAULT FALSE, -- Set by the user; also applies to BYOK requests
+  created_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (scope, scope_id, period, unit, self_imposed)
+);
+
+-- One row per billed request, tagged with every scope it counts against
+CREATE TABLE IF NOT EXISTS budget_spend (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255),
+  api_key_id VARCHAR(255),
+  organization_id VARCHAR(255),
+  byok BOOLEAN NOT NULL DEFAULT FALSE,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DECIMAL(12,6) NOT NULL DEFAULT 0,
+  request_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES spending_budgets(id) ON DELETE CASCADE,
+  threshold_percentage INTEGER NOT NULL,
+  period_start TIMESTAMP NOT NULL,
+  sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (budget_id, threshold_percentage, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spending_budgets_scope ON spending_budgets(scope, scope_id);
+CREATE INDEX IF NOT EXISTS idx_budget_spend_user ON budget_spend(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_budget_spend_api_key ON budget_spend(api_key_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_budget_spend_organization ON budget_spend(organization_id, created_at);
@@ -0,0 +1,51 @@
+-- Organizations
+-- Migration: 013_organizations.sql
+-- Teams with roles, seat limits and invitations. Members draw from a shared
+-- token pool (the 'org:<id>' row in user_token_accounts) within their monthly limit.
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  seat_limit INTEGER CHECK (seat_limit > 0),   -- NULL = unlimited; counts members plus pending invitations
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  monthly_token_limit INTEGER CHECK (monthly_token_limit >= 0), -- NULL = no sub-limit
+  joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'member')),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,      -- SHA-256 of the invitation token
+  invited_by VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  accepted_by VARCHAR(255),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Tokens each member drew from the shared pool (for per-member limits)
+CREATE TABLE IF NOT EXISTS organization_token_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  tokens INTEGER NOT NULL,
+  request_id VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_org ON organization_invitations(organization_id);
+CREATE INDEX IF NOT EXISTS idx_organization_token_usage_member ON organization_token_usage(organization_id, user_id, created_at);
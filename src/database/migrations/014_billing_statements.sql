@@ -0,0 +1,29 @@
+-- Billing Statements
+-- Migration: 014_billing_statements.sql
+-- Monthly statements (usage by provider/model/method, top-ups and refunds).
+-- Closed statements are snapshots and cannot be changed or deleted.
+
+CREATE TABLE IF NOT EXISTS billing_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR(255) NOT NULL,
+  period VARCHAR(7) NOT NULL,                 -- 'YYYY-MM' (UTC)
+  period_start TIMESTAMP NOT NULL,
+  period_end TIMESTAMP NOT NULL,
+  statement JSONB NOT NULL,                   -- Statement as returned by billing.getStatement
+  closed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_statements_period ON billing_statements(period);
+
+CREATE OR REPLACE FUNCTION prevent_closed_statement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Billing statement % is closed and cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS billing_statements_immutable ON billing_statements;
+CREATE TRIGGER billing_statements_immutable
+  BEFORE UPDATE OR DELETE ON billing_statements
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_statement_changes();
@@ -0,0 +1,43 @@
+-- Combined Usage
+-- Migration: 015_combined_usage.sql
+-- One view over BYOK usage (usage_analytics) and platform-paid usage
+-- (token_usage_log) for the usage query and export API
+
+ALTER TABLE usage_analytics ADD COLUMN IF NOT EXISTS organization_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_usage_analytics_organization ON usage_analytics(organization_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_token_usage_log_timestamp ON token_usage_log(timestamp);
+
+CREATE OR REPLACE VIEW combined_usage AS
+  SELECT
+    user_id,
+    organization_id,
+    user_type,
+    provider,
+    model,
+    method,
+    input_tokens,
+    output_tokens,
+    total_tokens,
+    0 AS tokens_charged,
+    COALESCE(estimated_cost_usd, 0) AS estimated_cost_usd,
+    timestamp
+  FROM usage_analytics
+  WHERE user_type = 'byok'
+  UNION ALL
+  SELECT
+    user_id,
+    -- Shared organization pools are the 'org:<id>' accounts
+    CASE WHEN user_id LIKE 'org:%' THEN SUBSTRING(user_id FROM 5) END AS organization_id,
+    'subscription' AS user_type,
+    provider,
+    model,
+    method,
+    input_tokens,
+    output_tokens,
+    total_tokens,
+    virtual_tokens_deducted AS tokens_charged,
+    0 AS estimated_cost_usd,
+    timestamp
+  FROM token_usage_log
+  WHERE event_type IN ('usage', 'capture');
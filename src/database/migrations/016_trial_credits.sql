@@ -0,0 +1,18 @@
+-- Trial Credits
+-- Migration: 016_trial_credits.sql
+-- One-time free trial grants for new users, limited to one per
+-- verified e-mail address and one per device
+
+CREATE TABLE IF NOT EXISTS trial_credits (
+  user_id VARCHAR(255) PRIMARY KEY,
+  email_hash VARCHAR(64) UNIQUE,            -- SHA-256 of the normalized e-mail
+  device_hash VARCHAR(64) UNIQUE,           -- UserManager.generateDeviceId of the X-Device-Id header
+  tokens_granted INTEGER NOT NULL CHECK (tokens_granted > 0),
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  requests_granted INTEGER,                 -- NULL: no request cap
+  requests_used INTEGER NOT NULL DEFAULT 0,
+  granted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_credits_expires ON trial_credits(expires_at);
@@ -0,0 +1,11 @@
+-- Webhook Event Claims
+-- Migration: 017_webhook_event_claims.sql
+-- Deliveries claim an event ('processing') before handling it, so concurrent
+-- deliveries of the same event are not processed twice. Claims older than the
+-- claim timeout are taken over (the worker holding them is assumed dead).
+
+ALTER TABLE payment_webhook_events DROP CONSTRAINT IF EXISTS payment_webhook_events_status_check;
+ALTER TABLE payment_webhook_events ADD CONSTRAINT payment_webhook_events_status_check
+  CHECK (status IN ('received', 'processing', 'processed', 'failed', 'ignored'));
+
+ALTER TABLE payment_webhook_events ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP;
@@ -0,0 +1,7 @@
+-- Budget Spend Holds
+-- Migration: 018_budget_spend_holds.sql
+-- Requests hold their estimated spend in budget_spend (held_until set) while
+-- they run, and settle it with the actual spend (held_until cleared) when they
+-- finish. Holds of requests that never settle stop counting once they expire.
+
+ALTER TABLE budget_spend ADD COLUMN IF NOT EXISTS held_until TIMESTAMP;
@@ -0,0 +1,25 @@
+-- Stripe Metered Usage
+-- Migration: 019_stripe_metered_usage.sql
+-- Requests of metered Stripe subscribers are logged with the subscription item
+-- they bill to. The usage reporter claims unreported rows into a report and
+-- sends it to Stripe as a usage record; pending reports are retried with the
+-- same idempotency key until Stripe accepts them.
+
+CREATE TABLE IF NOT EXISTS stripe_usage_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_item_id VARCHAR(255) NOT NULL,
+  quantity BIGINT NOT NULL,                 -- Tokens charged (billing rules applied)
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reported')),
+  stripe_usage_record_id VARCHAR(255),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  reported_at TIMESTAMP
+);
+
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS stripe_subscription_item_id VARCHAR(255);
+ALTER TABLE token_usage_log ADD COLUMN IF NOT EXISTS stripe_usage_report_id UUID REFERENCES stripe_usage_reports(id);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_log_unreported_metered
+  ON token_usage_log(stripe_subscription_item_id) WHERE stripe_subscription_item_id IS NOT NULL AND stripe_usage_report_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_stripe_usage_reports_pending ON stripe_usage_reports(status) WHERE status = 'pending';
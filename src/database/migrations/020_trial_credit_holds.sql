@@ -0,0 +1,14 @@
+-- Trial Credit Holds
+-- Migration: 020_trial_credit_holds.sql
+-- Trial requests hold their estimated tokens until they finish, so parallel
+-- requests cannot spend the same credits. Holds past held_until belong to
+-- requests that never finished and no longer count.
+
+CREATE TABLE IF NOT EXISTS trial_credit_holds (
+  id UUID PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL REFERENCES trial_credits(user_id) ON DELETE CASCADE,
+  tokens INTEGER NOT NULL CHECK (tokens >= 0),
+  held_until TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_trial_credit_holds_user ON trial_credit_holds(user_id, held_until);
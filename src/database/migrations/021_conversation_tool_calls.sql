@@ -0,0 +1,6 @@
+-- Conversation Tool Calls
+-- Migration: 021_conversation_tool_calls.sql
+-- Assistant turns keep the tool calls they made, so replayed threads still
+-- pair each tool result with the call it answers.
+
+ALTER TABLE conversation_messages ADD COLUMN IF NOT EXISTS tool_calls JSONB;
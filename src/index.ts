@@ -14,7 +14,7 @@ export { createTypedAIClient } from './client';
 export type { TypedAIClient } from './client';
 export { AIService } from './services/ai/ai-service';      // Direct AI service usage
 export { generateTRPCMethods, createAppRouter } from './trpc/root';
-export { router, publicProcedure, protectedProcedure } from './trpc/index';
+export { router, publicProcedure, protectedProcedure, userProcedure } from './trpc/index';
 // export { createTestRouter } from './trpc/test-router';
 // OpenAPI-related exports temporarily disabled
 // export { 
@@ -86,8 +86,10 @@ export { RefMCPIntegration, VSCodeRefIntegration } from './services/mcp/ref-mcp-
 // Remote MCP Client & Manager - Connect to external MCP servers
 export { RemoteMCPClient, createRemoteMCPClient } from './mcp/remote-mcp-client';
 export { RemoteMCPManager, createRemoteMCPManager } from './mcp/remote-mcp-manager';
+export { RemoteMCPGateway, createRemoteMCPGateway } from './mcp/remote-mcp-gateway';
 export type { RemoteMCPServerConfig, RemoteMCPTransport, MCPMessage } from './mcp/remote-mcp-client';
 export type { RemoteMCPManagerConfig, RemoteServerStatus } from './mcp/remote-mcp-manager';
+export type { RemoteMCPGatewayConfig, RemoteMCPGatewayServerOptions } from './mcp/remote-mcp-gateway';
 
 // MCP Security Scanner - Scan MCP packages for security risks
 export { scanMCPServerPackage } from './security/mcp-server-scanner';
@@ -145,14 +147,23 @@ export {
   AIKeyValidator
 } from './auth/index';
 
+// API key storage adapters
+export { StorageFactory, PostgreSQLStorageAdapter } from './storage/index';
+export type { StorageAdapter, StorageConfig, PostgreSQLStorageConfig } from './storage/index';
+
 // Re-export legacy types
 export type {
-  ClientOptions
+  ClientOptions,
+  BatchCall,
+  BatchResult
 } from './client';
 
 export type {
-  AIServiceConfig
+  AIServiceConfig,
+  ExecuteAttempt
 } from './services/ai/ai-service';
+export { AIProviderError } from './services/ai/provider-failover';
+export type { ProviderFailoverConfig, CircuitState } from './services/ai/provider-failover';
 
 // New progressive authentication types
 export type {
@@ -282,8 +293,54 @@ export {
 // Rate limiting
 export { RateLimiter, DEFAULT_TIER_LIMITS } from './middleware/rate-limiter';
 
+// Server-side conversation threads
+export {
+  ConversationService,
+  InMemoryConversationStore,
+  FileConversationStore,
+  PostgreSQLConversationStore,
+  createConversationStore
+} from './services/conversations';
+export type {
+  ConversationStore,
+  ConversationThread,
+  ConversationMessage,
+  ConversationSummary,
+  ConversationServiceConfig
+} from './services/conversations';
+export type { ChatMessage, ExecuteRequest, ExecuteResult, ExecuteStreamEvent, GenerateObjectRequest, GenerateObjectResult } from './services/ai/ai-service';
+export { StructuredOutputError, validateJsonSchema } from './services/ai/structured-output';
+export { createMCPAgentToolExecutor } from './trpc/routers/mcp/agent-tool-executor';
+export type { AgentOptions, AgentServiceConfig, AgentStep, AgentTool, AgentToolCallTrace, AgentToolExecutor } from './services/ai/agent-tools';
+
 // Usage tracking and billing
-export { UsageTracker, PROVIDER_PRICING } from './billing/usage-tracker';
+export { UsageTracker } from './billing/usage-tracker';
+export { PricingCatalog, getDefaultPricingCatalog, setDefaultPricingCatalog } from './services/billing/pricing-catalog';
+export type { ModelPrice, ModelPriceInput, PricingCatalogData, TokenCounts, CostEstimate } from './services/billing/pricing-catalog';
+export { BillingRules } from './services/billing/billing-rules';
+export type { BillingRulesConfig, BillingRuleContext, AppliedBillingRule, TokenCharge, TokenGrant } from './services/billing/billing-rules';
+export { LemonSqueezyWebhookHandler } from './services/billing/lemonsqueezy-webhooks';
+export type { LemonSqueezyVariantPlan, LemonSqueezyWebhookConfig } from './services/billing/lemonsqueezy-webhooks';
+export { WebhookEventLog, WebhookEventProcessor } from './services/billing/webhook-event-log';
+export type { WebhookEventRecord, WebhookEventStatus, WebhookEventOutcome, WebhookHandleResult, PaymentWebhookHandler } from './services/billing/webhook-event-log';
+export type { RefundPolicy, TokenRefundResult } from './services/billing/virtual-token-service';
+export { StripeClient, StripeApiError, verifyStripeSignature } from './services/billing/stripe-client';
+export type { StripeClientConfig, StripeCheckoutSessionParams } from './services/billing/stripe-client';
+export { StripeCheckoutService } from './services/billing/stripe-checkout';
+export type { StripePricePlan, StripeCheckoutConfig, CheckoutResult } from './services/billing/stripe-checkout';
+export { StripeWebhookHandler } from './services/billing/stripe-webhooks';
+export type { StripeWebhookConfig } from './services/billing/stripe-webhooks';
+export { StripeUsageReporter } from './services/billing/stripe-usage-reporter';
+export type { StripeUsageReporterConfig, MeteredSubscription, StripeUsageReportSummary } from './services/billing/stripe-usage-reporter';
+export { BudgetService, BudgetExceededError, getBudgetPeriod } from './services/billing/budget-service';
+export type { Budget, BudgetInput, BudgetStatus, BudgetSubject, BudgetSpend, BudgetAlert, BudgetServiceConfig, BudgetScope, BudgetPeriod, BudgetUnit } from './services/billing/budget-service';
+export type { UsageQuery, UsageQueryRow, UsageQueryResult, UsageBucket, UsageDimension, UsageExportFormat } from './services/billing/usage-analytics-service';
+export { StatementService, statementToCsv, getStatementPeriod, previousStatementPeriod } from './services/billing/statement-service';
+export type { Statement, StatementFormat, StatementUsageLine, StatementTopup, StatementRefund, StatementTotals, StatementServiceConfig } from './services/billing/statement-service';
+export { TrialCreditService, TrialCreditError, normalizeTrialEmail } from './services/billing/trial-credit-service';
+export type { TrialCredit, TrialClaim, TrialClaimant, TrialCreditConfig } from './services/billing/trial-credit-service';
+export { OrganizationService, OrganizationError, hasOrganizationRole } from './services/organizations/organization-service';
+export type { Organization, OrganizationMember, OrganizationInvitation, OrganizationRole, OrganizationKeyProvider, OrganizationServiceConfig } from './services/organizations/organization-service';
 export { BillingEngine } from './billing/billing-engine';
 
 // Export monetization types
@@ -309,7 +366,8 @@ export type {
 export type {
   BillingEvent,
   BillingConfig,
-  SubscriptionInfo
+  SubscriptionInfo,
+  StripeUsageReportResult
 } from './billing/billing-engine';
 
 export type {
@@ -310,8 +310,9 @@ export class RemoteMCPClient extends EventEmitter {
 
   /**
    * Send a request to the MCP server
+   * Aborting the signal cancels the request (notifications/cancelled over stdio).
    */
-  async request(method: string, params?: any): Promise<any> {
+  async request(method: string, params?: any, signal?: AbortSignal): Promise<any> {
     if (!this.connected) {
       throw new Error('Not connected');
     }
@@ -325,16 +326,16 @@ export class RemoteMCPClient extends EventEmitter {
     };
 
     if (this.config.transport === 'http' || this.config.transport === 'https') {
-      return this.sendHttpRequest(message);
+      return this.sendHttpRequest(message, signal);
     } else {
-      return this.sendStdioRequest(message);
+      return this.sendStdioRequest(message, signal);
     }
   }
 
   /**
    * Send request via HTTP
    */
-  private async sendHttpRequest(message: MCPMessage): Promise<any> {
+  private async sendHttpRequest(message: MCPMessage, signal?: AbortSignal): Promise<any> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       ...(this.config.headers || {})
@@ -352,7 +353,8 @@ export class RemoteMCPClient extends EventEmitter {
     const response = await fetch(this.config.url!, {
       method: 'POST',
       headers,
-      body: JSON.stringify(message)
+      body: JSON.stringify(message),
+      signal
     });
 
     if (!response.ok) {
@@ -371,14 +373,41 @@ export class RemoteMCPClient extends EventEmitter {
   /**
    * Send request via stdio
    */
-  private async sendStdioRequest(message: MCPMessage): Promise<any> {
+  private async sendStdioRequest(message: MCPMessage, signal?: AbortSignal): Promise<any> {
+    signal?.throwIfAborted();
+
     return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const pending = this.pendingRequests.get(message.id!);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(message.id!);
+        this.process?.stdin?.write(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: message.id, reason: 'Request cancelled by the caller' }
+        }) + '\n');
+        reject(new Error('Request cancelled'));
+      };
+
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(message.id!);
+        signal?.removeEventListener('abort', onAbort);
         reject(new Error('Request timeout'));
       }, this.config.timeout || 30000);
 
-      this.pendingRequests.set(message.id!, { resolve, reject, timeout });
+      this.pendingRequests.set(message.id!, {
+        resolve: (result: any) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timeout
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Send message as line-delimited JSON
       this.process?.stdin?.write(JSON.stringify(message) + '\n');
@@ -388,8 +417,8 @@ export class RemoteMCPClient extends EventEmitter {
   /**
    * Call an MCP tool
    */
-  async callTool(name: string, args: any): Promise<any> {
-    return this.request('tools/call', { name, arguments: args });
+  async callTool(name: string, args: any, signal?: AbortSignal): Promise<any> {
+    return this.request('tools/call', { name, arguments: args }, signal);
   }
 
   /**
@@ -399,6 +428,34 @@ export class RemoteMCPClient extends EventEmitter {
     return this.request('tools/list');
   }
 
+  /**
+   * List available prompts
+   */
+  async listPrompts(): Promise<any> {
+    return this.request('prompts/list');
+  }
+
+  /**
+   * Get a prompt with arguments filled in
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<any> {
+    return this.request('prompts/get', { name, arguments: args });
+  }
+
+  /**
+   * List available resources
+   */
+  async listResources(): Promise<any> {
+    return this.request('resources/list');
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  async readResource(uri: string): Promise<any> {
+    return this.request('resources/read', { uri });
+  }
+
   /**
    * Disconnect from the server
    */
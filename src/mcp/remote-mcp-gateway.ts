@@ -0,0 +1,195 @@
+/**
+ * Remote MCP Gateway
+ *
+ * Aggregates tools, prompts and resources from RemoteMCPManager servers so our
+ * MCP endpoint acts as a single gateway. Remote names are namespaced with a
+ * per-server prefix (e.g. `github__create_issue`) and resource URIs are wrapped
+ * as `remote://<prefix>/<original uri>`, so calls can be routed back to the
+ * server that owns them.
+ */
+
+import type { ScopeRequirement } from '../auth/scopes.js';
+import type { RemoteMCPManager } from './remote-mcp-manager.js';
+
+export interface RemoteMCPGatewayServerOptions {
+  namespace?: string;         // Prefix for this server's names (default: server name)
+  public?: boolean;           // Expose without authentication (default: false)
+  scopes?: ScopeRequirement;  // Scopes required for this server's tools, prompts and resources
+}
+
+export interface RemoteMCPGatewayConfig {
+  separator?: string;         // Between prefix and remote name (default: '__')
+  servers?: Record<string, RemoteMCPGatewayServerOptions>;
+}
+
+export interface RemoteMCPEntryAccess {
+  server: string;
+  public?: boolean;
+  scopes?: ScopeRequirement;
+}
+
+export interface RemoteMCPTool extends RemoteMCPEntryAccess {
+  name: string;
+  remoteName: string;
+  description: string;
+  inputSchema: any;
+}
+
+export interface RemoteMCPPrompt extends RemoteMCPEntryAccess {
+  name: string;
+  remoteName: string;
+  description?: string;
+  arguments?: any[];
+}
+
+export interface RemoteMCPResource extends RemoteMCPEntryAccess {
+  uri: string;
+  remoteUri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+const REMOTE_URI_SCHEME = 'remote://';
+
+export class RemoteMCPGateway {
+  private separator: string;
+  private servers: Record<string, RemoteMCPGatewayServerOptions>;
+
+  constructor(
+    private manager: RemoteMCPManager,
+    config: RemoteMCPGatewayConfig = {}
+  ) {
+    this.separator = config.separator ?? '__';
+    this.servers = config.servers ?? {};
+  }
+
+  async listTools(): Promise<RemoteMCPTool[]> {
+    const tools: RemoteMCPTool[] = [];
+    for (const [server, serverTools] of await this.manager.listAllTools()) {
+      for (const tool of serverTools) {
+        tools.push({
+          ...this.access(server),
+          name: this.prefixName(server, tool.name),
+          remoteName: tool.name,
+          description: tool.description || `Remote tool ${tool.name} (${server})`,
+          inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+        });
+      }
+    }
+    return tools;
+  }
+
+  async listPrompts(): Promise<RemoteMCPPrompt[]> {
+    const prompts: RemoteMCPPrompt[] = [];
+    for (const [server, serverPrompts] of await this.manager.listAllPrompts()) {
+      for (const prompt of serverPrompts) {
+        prompts.push({
+          ...this.access(server),
+          name: this.prefixName(server, prompt.name),
+          remoteName: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments
+        });
+      }
+    }
+    return prompts;
+  }
+
+  async listResources(): Promise<RemoteMCPResource[]> {
+    const resources: RemoteMCPResource[] = [];
+    for (const [server, serverResources] of await this.manager.listAllResources()) {
+      for (const resource of serverResources) {
+        resources.push({
+          ...this.access(server),
+          uri: `${REMOTE_URI_SCHEME}${this.prefix(server)}/${resource.uri}`,
+          remoteUri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType
+        });
+      }
+    }
+    return resources;
+  }
+
+  /**
+   * Resolve a namespaced tool/prompt name to its server (null if not remote)
+   */
+  resolveName(name: string): (RemoteMCPEntryAccess & { remoteName: string }) | null {
+    for (const server of this.manager.getConnectedServers()) {
+      const prefix = `${this.prefix(server)}${this.separator}`;
+      if (name.startsWith(prefix)) {
+        return { ...this.access(server), remoteName: name.slice(prefix.length) };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a wrapped resource URI to its server (null if not remote)
+   */
+  resolveUri(uri: string): (RemoteMCPEntryAccess & { remoteUri: string }) | null {
+    if (!uri.startsWith(REMOTE_URI_SCHEME)) {
+      return null;
+    }
+    const rest = uri.slice(REMOTE_URI_SCHEME.length);
+    for (const server of this.manager.getConnectedServers()) {
+      const prefix = `${this.prefix(server)}/`;
+      if (rest.startsWith(prefix)) {
+        return { ...this.access(server), remoteUri: rest.slice(prefix.length) };
+      }
+    }
+    return null;
+  }
+
+  async callTool(name: string, args: any, signal?: AbortSignal): Promise<any> {
+    const target = this.require(this.resolveName(name), `Remote tool '${name}' not found`);
+    return this.manager.callTool(target.server, target.remoteName, args, signal);
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<any> {
+    const target = this.require(this.resolveName(name), `Remote prompt '${name}' not found`);
+    return this.manager.request(target.server, 'prompts/get', { name: target.remoteName, arguments: args });
+  }
+
+  async readResource(uri: string): Promise<any> {
+    const target = this.require(this.resolveUri(uri), `Remote resource '${uri}' not found`);
+    const result = await this.manager.request(target.server, 'resources/read', { uri: target.remoteUri });
+    // Report contents under gateway URIs so follow-up reads route back here
+    return {
+      ...result,
+      contents: (result?.contents || []).map((content: any) => ({
+        ...content,
+        uri: content.uri ? `${REMOTE_URI_SCHEME}${this.prefix(target.server)}/${content.uri}` : uri
+      }))
+    };
+  }
+
+  private prefix(server: string): string {
+    return this.servers[server]?.namespace || server;
+  }
+
+  private prefixName(server: string, name: string): string {
+    return `${this.prefix(server)}${this.separator}${name}`;
+  }
+
+  private access(server: string): RemoteMCPEntryAccess {
+    const options = this.servers[server];
+    return { server, public: options?.public ?? false, scopes: options?.scopes };
+  }
+
+  private require<T>(value: T | null, message: string): T {
+    if (!value) {
+      throw new Error(message);
+    }
+    return value;
+  }
+}
+
+/**
+ * Create a gateway over a remote MCP manager
+ */
+export function createRemoteMCPGateway(manager: RemoteMCPManager, config?: RemoteMCPGatewayConfig): RemoteMCPGateway {
+  return new RemoteMCPGateway(manager, config);
+}
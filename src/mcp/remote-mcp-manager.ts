@@ -195,7 +195,7 @@ export class RemoteMCPManager extends EventEmitter {
   /**
    * Call a tool on a specific server
    */
-  async callTool(serverName: string, toolName: string, args: any): Promise<any> {
+  async callTool(serverName: string, toolName: string, args: any, signal?: AbortSignal): Promise<any> {
     const client = this.clients.get(serverName);
     if (!client) {
       throw new Error(`Server ${serverName} not found`);
@@ -205,30 +205,71 @@ export class RemoteMCPManager extends EventEmitter {
       throw new Error(`Server ${serverName} is not connected`);
     }
 
-    return client.callTool(toolName, args);
+    return client.callTool(toolName, args, signal);
+  }
+
+  /**
+   * Send any MCP request to a specific server
+   */
+  async request(serverName: string, method: string, params?: any): Promise<any> {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new Error(`Server ${serverName} not found`);
+    }
+
+    if (!client.isConnected()) {
+      throw new Error(`Server ${serverName} is not connected`);
+    }
+
+    return client.request(method, params);
   }
 
   /**
    * List all available tools across all servers
    */
   async listAllTools(): Promise<Map<string, any[]>> {
-    const toolsByServer = new Map<string, any[]>();
+    return this.listAcrossServers(client => client.listTools(), 'tools', 'Failed to list tools');
+  }
+
+  /**
+   * List all available prompts across all servers
+   */
+  async listAllPrompts(): Promise<Map<string, any[]>> {
+    return this.listAcrossServers(client => client.listPrompts(), 'prompts', 'Failed to list prompts');
+  }
+
+  /**
+   * List all available resources across all servers
+   */
+  async listAllResources(): Promise<Map<string, any[]>> {
+    return this.listAcrossServers(client => client.listResources(), 'resources', 'Failed to list resources');
+  }
+
+  /**
+   * Query every connected server; a failing server is reported and skipped
+   */
+  private async listAcrossServers(
+    list: (client: RemoteMCPClient) => Promise<any>,
+    key: 'tools' | 'prompts' | 'resources',
+    failureMessage: string
+  ): Promise<Map<string, any[]>> {
+    const itemsByServer = new Map<string, any[]>();
 
     for (const [name, client] of this.clients) {
       if (client.isConnected()) {
         try {
-          const result = await client.listTools();
-          toolsByServer.set(name, result.tools || []);
+          const result = await list(client);
+          itemsByServer.set(name, result?.[key] || []);
         } catch (error) {
           this.emit('serverError', {
             server: name,
-            error: error instanceof Error ? error.message : 'Failed to list tools'
+            error: error instanceof Error ? error.message : failureMessage
           });
         }
       }
     }
 
-    return toolsByServer;
+    return itemsByServer;
   }
 
   /**
@@ -78,6 +78,9 @@ export async function createMonetizedAIServer(config: MonetizedAIServerConfig):
 
   const billingEngine = new BillingEngine(db, usageTracker, opensaasConfig.billing);
   await billingEngine.initialize();
+  if (opensaasConfig.billing.stripe) {
+    billingEngine.startStripeUsageReporting();
+  }
 
   // Merge custom tiers with defaults
   const mergedTiers = mergeWithDefaultTiers(opensaasConfig.subscriptionTiers);
@@ -124,7 +127,15 @@ export async function createMonetizedAIServer(config: MonetizedAIServerConfig):
     origin: config.cors?.origin ?? ['vscode-webview://*', 'http://localhost:*', 'https://localhost:*'],
     credentials: config.cors?.credentials ?? true
   }));
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({
+    limit: '10mb',
+    // Keep the raw body for webhook signature checks
+    verify: (req, _res, buf) => {
+      if (req.url?.startsWith('/webhooks/')) {
+        (req as Request & { rawBody?: Buffer }).rawBody = buf;
+      }
+    }
+  }));
 
   // Request logging
   app.use((req, res, next) => {
@@ -190,7 +201,7 @@ export async function createMonetizedAIServer(config: MonetizedAIServerConfig):
   app.post('/webhooks/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
     try {
       const signature = req.headers['stripe-signature'] as string;
-      await billingEngine.processWebhook('stripe', req.body, signature);
+      await billingEngine.processWebhook('stripe', (req as Request & { rawBody?: Buffer }).rawBody ?? req.body, signature);
       res.status(200).json({ received: true });
     } catch (error: any) {
       console.error('Stripe webhook error:', error.message);
@@ -398,6 +409,7 @@ export async function createMonetizedAIServer(config: MonetizedAIServerConfig):
     },
     stop: async () => {
       console.log('🛑 Shutting down monetized server...');
+      billingEngine.stopStripeUsageReporting();
       await Promise.all([
         rateLimiter.close(),
         db.close()
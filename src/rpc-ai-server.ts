@@ -19,21 +19,47 @@ import { createAppRouter } from './trpc/root.js';
 import type { AnyRouter } from '@trpc/server';
 import type { AppRouter } from './trpc/root.js';
 import type { AIRouterConfig } from './trpc/routers/ai/types.js';
+import type { ProviderFailoverConfig } from './services/ai/provider-failover.js';
 import { JWTMiddleware } from './auth/jwt-middleware.js';
 import type { AuthenticatedRequest, OpenSaaSJWTPayload } from './auth/jwt-middleware.js';
 import type { SessionStorage } from './auth/session-storage.js';
 import { PostgreSQLAdapter } from './database/postgres-adapter.js';
 import { VirtualTokenService } from './services/billing/virtual-token-service.js';
 import { UsageAnalyticsService } from './services/billing/usage-analytics-service.js';
+import { PricingCatalog, getDefaultPricingCatalog, setDefaultPricingCatalog } from './services/billing/pricing-catalog.js';
+import { BillingRules, type BillingRulesConfig } from './services/billing/billing-rules.js';
+import { LemonSqueezyWebhookHandler, type LemonSqueezyVariantPlan } from './services/billing/lemonsqueezy-webhooks.js';
+import type { RefundPolicy } from './services/billing/virtual-token-service.js';
+import { StripeClient } from './services/billing/stripe-client.js';
+import { StripeCheckoutService, type StripePricePlan } from './services/billing/stripe-checkout.js';
+import { StripeWebhookHandler } from './services/billing/stripe-webhooks.js';
+import { StripeUsageReporter } from './services/billing/stripe-usage-reporter.js';
+import { BudgetService, type BudgetAlert } from './services/billing/budget-service.js';
+import { OrganizationService } from './services/organizations/organization-service.js';
+import { TrialCreditService, type TrialCreditConfig } from './services/billing/trial-credit-service.js';
 import { PostgreSQLRPCMethods } from './auth/PostgreSQLRPCMethods.js';
+import { ConversationService } from './services/conversations/conversation-service.js';
+import { createConversationStore } from './services/conversations/conversation-store.js';
 import { RPC_METHODS } from './constants.js';
 import { createTRPCToJSONRPCBridge } from './trpc/trpc-to-jsonrpc-bridge.js';
+import type { MCPProtocolHandler } from './trpc/routers/mcp/protocol-handler.js';
+import { createMCPAgentToolExecutor } from './trpc/routers/mcp/agent-tool-executor.js';
+import { startMCPStdioTransport, redirectConsoleToStderr } from './trpc/routers/mcp/stdio-transport.js';
+import type { MCPStdioTransport } from './trpc/routers/mcp/stdio-transport.js';
+import type { MCPSessionConfig } from './trpc/routers/mcp/session-manager.js';
+import { createRemoteMCPGateway } from './mcp/remote-mcp-gateway.js';
+import type { ScopeRequirement } from './auth/scopes.js';
 import { MCPExtensionConfig } from './mcp/mcp-config.js';
 import { MCPRateLimitConfig } from './security/rate-limiter.js';
 import { SecurityLoggerConfig } from './security/security-logger.js';
 import { AuthEnforcementConfig } from './security/auth-enforcer.js';
 import type { RootManagerConfig, RootFolderConfig } from './services/resources/root-manager.js';
 import { createOAuthServer, initializeOAuthServer, closeOAuthServer } from './auth/oauth-middleware.js';
+import type { OAuthJwtConfig, OAuthTokenSigner } from './auth/oauth-token-signer.js';
+import { DEVICE_CODE_GRANT } from './auth/device-authorization.js';
+import type { DeviceFlowConfig } from './auth/device-authorization.js';
+import { ServiceAccountManager, CLIENT_CREDENTIALS_GRANT } from './auth/service-accounts.js';
+import type { ServiceAccountConfig } from './auth/service-accounts.js';
 import { getTestSafeConfig } from './security/test-helpers.js';
 import { initializeTiming } from './utils/timing.js';
 import { logger } from './utils/logger.js';
@@ -69,6 +95,11 @@ export interface RpcAiServerConfig {
     allowedPatterns?: string[];                      // Glob patterns allowed (e.g., "anthropic/*")
     blockedModels?: string[];                        // Specific models to block
   }>;
+  aiFailover?: ProviderFailoverConfig;               // Retries, provider fallback and circuit breaking (default: off)
+  aiAgent?: {                                        // Limits for agent requests (tools come from the MCP router)
+    maxStepsLimit?: number;                          // Upper bound for request maxSteps (default: 10)
+    toolTimeoutMs?: number;                          // Default per-tool timeout (default: 30000)
+  };
   
   // Secret Manager Configuration (for BYOK key storage)
   secretManager?: {
@@ -87,6 +118,12 @@ export interface RpcAiServerConfig {
     tRpc?: boolean;       // Enable tRPC endpoint (default: false)
   };
 
+  // JSON-RPC batch requests (arrays of calls in one POST)
+  jsonRpcBatch?: {
+    maxBatchSize?: number;    // Max calls per batch (default: 50)
+    maxConcurrency?: number;  // Calls executed in parallel per batch (default: 5)
+  };
+
   // Debug & Performance
   debug?: {
     enableTiming?: boolean;      // Enable performance timing logs (default: false)
@@ -99,6 +136,40 @@ export interface RpcAiServerConfig {
     databaseUrl?: string;                 // PostgreSQL connection string
     webhookSecret?: string;               // LemonSqueezy webhook secret
     webhookPath?: string;                 // Default: '/webhooks/lemonsqueezy'
+    billingRules?: Omit<BillingRulesConfig, 'platformFeePercent'>; // Model multipliers, tier fees, minimum charges, purchase grants
+    lemonSqueezy?: {
+      variantPlans?: Record<string, LemonSqueezyVariantPlan>; // Variant ID → plan; unmapped variants are ignored
+      refundPolicy?: RefundPolicy;        // Refunds the balance cannot cover: 'freeze' (default) or 'negative_balance'
+    };
+    stripe?: {
+      secretKey?: string;                 // Enables billing.createCheckout
+      webhookSecret?: string;             // Endpoint signing secret
+      webhookPath?: string;               // Default: '/webhooks/stripe'
+      apiBase?: string;                   // Default: 'https://api.stripe.com'
+      pricePlans?: Record<string, StripePricePlan>; // Price ID → plan; only these can be bought
+      successUrl?: string;                // Default checkout redirect after payment
+      cancelUrl?: string;                 // Default checkout redirect on cancel
+      refundPolicy?: RefundPolicy;        // Default: 'freeze'
+      usageReportIntervalMs?: number;     // Metered plans: how often usage is reported (default: 3600000, 1 hour)
+    };
+    budgets?: {
+      enabled?: boolean;                  // Spending budgets per user, API key and organization (default: false)
+      alertThresholds?: number[];         // Soft-cap alert thresholds in percent (default: [80, 100])
+      alertWebhookUrl?: string;           // Receives a POST per budget alert
+      onAlert?: (alert: BudgetAlert) => void | Promise<void>;
+    };
+    organizations?: {
+      enabled?: boolean;                  // Teams with shared token pools, seats and invitations (default: false)
+      invitationTtlHours?: number;        // Default: 168 (7 days)
+    };
+    trialCredits?: TrialCreditConfig & {
+      enabled?: boolean;                  // Free trial tokens for new signed-in users (default: false)
+    };
+  };
+
+  // Model pricing catalog (per 1M tokens; admin edits persist to the token tracking database)
+  pricing?: {
+    catalogFile?: string;                 // JSON catalog replacing the bundled src/data/model-pricing.json
   };
   
   // JWT Authentication (for token tracking)
@@ -114,6 +185,10 @@ export interface RpcAiServerConfig {
     googleClientId?: string;              // Google OAuth client ID (for external OAuth)
     googleClientSecret?: string;          // Google OAuth client secret
     encryptionKey?: string;               // Key for token encryption
+    jwt?: OAuthJwtConfig;                 // Signed JWT access/ID tokens + JWKS (default: enabled, RS256)
+    deviceFlow?: DeviceFlowConfig;        // Device authorization grant for CLI/headless clients (RFC 8628)
+    introspectionClients?: string[];      // Client IDs of resource servers allowed to use /oauth/introspect
+    serviceAccounts?: ServiceAccountConfig; // client_credentials service accounts, managed via admin.* procedures
     sessionStorage?: {
       type?: 'memory' | 'file' | 'redis'; // Session storage type
       filePath?: string;                  // File path for file storage
@@ -157,6 +232,7 @@ export interface RpcAiServerConfig {
   // Custom paths
   paths?: {
     jsonRpc?: string;     // Default: '/rpc'
+    jsonRpcStream?: string; // Default: '/rpc/stream' (SSE for streaming procedures)
     tRpc?: string;        // Default: '/trpc'
     health?: string;      // Default: '/health'
     webhooks?: string;    // Default: '/webhooks/lemonsqueezy'
@@ -168,7 +244,8 @@ export interface RpcAiServerConfig {
     transports?: {
       http?: boolean;        // HTTP transport (default: true)
       stdio?: boolean;       // STDIO transport for Claude Desktop (default: false)  
-      sse?: boolean;         // Server-Sent Events transport (default: false)
+      stdioUser?: OpenSaaSJWTPayload; // Identity for stdio sessions (no auth headers; default: anonymous)
+      sse?: boolean;         // Streamable HTTP sessions + GET event stream on /mcp (default: true)
       sseEndpoint?: string;  // SSE endpoint path (default: '/sse')
     };
     auth?: {
@@ -186,6 +263,7 @@ export interface RpcAiServerConfig {
       };
     };
     adminUsers?: string[];                // Admin users who can access admin-restricted tools (by email/username);
+    sessions?: MCPSessionConfig;          // Mcp-Session-Id lifetime, replay buffer and server-request timeout
     defaultConfig?: {
       enableWebSearchTool?: boolean;   // build-in websearch tool
       enableRefTools?: boolean;        // Documentation search
@@ -220,6 +298,17 @@ export interface RpcAiServerConfig {
     [namespace: string]: any; // tRPC router instance
   };
 
+  /**
+   * Server-side conversation threads (conversations.* procedures and threadId in ai.generateText)
+   */
+  conversations?: {
+    enabled?: boolean;                    // Default: false
+    storage?: 'memory' | 'file' | 'postgres'; // Default: postgres when tokenTracking.databaseUrl is set, otherwise memory
+    filePath?: string;                    // Default: './data/conversations.json' (file storage)
+    contextWindowTokens?: number;         // Default: 128000 - for models without a known context window
+    reserveOutputTokens?: number;         // Default: 4000
+  };
+
   /**
    * Server workspace management configuration
    *
@@ -339,8 +428,20 @@ export interface RpcAiServerConfig {
 
       /** Number of retries on connection failure */
       retries?: number;
+
+      /** Prefix for this server's tools/prompts in our MCP endpoint (default: server name) */
+      namespace?: string;
+
+      /** Expose this server's tools, prompts and resources without authentication (default: false) */
+      public?: boolean;
+
+      /** Scopes required to use this server through our MCP endpoint */
+      scopes?: ScopeRequirement;
     }>;
 
+    /** Separator between namespace and remote tool name (default: '__', e.g. github__create_issue) */
+    namespaceSeparator?: string;
+
     /** Security scanning configuration */
     security?: {
       /** Enable security scanning on startup (default: true) */
@@ -385,16 +486,30 @@ function parseCorsOrigin(origin?: string | string[]): string | string[] {
 export class RpcAiServer {
   private app: Express;
   private server?: Server;
+  private stdioTransport?: MCPStdioTransport;
+  private mcpProtocolHandler?: MCPProtocolHandler;
   private config: Required<RpcAiServerConfig>;
   private router: AppRouter;
   private jwtMiddleware?: JWTMiddleware;
   private dbAdapter?: PostgreSQLAdapter;
   private virtualTokenService?: VirtualTokenService;
   private usageAnalyticsService?: UsageAnalyticsService;
+  private pricingCatalog: PricingCatalog;
+  private billingRules: BillingRules;
+  private lemonSqueezyWebhooks?: LemonSqueezyWebhookHandler;
+  private stripeWebhooks?: StripeWebhookHandler;
+  private stripeCheckout?: StripeCheckoutService;
+  private stripeUsageReporter?: StripeUsageReporter;
+  private budgetService?: BudgetService;
+  private organizationService?: OrganizationService;
+  private trialCreditService?: TrialCreditService;
   private postgresRPCMethods?: PostgreSQLRPCMethods;
+  private conversationService?: ConversationService;
   private jsonRpcBridge?: ReturnType<typeof createTRPCToJSONRPCBridge>;
   private oauthServer?: ReturnType<typeof createOAuthServer>['oauth'];
   private oauthStorage?: SessionStorage;
+  private oauthTokenSigner?: OAuthTokenSigner;
+  private serviceAccounts?: ServiceAccountManager;
   private remoteMcpManager?: any; // RemoteMCPManager type
 
   /**
@@ -440,6 +555,11 @@ export class RpcAiServer {
     // Apply test-safe configuration if in test environment
     config = getTestSafeConfig(config);
 
+    // stdout is reserved for MCP protocol messages when serving stdio
+    if (config.mcp?.transports?.stdio) {
+      redirectConsoleToStderr();
+    }
+
     // Initialize timing/debug configuration
     initializeTiming(config.debug);
 
@@ -450,6 +570,11 @@ export class RpcAiServer {
     this.config = {
       port: 8000,
       debug: config.debug || {},
+      jsonRpcBatch: {
+        maxBatchSize: 50,
+        maxConcurrency: 5,
+        ...config.jsonRpcBatch
+      },
       aiLimits: {},
       serverProviders: ['anthropic'],  // Default: Anthropic only for easier onboarding
       byokProviders: ['anthropic'],    // Default: Anthropic BYOK only
@@ -484,6 +609,7 @@ export class RpcAiServer {
       },
       paths: {
         jsonRpc: '/rpc',
+        jsonRpcStream: '/rpc/stream',
         tRpc: '/trpc',
         health: '/health',
         webhooks: '/webhooks/lemonsqueezy',
@@ -515,6 +641,9 @@ export class RpcAiServer {
         ...config.mcp
       },
       modelRestrictions: config.modelRestrictions || {},  // Default: no model restrictions
+      aiFailover: config.aiFailover,
+      aiAgent: config.aiAgent,
+      pricing: config.pricing || {},
 
       // Server workspace configuration (disabled by default)
       serverWorkspaces: config.serverWorkspaces
@@ -539,15 +668,102 @@ export class RpcAiServer {
         ...config.remoteMcpServers
       },
 
+      conversations: {
+        enabled: false,
+        ...config.conversations
+      },
+
       customRouters: config.customRouters || {},  // Default: no custom routers
       ...config
     };
 
+    // Billing rules shared by every VirtualTokenService (usage charges and purchase grants)
+    this.billingRules = new BillingRules({
+      ...this.config.tokenTracking.billingRules,
+      platformFeePercent: this.config.tokenTracking.platformFeePercent
+    });
+
     // Initialize database adapter if token tracking is enabled
     if (this.config.tokenTracking.enabled && this.config.tokenTracking.databaseUrl) {
       this.dbAdapter = new PostgreSQLAdapter(this.config.tokenTracking.databaseUrl);
-      this.virtualTokenService = new VirtualTokenService(this.dbAdapter);
+      this.virtualTokenService = new VirtualTokenService(this.dbAdapter, { billingRules: this.billingRules });
       this.usageAnalyticsService = new UsageAnalyticsService(this.dbAdapter);
+      this.lemonSqueezyWebhooks = new LemonSqueezyWebhookHandler(
+        this.dbAdapter,
+        {
+          virtualTokenService: this.virtualTokenService,
+          usageAnalyticsService: this.usageAnalyticsService,
+          billingRules: this.billingRules
+        },
+        {
+          webhookSecret: this.config.tokenTracking.webhookSecret,
+          ...this.config.tokenTracking.lemonSqueezy
+        }
+      );
+
+      const stripe = this.config.tokenTracking.stripe;
+      if (stripe) {
+        this.stripeWebhooks = new StripeWebhookHandler(
+          this.dbAdapter,
+          {
+            virtualTokenService: this.virtualTokenService,
+            usageAnalyticsService: this.usageAnalyticsService,
+            billingRules: this.billingRules
+          },
+          { webhookSecret: stripe.webhookSecret, pricePlans: stripe.pricePlans, refundPolicy: stripe.refundPolicy }
+        );
+        if (stripe.secretKey) {
+          const stripeClient = new StripeClient({ secretKey: stripe.secretKey, apiBase: stripe.apiBase });
+          this.stripeCheckout = new StripeCheckoutService(
+            stripeClient,
+            { pricePlans: stripe.pricePlans ?? {}, successUrl: stripe.successUrl, cancelUrl: stripe.cancelUrl }
+          );
+          // Metered plans are billed on usage reported to Stripe
+          if (Object.values(stripe.pricePlans ?? {}).some(plan => plan.type === 'metered')) {
+            this.stripeUsageReporter = new StripeUsageReporter(this.dbAdapter, stripeClient, {
+              pricePlans: stripe.pricePlans ?? {},
+              reportIntervalMs: stripe.usageReportIntervalMs
+            });
+          }
+        } else if (Object.values(stripe.pricePlans ?? {}).some(plan => plan.type === 'metered')) {
+          throw new Error('Metered Stripe plans need tokenTracking.stripe.secretKey to report usage');
+        }
+      }
+
+      const { enabled: budgetsEnabled, ...budgetConfig } = this.config.tokenTracking.budgets ?? {};
+      if (budgetsEnabled) {
+        this.budgetService = new BudgetService(this.dbAdapter, budgetConfig);
+      }
+
+      const { enabled: trialCreditsEnabled, ...trialCreditConfig } = this.config.tokenTracking.trialCredits ?? {};
+      if (trialCreditsEnabled) {
+        this.trialCreditService = new TrialCreditService(this.dbAdapter, trialCreditConfig);
+      }
+    }
+
+    // Pricing catalog shared by cost estimates, admin procedures and listAllowedModels
+    this.pricingCatalog = this.config.pricing?.catalogFile
+      ? PricingCatalog.fromFile(this.config.pricing.catalogFile)
+      : getDefaultPricingCatalog();
+    setDefaultPricingCatalog(this.pricingCatalog);
+    if (this.dbAdapter) {
+      this.pricingCatalog.useDatabase(this.dbAdapter);
+    }
+
+    // Initialize conversation threads if enabled
+    if (this.config.conversations.enabled) {
+      const storage = this.config.conversations.storage || (this.dbAdapter ? 'postgres' : 'memory');
+      this.conversationService = new ConversationService(
+        createConversationStore({
+          type: storage,
+          filePath: this.config.conversations.filePath,
+          db: this.dbAdapter
+        }),
+        {
+          contextWindowTokens: this.config.conversations.contextWindowTokens,
+          reserveOutputTokens: this.config.conversations.reserveOutputTokens
+        }
+      );
     }
 
     // Initialize PostgreSQL RPC Methods if secret manager is configured
@@ -565,6 +781,16 @@ export class RpcAiServer {
       }
     }
 
+    // Organizations need the token database; provider keys use the secret manager
+    const organizations = this.config.tokenTracking.organizations;
+    if (organizations?.enabled && this.dbAdapter) {
+      this.organizationService = new OrganizationService(this.dbAdapter, {
+        virtualTokenService: this.virtualTokenService,
+        keyVault: this.postgresRPCMethods,
+        invitationTtlHours: organizations.invitationTtlHours
+      });
+    }
+
     // Initialize JWT middleware if configured
     if (this.config.jwt.secret) {
       this.jwtMiddleware = new JWTMiddleware({
@@ -607,6 +833,28 @@ export class RpcAiServer {
       }
     }
 
+    // Initialize OAuth server (if enabled)
+    if (this.config.oauth.enabled) {
+      console.log(`🔐 Setting up OAuth 2.0 server...`);
+      
+      const storageConfig = {
+        type: this.config.oauth.sessionStorage?.type || 'memory' as const,
+        filePath: this.config.oauth.sessionStorage?.filePath,
+        redis: this.config.oauth.sessionStorage?.redis
+      };
+      
+      const issuer = process.env.OAUTH_BASE_URL || `http://localhost:${this.config.port}`;
+      const { oauth, storage, tokenSigner } = createOAuthServer(storageConfig, this.config.mcp?.adminUsers || [], undefined, {
+        ...this.config.oauth.jwt,
+        issuer
+      }, this.config.oauth.deviceFlow, this.config.oauth.introspectionClients);
+      this.oauthServer = oauth;
+      this.oauthStorage = storage; // Store reference to session storage
+      this.oauthTokenSigner = tokenSigner;
+      this.serviceAccounts = new ServiceAccountManager(storage, this.config.oauth.serviceAccounts, this.organizationService ?? null);
+      console.log(`✅ OAuth 2.0 server initialized with ${storageConfig.type} storage`);
+    }
+
     // Create router with AI configuration and token tracking
     // Normalize server workspace configuration (requires explicit workspace definitions)
     const workspaceConfig = (this.config.serverWorkspaces && this.config.serverWorkspaces.enabled &&
@@ -628,28 +876,34 @@ export class RpcAiServer {
       this.config.mcp,
       this.config.modelRestrictions,
       workspaceConfig,
-      this.config.customRouters
+      this.config.customRouters,
+      {
+        conversationService: this.conversationService,
+        aiFailover: this.config.aiFailover,
+        aiAgent: {
+          ...this.config.aiAgent,
+          toolExecutor: createMCPAgentToolExecutor(() => this.mcpProtocolHandler)
+        },
+        pricingCatalog: this.pricingCatalog,
+        billingRules: this.billingRules,
+        paymentWebhooks: [this.lemonSqueezyWebhooks, this.stripeWebhooks].filter(
+          (handler): handler is LemonSqueezyWebhookHandler | StripeWebhookHandler => !!handler
+        ),
+        stripeCheckout: this.stripeCheckout,
+        budgetService: this.budgetService,
+        organizationService: this.organizationService,
+        trialCreditService: this.trialCreditService,
+        stripeUsageReporter: this.stripeUsageReporter,
+        serviceAccounts: this.serviceAccounts
+      }
     );
 
     // Initialize tRPC to JSON-RPC bridge (if JSON-RPC is enabled)
     if (this.config.protocols.jsonRpc) {
-      this.jsonRpcBridge = createTRPCToJSONRPCBridge(this.router, this.createContext(this.providerApiKeys));
-    }
-
-    // Initialize OAuth server (if enabled)
-    if (this.config.oauth.enabled) {
-      console.log(`🔐 Setting up OAuth 2.0 server...`);
-      
-      const storageConfig = {
-        type: this.config.oauth.sessionStorage?.type || 'memory' as const,
-        filePath: this.config.oauth.sessionStorage?.filePath,
-        redis: this.config.oauth.sessionStorage?.redis
-      };
-      
-      const { oauth, storage } = createOAuthServer(storageConfig, this.config.mcp?.adminUsers || []);
-      this.oauthServer = oauth;
-      this.oauthStorage = storage; // Store reference to session storage
-      console.log(`✅ OAuth 2.0 server initialized with ${storageConfig.type} storage`);
+      this.jsonRpcBridge = createTRPCToJSONRPCBridge(this.router, this.createContext(this.providerApiKeys), {
+        maxBatchSize: this.config.jsonRpcBatch.maxBatchSize,
+        maxBatchConcurrency: this.config.jsonRpcBatch.maxConcurrency
+      });
     }
 
     this.app = express();
@@ -675,11 +929,15 @@ export class RpcAiServer {
       const defaultProvider = this.config.serverProviders?.[0];
       const providerToUse = requestedProvider || defaultProvider;
       
+      // With trial credits, signed-in users without a key spend their trial
+      // instead of falling back to the server keys
+      const serverKeyFallback = !(this.trialCreditService && baseCtx.user);
+
       // Get API key for the provider, or fall back to any available API key
-      let apiKey = baseCtx.apiKey || providerApiKeys[providerToUse as string];
+      let apiKey = baseCtx.apiKey || (serverKeyFallback ? providerApiKeys[providerToUse as string] : undefined);
       
       // If no specific provider API key found, try to use any available API key as fallback
-      if (!apiKey && !requestedProvider) {
+      if (!apiKey && !requestedProvider && serverKeyFallback) {
         // Use the first available API key if no specific provider was requested
         apiKey = Object.values(providerApiKeys).find(key => key) || null;
       }
@@ -719,8 +977,15 @@ export class RpcAiServer {
       optionsSuccessStatus: 200 // Some legacy browsers choke on 204
     }));
 
-    // Body parsing
-    this.app.use(express.json({ limit: '50mb' }));
+    // Body parsing (webhook signatures are verified against the raw body)
+    this.app.use(express.json({
+      limit: '50mb',
+      verify: (req: Request, _res, buf: Buffer) => {
+        if (this.config.tokenTracking.enabled && this.getWebhookPaths().includes(req.originalUrl.split('?')[0])) {
+          (req as Request & { rawBody?: Buffer }).rawBody = buf;
+        }
+      }
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
     if (this.oauthStorage) {
@@ -732,6 +997,7 @@ export class RpcAiServer {
           logger.warn('⚠️ OAuth access token resolution failed', {
             error: error instanceof Error ? error.message : String(error)
           });
+          (req as AuthenticatedRequest).oauthTokenRejected = true;
           next();
         }
       });
@@ -777,7 +1043,29 @@ export class RpcAiServer {
       return;
     }
 
-    const tokenRecord = await this.oauthStorage.getToken(accessToken);
+    // Tokens signed by this server verify offline; opaque tokens are looked up in the session store
+    const claims = this.oauthTokenSigner ? await this.oauthTokenSigner.verifyAccessToken(accessToken) : null;
+    if (!claims && this.oauthTokenSigner?.isOwnToken(accessToken)) {
+      // Revoked, expired or tampered token of this server
+      req.oauthTokenRejected = true;
+      return;
+    }
+    const tokenRecord = claims
+      ? {
+          accessTokenExpiresAt: new Date(claims.exp * 1000),
+          scope: claims.scope,
+          client: { id: claims.client_id },
+          user: {
+            id: claims.sub,
+            email: claims.email,
+            name: claims.name,
+            provider: claims.provider,
+            organizationId: claims.organization_id,
+            principalType: claims.principal_type,
+            ownerUserId: claims.owner_id
+          }
+        }
+      : await this.oauthStorage.getToken(accessToken);
     if (!tokenRecord) {
       return;
     }
@@ -786,6 +1074,7 @@ export class RpcAiServer {
     const expiresAt = expiresAtRaw instanceof Date ? expiresAtRaw : expiresAtRaw ? new Date(expiresAtRaw) : undefined;
     if (expiresAt && expiresAt.getTime() <= Date.now()) {
       // Token expired - ignore so downstream auth will fail naturally
+      req.oauthTokenRejected = true;
       return;
     }
 
@@ -793,12 +1082,28 @@ export class RpcAiServer {
     const provider = oauthUser.provider || tokenRecord.client?.id;
     const scopeList = this.normalizeOAuthScopes(tokenRecord.scope);
     const featureSet = new Set<string>(scopeList);
-    featureSet.add('mcp');
+
+    // Service accounts: limited to their scopes, deleted accounts stop working right away
+    const clientId = tokenRecord.client?.id as string | undefined;
+    const isServicePrincipal = oauthUser.principalType === 'service';
+    if (isServicePrincipal && !(clientId && await this.serviceAccounts?.get(clientId))) {
+      req.oauthTokenRejected = true;
+      return;
+    }
+
+    if (!isServicePrincipal) {
+      featureSet.add('mcp');
+    }
     featureSet.add('oauth');
     const features = Array.from(featureSet);
 
-    const derivedUserId = (oauthUser.id || oauthUser.userId || oauthUser.email || oauthUser.username || `oauth-${accessToken.slice(0, 8)}`).toString();
-    const email = (oauthUser.email || (oauthUser.username ? `${oauthUser.username}@oauth.local` : `${derivedUserId}@oauth.local`)).toString();
+    // Service account usage is attributed to the owning user (and organization)
+    const derivedUserId = (isServicePrincipal
+      ? oauthUser.ownerUserId
+      : oauthUser.id || oauthUser.userId || oauthUser.email || oauthUser.username || `oauth-${accessToken.slice(0, 8)}`).toString();
+    const email = (isServicePrincipal
+      ? `${clientId}@service.local`
+      : oauthUser.email || (oauthUser.username ? `${oauthUser.username}@oauth.local` : `${derivedUserId}@oauth.local`)).toString();
     const nowSeconds = Math.floor(Date.now() / 1000);
     const expSeconds = expiresAt ? Math.floor(expiresAt.getTime() / 1000) : nowSeconds + 3600;
 
@@ -814,6 +1119,9 @@ export class RpcAiServer {
       exp: expSeconds,
       iss: provider ? `oauth:${provider}` : 'oauth',
       aud: 'mcp',
+      principalType: isServicePrincipal ? 'service' : 'user',
+      ...(isServicePrincipal && { serviceAccount: { clientId: clientId!, name: oauthUser.name } }),
+      ...(isServicePrincipal && oauthUser.organizationId && { organizationId: oauthUser.organizationId }),
     };
 
     req.user = payload;
@@ -831,6 +1139,8 @@ export class RpcAiServer {
       },
       features,
       organizationId: oauthUser.organizationId || undefined,
+      principalType: payload.principalType,
+      clientId,
     };
   }
 
@@ -937,6 +1247,9 @@ export class RpcAiServer {
     this.app.options('/.well-known/openid-configuration', oauthCorsHandler);
     this.app.options('/oauth/register', oauthCorsHandler);
     this.app.options('/oauth/token', oauthCorsHandler);
+    this.app.options('/oauth/revoke', oauthCorsHandler);
+    this.app.options('/oauth/introspect', oauthCorsHandler);
+    this.app.options('/oauth/device_authorization', oauthCorsHandler);
     this.app.options('/oauth/authorize', oauthCorsHandler);
     
     // OAuth Authorization Server Discovery
@@ -948,9 +1261,14 @@ export class RpcAiServer {
         token_endpoint: `${baseUrl}/oauth/token`,
         registration_endpoint: `${baseUrl}/oauth/register`,
         response_types_supported: ['code'],
-        grant_types_supported: ['authorization_code'],
+        grant_types_supported: ['authorization_code', DEVICE_CODE_GRANT, CLIENT_CREDENTIALS_GRANT],
         code_challenge_methods_supported: ['S256'],
         token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        device_authorization_endpoint: `${baseUrl}/oauth/device_authorization`,
+        revocation_endpoint: `${baseUrl}/oauth/revoke`,
+        revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        introspection_endpoint: `${baseUrl}/oauth/introspect`,
+        introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
         // scopes_supported: [
         //   'mcp', 'mcp:list', 'mcp:call', 'mcp:tools', 'mcp:admin',
         //   'read', 'write', 'admin', 'user',
@@ -981,9 +1299,14 @@ export class RpcAiServer {
         token_endpoint: `${baseUrl}/oauth/token`,
         registration_endpoint: `${baseUrl}/oauth/register`,
         response_types_supported: ['code'],
-        grant_types_supported: ['authorization_code'],
+        grant_types_supported: ['authorization_code', DEVICE_CODE_GRANT, CLIENT_CREDENTIALS_GRANT],
         code_challenge_methods_supported: ['S256'],
         token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        device_authorization_endpoint: `${baseUrl}/oauth/device_authorization`,
+        revocation_endpoint: `${baseUrl}/oauth/revoke`,
+        revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+        introspection_endpoint: `${baseUrl}/oauth/introspect`,
+        introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
         // scopes_supported: [
         //   'mcp', 'mcp:list', 'mcp:call', 'mcp:tools', 'mcp:admin',
         //   'read', 'write', 'admin', 'user',
@@ -1053,21 +1376,26 @@ export class RpcAiServer {
         authorization_endpoint: `${baseUrl}/oauth/authorize`,
         token_endpoint: `${baseUrl}/oauth/token`,
         response_types_supported: ['code'],
-        grant_types_supported: ['authorization_code'],
+        grant_types_supported: ['authorization_code', DEVICE_CODE_GRANT, CLIENT_CREDENTIALS_GRANT],
         code_challenge_methods_supported: ['S256'],
+        device_authorization_endpoint: `${baseUrl}/oauth/device_authorization`,
         scopes_supported: ['openid', 'mcp'],
         subject_types_supported: ['public'],
         jwks_uri: `${baseUrl}/.well-known/jwks.json`, // required by OIDC
-        id_token_signing_alg_values_supported: ['RS256']
+        id_token_signing_alg_values_supported: [this.oauthTokenSigner?.algorithm || 'RS256']
       });
     });
 
-    // JWKS endpoint (placeholder) --> required by OIDC but empty for now
-    this.app.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+    // JWKS endpoint - public keys of the token signer (empty when JWT tokens are disabled)
+    this.app.get('/.well-known/jwks.json', async (_req: Request, res: Response) => {
       res.header('Access-Control-Allow-Origin', '*');
-      res.json({
-        keys: [] // In a real implementation, this would contain your public keys
-      });
+      try {
+        res.header('Cache-Control', 'public, max-age=300');
+        res.json(this.oauthTokenSigner ? await this.oauthTokenSigner.getJwks() : { keys: [] });
+      } catch (error) {
+        console.error('❌ OAuth JWKS lookup failed:', error);
+        res.status(500).json({ error: 'server_error', error_description: 'Failed to load signing keys' });
+      }
     });
 
     // OAuth 2.0 Functional Endpoints (if OAuth is enabled)
@@ -1075,7 +1403,7 @@ export class RpcAiServer {
       console.log(`🔗 Setting up OAuth 2.0 functional endpoints...`);
 
       // Import OAuth route handlers
-      const { handleProviderLogin, handleProviderCallback, createAuthenticateHandler, handleProviderSelection } = await import('./auth/oauth-middleware.js');
+      const { handleProviderLogin, handleProviderCallback, createAuthenticateHandler, handleProviderSelection, handleTokenRevocation, handleTokenIntrospection, handleDeviceAuthorization, handleDeviceVerificationPage, handleDeviceVerificationDecision } = await import('./auth/oauth-middleware.js');
       
       // Provider selection page
       this.app.get('/login', handleProviderSelection);
@@ -1121,14 +1449,25 @@ export class RpcAiServer {
         })(req, res, next);
       });
 
-      // OAuth Token Endpoint  
-      this.app.post('/oauth/token', (req: Request, res: Response, next) => {
-        // Add CORS headers for token endpoint
+      // CORS headers for the token, revocation and introspection endpoints
+      const tokenEndpointCors = (_req: Request, res: Response, next: NextFunction) => {
         res.header('Access-Control-Allow-Origin', '*');
         res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
         res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
         next();
-      }, this.oauthServer.token());
+      };
+
+      // OAuth Token Endpoint  
+      this.app.post('/oauth/token', tokenEndpointCors, this.oauthServer.token());
+
+      // OAuth Token Revocation (RFC 7009) and Introspection (RFC 7662)
+      this.app.post('/oauth/revoke', tokenEndpointCors, handleTokenRevocation);
+      this.app.post('/oauth/introspect', tokenEndpointCors, handleTokenIntrospection);
+
+      // Device Authorization Grant (RFC 8628): CLI tools get a user code, users approve it at /oauth/device
+      this.app.post('/oauth/device_authorization', tokenEndpointCors, handleDeviceAuthorization);
+      this.app.get('/oauth/device', handleDeviceVerificationPage);
+      this.app.post('/oauth/device', handleDeviceVerificationDecision);
 
       // OAuth Dynamic Client Registration Endpoint
       this.app.post('/oauth/register', async (req: Request, res: Response) => {
@@ -1136,8 +1475,10 @@ export class RpcAiServer {
           res.header('Access-Control-Allow-Origin', '*');
           
           const { redirect_uris, grant_types } = req.body;
+          // Device-only clients (CLI tools) never receive a redirect
+          const deviceOnly = Array.isArray(grant_types) && grant_types.includes(DEVICE_CODE_GRANT) && !grant_types.includes('authorization_code');
           
-          if (!redirect_uris || !Array.isArray(redirect_uris) || redirect_uris.length === 0) {
+          if (!deviceOnly && (!redirect_uris || !Array.isArray(redirect_uris) || redirect_uris.length === 0)) {
             res.status(400).json({ 
               error: 'invalid_redirect_uri',
               error_description: 'redirect_uris is required and must be an array'
@@ -1154,7 +1495,7 @@ export class RpcAiServer {
             id: clientId,
             clientSecret,
             grants: grant_types || ['authorization_code', 'refresh_token'],
-            redirectUris: redirect_uris,
+            redirectUris: redirect_uris || [],
             accessTokenLifetime: 3600,
             refreshTokenLifetime: 86400
           };
@@ -1168,7 +1509,7 @@ export class RpcAiServer {
           res.json({
             client_id: clientId,
             client_secret: clientSecret,
-            redirect_uris: redirect_uris,
+            redirect_uris: redirect_uris || [],
             grant_types: client.grants,
             token_endpoint_auth_method: 'client_secret_post'
           });
@@ -1226,7 +1567,7 @@ export class RpcAiServer {
         res.json({
           message: 'JSON-RPC endpoint - use POST method',
           endpoint: this.config.paths.jsonRpc,
-          methods: [RPC_METHODS.HEALTH, RPC_METHODS.GENERATE_TEXT, RPC_METHODS.LIST_PROVIDERS, RPC_METHODS.STORE_USER_KEY, RPC_METHODS.GET_USER_KEY, RPC_METHODS.GET_USER_PROVIDERS, RPC_METHODS.VALIDATE_USER_KEY, RPC_METHODS.ROTATE_USER_KEY, RPC_METHODS.DELETE_USER_KEY],
+          methods: [RPC_METHODS.HEALTH, RPC_METHODS.GENERATE_TEXT, RPC_METHODS.STREAM_TEXT, RPC_METHODS.GENERATE_OBJECT, RPC_METHODS.LIST_PROVIDERS, RPC_METHODS.STORE_USER_KEY, RPC_METHODS.GET_USER_KEY, RPC_METHODS.GET_USER_PROVIDERS, RPC_METHODS.VALIDATE_USER_KEY, RPC_METHODS.ROTATE_USER_KEY, RPC_METHODS.DELETE_USER_KEY],
           example: {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -1235,6 +1576,9 @@ export class RpcAiServer {
         });
       });
 
+      // Streaming procedures (e.g. ai.streamText) are served as Server-Sent Events
+      this.app.post(this.config.paths.jsonRpcStream!, this.jsonRpcBridge!.createStreamHandler());
+
       // Use the tRPC to JSON-RPC bridge instead of manual route handling
       this.app.post(this.config.paths.jsonRpc!, this.jsonRpcBridge!.createHandler());
     }
@@ -1311,98 +1655,68 @@ export class RpcAiServer {
     });
 
     // LemonSqueezy webhook endpoint (if token tracking is enabled)
-    if (this.config.tokenTracking.enabled && this.virtualTokenService) {
+    if (this.config.tokenTracking.enabled && this.lemonSqueezyWebhooks) {
       this.app.post(this.config.tokenTracking.webhookPath!, (req: Request, res: Response) => {
-        this.handleLemonSqueezyWebhook(req, res);
+        this.handlePaymentWebhook(this.lemonSqueezyWebhooks!, req.headers['x-signature'] as string | undefined, req, res);
       });
     }
+
+    // Stripe webhook endpoint (if configured)
+    if (this.config.tokenTracking.enabled && this.stripeWebhooks) {
+      this.app.post(this.getWebhookPaths()[1], (req: Request, res: Response) => {
+        this.handlePaymentWebhook(this.stripeWebhooks!, req.headers['stripe-signature'] as string | undefined, req, res);
+      });
+    }
+  }
+
+  /**
+   * Payment webhook endpoints: LemonSqueezy, then Stripe
+   */
+  private getWebhookPaths(): string[] {
+    return [
+      this.config.tokenTracking.webhookPath!,
+      this.config.tokenTracking.stripe?.webhookPath ?? '/webhooks/stripe'
+    ];
   }
 
   /**
-   * Handle LemonSqueezy webhook for token top-ups
+   * Handle payment webhooks (orders, subscriptions, renewals, refunds)
+   * Failed events answer 500 so the provider retries them; retries of
+   * processed events are acknowledged without processing them again.
    */
-  private async handleLemonSqueezyWebhook(req: Request, res: Response): Promise<void> {
+  private async handlePaymentWebhook(
+    handler: LemonSqueezyWebhookHandler | StripeWebhookHandler,
+    signature: string | undefined,
+    req: Request,
+    res: Response
+  ): Promise<void> {
     try {
-      const signature = req.headers['x-signature'] as string;
-      const body = JSON.stringify(req.body);
-
-      // Verify webhook signature
-      if (this.config.tokenTracking.webhookSecret) {
-        const expectedSignature = crypto
-          .createHmac('sha256', this.config.tokenTracking.webhookSecret)
-          .update(body)
-          .digest('hex');
-
-        if (signature !== `sha256=${expectedSignature}`) {
-          console.error('❌ Invalid webhook signature');
-          res.status(401).json({ error: 'Invalid signature' });
-          return;
-        }
+      const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+
+      if (!rawBody) {
+        res.status(400).json({ error: 'Expected a JSON body' });
+        return;
       }
 
-      const webhookData = req.body;
-      const { meta, data } = webhookData;
-
-      // Handle successful payments
-      if (meta.event_name === 'order_created' && data.attributes.status === 'paid') {
-        const userId = data.attributes.user_email; // Use email as user ID for now
-        const orderValue = parseInt(data.attributes.order_value); // In cents
-        const variantId = data.attributes.variant_id;
-        const orderId = data.id;
-        const variantName = data.attributes.variant_name || '';
-        const productName = data.attributes.product_name || '';
-
-        // Determine purchase type based on variant/product name or other criteria
-        const isSubscription = variantName.toLowerCase().includes('subscription') || 
-                              productName.toLowerCase().includes('subscription');
-        const purchaseType = isSubscription ? 'subscription' : 'one_time';
-
-        // Check if already processed
-        if (this.usageAnalyticsService && !(await this.usageAnalyticsService.isPaymentProcessed(orderId))) {
-          // Record purchase in analytics
-          await this.usageAnalyticsService.recordPurchase({
-            userId,
-            paymentId: orderId,
-            purchaseType,
-            variantId,
-            quantity: purchaseType === 'one_time' ? Math.floor(orderValue / 100) : undefined, // Assume $1 = 1 unit for one-time
-            amountPaidCents: orderValue,
-            currency: 'USD',
-            lemonSqueezyData: webhookData
-          });
+      if (!handler.verifySignature(rawBody, signature)) {
+        console.error('❌ Invalid webhook signature');
+        res.status(401).json({ error: 'Invalid signature' });
+        return;
+      }
 
-          // If it's a token purchase (subscription), also add to virtual token service
-          if (purchaseType === 'subscription' && this.virtualTokenService) {
-            // Calculate tokens based on order value (example: 1 cent = 10 tokens)
-            const tokensPurchased = orderValue * 10;
-            
-            await this.virtualTokenService.addTokensFromPayment(
-              userId,
-              tokensPurchased,
-              orderId,
-              variantId,
-              orderValue,
-              'USD',
-              webhookData
-            );
-
-            console.log(`✅ Processed subscription: ${tokensPurchased} tokens for user ${userId}`);
-          } else {
-            console.log(`✅ Processed one-time purchase: ${orderValue / 100} for user ${userId}`);
-          }
-        }
+      const result = await handler.receive(rawBody);
+      if (result.status === 'failed') {
+        res.status(500).json({ error: 'Webhook processing failed', eventId: result.eventId });
+        return;
       }
 
-      res.status(200).json({ received: true });
+      res.status(200).json({ received: true, eventId: result.eventId, status: result.status, duplicate: result.duplicate });
     } catch (error) {
       console.error('❌ Webhook processing error:', error);
       res.status(500).json({ error: 'Webhook processing failed' });
     }
   }
 
-
-
-
   /**
    * Initialize remote MCP servers with security scanning
    */
@@ -1572,12 +1886,176 @@ export class RpcAiServer {
     }
   }
 
+  /**
+   * Create the MCP protocol handler (shared by the HTTP endpoint and stdio transport)
+   */
+  private async createMCPProtocolHandler(): Promise<MCPProtocolHandler> {
+    // Import and create the protocol handler
+    const { MCPProtocolHandler } = await import('./trpc/routers/mcp/protocol-handler.js');
+    const protocolHandler = new MCPProtocolHandler(
+      this.router,
+      {
+        ...this.config.mcp,
+        // Streamable HTTP sessions follow the SSE transport flag
+        sessions: {
+          enabled: this.config.mcp.transports?.sse !== false,
+          ...this.config.mcp.sessions
+        }
+      }
+    );
+    this.mcpProtocolHandler = protocolHandler;
+
+    // Aggregate remote MCP servers into our tools/prompts/resources
+    if (this.remoteMcpManager) {
+      const remoteConfig = this.config.remoteMcpServers;
+      protocolHandler.setRemoteGateway(createRemoteMCPGateway(this.remoteMcpManager, {
+        separator: remoteConfig?.namespaceSeparator,
+        servers: Object.fromEntries((remoteConfig?.servers || []).map(server => [server.name, {
+          namespace: server.namespace,
+          public: server.public,
+          scopes: server.scopes
+        }]))
+      }));
+      console.log('🔗 Remote MCP servers proxied through MCP endpoint');
+    }
+
+    const mcpWorkspaceConfig = (this.config.serverWorkspaces && this.config.serverWorkspaces.enabled &&
+      this.hasWorkspaceDefinitions(this.config.serverWorkspaces))
+      ? this.config.serverWorkspaces
+      : undefined;
+
+    if (this.config.serverWorkspaces?.enabled && !mcpWorkspaceConfig) {
+      console.warn('⚠️  Server workspace API enabled for MCP, but no workspace paths configured. Skipping workspace manager initialization.');
+    }
+
+    if (mcpWorkspaceConfig) {
+      try {
+        const { createRootManager } = await import('./services/resources/root-manager.js');
+
+        const rootManagerConfig: RootManagerConfig = {};
+
+        if (mcpWorkspaceConfig.defaultWorkspace?.path && mcpWorkspaceConfig.defaultWorkspace.path.trim().length > 0) {
+          const normalizedDefault: RootFolderConfig = {
+            ...mcpWorkspaceConfig.defaultWorkspace,
+            path: mcpWorkspaceConfig.defaultWorkspace.path.trim()
+          };
+          rootManagerConfig.defaultRoot = normalizedDefault;
+        } else if (mcpWorkspaceConfig.defaultWorkspace) {
+          console.warn('⚠️  MCP root manager default workspace is defined but missing a path. Ignoring default root.');
+        }
+
+        if (mcpWorkspaceConfig.additionalWorkspaces) {
+          const normalizedRoots = Object.fromEntries(
+            Object.entries(mcpWorkspaceConfig.additionalWorkspaces)
+              .map(([rootId, config]) => {
+                if (!config?.path || config.path.trim().length === 0) {
+                  console.warn(`⚠️  MCP root manager additional workspace "${rootId}" is missing a path and will be ignored.`);
+                  return null;
+                }
+
+                const normalizedRoot: RootFolderConfig = {
+                  ...config,
+                  path: config.path.trim()
+                };
+
+                return [rootId, normalizedRoot] as const;
+              })
+              .filter((entry): entry is [string, RootFolderConfig] => Boolean(entry))
+          );
+
+          if (Object.keys(normalizedRoots).length > 0) {
+            rootManagerConfig.roots = normalizedRoots;
+          }
+        }
+
+        if (!rootManagerConfig.defaultRoot && !rootManagerConfig.roots) {
+          throw new Error('No valid workspace paths provided for MCP root manager');
+        }
+
+        const rootManager = createRootManager(rootManagerConfig);
+
+        protocolHandler.setRootManager(rootManager);
+        console.log('✅ MCP root manager configured for server workspaces');
+      } catch (error) {
+        console.warn('⚠️ Could not initialize MCP root manager:', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return protocolHandler;
+  }
+
+  /**
+   * Merge admin-edited prices from the database over the pricing catalog
+   */
+  private async loadStoredPricing(): Promise<void> {
+    if (!this.dbAdapter) return;
+
+    try {
+      const count = await this.pricingCatalog.loadFromDatabase();
+      if (count > 0) {
+        console.log(`💲 Loaded ${count} model prices from the database`);
+      }
+    } catch (error) {
+      console.warn('⚠️  Failed to load model pricing from the database, using the catalog file only:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Serve MCP over stdin/stdout only - no HTTP port is opened.
+   *
+   * Entry point for desktop MCP clients that launch the backend as a local
+   * process. Requires `mcp.transports.stdio: true`, which redirects all
+   * logging to stderr in the constructor - before anything logs - so stdout
+   * carries only protocol messages. Resolves when stdin closes.
+   *
+   * @example
+   * ```typescript
+   * const server = createRpcAiServer({ mcp: { enabled: true, transports: { stdio: true } } });
+   * await server.startStdio();
+   * ```
+   */
+  public async startStdio(): Promise<void> {
+    if (!this.config.mcp.transports?.stdio) {
+      // Constructor logs have already gone to stdout and would corrupt the protocol stream
+      throw new Error('startStdio() requires mcp.transports.stdio: true in the server config');
+    }
+
+    await this.loadStoredPricing();
+
+    if (this.conversationService) {
+      await this.conversationService.initialize();
+    }
+
+    if (this.config.remoteMcpServers?.enabled && this.config.remoteMcpServers.servers?.length) {
+      await this.initializeRemoteMcpServers();
+    }
+
+    const protocolHandler = await this.createMCPProtocolHandler();
+    this.stdioTransport = startMCPStdioTransport(protocolHandler, {
+      user: this.config.mcp.transports?.stdioUser
+    });
+
+    await this.stdioTransport.closed;
+  }
+
   public async start(setupRoutes?: (app: Application) => void): Promise<void> {
     // Initialize OAuth server session storage (if enabled)
     if (this.config.oauth.enabled) {
       await initializeOAuthServer();
     }
 
+    // Merge admin-managed prices from the database over the pricing catalog
+    await this.loadStoredPricing();
+
+    // Load conversation store (file storage reads existing threads here)
+    if (this.conversationService) {
+      await this.conversationService.initialize();
+    }
+
+    // Return stale token holds and report metered Stripe usage on a schedule
+    this.virtualTokenService?.startReservationSweep();
+    this.stripeUsageReporter?.start();
+
     // Initialize remote MCP servers with security scanning
     if (this.config.remoteMcpServers?.enabled && this.config.remoteMcpServers.servers?.length) {
       await this.initializeRemoteMcpServers();
@@ -1589,78 +2067,18 @@ export class RpcAiServer {
     // Setup MCP endpoint if enabled
     if (this.config.mcp?.enabled) {
       console.log('🚀 Setting up MCP server...');
-      // Import and create the protocol handler
-      const { MCPProtocolHandler } = await import('./trpc/routers/mcp/protocol-handler.js');
-      const protocolHandler = new MCPProtocolHandler(
-        this.router,
-        this.config.mcp
-      );
-
-      const mcpWorkspaceConfig = (this.config.serverWorkspaces && this.config.serverWorkspaces.enabled &&
-        this.hasWorkspaceDefinitions(this.config.serverWorkspaces))
-        ? this.config.serverWorkspaces
-        : undefined;
-
-      if (this.config.serverWorkspaces?.enabled && !mcpWorkspaceConfig) {
-        console.warn('⚠️  Server workspace API enabled for MCP, but no workspace paths configured. Skipping workspace manager initialization.');
-      }
-
-      if (mcpWorkspaceConfig) {
-        try {
-          const { createRootManager } = await import('./services/resources/root-manager.js');
-
-          const rootManagerConfig: RootManagerConfig = {};
-
-          if (mcpWorkspaceConfig.defaultWorkspace?.path && mcpWorkspaceConfig.defaultWorkspace.path.trim().length > 0) {
-            const normalizedDefault: RootFolderConfig = {
-              ...mcpWorkspaceConfig.defaultWorkspace,
-              path: mcpWorkspaceConfig.defaultWorkspace.path.trim()
-            };
-            rootManagerConfig.defaultRoot = normalizedDefault;
-          } else if (mcpWorkspaceConfig.defaultWorkspace) {
-            console.warn('⚠️  MCP root manager default workspace is defined but missing a path. Ignoring default root.');
-          }
-
-          if (mcpWorkspaceConfig.additionalWorkspaces) {
-            const normalizedRoots = Object.fromEntries(
-              Object.entries(mcpWorkspaceConfig.additionalWorkspaces)
-                .map(([rootId, config]) => {
-                  if (!config?.path || config.path.trim().length === 0) {
-                    console.warn(`⚠️  MCP root manager additional workspace "${rootId}" is missing a path and will be ignored.`);
-                    return null;
-                  }
-
-                  const normalizedRoot: RootFolderConfig = {
-                    ...config,
-                    path: config.path.trim()
-                  };
-
-                  return [rootId, normalizedRoot] as const;
-                })
-                .filter((entry): entry is [string, RootFolderConfig] => Boolean(entry))
-            );
-
-            if (Object.keys(normalizedRoots).length > 0) {
-              rootManagerConfig.roots = normalizedRoots;
-            }
-          }
-
-          if (!rootManagerConfig.defaultRoot && !rootManagerConfig.roots) {
-            throw new Error('No valid workspace paths provided for MCP root manager');
-          }
-
-          const rootManager = createRootManager(rootManagerConfig);
-
-          protocolHandler.setRootManager(rootManager);
-          console.log('✅ MCP root manager configured for server workspaces');
-        } catch (error) {
-          console.warn('⚠️ Could not initialize MCP root manager:', error instanceof Error ? error.message : String(error));
-        }
-      }
+      const protocolHandler = await this.createMCPProtocolHandler();
 
       // Setup the MCP endpoint
       protocolHandler.setupMCPEndpoint(this.app, '/mcp');
       console.log('⚠️ MCP endpoint ready at /mcp (security logging, rate limiting enabled, JWT AUTH configured)');
+
+      // Also serve MCP on stdin/stdout when the process is launched by a desktop client
+      if (this.config.mcp.transports?.stdio) {
+        this.stdioTransport = startMCPStdioTransport(protocolHandler, {
+          user: this.config.mcp.transports.stdioUser
+        });
+      }
     }
 
     if (setupRoutes) {
@@ -1709,6 +2127,9 @@ export class RpcAiServer {
         if (this.config.tokenTracking.enabled) {
           console.log(`   • Token tracking: enabled (${this.config.tokenTracking.platformFeePercent}% platform fee)`);
           console.log(`   • Webhook: ${this.config.tokenTracking.webhookPath}`);
+          if (this.stripeWebhooks) {
+            console.log(`   • Stripe webhook: ${this.getWebhookPaths()[1]}`);
+          }
         }
         if (this.jwtMiddleware) {
           console.log(`   • JWT authentication: enabled`);
@@ -1725,6 +2146,17 @@ export class RpcAiServer {
     if (this.config.oauth.enabled) {
       await closeOAuthServer();
     }
+
+    if (this.stdioTransport) {
+      this.stdioTransport.close();
+      this.stdioTransport = undefined;
+    }
+
+    this.virtualTokenService?.stopReservationSweep();
+    this.stripeUsageReporter?.stop();
+
+    // Open MCP event streams would keep the HTTP server from closing
+    this.mcpProtocolHandler?.getSessionManager()?.closeAll();
     
     return new Promise((resolve) => {
       if (this.server) {
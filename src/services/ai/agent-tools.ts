@@ -0,0 +1,197 @@
+/**
+ * Agentic tool calling for AIService
+ *
+ * Exposes tools from an AgentToolExecutor (our MCP tools and proxied remote
+ * MCP tools) to the model as AI SDK tools. Each call is limited by the
+ * request's allowlist and per-tool timeout, and recorded for the step trace
+ * returned in ExecuteResult.steps.
+ */
+
+import { tool, jsonSchema, type ToolSet } from 'ai';
+import type { OpenSaaSJWTPayload } from '../../auth/jwt-middleware.js';
+
+export interface AgentTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+}
+
+/**
+ * Who the model is acting for - tools are listed and called with this user's permissions
+ */
+export interface AgentToolCaller {
+  user?: OpenSaaSJWTPayload | null;
+}
+
+/**
+ * Source of callable tools, responsible for auth and scope checks
+ */
+export interface AgentToolExecutor {
+  listTools(caller: AgentToolCaller): Promise<AgentTool[]>;
+  callTool(name: string, args: unknown, caller: AgentToolCaller, options: { signal: AbortSignal }): Promise<unknown>;
+}
+
+export interface AgentOptions extends AgentToolCaller {
+  maxSteps?: number;                     // Model calls including the final answer (default: 5)
+  allowedTools?: string[];               // Tool names or `prefix*` patterns (default: every tool the user may call)
+  toolTimeoutMs?: number;                // Default per-call timeout (default: 30s)
+  toolTimeouts?: Record<string, number>; // Per-tool overrides
+}
+
+export interface AgentServiceConfig {
+  toolExecutor?: AgentToolExecutor;
+  maxStepsLimit?: number;  // Upper bound for request maxSteps (default: 10)
+  toolTimeoutMs?: number;  // Default per-call timeout (default: 30s)
+}
+
+export interface AgentToolCallTrace {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentStep {
+  step: number;
+  text?: string;
+  toolCalls: AgentToolCallTrace[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  finishReason?: string;
+}
+
+/**
+ * Tools for one agent run plus the calls they recorded
+ */
+export interface AgentToolSet {
+  tools: ToolSet;
+  calls: Map<string, AgentToolCallTrace>;
+  toolNames: Map<string, string>; // Model-facing name -> executor name
+}
+
+export function matchesToolPattern(name: string, patterns: string[]): boolean {
+  return patterns.some(pattern => pattern.endsWith('*')
+    ? name.startsWith(pattern.slice(0, -1))
+    : name === pattern);
+}
+
+/**
+ * Providers only accept [a-zA-Z0-9_-]{1,64} tool names
+ */
+function toModelToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+/**
+ * MCP tool results are content arrays - the model gets their text
+ */
+function toToolOutput(result: any): unknown {
+  if (Array.isArray(result?.content)) {
+    const text = result.content
+      .filter((part: any) => part?.type === 'text')
+      .map((part: any) => part.text)
+      .join('\n');
+    return result.isError ? { error: text } : text;
+  }
+  return result;
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Tool '${name}' timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function createAgentToolSet(
+  executor: AgentToolExecutor,
+  options: AgentOptions,
+  defaultTimeoutMs: number
+): Promise<AgentToolSet> {
+  const caller: AgentToolCaller = { user: options.user };
+  const available = await executor.listTools(caller);
+  const allowed = options.allowedTools
+    ? available.filter(agentTool => matchesToolPattern(agentTool.name, options.allowedTools!))
+    : available;
+
+  const calls = new Map<string, AgentToolCallTrace>();
+  const toolNames = new Map<string, string>();
+  const tools: ToolSet = {};
+
+  for (const agentTool of allowed) {
+    const modelName = toModelToolName(agentTool.name);
+    const timeoutMs = options.toolTimeouts?.[agentTool.name] ?? options.toolTimeoutMs ?? defaultTimeoutMs;
+    toolNames.set(modelName, agentTool.name);
+
+    tools[modelName] = tool({
+      description: agentTool.description || agentTool.name,
+      inputSchema: jsonSchema(agentTool.inputSchema || { type: 'object', properties: {} }),
+      execute: async (args: unknown, { toolCallId }: { toolCallId: string }) => {
+        const trace: AgentToolCallTrace = { toolCallId, toolName: agentTool.name, args, durationMs: 0 };
+        calls.set(toolCallId, trace);
+        const startedAt = Date.now();
+
+        try {
+          const output = toToolOutput(await withTimeout(
+            signal => executor.callTool(agentTool.name, args, caller, { signal }),
+            timeoutMs,
+            agentTool.name
+          ));
+          trace.result = output;
+          return output;
+        } catch (error) {
+          // Hand the failure to the model so it can recover or explain
+          trace.error = error instanceof Error ? error.message : String(error);
+          return { error: trace.error };
+        } finally {
+          trace.durationMs = Date.now() - startedAt;
+        }
+      }
+    });
+  }
+
+  return { tools, calls, toolNames };
+}
+
+/**
+ * Build the audit trace from the AI SDK steps and the recorded tool calls
+ */
+export function toAgentSteps(steps: any[], toolSet: AgentToolSet): AgentStep[] {
+  return steps.map((step, index) => {
+    const promptTokens = step.usage?.inputTokens ?? 0;
+    const completionTokens = step.usage?.outputTokens ?? 0;
+
+    return {
+      step: index + 1,
+      text: step.text || undefined,
+      toolCalls: (step.toolCalls || []).map((call: any) => toolSet.calls.get(call.toolCallId) ?? {
+        toolCallId: call.toolCallId,
+        toolName: toolSet.toolNames.get(call.toolName) ?? call.toolName,
+        args: call.input,
+        error: 'Tool was not executed',
+        durationMs: 0
+      }),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: step.usage?.totalTokens ?? (promptTokens + completionTokens)
+      },
+      finishReason: step.finishReason
+    };
+  });
+}
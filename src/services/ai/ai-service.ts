@@ -5,7 +5,7 @@
  * Handles multiple providers (Anthropic, OpenAI, Google, etc.) seamlessly.
  */
 
-import { generateText } from 'ai';
+import { generateText, streamText, generateObject, jsonSchema, stepCountIs, NoObjectGeneratedError } from 'ai';
 import { createAnthropic, anthropic } from '@ai-sdk/anthropic';
 import { createOpenAI, openai } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI, google } from '@ai-sdk/google';
@@ -19,6 +19,27 @@ import { hybridRegistry } from './hybrid-model-registry.js';
 import type { ModelInfo } from './model-registry.js';
 import { TimingLogger } from '../../utils/timing.js';
 import { logger } from '../../utils/logger.js';
+import {
+  AIProviderError,
+  ProviderCircuitBreaker,
+  classifyProviderError,
+  findEquivalentModel,
+  getBackoffDelay,
+  parseRetryAfter,
+  resolveFailoverPolicy,
+  type CircuitState,
+  type ProviderFailoverConfig,
+  type ResolvedFailoverPolicy
+} from './provider-failover.js';
+import { resolveOutputSchema, buildRepairPrompt, StructuredOutputError, type OutputSchema, type OutputSchemaOptions } from './structured-output.js';
+import {
+  createAgentToolSet,
+  toAgentSteps,
+  type AgentOptions,
+  type AgentServiceConfig,
+  type AgentStep,
+  type AgentToolSet
+} from './agent-tools.js';
 
 /**
  * Configuration options for Hugging Face model adapter
@@ -48,6 +69,26 @@ function createHuggingFaceModel(modelId: string, config: string | HuggingFaceMod
   const enableFallback = typeof config === 'object' ? (config.enableFallback !== false) : true;
   const hf = new InferenceClient(apiKey);
 
+  // Convert AI SDK prompt messages to a single HF text prompt
+  const toPromptText = (options: any): string => options.prompt
+    ?.map((msg: any) => {
+      if (msg.role === 'system') {
+        return `System: ${msg.content}`;
+      } else if (msg.role === 'user') {
+        return `User: ${msg.content}`;
+      } else if (msg.role === 'assistant') {
+        return `Assistant: ${msg.content}`;
+      }
+      return msg.content;
+    })
+    .join('\n\n') || '';
+
+  // Convert AI SDK prompt messages to HF chat completion messages
+  const toChatMessages = (options: any, prompt: string) => options.prompt?.map((msg: any) => ({
+    role: msg.role as 'user' | 'assistant' | 'system',
+    content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
+  })) || [{ role: 'user' as const, content: prompt }];
+
   return {
     specificationVersion: 'v2',
     modelId,
@@ -56,18 +97,7 @@ function createHuggingFaceModel(modelId: string, config: string | HuggingFaceMod
     async doGenerate(options) {
       try {
         // Convert messages to HF format
-        const prompt = options.prompt
-          ?.map(msg => {
-            if (msg.role === 'system') {
-              return `System: ${msg.content}`;
-            } else if (msg.role === 'user') {
-              return `User: ${msg.content}`;
-            } else if (msg.role === 'assistant') {
-              return `Assistant: ${msg.content}`;
-            }
-            return msg.content;
-          })
-          .join('\n\n') || '';
+        const prompt = toPromptText(options);
 
         let response;
         let text;
@@ -88,10 +118,7 @@ function createHuggingFaceModel(modelId: string, config: string | HuggingFaceMod
 
         // Helper function for chat completion
         const tryChatCompletion = async () => {
-          const messages = options.prompt?.map(msg => ({
-            role: msg.role as 'user' | 'assistant' | 'system',
-            content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-          })) || [{ role: 'user' as const, content: prompt }];
+          const messages = toChatMessages(options, prompt);
 
           response = await hf.chatCompletion({
             model: modelId,
@@ -149,8 +176,103 @@ function createHuggingFaceModel(modelId: string, config: string | HuggingFaceMod
         throw new Error(`Hugging Face API error: ${error.message}`);
       }
     },
-    async doStream() {
-      throw new Error('Streaming not yet implemented for Hugging Face provider');
+    async doStream(options) {
+      const prompt = toPromptText(options);
+      const maxTokens = (options as any).maxOutputTokens || (options as any).maxTokens || 4000;
+      const temperature = (options as any).temperature || 0.7;
+
+      // Helper generator for text generation streaming
+      async function* streamTextGeneration(): AsyncGenerator<string> {
+        const chunks = hf.textGenerationStream({
+          model: modelId,
+          inputs: prompt,
+          parameters: {
+            max_new_tokens: maxTokens,
+            temperature,
+            return_full_text: false,
+          },
+        }, { signal: options.abortSignal });
+        for await (const chunk of chunks) {
+          if (!chunk.token?.special && chunk.token?.text) {
+            yield chunk.token.text;
+          }
+        }
+      }
+
+      // Helper generator for chat completion streaming
+      async function* streamChatCompletion(): AsyncGenerator<string> {
+        const chunks = hf.chatCompletionStream({
+          model: modelId,
+          messages: toChatMessages(options, prompt),
+          max_tokens: maxTokens,
+          temperature,
+        }, { signal: options.abortSignal });
+        for await (const chunk of chunks) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            yield delta;
+          }
+        }
+      }
+
+      // Same method selection as doGenerate; auto mode can only fall back before the first delta
+      async function* streamDeltas(): AsyncGenerator<string> {
+        if (method === 'textGeneration') {
+          yield* streamTextGeneration();
+        } else if (method === 'chatCompletion') {
+          yield* streamChatCompletion();
+        } else {
+          let emitted = false;
+          try {
+            for await (const delta of streamTextGeneration()) {
+              emitted = true;
+              yield delta;
+            }
+          } catch (textGenError: any) {
+            if (!emitted && enableFallback && textGenError.message?.includes('conversational')) {
+              console.log('🔄 Switching to chat completion stream for model:', modelId);
+              yield* streamChatCompletion();
+            } else {
+              throw textGenError;
+            }
+          }
+        }
+      }
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          let generatedText = '';
+          controller.enqueue({ type: 'stream-start', warnings: [] });
+          controller.enqueue({ type: 'text-start', id: 'text-0' });
+
+          try {
+            for await (const delta of streamDeltas()) {
+              generatedText += delta;
+              controller.enqueue({ type: 'text-delta', id: 'text-0', delta });
+            }
+
+            const inputTokens = Math.ceil(prompt.length / 4);
+            const outputTokens = Math.ceil(generatedText.length / 4);
+
+            controller.enqueue({ type: 'text-end', id: 'text-0' });
+            controller.enqueue({
+              type: 'finish',
+              finishReason: 'stop',
+              usage: {
+                inputTokens,
+                outputTokens,
+                totalTokens: inputTokens + outputTokens,
+              },
+            });
+          } catch (error: any) {
+            controller.enqueue({ type: 'error', error: new Error(`Hugging Face API error: ${error.message}`) });
+          }
+
+          controller.close();
+        },
+      });
+
+      return { stream };
     },
   };
 }
@@ -181,10 +303,38 @@ export interface AIServiceConfig {
     allowedPatterns?: string[];
     blockedModels?: string[];
   }>;
+
+  // Retry, provider fallback and circuit breaking (default: single attempt)
+  failover?: ProviderFailoverConfig;
+
+  // Tools and limits for agent requests (ExecuteRequest.agent)
+  agent?: AgentServiceConfig;
 }
 
-export interface ExecuteRequest {
+/**
+ * A single turn in a multi-turn conversation
+ * The system prompt is supplied separately via promptId/systemPrompt
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
   content: string;
+  toolCallId?: string; // Required for tool messages - links result to the assistant's tool call
+  toolName?: string;
+  toolCalls?: ChatToolCall[]; // Assistant turns that called tools, answered by the following tool messages
+}
+
+/**
+ * A tool call made by the model in an earlier assistant turn
+ */
+export interface ChatToolCall {
+  toolCallId: string;
+  toolName: string;
+  args?: unknown;
+}
+
+export interface ExecuteRequest {
+  content?: string; // Single-turn input, appended as the final user message when messages are given
+  messages?: ChatMessage[]; // Conversation history (user, assistant and tool turns)
   promptId?: string; // Can be a key (like "code_review") or direct text
   systemPrompt?: string; // Legacy - for backward compatibility
   metadata?: {
@@ -214,6 +364,7 @@ export interface ExecuteRequest {
     temperature?: number;
   };
   apiKey?: string; // For BYOK users
+  agent?: AgentOptions; // Let the model call tools over multiple steps
 }
 
 export interface ExecuteResult {
@@ -227,6 +378,43 @@ export interface ExecuteResult {
   provider?: string;
   requestId?: string;
   finishReason?: string;
+  attempts?: ExecuteAttempt[]; // Every provider call made for this request, in order
+  steps?: AgentStep[]; // Agent requests: every model step with its tool calls
+}
+
+export interface GenerateObjectRequest extends ExecuteRequest, OutputSchemaOptions {
+  maxRepairAttempts?: number; // Default: 2 follow-up requests when the output fails validation
+}
+
+export interface GenerateObjectResult<T = unknown> extends ExecuteResult {
+  object: T;               // Validated value (content holds its JSON text)
+  repairAttempts: number;  // Follow-up requests needed to get valid output
+}
+
+/**
+ * One provider call made by AIService.execute()
+ * The last successful attempt is the provider that answered (and gets billed).
+ */
+export interface ExecuteAttempt {
+  provider: string;
+  model?: string;
+  success: boolean;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+  skipped?: boolean; // Not called because the provider's circuit is open
+}
+
+/**
+ * Events emitted by AIService.stream()
+ */
+export type ExecuteStreamEvent =
+  | { type: 'start'; provider: string; model: string } // Provider and model the request resolved to
+  | { type: 'text-delta'; text: string }
+  | { type: 'finish'; result: ExecuteResult };
+
+export interface ExecuteStreamOptions {
+  abortSignal?: AbortSignal; // Cancels the provider request (e.g. client disconnected)
 }
 
 export interface SearchResult {
@@ -364,12 +552,16 @@ export class AIService {
     allowedPatterns?: string[];
     blockedModels?: string[];
   }>;
+  private failoverPolicy: ResolvedFailoverPolicy;
+  private circuitBreaker: ProviderCircuitBreaker;
 
   constructor(config: AIServiceConfig) {
     // Initialize system prompts from config or use defaults
     this.systemPrompts = config.systemPrompts || this.getDefaultSystemPrompts();
     // Initialize model restrictions
     this.modelRestrictions = config.modelRestrictions;
+    this.failoverPolicy = resolveFailoverPolicy(config.failover);
+    this.circuitBreaker = new ProviderCircuitBreaker(this.failoverPolicy.circuitBreaker);
     if(config.serviceProviders) {
       logger.debug(`🔍 AIService received serviceProviders config:`, JSON.stringify(config.serviceProviders, null, 2));
       this.providers = normalizeServiceProviders(config.serviceProviders);
@@ -414,17 +606,411 @@ export class AIService {
   }
   /**
    * Execute AI request with system prompt using Vercel AI SDK
+   * Applies the failover policy (see withFailover)
    */
   async execute(request: ExecuteRequest): Promise<ExecuteResult> {
+    return this.withFailover(request, candidateRequest => this.executeWithProvider(candidateRequest));
+  }
+
+  /**
+   * Generate a JSON value matching a schema (inline JSON Schema or schemaRegistry id)
+   * Uses the provider's native structured output where supported, validates the
+   * result and asks the model to repair invalid output with the validation errors.
+   */
+  async generateObject<T = unknown>(request: GenerateObjectRequest): Promise<GenerateObjectResult<T>> {
+    const outputSchema = resolveOutputSchema(request);
+    return this.withFailover(request, candidateRequest => this.generateObjectWithProvider<T>(candidateRequest, outputSchema));
+  }
+
+  /**
+   * Run a provider call under the failover policy: retries with backoff, then
+   * the next provider. Every call is reported in `attempts`. Agent runs that
+   * already executed a tool fail without retrying.
+   */
+  private async withFailover<R extends ExecuteRequest, T extends { model: string }>(
+    request: R,
+    run: (candidateRequest: R) => Promise<T>
+  ): Promise<T & { attempts: ExecuteAttempt[] }> {
+    const policy = this.failoverPolicy;
+    const attempts: ExecuteAttempt[] = [];
+    let lastError: Error | undefined;
+
+    for (const candidate of await this.getFailoverCandidates(request)) {
+      if (!this.circuitBreaker.tryAcquire(candidate.provider)) {
+        attempts.push({ provider: candidate.provider, model: candidate.model, success: false, durationMs: 0, error: 'Circuit open', skipped: true });
+        continue;
+      }
+
+      for (let retry = 0; retry <= policy.maxRetries; retry++) {
+        if (retry > 0) {
+          const delay = getBackoffDelay(policy, retry, (lastError as AIProviderError).retryAfterMs);
+          console.log(`🔁 Retrying ${candidate.provider} in ${Math.round(delay)}ms (${retry}/${policy.maxRetries})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+
+        const startedAt = Date.now();
+        try {
+          const result = await run(candidate.request);
+          this.circuitBreaker.recordSuccess(candidate.provider);
+          attempts.push({ provider: candidate.provider, model: result.model, success: true, durationMs: Date.now() - startedAt });
+          return { ...result, attempts };
+        } catch (error: any) {
+          lastError = error;
+          attempts.push({
+            provider: candidate.provider,
+            model: error.model || candidate.model,
+            success: false,
+            durationMs: Date.now() - startedAt,
+            statusCode: error.statusCode,
+            error: error.message
+          });
+
+          // Failed before reaching the provider (validation, model restrictions, missing key)
+          if (!(error instanceof AIProviderError)) {
+            this.circuitBreaker.release(candidate.provider);
+            if (candidate.primary) throw error;
+            break;
+          }
+
+          const kind = classifyProviderError(error);
+          if (kind === 'request') throw error;
+
+          this.circuitBreaker.recordFailure(candidate.provider);
+          // A retry or another provider would run the agent's tools a second time
+          if (error.toolsExecuted) throw error;
+          if (kind !== 'retryable' || this.circuitBreaker.getState(candidate.provider) !== 'closed') break;
+        }
+      }
+    }
+
+    throw this.toFailoverError(attempts, lastError);
+  }
+
+  /**
+   * Primary provider/model first, then fallbacks in policy order
+   * BYOK keys belong to a single provider, so those requests never fall back.
+   */
+  private async getFailoverCandidates<R extends ExecuteRequest>(request: R) {
+    const primaryProvider = request.metadata?.provider || this.config.provider;
+    const requestedModel = request.metadata?.model || request.options?.model;
+    const candidates = [{ provider: primaryProvider || 'unknown', model: requestedModel, primary: true, request }];
+
+    if (!this.failoverPolicy.fallback || request.apiKey) {
+      return candidates;
+    }
+
+    const order = this.failoverPolicy.fallbackOrder ?? this.providers.map(p => p.name);
+    for (const name of order) {
+      const provider = this.providers.find(p => p.name === name);
+      if (!provider || name === primaryProvider) continue;
+
+      const model = (requestedModel && findEquivalentModel(this.failoverPolicy, requestedModel, name))
+        || provider.model
+        || await this.getDefaultModel(name);
+      candidates.push({
+        provider: name,
+        model,
+        primary: false,
+        request: {
+          ...request,
+          metadata: { ...request.metadata, provider: name, model },
+          options: { ...request.options, model }
+        }
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Error for a request that no provider answered
+   * A single attempt rethrows its own error so messages stay unchanged without failover.
+   */
+  private toFailoverError(attempts: ExecuteAttempt[], lastError?: Error): Error {
+    if (attempts.length === 1 && lastError) {
+      return lastError;
+    }
+
+    const summary = attempts
+      .map(a => `${a.provider}${a.skipped ? ' (circuit open)' : a.statusCode ? ` (${a.statusCode})` : ''}`)
+      .join(', ');
+    const lastAttempt = [...attempts].reverse().find(a => !a.skipped);
+    return new AIProviderError(`All AI providers failed: ${summary}${lastError ? ` - ${lastError.message}` : ''}`, {
+      provider: lastAttempt?.provider || attempts[0]?.provider || 'unknown',
+      model: lastAttempt?.model,
+      statusCode: lastAttempt ? lastAttempt.statusCode : 503,
+      attempts,
+      cause: lastError
+    });
+  }
+
+  /**
+   * Circuit state per provider that has recorded failures (others are closed)
+   */
+  getProviderCircuitStates(): Record<string, CircuitState> {
+    return this.circuitBreaker.getStates();
+  }
+
+  /**
+   * Single generateText call (plus MCP tool follow-up, or an agent loop) against one provider
+   */
+  private async executeWithProvider(request: ExecuteRequest): Promise<ExecuteResult> {
+    const timing = new TimingLogger('SERVICE');
+    const { model, generateOptions, executionConfig, resolvedModelName } = await this.prepareGeneration(request, timing);
+    if (this.config.failover) {
+      // The failover policy owns retries - disable the AI SDK's built-in ones
+      generateOptions.maxRetries = 0;
+    }
+    const agentTools = request.agent ? await this.prepareAgentTools(request.agent, generateOptions) : undefined;
+    const t3 = timing.checkpoint('Prepared AI execution');
+
+    try {
+      console.log('🚀 About to call generateText with:');
+      console.log(`   Model type: ${typeof model}`);
+      console.log(`   Model constructor: ${model.constructor?.name}`);
+      console.log(`   Model ID: ${(model as any)?.modelId || 'unknown'}`);
+      console.log(`   Model spec:`, (model as any)?.specificationVersion);
+      console.log(`   Model provider: ${(model as any)?.provider}`);
+      console.log(`   Generate options keys: ${Object.keys(generateOptions)}`);
+      console.log(`   Max tokens: ${generateOptions.maxTokens}`);
+
+      let t4 = timing.checkpoint('Calling generateText (Vercel AI SDK)', t3);
+      const result = await generateText(generateOptions);
+      let t5 = timing.checkpoint('generateText completed', t4);
+
+      // Handle tool calls if present (only for MCP tools, not provider-native)
+      if (!agentTools && result.toolCalls && result.toolCalls.length > 0 && executionConfig.webSearchPreference !== 'ai-web-search') {
+        logger.debug(`🔧 AI requested ${result.toolCalls.length} MCP tool calls`);
+        
+        // Execute tool calls via MCP
+        const toolResults = await this.executeToolCalls(result.toolCalls);
+        
+        // Continue conversation with tool results
+        const finalResult = await this.continueWithToolResults(
+          generateOptions,
+          result,
+          toolResults
+        );
+        
+        return this.formatExecuteResult(finalResult, executionConfig);
+      }
+
+      timing.end();
+
+      // Agent runs are billed for every step
+      const usage = agentTools ? result.totalUsage : result.usage;
+      const promptTokens = usage.inputTokens ?? (usage as any).promptTokens ?? 0;
+      const completionTokens = usage.outputTokens ?? (usage as any).completionTokens ?? 0;
+      const totalTokens = usage.totalTokens ?? (promptTokens + completionTokens);
+
+      return {
+        content: result.text,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens
+        },
+        model: typeof model === 'string' ? model : model.modelId,
+        provider: executionConfig.provider,
+        requestId: crypto.randomUUID(),
+        finishReason: result.finishReason,
+        ...(agentTools ? { steps: toAgentSteps(result.steps, agentTools) } : {})
+      };
+
+    } catch (error: any) {
+      // Tools may have side effects, so a run that executed any must not start over
+      throw this.toProviderError(error, executionConfig, resolvedModelName, (agentTools?.calls.size ?? 0) > 0);
+    }
+  }
+
+  /**
+   * Model calls an agent request may make (its maxSteps within the server limit)
+   */
+  getAgentMaxSteps(agent: Pick<AgentOptions, 'maxSteps'>): number {
+    return Math.max(1, Math.min(agent.maxSteps ?? 5, this.config.agent?.maxStepsLimit ?? 10));
+  }
+
+  /**
+   * Give the model the agent tool set and stop after maxSteps model calls
+   * Replaces the web search tools - agents reach search through the tool executor.
+   */
+  private async prepareAgentTools(agent: AgentOptions, generateOptions: any): Promise<AgentToolSet> {
+    const agentConfig = this.config.agent;
+    if (!agentConfig?.toolExecutor) {
+      throw new Error('Agent requests require a tool executor (AIServiceConfig.agent.toolExecutor)');
+    }
+
+    const maxSteps = this.getAgentMaxSteps(agent);
+    const toolSet = await createAgentToolSet(agentConfig.toolExecutor, agent, agentConfig.toolTimeoutMs ?? 30000);
+    logger.debug(`🤖 Agent request: ${toolSet.toolNames.size} tools, up to ${maxSteps} steps`);
+
+    generateOptions.tools = toolSet.tools;
+    generateOptions.toolChoice = 'auto';
+    generateOptions.stopWhen = stepCountIs(maxSteps);
+    return toolSet;
+  }
+
+  /**
+   * Schema-constrained generation against one provider, with repair retries
+   * Usage covers every request made, including failed repair attempts.
+   */
+  private async generateObjectWithProvider<T>(
+    request: GenerateObjectRequest,
+    outputSchema: OutputSchema
+  ): Promise<GenerateObjectResult<T>> {
     const timing = new TimingLogger('SERVICE');
+    const { model, generateOptions, executionConfig, resolvedModelName } = await this.prepareGeneration(request, timing);
+    const maxRepairAttempts = request.maxRepairAttempts ?? 2;
+    const messages = [...generateOptions.messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const addUsage = (stepUsage: any) => {
+      const promptTokens = stepUsage?.inputTokens ?? 0;
+      const completionTokens = stepUsage?.outputTokens ?? 0;
+      usage.promptTokens += promptTokens;
+      usage.completionTokens += completionTokens;
+      usage.totalTokens += stepUsage?.totalTokens ?? (promptTokens + completionTokens);
+    };
 
-    const { content, promptId, systemPrompt: legacySystemPrompt, metadata = {}, options = {}, apiKey } = request;
+    for (let repair = 0; ; repair++) {
+      try {
+        const result = await generateObject({
+          model,
+          messages,
+          schema: jsonSchema<Record<string, unknown>>(outputSchema.jsonSchema, {
+            validate: value => outputSchema.validate(value) as { success: true; value: Record<string, unknown> } | { success: false; error: Error }
+          }),
+          schemaName: outputSchema.name,
+          schemaDescription: outputSchema.description,
+          maxOutputTokens: generateOptions.maxTokens,
+          temperature: generateOptions.temperature,
+          // The failover policy owns retries - disable the AI SDK's built-in ones
+          ...(this.config.failover ? { maxRetries: 0 } : {})
+        });
+        addUsage(result.usage);
+        timing.end();
+
+        return {
+          object: result.object as T,
+          content: JSON.stringify(result.object),
+          usage,
+          model: result.response?.modelId || resolvedModelName,
+          provider: executionConfig.provider,
+          requestId: crypto.randomUUID(),
+          finishReason: result.finishReason,
+          repairAttempts: repair
+        };
+      } catch (error: any) {
+        if (!NoObjectGeneratedError.isInstance(error)) {
+          throw this.toProviderError(error, executionConfig, resolvedModelName);
+        }
+        addUsage(error.usage);
+
+        // TypeValidationError / JSONParseError wrap the underlying reason
+        const cause: any = error.cause;
+        const reason = cause?.cause?.message || cause?.message || error.message;
+        if (repair >= maxRepairAttempts) {
+          throw new StructuredOutputError(
+            `${executionConfig.provider} returned invalid structured output after ${repair + 1} attempts: ${reason}`,
+            'invalid_output',
+            error.text
+          );
+        }
+
+        console.log(`🔧 Structured output failed validation, asking ${executionConfig.provider} to repair (${repair + 1}/${maxRepairAttempts})`);
+        messages.push(
+          { role: 'assistant', content: error.text ?? '' },
+          { role: 'user', content: buildRepairPrompt(reason) }
+        );
+      }
+    }
+  }
+
+  /**
+   * Stream AI response using Vercel AI SDK streamText
+   *
+   * Yields a `start` event with the resolved provider and model, text deltas
+   * as they arrive, then a single `finish` event carrying the same
+   * ExecuteResult shape that execute() returns.
+   * Tool calls are not supported while streaming - use execute() for web search.
+   */
+  async *stream(request: ExecuteRequest, options: ExecuteStreamOptions = {}): AsyncGenerator<ExecuteStreamEvent> {
+    const timing = new TimingLogger('SERVICE');
+    const { model, generateOptions, executionConfig, resolvedModelName } = await this.prepareGeneration(request, timing);
+    // Tool calls need the execute() pipeline - stream plain text only
+    const streamOptions = { ...generateOptions };
+    delete streamOptions.tools;
+    delete streamOptions.toolChoice;
+    let t3 = timing.checkpoint('Prepared AI stream');
+    const modelId = typeof model === 'string' ? model : model.modelId;
+
+    try {
+      yield { type: 'start', provider: executionConfig.provider, model: modelId };
+
+      const result = streamText({
+        ...streamOptions,
+        maxOutputTokens: generateOptions.maxTokens,
+        abortSignal: options.abortSignal,
+      });
+
+      let content = '';
+      let usage: any;
+      let finishReason: string | undefined;
+
+      for await (const part of result.fullStream) {
+        if (part.type === 'text-delta') {
+          content += part.text;
+          yield { type: 'text-delta', text: part.text };
+        } else if (part.type === 'finish') {
+          usage = part.totalUsage;
+          finishReason = part.finishReason;
+        } else if (part.type === 'error') {
+          throw part.error;
+        }
+      }
+      timing.checkpoint('streamText completed', t3);
+      timing.end();
+
+      const promptTokens = usage?.inputTokens ?? 0;
+      const completionTokens = usage?.outputTokens ?? 0;
+      const totalTokens = usage?.totalTokens ?? (promptTokens + completionTokens);
+
+      yield {
+        type: 'finish',
+        result: {
+          content,
+          usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens
+          },
+          model: modelId,
+          provider: executionConfig.provider,
+          requestId: crypto.randomUUID(),
+          finishReason
+        }
+      };
+    } catch (error: any) {
+      if (options.abortSignal?.aborted) {
+        timing.end('Stream aborted');
+        return;
+      }
+      throw this.toProviderError(error, executionConfig, resolvedModelName);
+    }
+  }
+
+  /**
+   * Resolve prompt, model and generation options shared by execute() and stream()
+   */
+  private async prepareGeneration(request: ExecuteRequest, timing: TimingLogger) {
+    const { content, messages = [], promptId, systemPrompt: legacySystemPrompt, metadata = {}, options = {}, apiKey } = request;
 
     // Support both promptId (new) and systemPrompt (legacy) for backwards compatibility
     const actualPromptId = promptId || legacySystemPrompt;
     if (!actualPromptId) {
       throw new Error('Either promptId or systemPrompt must be provided');
     }
+    if (!content && messages.length === 0) {
+      throw new Error('Either content or messages must be provided');
+    }
     let t1 = timing.checkpoint('Request validation');
 
     // Check for model deprecation warnings
@@ -454,6 +1040,7 @@ export class AIService {
     logger.debug('🔍 AI Execute Debug:');
     logger.debug(`   System Prompt: ${systemPrompt ? `[${systemPrompt.length} chars]` : 'MISSING'}`);
     logger.debug(`   User Content: ${content ? `[${content.length} chars]` : 'MISSING'}`);
+    logger.debug(`   Conversation: ${messages.length} prior messages`);
     logger.debug(`   Raw metadata: ${JSON.stringify(metadata)}`);
     logger.debug(`   Raw options.model: ${options.model}`);
     logger.debug(`   Raw this.config.provider: ${this.config.provider}`);
@@ -478,123 +1065,134 @@ export class AIService {
     let t2 = timing.checkpoint('Model retrieved', t1);
 
     // Track the resolved model name for error reporting
-    const resolvedModelName = (model as any).modelId || (model as any).model || 'unknown';
+    const resolvedModelName: string = (model as any).modelId || (model as any).model || 'unknown';
 
     // Prepare tools and enhanced system prompt
     const { enhancedSystemPrompt, availableTools } = await this.prepareAIExecution(
       systemPrompt,
       executionConfig
     );
-    let t3 = timing.checkpoint('Prepared AI execution', t2);
+    timing.checkpoint('Tools prepared', t2);
 
-    // Create the user prompt from content
-    const userPrompt = content;
+    // Conversation history first, then the current user input (if any)
+    const conversation = this.toModelMessages(messages);
+    if (content) {
+      conversation.push({ role: 'user', content });
+    }
 
-    try {
-      const generateOptions: any = {
-        model,
-        messages: [
-          { role: 'system', content: enhancedSystemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        maxTokens: executionConfig.maxTokens || this.config.maxTokens || 4000,
-        temperature: executionConfig.temperature || this.config.temperature || 0.3,
-      };
+    const generateOptions: any = {
+      model,
+      messages: [
+        { role: 'system', content: enhancedSystemPrompt },
+        ...conversation
+      ],
+      maxTokens: executionConfig.maxTokens || this.config.maxTokens || 4000,
+      temperature: executionConfig.temperature || this.config.temperature || 0.3,
+    };
 
-      // Add tools if available
-      if (availableTools.length > 0) {
-        if (executionConfig.webSearchPreference === 'ai-web-search') {
-          // For provider-native tools, pass them directly to the AI SDK
-          generateOptions.tools = availableTools;
-          // Don't set toolChoice for native tools - let provider handle it
-        } else {
-          // For MCP tools, use our custom tool execution pipeline
-          generateOptions.tools = availableTools;
-          generateOptions.toolChoice = 'auto'; // Let AI decide when to use tools
-        }
+    // Add tools if available
+    if (availableTools.length > 0) {
+      if (executionConfig.webSearchPreference === 'ai-web-search') {
+        // For provider-native tools, pass them directly to the AI SDK
+        generateOptions.tools = availableTools;
+        // Don't set toolChoice for native tools - let provider handle it
+      } else {
+        // For MCP tools, use our custom tool execution pipeline
+        generateOptions.tools = availableTools;
+        generateOptions.toolChoice = 'auto'; // Let AI decide when to use tools
       }
+    }
 
-      console.log('🚀 About to call generateText with:');
-      console.log(`   Model type: ${typeof model}`);
-      console.log(`   Model constructor: ${model.constructor?.name}`);
-      console.log(`   Model ID: ${(model as any)?.modelId || 'unknown'}`);
-      console.log(`   Model spec:`, (model as any)?.specificationVersion);
-      console.log(`   Model provider: ${(model as any)?.provider}`);
-      console.log(`   Generate options keys: ${Object.keys(generateOptions)}`);
-      console.log(`   Max tokens: ${generateOptions.maxTokens}`);
+    return { model, generateOptions, executionConfig, resolvedModelName };
+  }
 
-      let t4 = timing.checkpoint('Calling generateText (Vercel AI SDK)', t3);
-      const result = await generateText(generateOptions);
-      let t5 = timing.checkpoint('generateText completed', t4);
+  /**
+   * Convert conversation turns into Vercel AI SDK model messages
+   * Tool results need the structured tool-result part format
+   */
+  private toModelMessages(messages: ChatMessage[]): any[] {
+    const toolNames = new Map<string, string>();
 
-      // Handle tool calls if present (only for MCP tools, not provider-native)
-      if (result.toolCalls && result.toolCalls.length > 0 && executionConfig.webSearchPreference !== 'ai-web-search') {
-        logger.debug(`🔧 AI requested ${result.toolCalls.length} MCP tool calls`);
-        
-        // Execute tool calls via MCP
-        const toolResults = await this.executeToolCalls(result.toolCalls);
-        
-        // Continue conversation with tool results
-        const finalResult = await this.continueWithToolResults(
-          generateOptions,
-          result,
-          toolResults
-        );
-        
-        return this.formatExecuteResult(finalResult, executionConfig);
+    return messages.map((message) => {
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        message.toolCalls.forEach(call => toolNames.set(call.toolCallId, call.toolName));
+        return {
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...message.toolCalls.map(call => ({
+              type: 'tool-call',
+              toolCallId: call.toolCallId,
+              toolName: call.toolName,
+              input: call.args ?? {}
+            }))
+          ]
+        };
       }
-
-      timing.end();
-
-      const promptTokens = result.usage.inputTokens ?? (result.usage as any).promptTokens ?? 0;
-      const completionTokens = result.usage.outputTokens ?? (result.usage as any).completionTokens ?? 0;
-      const totalTokens = result.usage.totalTokens ?? (promptTokens + completionTokens);
-
-      return {
-        content: result.text,
-        usage: {
-          promptTokens,
-          completionTokens,
-          totalTokens
-        },
-        model: typeof model === 'string' ? model : model.modelId,
-        provider: executionConfig.provider,
-        requestId: crypto.randomUUID(),
-        finishReason: result.finishReason
-      };
-
-    } catch (error: any) {
-      // Simplified unified error handling for all providers
-      const provider = executionConfig.provider;
-      const modelForError = resolvedModelName || executionConfig.model || 'default';
-      const statusCode = error.statusCode || error.status;
-      
-      // Log detailed error for debugging
-      console.error(`🚨 ${provider.toUpperCase()} API Error:`, {
-        provider,
-        model: modelForError,
-        originalModel: executionConfig.model,
-        resolvedModel: resolvedModelName,
-        message: error.message,
-        statusCode,
-        responseBody: error.responseBody || error.body || 'N/A',
-        responseText: typeof error.text === 'string' ? error.text.substring(0, 500) : 'N/A'
-      });
-      
-      // Generate user-friendly error message
-      let errorMessage = `${provider} API error`;
-      if (statusCode === 401) {
-        errorMessage += `: Invalid API key (401)`;
-      } else if (statusCode === 403) {
-        errorMessage += `: Access forbidden - API key may not support model "${modelForError}" (403)`;
-      } else if (statusCode === 404 || error.message === 'Not Found') {
-        errorMessage += `: Model "${modelForError}" not found or API key invalid (404)`;
-      } else {
-        errorMessage += `: ${error.message}`;
+      if (message.role === 'tool') {
+        if (!message.toolCallId) {
+          throw new Error('Tool messages require a toolCallId');
+        }
+        return {
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: message.toolCallId,
+            toolName: message.toolName || toolNames.get(message.toolCallId) || 'unknown',
+            output: { type: 'text', value: message.content }
+          }]
+        };
       }
-      
-      throw new Error(errorMessage);
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  /**
+   * Convert a provider SDK error into a user-friendly error
+   * Simplified unified error handling for all providers
+   */
+  private toProviderError(
+    error: any,
+    executionConfig: { provider?: string; model?: string },
+    resolvedModelName: string,
+    toolsExecuted = false
+  ): AIProviderError {
+    const provider = executionConfig.provider || 'unknown';
+    const modelForError = resolvedModelName || executionConfig.model || 'default';
+    const statusCode = error.statusCode || error.status || error.lastError?.statusCode;
+    
+    // Log detailed error for debugging
+    console.error(`🚨 ${provider.toUpperCase()} API Error:`, {
+      provider,
+      model: modelForError,
+      originalModel: executionConfig.model,
+      resolvedModel: resolvedModelName,
+      message: error.message,
+      statusCode,
+      responseBody: error.responseBody || error.body || 'N/A',
+      responseText: typeof error.text === 'string' ? error.text.substring(0, 500) : 'N/A'
+    });
+    
+    // Generate user-friendly error message
+    let errorMessage = `${provider} API error`;
+    if (statusCode === 401) {
+      errorMessage += `: Invalid API key (401)`;
+    } else if (statusCode === 403) {
+      errorMessage += `: Access forbidden - API key may not support model "${modelForError}" (403)`;
+    } else if (statusCode === 404 || error.message === 'Not Found') {
+      errorMessage += `: Model "${modelForError}" not found or API key invalid (404)`;
+    } else {
+      errorMessage += `: ${error.message}`;
     }
+    
+    return new AIProviderError(errorMessage, {
+      provider,
+      model: resolvedModelName,
+      statusCode,
+      retryAfterMs: parseRetryAfter(error.responseHeaders || error.lastError?.responseHeaders),
+      toolsExecuted,
+      cause: error
+    });
   }
 
   private async getModel(modelOverride?: string, apiKey?: string, providerOverride?: string, enableWebSearch?: boolean) {
@@ -1441,6 +2039,19 @@ The tools will be available during our conversation. Call them when needed to ga
     return await this.modelRegistry.getModelsForProvider(targetProvider);
   }
 
+  /**
+   * Context window of a model (the provider's default model when none is given)
+   * Returns undefined for models the registry doesn't know.
+   */
+  async getContextWindow(provider?: string, model?: string): Promise<number | undefined> {
+    const targetProvider = provider || this.config.provider;
+    if (!targetProvider) return undefined;
+
+    const modelId = model || await this.getDefaultModel(targetProvider);
+    const models = await this.modelRegistry.getModelsForProvider(targetProvider);
+    return models.find(entry => entry.id === modelId)?.contextWindow;
+  }
+
   /**
    * Get models by capability
    */
@@ -0,0 +1,244 @@
+/**
+ * Provider failover policy for AIService
+ *
+ * Retries transient provider failures (429, 5xx, network errors) with
+ * exponential backoff, falls back to the next provider in order (mapping the
+ * requested model through an equivalence table) and stops sending traffic to
+ * providers that keep failing via a per-provider circuit breaker.
+ */
+
+export type FailoverProviderName = 'anthropic' | 'openai' | 'google' | 'openrouter' | 'huggingface';
+
+export interface ProviderFailoverConfig {
+  maxRetries?: number;          // Default: 2 retries per provider (after the first try)
+  initialDelayMs?: number;      // Default: 250ms before the first retry
+  maxDelayMs?: number;          // Default: 4000ms cap (also caps Retry-After)
+  backoffMultiplier?: number;   // Default: 2
+  jitter?: boolean;             // Default: true - randomize each delay between 50% and 100%
+  fallback?: boolean;           // Default: true - try the next provider when one is exhausted
+  fallbackOrder?: FailoverProviderName[]; // Default: provider priority order
+  /**
+   * Equivalent models across providers, e.g.
+   * `{ fast: { anthropic: 'claude-3-5-haiku-20241022', openai: 'gpt-4o-mini' } }`.
+   * A fallback provider without an equivalent uses its default model.
+   */
+  modelEquivalents?: Record<string, Partial<Record<FailoverProviderName, string>>>;
+  circuitBreaker?: {
+    enabled?: boolean;          // Default: true
+    failureThreshold?: number;  // Default: 5 consecutive failures open the circuit
+    resetTimeoutMs?: number;    // Default: 30s before a trial request is let through
+  };
+}
+
+export type ResolvedFailoverPolicy = Required<Omit<ProviderFailoverConfig, 'fallbackOrder' | 'circuitBreaker'>> & {
+  fallbackOrder?: FailoverProviderName[];
+  circuitBreaker: Required<NonNullable<ProviderFailoverConfig['circuitBreaker']>>;
+};
+
+/**
+ * Apply defaults. Without a config the service keeps its single-attempt
+ * behaviour: no retries, no fallback, no circuit breaking.
+ */
+export function resolveFailoverPolicy(config?: ProviderFailoverConfig): ResolvedFailoverPolicy {
+  if (!config) {
+    return {
+      maxRetries: 0,
+      initialDelayMs: 0,
+      maxDelayMs: 0,
+      backoffMultiplier: 1,
+      jitter: false,
+      fallback: false,
+      modelEquivalents: {},
+      circuitBreaker: { enabled: false, failureThreshold: Infinity, resetTimeoutMs: 0 }
+    };
+  }
+
+  return {
+    maxRetries: config.maxRetries ?? 2,
+    initialDelayMs: config.initialDelayMs ?? 250,
+    maxDelayMs: config.maxDelayMs ?? 4000,
+    backoffMultiplier: config.backoffMultiplier ?? 2,
+    jitter: config.jitter ?? true,
+    fallback: config.fallback ?? true,
+    fallbackOrder: config.fallbackOrder,
+    modelEquivalents: config.modelEquivalents ?? {},
+    circuitBreaker: {
+      enabled: config.circuitBreaker?.enabled ?? true,
+      failureThreshold: config.circuitBreaker?.failureThreshold ?? 5,
+      resetTimeoutMs: config.circuitBreaker?.resetTimeoutMs ?? 30000
+    }
+  };
+}
+
+/**
+ * Provider call failure with the details the failover policy needs
+ */
+export class AIProviderError extends Error {
+  readonly provider: string;
+  readonly model?: string;
+  readonly statusCode?: number;
+  readonly retryAfterMs?: number;
+  readonly attempts?: unknown[];
+  readonly toolsExecuted?: boolean; // Agent tools ran before the failure - never retried or failed over
+
+  constructor(message: string, details: {
+    provider: string;
+    model?: string;
+    statusCode?: number;
+    retryAfterMs?: number;
+    attempts?: unknown[];
+    toolsExecuted?: boolean;
+    cause?: unknown;
+  }) {
+    super(message, { cause: details.cause });
+    this.name = 'AIProviderError';
+    this.provider = details.provider;
+    this.model = details.model;
+    this.statusCode = details.statusCode;
+    this.retryAfterMs = details.retryAfterMs;
+    this.attempts = details.attempts;
+    this.toolsExecuted = details.toolsExecuted;
+  }
+}
+
+export type ProviderFailureKind =
+  | 'retryable'   // Transient - retry the same provider, then fall back
+  | 'provider'    // Provider-specific (auth, unknown model) - fall back without retrying
+  | 'request';    // The request itself is invalid - no provider will accept it
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE']);
+
+export function classifyProviderError(error: { statusCode?: number; cause?: any }): ProviderFailureKind {
+  const status = error.statusCode;
+  if (status === undefined) {
+    const code = error.cause?.code || error.cause?.cause?.code;
+    // No HTTP status means we never got a response - treat as transient
+    return code && !NETWORK_ERROR_CODES.has(code) ? 'provider' : 'retryable';
+  }
+  if (status === 408 || status === 409 || status === 429 || status >= 500) {
+    return 'retryable';
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return 'request';
+  }
+  return 'provider';
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(headers?: Record<string, string>): number | undefined {
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `retry` (1-based)
+ */
+export function getBackoffDelay(policy: ResolvedFailoverPolicy, retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const delay = Math.min(policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1), policy.maxDelayMs);
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Find the fallback provider's equivalent of a model
+ */
+export function findEquivalentModel(
+  policy: ResolvedFailoverPolicy,
+  model: string,
+  provider: FailoverProviderName
+): string | undefined {
+  for (const group of Object.values(policy.modelEquivalents)) {
+    if (Object.values(group).includes(model)) {
+      return group[provider];
+    }
+  }
+  return undefined;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitEntry {
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * Per-provider circuit breaker
+ * closed -> open after `failureThreshold` consecutive failures;
+ * open -> half-open after `resetTimeoutMs`, letting one trial request through.
+ */
+export class ProviderCircuitBreaker {
+  private circuits = new Map<string, CircuitEntry>();
+
+  constructor(private config: ResolvedFailoverPolicy['circuitBreaker']) {}
+
+  getState(provider: string): CircuitState {
+    const circuit = this.circuits.get(provider);
+    if (!this.config.enabled || circuit?.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - circuit.openedAt >= this.config.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent; claims the single half-open trial slot
+   */
+  tryAcquire(provider: string): boolean {
+    const state = this.getState(provider);
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+
+    const circuit = this.circuits.get(provider)!;
+    if (circuit.trialInFlight) return false;
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Give back a trial slot when the request never reached the provider
+   */
+  release(provider: string): void {
+    const circuit = this.circuits.get(provider);
+    if (circuit) circuit.trialInFlight = false;
+  }
+
+  recordSuccess(provider: string): void {
+    this.circuits.delete(provider);
+  }
+
+  recordFailure(provider: string): void {
+    if (!this.config.enabled) return;
+
+    const circuit = this.circuits.get(provider) ?? { failures: 0, trialInFlight: false };
+    circuit.failures++;
+    // A failed half-open trial re-opens immediately
+    if (circuit.trialInFlight || circuit.failures >= this.config.failureThreshold) {
+      if (circuit.openedAt === undefined || circuit.trialInFlight) {
+        console.warn(`⚡ Circuit opened for AI provider ${provider} after ${circuit.failures} failures`);
+      }
+      circuit.openedAt = Date.now();
+    }
+    circuit.trialInFlight = false;
+    this.circuits.set(provider, circuit);
+  }
+
+  getStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const provider of this.circuits.keys()) {
+      states[provider] = this.getState(provider);
+    }
+    return states;
+  }
+}
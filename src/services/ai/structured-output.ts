@@ -0,0 +1,217 @@
+/**
+ * Structured output support for AIService.generateObject
+ *
+ * Resolves the requested output schema (inline JSON Schema or a schemaRegistry
+ * id) into the JSON Schema sent to the provider plus a validator for the
+ * returned object, and builds the repair prompt used when validation fails.
+ */
+
+import { schemaRegistry as defaultSchemaRegistry, SchemaRegistry } from '../../schemas/schema-registry.js';
+
+export type OutputValidation =
+  | { success: true; value: unknown }
+  | { success: false; error: Error };
+
+export interface OutputSchema {
+  name?: string;
+  description?: string;
+  jsonSchema: Record<string, any>;
+  validate: (value: unknown) => OutputValidation;
+}
+
+export interface OutputSchemaOptions {
+  schema?: Record<string, any>; // Inline JSON Schema
+  schemaId?: string;            // Schema registered in schemaRegistry
+  schemaName?: string;
+  schemaDescription?: string;
+}
+
+/**
+ * Structured output could not be produced
+ * `schema_not_found` is a caller error; `invalid_output` means the model never
+ * returned an object matching the schema.
+ */
+export class StructuredOutputError extends Error {
+  readonly reason: 'schema_not_found' | 'invalid_output';
+  readonly text?: string;
+
+  constructor(message: string, reason: StructuredOutputError['reason'], text?: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.reason = reason;
+    this.text = text;
+  }
+}
+
+export function resolveOutputSchema(
+  options: OutputSchemaOptions,
+  registry: SchemaRegistry = defaultSchemaRegistry
+): OutputSchema {
+  if (options.schemaId) {
+    const definition = registry.get(options.schemaId);
+    if (!definition) {
+      throw new StructuredOutputError(`Schema '${options.schemaId}' not found in registry`, 'schema_not_found');
+    }
+
+    return {
+      name: options.schemaName || definition.name,
+      description: options.schemaDescription || definition.description,
+      jsonSchema: registry.getJsonSchema(options.schemaId),
+      validate: (value) => {
+        const result = registry.safeValidate(options.schemaId!, value);
+        return result.success
+          ? { success: true, value: result.data }
+          : { success: false, error: new Error(formatValidatorError(result.error)) };
+      }
+    };
+  }
+
+  if (!options.schema) {
+    throw new StructuredOutputError('Either schema or schemaId must be provided', 'schema_not_found');
+  }
+
+  const jsonSchema = options.schema;
+  return {
+    name: options.schemaName,
+    description: options.schemaDescription ?? jsonSchema.description,
+    jsonSchema,
+    validate: (value) => {
+      const errors = validateJsonSchema(value, jsonSchema);
+      return errors.length === 0
+        ? { success: true, value }
+        : { success: false, error: new Error(errors.join('; ')) };
+    }
+  };
+}
+
+/**
+ * Prompt sent back to the model after an invalid structured response
+ */
+export function buildRepairPrompt(reason: string): string {
+  return `Your previous response did not match the required JSON schema: ${reason}\n`
+    + 'Respond again with only a JSON value that matches the schema.';
+}
+
+function formatValidatorError(error: any): string {
+  if (Array.isArray(error?.issues)) {
+    return error.issues
+      .map((issue: any) => `${issue.path?.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Validate a value against the commonly used subset of JSON Schema
+ * (type, enum, const, properties, required, additionalProperties, items,
+ * string/number/array bounds, pattern, anyOf/oneOf/allOf).
+ * Returns readable errors with JSON-pointer style paths; empty when valid.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, any>, path = ''): string[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+
+  const at = path || '(root)';
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${at}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    errors.push(`${at}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateJsonSchema(value, subschema, path));
+    }
+  }
+  const alternatives = schema.anyOf || schema.oneOf;
+  if (alternatives && !alternatives.some((subschema: any) => validateJsonSchema(value, subschema, path).length === 0)) {
+    errors.push(`${at}: does not match any allowed schema`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at}: must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${at}: must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}/${index}`)));
+    }
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        errors.push(`${path}/${key}: is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}/${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}/${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
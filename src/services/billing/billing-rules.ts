@@ -0,0 +1,199 @@
+/**
+ * Billing Rules
+ *
+ * Config-driven conversion between AI usage, purchases and virtual tokens:
+ * - Per-model token multipliers (an Opus token costs more than a Haiku token)
+ * - Platform fee percentage, overridable per subscription tier
+ * - Minimum charge per request
+ * - Token grants per purchase variant (fallback: tokens per cent paid)
+ *
+ * Every charge and grant carries the rule that produced it so deduction and
+ * top-up records can be audited.
+ */
+
+export interface TierBillingRule {
+  platformFeePercent?: number;      // Fee on usage for this tier
+  minimumChargeTokens?: number;     // Minimum tokens charged per request for this tier
+}
+
+export interface PurchaseGrantRule {
+  tokens: number;                   // Tokens granted per unit purchased
+  platformFeePercent?: number;      // Share of granted tokens kept as platform fee
+}
+
+export interface BillingRulesConfig {
+  platformFeePercent?: number;                       // Fee on usage (default: 25, i.e. 20% of the total charge)
+  tiers?: Record<string, TierBillingRule>;           // Keyed by subscription tier
+  modelMultipliers?: Record<string, number>;         // 'provider/model' or 'model', '*' wildcards allowed
+  minimumChargeTokens?: number;                      // Default: 0
+  purchaseGrants?: Record<string, PurchaseGrantRule>; // Keyed by payment variant ID
+  tokensPerCent?: number;                            // Purchases without a grant rule (default: 10)
+  purchaseFeePercent?: number;                       // Share of purchased tokens kept (default: 20)
+}
+
+/**
+ * Request details the usage rules match on
+ */
+export interface BillingRuleContext {
+  provider?: string;
+  model?: string;
+  tier?: string;
+}
+
+/**
+ * Which rules produced a charge (stored with the deduction)
+ */
+export interface AppliedBillingRule {
+  multiplier: number;
+  multiplierRule: string;           // Matching modelMultipliers key, or 'default'
+  platformFeePercent: number;
+  feeRule: string;                  // 'tier:<name>' or 'default'
+  minimumChargeTokens: number;
+  minimumChargeApplied: boolean;
+}
+
+export interface TokenCharge {
+  actualTokens: number;             // Provider tokens used
+  billableTokens: number;           // After the model multiplier
+  platformFeeTokens: number;
+  totalCharge: number;              // Billable + fee, at least the minimum charge
+  rule: AppliedBillingRule;
+}
+
+export interface TokenGrant {
+  tokensPurchased: number;
+  usableTokens: number;
+  platformFeeTokens: number;
+  rule: {
+    grantRule: string;              // 'variant:<id>', 'tokensPerCent' or 'fixed'
+    tokensPerUnit?: number;
+    tokensPerCent?: number;
+    quantity: number;
+    platformFeePercent: number;
+  };
+}
+
+const DEFAULT_PLATFORM_FEE_PERCENT = 25;
+const DEFAULT_TOKENS_PER_CENT = 10;
+const DEFAULT_PURCHASE_FEE_PERCENT = 20;
+
+function matchesPattern(value: string, pattern: string): boolean {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${regexPattern}$`, 'i').test(value);
+}
+
+export class BillingRules {
+  private config: BillingRulesConfig;
+
+  constructor(config: BillingRulesConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Virtual tokens to charge for a request's provider token usage
+   */
+  calculateCharge(actualTokens: number, context: BillingRuleContext = {}): TokenCharge {
+    const { multiplier, rule: multiplierRule } = this.resolveMultiplier(context);
+    const tierRule = context.tier ? this.config.tiers?.[context.tier] : undefined;
+
+    const platformFeePercent = tierRule?.platformFeePercent
+      ?? this.config.platformFeePercent
+      ?? DEFAULT_PLATFORM_FEE_PERCENT;
+    const feeRule = tierRule?.platformFeePercent !== undefined ? `tier:${context.tier}` : 'default';
+    const minimumChargeTokens = tierRule?.minimumChargeTokens ?? this.config.minimumChargeTokens ?? 0;
+
+    const billableTokens = Math.ceil(actualTokens * multiplier);
+    const platformFeeTokens = Math.ceil(billableTokens * platformFeePercent / 100);
+    const minimumChargeApplied = billableTokens + platformFeeTokens < minimumChargeTokens;
+
+    return {
+      actualTokens,
+      billableTokens,
+      platformFeeTokens,
+      totalCharge: minimumChargeApplied ? minimumChargeTokens : billableTokens + platformFeeTokens,
+      rule: {
+        multiplier,
+        multiplierRule,
+        platformFeePercent,
+        feeRule,
+        minimumChargeTokens,
+        minimumChargeApplied
+      }
+    };
+  }
+
+  /**
+   * Tokens granted for a purchase: the variant's grant rule, or the cent conversion
+   */
+  calculateGrant(purchase: { variantId?: string | number; amountPaidCents: number; quantity?: number }): TokenGrant {
+    const quantity = purchase.quantity ?? 1;
+    const variantRule = purchase.variantId !== undefined
+      ? this.config.purchaseGrants?.[String(purchase.variantId)]
+      : undefined;
+    const platformFeePercent = variantRule?.platformFeePercent
+      ?? this.config.purchaseFeePercent
+      ?? DEFAULT_PURCHASE_FEE_PERCENT;
+
+    const tokensPerCent = this.config.tokensPerCent ?? DEFAULT_TOKENS_PER_CENT;
+    const tokensPurchased = variantRule
+      ? variantRule.tokens * quantity
+      : Math.floor(purchase.amountPaidCents * tokensPerCent);
+    const usableTokens = Math.floor(tokensPurchased * (100 - platformFeePercent) / 100);
+
+    return {
+      tokensPurchased,
+      usableTokens,
+      platformFeeTokens: tokensPurchased - usableTokens,
+      rule: variantRule
+        ? { grantRule: `variant:${purchase.variantId}`, tokensPerUnit: variantRule.tokens, quantity, platformFeePercent }
+        : { grantRule: 'tokensPerCent', tokensPerCent, quantity, platformFeePercent }
+    };
+  }
+
+  /**
+   * Usable/fee split for a fixed number of purchased tokens
+   */
+  splitPurchase(tokensPurchased: number): TokenGrant {
+    const platformFeePercent = this.config.purchaseFeePercent ?? DEFAULT_PURCHASE_FEE_PERCENT;
+    const usableTokens = Math.floor(tokensPurchased * (100 - platformFeePercent) / 100);
+
+    return {
+      tokensPurchased,
+      usableTokens,
+      platformFeeTokens: tokensPurchased - usableTokens,
+      rule: { grantRule: 'fixed', quantity: 1, platformFeePercent }
+    };
+  }
+
+  /**
+   * Most specific multiplier: exact 'provider/model', exact model, then wildcard
+   * patterns in the order they are configured
+   */
+  private resolveMultiplier(context: BillingRuleContext): { multiplier: number; rule: string } {
+    const multipliers = this.config.modelMultipliers ?? {};
+    const model = context.model;
+    if (!model) {
+      return { multiplier: 1, rule: 'default' };
+    }
+
+    const qualified = context.provider ? `${context.provider}/${model}` : undefined;
+    for (const key of [qualified, model]) {
+      if (key && multipliers[key] !== undefined) {
+        return { multiplier: multipliers[key], rule: key };
+      }
+    }
+
+    for (const [pattern, multiplier] of Object.entries(multipliers)) {
+      if (!pattern.includes('*') && !pattern.includes('?')) continue;
+      const target = pattern.includes('/') ? qualified : model;
+      if (target && matchesPattern(target, pattern)) {
+        return { multiplier, rule: pattern };
+      }
+    }
+
+    return { multiplier: 1, rule: 'default' };
+  }
+}
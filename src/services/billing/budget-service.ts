@@ -0,0 +1,469 @@
+/**
+ * Budget Service
+ *
+ * Daily or monthly spending caps in USD or tokens per user, API key and
+ * organization. Requests hold their estimated spend against every budget of
+ * the caller before they run (hard cap) and settle it with the actual spend
+ * afterwards, which sends soft-cap alerts once per threshold and period.
+ *
+ * Admin budgets cover platform-paid (subscription) requests. Self-imposed
+ * budgets are set by users themselves and also cover their BYOK requests.
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+
+export type BudgetScope = 'user' | 'api_key' | 'organization';
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetUnit = 'usd' | 'tokens';
+
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  scopeId: string;
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  limit: number;
+  alertThresholds?: number[]; // Percentages; unset uses the service default
+  hardCap: boolean;
+  selfImposed: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BudgetInput = Pick<Budget, 'scope' | 'scopeId' | 'period' | 'unit' | 'limit'>
+  & Partial<Pick<Budget, 'alertThresholds' | 'hardCap' | 'selfImposed' | 'createdBy'>>;
+
+export interface BudgetStatus {
+  budgetId: string;
+  scope: BudgetScope;
+  scopeId: string;
+  period: BudgetPeriod;
+  unit: BudgetUnit;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  hardCap: boolean;
+  selfImposed: boolean;
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+/**
+ * Who a request is billed to - each set field is matched against budgets
+ */
+export interface BudgetSubject {
+  userId?: string;
+  apiKey?: string;          // Provider key; budgets use its fingerprint, never the key
+  organizationId?: string;
+}
+
+export interface BudgetSpend {
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Estimated spend held for a running request until it is recorded or released
+ */
+export interface BudgetHold {
+  id: string;
+  statuses: BudgetStatus[];   // Status of every applicable budget, including this hold
+}
+
+export interface BudgetAlert {
+  type: 'budget_warning';
+  threshold: number;
+  status: BudgetStatus;
+  timestamp: string;
+}
+
+export interface BudgetServiceConfig {
+  alertThresholds?: number[];   // Default soft-cap thresholds in percent (default: [80, 100])
+  alertWebhookUrl?: string;     // Receives a POST per alert
+  onAlert?: (alert: BudgetAlert) => void | Promise<void>;
+}
+
+/**
+ * Thrown when a request would take a hard-capped budget over its limit
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly status: BudgetStatus) {
+    super(
+      `${status.period === 'daily' ? 'Daily' : 'Monthly'} ${status.scope.replace('_', ' ')} budget exceeded: `
+      + `${formatAmount(status.spent, status.unit)} of ${formatAmount(status.limit, status.unit)} spent, `
+      + `resets ${status.resetsAt.toISOString()}`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Holds of requests that never settled (crashed workers) stop counting after this
+const HOLD_TTL_MINUTES = 15;
+
+type QueryFn = (query: string, params?: any[]) => Promise<any[]>;
+
+// Column of budget_spend that holds each scope (fixed strings, never user input)
+const SPEND_COLUMNS: Record<BudgetScope, string> = {
+  user: 'user_id',
+  api_key: 'api_key_id',
+  organization: 'organization_id'
+};
+
+function formatAmount(amount: number, unit: BudgetUnit): string {
+  return unit === 'usd' ? `$${amount.toFixed(2)}` : `${Math.round(amount)} tokens`;
+}
+
+/**
+ * Start of the current period and when it resets (UTC)
+ */
+export function getBudgetPeriod(period: BudgetPeriod, now = new Date()): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  if (period === 'daily') {
+    const day = now.getUTCDate();
+    return { start: new Date(Date.UTC(year, month, day)), end: new Date(Date.UTC(year, month, day + 1)) };
+  }
+  return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+export class BudgetService {
+  private defaultThresholds: number[];
+  private query: QueryFn = (query, params) => this.db.query(query, params);
+
+  constructor(private db: PostgreSQLAdapter, private config: BudgetServiceConfig = {}) {
+    this.defaultThresholds = config.alertThresholds ?? [80, 100];
+  }
+
+  /**
+   * Stable identifier for a provider API key (budgets never store the key)
+   */
+  static apiKeyScopeId(apiKey: string): string {
+    return `key_${crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+  }
+
+  /**
+   * Create or replace the budget for a scope, period and unit
+   */
+  async setBudget(input: BudgetInput): Promise<Budget> {
+    const rows = await this.db.query(
+      `INSERT INTO spending_budgets
+         (id, scope, scope_id, period, unit, limit_amount, alert_thresholds, hard_cap, self_imposed, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (scope, scope_id, period, unit, self_imposed) DO UPDATE SET
+         limit_amount = EXCLUDED.limit_amount,
+         alert_thresholds = EXCLUDED.alert_thresholds,
+         hard_cap = EXCLUDED.hard_cap,
+         created_by = EXCLUDED.created_by,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        uuidv4(),
+        input.scope,
+        input.scopeId,
+        input.period,
+        input.unit,
+        input.limit,
+        input.alertThresholds ? JSON.stringify(input.alertThresholds) : null,
+        input.hardCap ?? true,
+        input.selfImposed ?? false,
+        input.createdBy ?? null
+      ]
+    );
+    return this.mapBudget(rows[0]);
+  }
+
+  async getBudget(id: string): Promise<Budget | null> {
+    const rows = await this.db.query('SELECT * FROM spending_budgets WHERE id = $1', [id]);
+    return rows[0] ? this.mapBudget(rows[0]) : null;
+  }
+
+  async listBudgets(filter: { scope?: BudgetScope; scopeId?: string } = {}): Promise<Budget[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM spending_budgets
+       WHERE ($1::varchar IS NULL OR scope = $1) AND ($2::varchar IS NULL OR scope_id = $2)
+       ORDER BY scope, scope_id, period, unit`,
+      [filter.scope ?? null, filter.scopeId ?? null]
+    );
+    return rows.map(row => this.mapBudget(row));
+  }
+
+  async deleteBudget(id: string): Promise<boolean> {
+    const rows = await this.db.query('DELETE FROM spending_budgets WHERE id = $1 RETURNING id', [id]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Budgets that apply to a request. BYOK requests only count against
+   * self-imposed budgets.
+   */
+  async getBudgetsFor(subject: BudgetSubject, options: { byok?: boolean } = {}): Promise<Budget[]> {
+    return this.findBudgets(this.query, subject, options);
+  }
+
+  /**
+   * Current spend of every budget that applies to a subject
+   */
+  async getStatus(subject: BudgetSubject, options: { byok?: boolean; now?: Date } = {}): Promise<BudgetStatus[]> {
+    const budgets = await this.getBudgetsFor(subject, options);
+    return Promise.all(budgets.map(budget => this.getBudgetStatus(budget, options.now)));
+  }
+
+  /**
+   * Hard cap check before a request runs
+   * Throws BudgetExceededError when the estimated spend would go over a
+   * hard-capped limit. Returns the status of every applicable budget.
+   */
+  async checkBudgets(
+    subject: BudgetSubject,
+    estimate: BudgetSpend,
+    options: { byok?: boolean; now?: Date } = {}
+  ): Promise<BudgetStatus[]> {
+    const statuses = await this.getStatus(subject, options);
+    this.assertWithinCaps(statuses, estimate);
+    return statuses;
+  }
+
+  /**
+   * Hard cap check that holds the estimated spend until the request settles
+   * The caller's budgets are locked while they are checked, so parallel
+   * requests are checked one after another and each counts the holds of the
+   * others. Throws BudgetExceededError; pass the hold id to recordSpend or
+   * releaseSpend when the request is done.
+   */
+  async reserveSpend(
+    subject: BudgetSubject,
+    estimate: BudgetSpend,
+    options: { byok?: boolean; requestId?: string; now?: Date } = {}
+  ): Promise<BudgetHold> {
+    const client = await this.db.getConnection();
+    const query: QueryFn = async (sql, params) => (await client.query(sql, params)).rows;
+
+    try {
+      await client.query('BEGIN');
+
+      const budgets = await this.findBudgets(query, subject, options, true);
+      const statuses: BudgetStatus[] = [];
+      for (const budget of budgets) {
+        statuses.push(await this.getBudgetStatus(budget, options.now, query));
+      }
+      this.assertWithinCaps(statuses, estimate);
+
+      const id = await this.insertSpend(query, subject, estimate, options, true);
+      await client.query('COMMIT');
+
+      return {
+        id,
+        statuses: statuses.map(status => this.withSpend(status, status.unit === 'usd' ? estimate.costUsd : estimate.tokens))
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Give back the hold of a request that failed before spending anything
+   */
+  async releaseSpend(holdId: string): Promise<void> {
+    await this.db.query('DELETE FROM budget_spend WHERE id = $1 AND held_until IS NOT NULL', [holdId]);
+  }
+
+  /**
+   * Record the spend of a finished request and send soft-cap alerts
+   * Settles the request's hold when one is given. Returns the updated status
+   * of every applicable budget.
+   */
+  async recordSpend(
+    subject: BudgetSubject,
+    spend: BudgetSpend,
+    options: { byok?: boolean; requestId?: string; holdId?: string; now?: Date } = {}
+  ): Promise<BudgetStatus[]> {
+    const settled = options.holdId
+      ? await this.db.query(
+        `UPDATE budget_spend SET tokens = $2, cost_usd = $3, request_id = COALESCE($4, request_id), held_until = NULL
+         WHERE id = $1 AND held_until IS NOT NULL
+         RETURNING id`,
+        [options.holdId, spend.tokens, spend.costUsd, options.requestId ?? null]
+      )
+      : [];
+    if (settled.length === 0) {
+      await this.insertSpend(this.query, subject, spend, options, false);
+    }
+
+    const budgets = await this.getBudgetsFor(subject, options);
+    const statuses: BudgetStatus[] = [];
+    for (const budget of budgets) {
+      const status = await this.getBudgetStatus(budget, options.now);
+      await this.checkAlerts(budget, status);
+      statuses.push(status);
+    }
+    return statuses;
+  }
+
+  private async findBudgets(
+    query: QueryFn,
+    subject: BudgetSubject,
+    options: { byok?: boolean },
+    forUpdate = false
+  ): Promise<Budget[]> {
+    const scopes = this.scopesOf(subject);
+    if (scopes.length === 0) {
+      return [];
+    }
+
+    // Lock in id order so requests sharing budgets cannot deadlock
+    const conditions = scopes.map((_, i) => `(scope = $${i * 2 + 1} AND scope_id = $${i * 2 + 2})`);
+    const rows = await query(
+      `SELECT * FROM spending_budgets
+       WHERE (${conditions.join(' OR ')})${options.byok ? ' AND self_imposed = TRUE' : ''}
+       ORDER BY id${forUpdate ? ' FOR UPDATE' : ''}`,
+      scopes.flatMap(({ scope, scopeId }) => [scope, scopeId])
+    );
+    return rows.map(row => this.mapBudget(row));
+  }
+
+  private async insertSpend(
+    query: QueryFn,
+    subject: BudgetSubject,
+    spend: BudgetSpend,
+    options: { byok?: boolean; requestId?: string },
+    held: boolean
+  ): Promise<string> {
+    const id = uuidv4();
+    await query(
+      `INSERT INTO budget_spend (id, user_id, api_key_id, organization_id, byok, tokens, cost_usd, request_id, held_until)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8,
+         CASE WHEN $9::boolean THEN CURRENT_TIMESTAMP + make_interval(mins => $10) END)`,
+      [
+        id,
+        subject.userId ?? null,
+        subject.apiKey ? BudgetService.apiKeyScopeId(subject.apiKey) : null,
+        subject.organizationId ?? null,
+        options.byok ?? false,
+        spend.tokens,
+        spend.costUsd,
+        options.requestId ?? null,
+        held,
+        HOLD_TTL_MINUTES
+      ]
+    );
+    return id;
+  }
+
+  private assertWithinCaps(statuses: BudgetStatus[], estimate: BudgetSpend): void {
+    for (const status of statuses) {
+      const requested = status.unit === 'usd' ? estimate.costUsd : estimate.tokens;
+      if (status.hardCap && status.spent + requested > status.limit) {
+        throw new BudgetExceededError(status);
+      }
+    }
+  }
+
+  private withSpend(status: BudgetStatus, amount: number): BudgetStatus {
+    const spent = status.spent + amount;
+    return {
+      ...status,
+      spent,
+      remaining: Math.max(0, status.limit - spent),
+      percentUsed: Math.round((spent / status.limit) * 10000) / 100
+    };
+  }
+
+  private async getBudgetStatus(budget: Budget, now = new Date(), query: QueryFn = this.query): Promise<BudgetStatus> {
+    const { start, end } = getBudgetPeriod(budget.period, now);
+    const column = SPEND_COLUMNS[budget.scope];
+    // Unexpired holds of running requests count as spent
+    const rows = await query(
+      `SELECT COALESCE(SUM(tokens), 0) AS tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd
+       FROM budget_spend
+       WHERE ${column} = $1 AND created_at >= $2 AND created_at < $3
+         AND (held_until IS NULL OR held_until > CURRENT_TIMESTAMP)${budget.selfImposed ? '' : ' AND byok = FALSE'}`,
+      [budget.scopeId, start, end]
+    );
+
+    const spent = budget.unit === 'usd' ? parseFloat(rows[0]?.cost_usd) || 0 : parseInt(rows[0]?.tokens) || 0;
+    return {
+      budgetId: budget.id,
+      scope: budget.scope,
+      scopeId: budget.scopeId,
+      period: budget.period,
+      unit: budget.unit,
+      limit: budget.limit,
+      spent,
+      remaining: Math.max(0, budget.limit - spent),
+      percentUsed: Math.round((spent / budget.limit) * 10000) / 100,
+      hardCap: budget.hardCap,
+      selfImposed: budget.selfImposed,
+      periodStart: start,
+      resetsAt: end
+    };
+  }
+
+  /**
+   * Send each crossed threshold once per budget period
+   */
+  private async checkAlerts(budget: Budget, status: BudgetStatus): Promise<void> {
+    for (const threshold of budget.alertThresholds ?? this.defaultThresholds) {
+      if (status.percentUsed < threshold) continue;
+
+      const inserted = await this.db.query(
+        `INSERT INTO budget_alerts (id, budget_id, threshold_percentage, period_start)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (budget_id, threshold_percentage, period_start) DO NOTHING
+         RETURNING id`,
+        [uuidv4(), budget.id, threshold, status.periodStart]
+      );
+      if (inserted.length > 0) {
+        await this.sendAlert({ type: 'budget_warning', threshold, status, timestamp: new Date().toISOString() });
+      }
+    }
+  }
+
+  private async sendAlert(alert: BudgetAlert): Promise<void> {
+    const { status } = alert;
+    console.log(`⚠️ Budget ${status.budgetId} (${status.scope} ${status.scopeId}) reached ${alert.threshold}%: ${formatAmount(status.spent, status.unit)} of ${formatAmount(status.limit, status.unit)}`);
+
+    try {
+      if (this.config.alertWebhookUrl) {
+        await axios.post(this.config.alertWebhookUrl, alert, {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      await this.config.onAlert?.(alert);
+    } catch (error) {
+      console.error(`❌ Failed to send budget alert for ${status.budgetId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private scopesOf(subject: BudgetSubject): Array<{ scope: BudgetScope; scopeId: string }> {
+    const scopes: Array<{ scope: BudgetScope; scopeId: string }> = [];
+    if (subject.userId) scopes.push({ scope: 'user', scopeId: subject.userId });
+    if (subject.apiKey) scopes.push({ scope: 'api_key', scopeId: BudgetService.apiKeyScopeId(subject.apiKey) });
+    if (subject.organizationId) scopes.push({ scope: 'organization', scopeId: subject.organizationId });
+    return scopes;
+  }
+
+  private mapBudget(row: any): Budget {
+    return {
+      id: row.id,
+      scope: row.scope,
+      scopeId: row.scope_id,
+      period: row.period,
+      unit: row.unit,
+      limit: parseFloat(row.limit_amount),
+      alertThresholds: row.alert_thresholds ?? undefined,
+      hardCap: row.hard_cap,
+      selfImposed: row.self_imposed,
+      createdBy: row.created_by ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -1,3 +1,14 @@
-// Billing Domain - Virtual tokens and usage analytics
+// Billing Domain - Virtual tokens, billing rules, usage analytics, model pricing, payment webhooks, budgets, statements and trial credits
 export * from './virtual-token-service.js';
 export * from './usage-analytics-service.js';
+export * from './pricing-catalog.js';
+export * from './billing-rules.js';
+export * from './webhook-event-log.js';
+export * from './lemonsqueezy-webhooks.js';
+export * from './stripe-client.js';
+export * from './stripe-checkout.js';
+export * from './stripe-webhooks.js';
+export * from './stripe-usage-reporter.js';
+export * from './budget-service.js';
+export * from './statement-service.js';
+export * from './trial-credit-service.js';
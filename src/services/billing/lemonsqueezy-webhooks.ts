@@ -0,0 +1,329 @@
+/**
+ * LemonSqueezy Webhooks
+ *
+ * Full order and subscription lifecycle for LemonSqueezy:
+ * - order_created: one-time purchases and the first subscription payment
+ * - subscription_created/updated/cancelled/resumed/expired: subscription state
+ * - subscription_payment_success: token grants for renewals
+ * - subscription_payment_failed: marks the subscription past due
+ * - order_refunded / subscription_payment_refunded: claws tokens back
+ *
+ * Signatures are checked against the raw request body, and every delivery is
+ * stored in the webhook event log so provider retries are skipped and failed
+ * events can be replayed.
+ */
+
+import crypto from 'crypto';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import type { VirtualTokenService, RefundPolicy } from './virtual-token-service';
+import type { UsageAnalyticsService } from './usage-analytics-service';
+import { BillingRules } from './billing-rules';
+import { WebhookEventProcessor, type WebhookEventOutcome } from './webhook-event-log';
+
+/**
+ * What a LemonSqueezy variant sells
+ * - subscription: recurring token grants (billing rules decide the amount)
+ * - one_time: a one-time purchase recorded for the user
+ */
+export interface LemonSqueezyVariantPlan {
+  plan: string;
+  type: 'subscription' | 'one_time';
+}
+
+export interface LemonSqueezyWebhookConfig {
+  webhookSecret?: string;                                 // Signing secret (verification is skipped when unset)
+  variantPlans?: Record<string, LemonSqueezyVariantPlan>; // Keyed by variant ID; unmapped variants are ignored
+  refundPolicy?: RefundPolicy;                            // Default: 'freeze'
+}
+
+export interface LemonSqueezyWebhookServices {
+  virtualTokenService: VirtualTokenService;
+  usageAnalyticsService?: UsageAnalyticsService | null;
+  billingRules?: BillingRules;
+}
+
+const PROVIDER = 'lemonsqueezy';
+const SUBSCRIPTION_STATE_EVENTS = new Set([
+  'subscription_created',
+  'subscription_updated',
+  'subscription_cancelled',
+  'subscription_resumed',
+  'subscription_expired',
+  'subscription_paused',
+  'subscription_unpaused'
+]);
+
+export class LemonSqueezyWebhookHandler extends WebhookEventProcessor {
+  readonly provider = PROVIDER;
+  private billingRules: BillingRules;
+
+  constructor(
+    private db: PostgreSQLAdapter,
+    private services: LemonSqueezyWebhookServices,
+    private config: LemonSqueezyWebhookConfig = {}
+  ) {
+    super(db, 'LemonSqueezy');
+    this.billingRules = services.billingRules ?? services.virtualTokenService.getBillingRules();
+  }
+
+  /**
+   * Check the X-Signature header (hex HMAC-SHA256 of the raw body)
+   * A 'sha256=' prefix is accepted for older integrations.
+   */
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean {
+    if (!this.config.webhookSecret) {
+      return true;
+    }
+    if (!signature) {
+      return false;
+    }
+
+    const expected = crypto.createHmac('sha256', this.config.webhookSecret).update(rawBody).digest('hex');
+    const received = signature.startsWith('sha256=') ? signature.slice('sha256='.length) : signature;
+
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const receivedBuffer = Buffer.from(received, 'hex');
+    return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+  }
+
+  /**
+   * Deliveries carry no event ID, so events are keyed by a hash of the raw body
+   */
+  protected parseDelivery(rawBody: Buffer | string) {
+    const payload = JSON.parse(rawBody.toString());
+    return {
+      eventKey: crypto.createHash('sha256').update(rawBody).digest('hex'),
+      eventName: payload?.meta?.event_name ?? 'unknown',
+      payload
+    };
+  }
+
+  protected async dispatch(eventName: string, payload: any): Promise<WebhookEventOutcome> {
+    if (SUBSCRIPTION_STATE_EVENTS.has(eventName)) {
+      return this.handleSubscriptionState(payload);
+    }
+
+    switch (eventName) {
+      case 'order_created':
+        return this.handleOrderCreated(payload);
+      case 'subscription_payment_success':
+        return this.handlePaymentSuccess(payload);
+      case 'subscription_payment_failed':
+        return this.handlePaymentFailed(payload);
+      case 'order_refunded':
+        return this.handleRefund(payload, String(payload.data.id));
+      case 'subscription_payment_refunded':
+        return this.handleRefund(payload, `invoice:${payload.data.id}`);
+      default:
+        return { status: 'ignored', message: `Unhandled event ${eventName}` };
+    }
+  }
+
+  private async handleOrderCreated(payload: any): Promise<WebhookEventOutcome> {
+    const { data } = payload;
+    const attributes = data.attributes;
+    if (attributes.status !== 'paid') {
+      return { status: 'ignored', message: `Order ${data.id} is ${attributes.status}` };
+    }
+
+    const variantId = String(attributes.first_order_item?.variant_id ?? attributes.variant_id);
+    const plan = this.resolvePlan(variantId, attributes.first_order_item ?? attributes);
+    if (!plan) {
+      return { status: 'ignored', message: `Variant ${variantId} is not mapped to a plan` };
+    }
+
+    const userId = this.resolveUserId(payload);
+    const amountPaidCents = parseInt(attributes.total ?? attributes.order_value);
+    const quantity = attributes.first_order_item?.quantity;
+
+    if (plan.type === 'one_time') {
+      await this.recordPurchase(userId, String(data.id), 'one_time', variantId, amountPaidCents, payload, Math.floor(amountPaidCents / 100));
+      return { status: 'processed', message: `one-time purchase (${plan.plan}) of ${amountPaidCents / 100} for user ${userId}` };
+    }
+
+    // First subscription payment; renewals arrive as subscription_payment_success
+    return this.grantTokens(userId, String(data.id), variantId, amountPaidCents, payload, plan, quantity);
+  }
+
+  private async handlePaymentSuccess(payload: any): Promise<WebhookEventOutcome> {
+    const { data } = payload;
+    const attributes = data.attributes;
+    if (attributes.billing_reason === 'initial') {
+      return { status: 'ignored', message: `Invoice ${data.id} is the initial payment (granted on order_created)` };
+    }
+
+    const subscription = await this.getSubscription(String(attributes.subscription_id));
+    if (!subscription?.variantId) {
+      throw new Error(`Unknown subscription ${attributes.subscription_id} for invoice ${data.id}`);
+    }
+
+    // Invoices only exist for subscriptions, so unmapped variants are subscriptions in legacy mode
+    const variantId = subscription.variantId;
+    const plan = this.config.variantPlans
+      ? this.config.variantPlans[variantId] ?? null
+      : { plan: 'subscription', type: 'subscription' as const };
+    if (!plan) {
+      return { status: 'ignored', message: `Variant ${variantId} is not mapped to a plan` };
+    }
+
+    await this.updateSubscriptionStatus(String(attributes.subscription_id), 'active');
+    return this.grantTokens(
+      subscription.userId,
+      `invoice:${data.id}`,
+      variantId,
+      parseInt(attributes.total),
+      payload,
+      plan
+    );
+  }
+
+  private async handlePaymentFailed(payload: any): Promise<WebhookEventOutcome> {
+    const subscriptionId = String(payload.data.attributes.subscription_id);
+    const updated = await this.updateSubscriptionStatus(subscriptionId, 'past_due');
+    return updated
+      ? { status: 'processed', message: `subscription ${subscriptionId} is past due` }
+      : { status: 'ignored', message: `Unknown subscription ${subscriptionId}` };
+  }
+
+  private async handleSubscriptionState(payload: any): Promise<WebhookEventOutcome> {
+    const { data } = payload;
+    const attributes = data.attributes;
+    const variantId = String(attributes.variant_id);
+
+    await this.db.query(
+      `INSERT INTO billing_subscriptions
+       (provider, subscription_id, user_id, email, variant_id, plan, status, renews_at, ends_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (provider, subscription_id) DO UPDATE SET
+         variant_id = EXCLUDED.variant_id,
+         plan = EXCLUDED.plan,
+         status = EXCLUDED.status,
+         renews_at = EXCLUDED.renews_at,
+         ends_at = EXCLUDED.ends_at,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        PROVIDER,
+        String(data.id),
+        this.resolveUserId(payload),
+        attributes.user_email,
+        variantId,
+        this.resolvePlan(variantId, attributes)?.plan ?? null,
+        attributes.status,
+        attributes.renews_at ?? null,
+        attributes.ends_at ?? null
+      ]
+    );
+
+    return { status: 'processed', message: `subscription ${data.id} is ${attributes.status}` };
+  }
+
+  private async handleRefund(payload: any, paymentId: string): Promise<WebhookEventOutcome> {
+    const refundedAmountCents = payload.data.attributes.refunded_amount !== undefined
+      ? parseInt(payload.data.attributes.refunded_amount)
+      : undefined;
+
+    const refund = await this.services.virtualTokenService.refundTopup(paymentId, {
+      refundedAmountCents,
+      policy: this.config.refundPolicy
+    });
+    if (!refund) {
+      return { status: 'ignored', message: `No token top-up for payment ${paymentId}` };
+    }
+
+    const frozenNote = refund.frozen ? ', account frozen' : '';
+    return {
+      status: 'processed',
+      message: `clawed back ${refund.tokensClawedBack} tokens from user ${refund.userId} (balance ${refund.newBalance}${frozenNote})`
+    };
+  }
+
+  private async grantTokens(
+    userId: string,
+    paymentId: string,
+    variantId: string,
+    amountPaidCents: number,
+    payload: any,
+    plan: LemonSqueezyVariantPlan,
+    quantity?: number
+  ): Promise<WebhookEventOutcome> {
+    const { virtualTokenService } = this.services;
+    if (await virtualTokenService.isPaymentProcessed(paymentId)) {
+      return { status: 'ignored', message: `Payment ${paymentId} already granted` };
+    }
+
+    await this.recordPurchase(userId, paymentId, 'subscription', variantId, amountPaidCents, payload);
+
+    // Tokens from the variant's grant rule, or tokens per cent paid (default: 10)
+    const grant = this.billingRules.calculateGrant({ variantId, amountPaidCents, quantity });
+    await virtualTokenService.addTokensFromPayment(userId, grant, paymentId, variantId, amountPaidCents, 'USD', payload);
+
+    return { status: 'processed', message: `${grant.tokensPurchased} tokens (${plan.plan}, ${grant.rule.grantRule}) for user ${userId}` };
+  }
+
+  private async recordPurchase(
+    userId: string,
+    paymentId: string,
+    purchaseType: 'subscription' | 'one_time',
+    variantId: string,
+    amountPaidCents: number,
+    payload: any,
+    quantity?: number
+  ): Promise<void> {
+    const { usageAnalyticsService } = this.services;
+    if (!usageAnalyticsService || await usageAnalyticsService.isPaymentProcessed(paymentId)) {
+      return;
+    }
+
+    await usageAnalyticsService.recordPurchase({
+      userId,
+      paymentId,
+      purchaseType,
+      variantId,
+      quantity,
+      amountPaidCents,
+      currency: 'USD',
+      lemonSqueezyData: payload
+    });
+  }
+
+  /**
+   * The configured plan for a variant. Without variantPlans, the variant or
+   * product name decides (legacy behaviour): names containing 'subscription'
+   * grant tokens, everything else is a one-time purchase.
+   */
+  private resolvePlan(variantId: string, attributes: { variant_name?: string; product_name?: string }): LemonSqueezyVariantPlan | null {
+    if (this.config.variantPlans) {
+      return this.config.variantPlans[variantId] ?? null;
+    }
+
+    const name = `${attributes.variant_name ?? ''} ${attributes.product_name ?? ''}`.toLowerCase();
+    return name.includes('subscription')
+      ? { plan: 'subscription', type: 'subscription' }
+      : { plan: 'one_time', type: 'one_time' };
+  }
+
+  /**
+   * Checkout custom data carries our user ID; the customer email is the fallback
+   */
+  private resolveUserId(payload: any): string {
+    return payload.meta?.custom_data?.user_id ?? payload.data.attributes.user_email;
+  }
+
+  private async getSubscription(subscriptionId: string): Promise<{ userId: string; variantId?: string } | null> {
+    const rows = await this.db.query(
+      'SELECT user_id, variant_id FROM billing_subscriptions WHERE provider = $1 AND subscription_id = $2',
+      [PROVIDER, subscriptionId]
+    );
+    return rows.length > 0 ? { userId: rows[0].user_id, variantId: rows[0].variant_id ?? undefined } : null;
+  }
+
+  private async updateSubscriptionStatus(subscriptionId: string, status: string): Promise<boolean> {
+    const rows = await this.db.query(
+      `UPDATE billing_subscriptions SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = $2 AND subscription_id = $3
+       RETURNING subscription_id`,
+      [status, PROVIDER, subscriptionId]
+    );
+    return rows.length > 0;
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Pricing Catalog
+ *
+ * Model-aware AI pricing keyed by provider and model. Prices are per 1M tokens
+ * with input, output and cached-input rates, a currency and the date each
+ * price takes effect. The bundled catalog (src/data/model-pricing.json) can be
+ * replaced with a custom JSON file, and admin edits are persisted to the
+ * `model_pricing` table when a database is attached.
+ */
+
+import fs from 'fs';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import bundledPricing from '../../data/model-pricing.json' with { type: 'json' };
+import productionModels from '../../data/production-models.json' with { type: 'json' };
+import openaiModels from '../../data/openai-models.json' with { type: 'json' };
+import huggingfaceModels from '../../data/huggingface-models.json' with { type: 'json' };
+
+export interface ModelPrice {
+  provider: string;
+  model: string;              // '*' is the provider default
+  input: number;              // Per 1M input tokens
+  output: number;             // Per 1M output tokens
+  cachedInput?: number;       // Per 1M cached input tokens (defaults to input)
+  currency: string;
+  effectiveFrom: string;      // YYYY-MM-DD
+  source: 'file' | 'database' | 'memory';   // 'memory' = admin edit without a database
+}
+
+export type ModelPriceInput = Omit<ModelPrice, 'source' | 'currency' | 'effectiveFrom'> & {
+  currency?: string;
+  effectiveFrom?: string;
+};
+
+interface CatalogPriceEntry {
+  input: number;
+  output: number;
+  cachedInput?: number;
+  currency?: string;
+  effectiveFrom: string;
+}
+
+/**
+ * Shape of the catalog JSON file
+ */
+export interface PricingCatalogData {
+  currency?: string;
+  default?: CatalogPriceEntry;
+  providers: Record<string, Record<string, CatalogPriceEntry[]>>;
+}
+
+export interface TokenCounts {
+  inputTokens: number;        // All prompt tokens, including cached ones
+  outputTokens: number;
+  cachedInputTokens?: number;
+}
+
+export interface CostEstimate {
+  cost: number;
+  inputCost: number;
+  cachedInputCost: number;
+  outputCost: number;
+  currency: string;
+  price: ModelPrice;
+  matched: boolean;           // false when the catalog default was used
+}
+
+const DATE_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2})$/;
+
+function toDateString(value: Date | string): string {
+  return (typeof value === 'string' ? new Date(value) : value).toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+/**
+ * Alias ↔ production ID pairs from the curated model lists
+ */
+function buildAliases(): Map<string, Map<string, string[]>> {
+  const aliases = new Map<string, Map<string, string[]>>();
+  const add = (provider: string, models: Record<string, { productionId?: string }> = {}) => {
+    const map = aliases.get(provider) ?? new Map<string, string[]>();
+    for (const [alias, info] of Object.entries(models)) {
+      if (!info?.productionId || info.productionId === alias) continue;
+      const from = alias.toLowerCase();
+      const to = info.productionId.toLowerCase();
+      map.set(from, [...(map.get(from) ?? []), to]);
+      map.set(to, [...(map.get(to) ?? []), from]);
+    }
+    aliases.set(provider, map);
+  };
+
+  for (const [provider, data] of Object.entries((productionModels as any).providers ?? {})) {
+    add(provider, (data as any).models);
+  }
+  add('openai', (openaiModels as any).models);
+  add('huggingface', (huggingfaceModels as any).models);
+  return aliases;
+}
+
+export class PricingCatalog {
+  private prices = new Map<string, ModelPrice[]>();
+  private defaultPrice: ModelPrice;
+  private aliases = buildAliases();
+  private db?: PostgreSQLAdapter;
+
+  constructor(data: PricingCatalogData = bundledPricing as PricingCatalogData) {
+    const currency = data.currency ?? 'USD';
+    const fallback = data.default ?? { input: 1, output: 2, effectiveFrom: '1970-01-01' };
+    this.defaultPrice = { provider: '*', model: '*', currency, ...fallback, source: 'file' };
+
+    for (const [provider, models] of Object.entries(data.providers ?? {})) {
+      for (const [model, versions] of Object.entries(models)) {
+        for (const version of versions) {
+          this.upsert({ provider, model, currency, ...version, source: 'file' });
+        }
+      }
+    }
+  }
+
+  /**
+   * Load a catalog from a JSON file with the same shape as model-pricing.json
+   */
+  static fromFile(filePath: string): PricingCatalog {
+    return new PricingCatalog(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  }
+
+  /**
+   * Persist admin edits to the model_pricing table (migration 008)
+   */
+  useDatabase(db: PostgreSQLAdapter): this {
+    this.db = db;
+    return this;
+  }
+
+  /**
+   * Merge stored prices over the file catalog. Returns the number of rows loaded.
+   */
+  async loadFromDatabase(): Promise<number> {
+    if (!this.db) return 0;
+
+    const rows = await this.db.query(
+      `SELECT provider, model, input_per_million, output_per_million, cached_input_per_million,
+              currency, effective_from
+       FROM model_pricing`
+    );
+
+    for (const row of rows) {
+      this.upsert({
+        provider: row.provider,
+        model: row.model,
+        input: Number(row.input_per_million),
+        output: Number(row.output_per_million),
+        cachedInput: row.cached_input_per_million != null ? Number(row.cached_input_per_million) : undefined,
+        currency: row.currency,
+        effectiveFrom: toDateString(row.effective_from),
+        source: 'database'
+      });
+    }
+    return rows.length;
+  }
+
+  /**
+   * Price in effect for a model at the given time, or null if unknown.
+   * Tries the exact ID, curated aliases, the ID without a date suffix,
+   * the upstream provider for OpenRouter IDs, then the provider default ('*').
+   */
+  getPrice(provider: string, model: string, at: Date = new Date()): ModelPrice | null {
+    const providerKey = provider.toLowerCase();
+    const day = toDateString(at);
+
+    for (const candidate of this.candidates(providerKey, model)) {
+      const price = this.versionAt(providerKey, candidate, day);
+      if (price) return price;
+    }
+
+    // OpenRouter IDs are 'vendor/model'; use the vendor's own price if listed
+    const slash = model.indexOf('/');
+    if (providerKey === 'openrouter' && slash > 0) {
+      const upstream = this.getPrice(model.slice(0, slash), model.slice(slash + 1), at);
+      if (upstream && upstream.model !== '*') return upstream;
+    }
+
+    return this.versionAt(providerKey, '*', day);
+  }
+
+  getDefaultPrice(): ModelPrice {
+    return this.defaultPrice;
+  }
+
+  /**
+   * Provider cost for a request. Cached input tokens are part of inputTokens
+   * and are billed at the cached-input rate.
+   */
+  calculateCost(provider: string, model: string, tokens: TokenCounts, at?: Date): CostEstimate {
+    const found = this.getPrice(provider, model, at);
+    const price = found ?? this.defaultPrice;
+    const cachedTokens = Math.min(tokens.cachedInputTokens ?? 0, tokens.inputTokens);
+
+    const inputCost = ((tokens.inputTokens - cachedTokens) / 1_000_000) * price.input;
+    const cachedInputCost = (cachedTokens / 1_000_000) * (price.cachedInput ?? price.input);
+    const outputCost = (tokens.outputTokens / 1_000_000) * price.output;
+
+    return {
+      cost: round(inputCost + cachedInputCost + outputCost),
+      inputCost: round(inputCost),
+      cachedInputCost: round(cachedInputCost),
+      outputCost: round(outputCost),
+      currency: price.currency,
+      price,
+      matched: !!found
+    };
+  }
+
+  /**
+   * All price versions, optionally filtered by provider and model
+   */
+  listPrices(filter: { provider?: string; model?: string } = {}): ModelPrice[] {
+    const provider = filter.provider?.toLowerCase();
+    const model = filter.model?.toLowerCase();
+    return [...this.prices.values()]
+      .flat()
+      .filter(price => (!provider || price.provider === provider) && (!model || price.model.toLowerCase() === model))
+      .sort((a, b) =>
+        a.provider.localeCompare(b.provider) ||
+        a.model.localeCompare(b.model) ||
+        a.effectiveFrom.localeCompare(b.effectiveFrom)
+      );
+  }
+
+  /**
+   * Add or replace a price version (same provider, model and effective date)
+   */
+  async setPrice(input: ModelPriceInput, updatedBy?: string): Promise<ModelPrice> {
+    const price: ModelPrice = {
+      ...input,
+      provider: input.provider.toLowerCase(),
+      currency: (input.currency ?? this.defaultPrice.currency).toUpperCase(),
+      effectiveFrom: toDateString(input.effectiveFrom ?? new Date()),
+      source: this.db ? 'database' : 'memory'
+    };
+
+    if (this.db) {
+      await this.db.query(
+        `INSERT INTO model_pricing (
+          provider, model, input_per_million, output_per_million, cached_input_per_million,
+          currency, effective_from, updated_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (provider, model, effective_from) DO UPDATE SET
+          input_per_million = EXCLUDED.input_per_million,
+          output_per_million = EXCLUDED.output_per_million,
+          cached_input_per_million = EXCLUDED.cached_input_per_million,
+          currency = EXCLUDED.currency,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = CURRENT_TIMESTAMP`,
+        [price.provider, price.model, price.input, price.output, price.cachedInput ?? null,
+          price.currency, price.effectiveFrom, updatedBy ?? null]
+      );
+    }
+
+    this.upsert(price);
+    return price;
+  }
+
+  /**
+   * Remove one price version, or every version of a model when no date is
+   * given. File entries come back on restart unless the catalog file changes.
+   */
+  async removePrice(provider: string, model: string, effectiveFrom?: string): Promise<number> {
+    const providerKey = provider.toLowerCase();
+    const key = this.key(providerKey, model);
+    const day = effectiveFrom ? toDateString(effectiveFrom) : undefined;
+    const versions = this.prices.get(key) ?? [];
+    const remaining = versions.filter(price => day && price.effectiveFrom !== day);
+
+    if (this.db) {
+      await this.db.query(
+        `DELETE FROM model_pricing WHERE provider = $1 AND model = $2 AND ($3::date IS NULL OR effective_from = $3::date)`,
+        [providerKey, model, day ?? null]
+      );
+    }
+
+    if (remaining.length) {
+      this.prices.set(key, remaining);
+    } else {
+      this.prices.delete(key);
+    }
+    return versions.length - remaining.length;
+  }
+
+  private key(provider: string, model: string): string {
+    return `${provider}:${model.toLowerCase()}`;
+  }
+
+  private upsert(price: ModelPrice): void {
+    const key = this.key(price.provider.toLowerCase(), price.model);
+    const versions = (this.prices.get(key) ?? []).filter(p => p.effectiveFrom !== price.effectiveFrom);
+    versions.push({ ...price, provider: price.provider.toLowerCase() });
+    versions.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    this.prices.set(key, versions);
+  }
+
+  private versionAt(provider: string, model: string, day: string): ModelPrice | null {
+    const versions = this.prices.get(this.key(provider, model)) ?? [];
+    for (let i = versions.length - 1; i >= 0; i--) {
+      if (versions[i].effectiveFrom <= day) return versions[i];
+    }
+    return null;
+  }
+
+  private candidates(provider: string, model: string): string[] {
+    const id = model.toLowerCase();
+    const aliases = this.aliases.get(provider)?.get(id) ?? [];
+    const undated = [id, ...aliases].map(m => m.replace(DATE_SUFFIX, ''));
+    return [...new Set([id, ...aliases, ...undated])];
+  }
+}
+
+let defaultCatalog: PricingCatalog | undefined;
+
+/**
+ * Shared catalog used by static cost estimates (UsageAnalyticsService.estimateCost)
+ */
+export function getDefaultPricingCatalog(): PricingCatalog {
+  if (!defaultCatalog) {
+    defaultCatalog = new PricingCatalog();
+  }
+  return defaultCatalog;
+}
+
+export function setDefaultPricingCatalog(catalog: PricingCatalog): void {
+  defaultCatalog = catalog;
+}
@@ -0,0 +1,301 @@
+/**
+ * Statement Service
+ *
+ * Monthly billing statements built from the token usage log and top-ups:
+ * usage per provider, model and method with the platform fees charged,
+ * top-ups and refunds in the period. Statements for ended months are closed
+ * (by the admin batch job) and stored as immutable snapshots; the current
+ * month is built live.
+ */
+
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import { HandlebarsTemplateEngine } from '../../auth/handlebars-template-engine';
+import { getBudgetPeriod } from './budget-service';
+import { toCsv } from '../../utils/csv';
+
+export type StatementFormat = 'json' | 'csv' | 'html';
+
+export interface StatementUsageLine {
+  provider: string;
+  model: string;
+  method: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;         // Provider tokens
+  tokensCharged: number;       // Virtual tokens deducted, fees included
+  platformFeeTokens: number;
+}
+
+export interface StatementTopup {
+  paymentId: string;
+  processedAt: string;
+  tokensPurchased: number;
+  usableTokens: number;
+  platformFeeTokens: number;
+  amountPaidCents?: number;
+  currency: string;
+}
+
+export interface StatementRefund {
+  paymentId: string;
+  refundedAt: string;
+  refundedTokens: number;
+}
+
+export interface StatementTotals {
+  requests: number;
+  totalTokens: number;
+  tokensCharged: number;
+  platformFeeTokens: number;
+  tokensAdded: number;         // Usable tokens from top-ups
+  tokensRefunded: number;
+  amountPaidCents: number;
+}
+
+export interface Statement {
+  userId: string;
+  period: string;              // 'YYYY-MM' (UTC)
+  periodStart: string;
+  periodEnd: string;
+  status: 'open' | 'closed';
+  generatedAt: string;
+  closedAt?: string;
+  usage: StatementUsageLine[];
+  topups: StatementTopup[];
+  refunds: StatementRefund[];
+  totals: StatementTotals;
+}
+
+export interface StatementServiceConfig {
+  templateEngine?: HandlebarsTemplateEngine; // HTML rendering (default: stock branding)
+}
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * UTC bounds of a 'YYYY-MM' statement period
+ */
+export function getStatementPeriod(period: string): { start: Date; end: Date } {
+  if (!PERIOD_PATTERN.test(period)) {
+    throw new Error(`Invalid statement period: ${period} (expected YYYY-MM)`);
+  }
+  return getBudgetPeriod('monthly', new Date(`${period}-01T00:00:00Z`));
+}
+
+/**
+ * 'YYYY-MM' of the month before the given date - the one the batch job closes
+ */
+export function previousStatementPeriod(now = new Date()): string {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return start.toISOString().slice(0, 7);
+}
+
+/**
+ * One CSV table: a row per usage line, top-up and refund, then the totals
+ */
+export function statementToCsv(statement: Statement): string {
+  const header = [
+    'type', 'date', 'reference', 'provider', 'model', 'method', 'requests', 'input_tokens', 'output_tokens',
+    'total_tokens', 'tokens_charged', 'platform_fee_tokens', 'tokens_added', 'amount_cents', 'currency'
+  ];
+  const rows: unknown[][] = [
+    ...statement.usage.map(line => [
+      'usage', '', '', line.provider, line.model, line.method, line.requests, line.inputTokens, line.outputTokens,
+      line.totalTokens, line.tokensCharged, line.platformFeeTokens, '', '', ''
+    ]),
+    ...statement.topups.map(topup => [
+      'topup', topup.processedAt.slice(0, 10), topup.paymentId, '', '', '', '', '', '',
+      '', '', topup.platformFeeTokens, topup.usableTokens, topup.amountPaidCents, topup.currency
+    ]),
+    ...statement.refunds.map(refund => [
+      'refund', refund.refundedAt.slice(0, 10), refund.paymentId, '', '', '', '', '', '',
+      '', '', '', -refund.refundedTokens, '', ''
+    ]),
+    [
+      'total', statement.period, statement.status, '', '', '', statement.totals.requests, '', '',
+      statement.totals.totalTokens, statement.totals.tokensCharged, statement.totals.platformFeeTokens,
+      statement.totals.tokensAdded - statement.totals.tokensRefunded, statement.totals.amountPaidCents, ''
+    ]
+  ];
+
+  return toCsv([header, ...rows]);
+}
+
+export class StatementService {
+  private templateEngine: HandlebarsTemplateEngine;
+
+  constructor(private db: PostgreSQLAdapter, config: StatementServiceConfig = {}) {
+    this.templateEngine = config.templateEngine ?? new HandlebarsTemplateEngine();
+  }
+
+  /**
+   * Statement for a month - the stored snapshot once closed, otherwise built live
+   */
+  async getStatement(userId: string, period: string, now = new Date()): Promise<Statement> {
+    const closed = await this.getClosedStatement(userId, period);
+    return closed ?? this.buildStatement(userId, period, now);
+  }
+
+  /**
+   * Close a user's statement for an ended month
+   * Closing is idempotent: an already closed statement is returned unchanged.
+   */
+  async closeStatement(userId: string, period: string, now = new Date()): Promise<Statement> {
+    const { start, end } = getStatementPeriod(period);
+    if (end > now) {
+      throw new Error(`Statement period ${period} has not ended yet`);
+    }
+
+    const statement = await this.buildStatement(userId, period, now);
+    const snapshot: Statement = { ...statement, status: 'closed', closedAt: now.toISOString() };
+    const rows = await this.db.query(
+      `INSERT INTO billing_statements (user_id, period, period_start, period_end, statement, closed_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id, period) DO NOTHING
+       RETURNING id`,
+      [userId, period, start, end, JSON.stringify(snapshot), now]
+    );
+
+    if (rows.length === 0) {
+      return (await this.getClosedStatement(userId, period))!;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Batch job: close the statements of every account with activity in a month
+   * Run it after the month ends (e.g. daily from cron via admin.closeStatements).
+   */
+  async closePeriod(period = previousStatementPeriod(), now = new Date()): Promise<{ period: string; closed: number }> {
+    const { start, end } = getStatementPeriod(period);
+    const rows = await this.db.query(
+      `SELECT user_id FROM (
+         SELECT user_id FROM token_usage_log WHERE timestamp >= $1 AND timestamp < $2
+         UNION
+         SELECT user_id FROM token_topups
+         WHERE (processed_at >= $1 AND processed_at < $2) OR (refunded_at >= $1 AND refunded_at < $2)
+       ) active
+       WHERE user_id NOT IN (SELECT user_id FROM billing_statements WHERE period = $3)`,
+      [start, end, period]
+    );
+
+    for (const row of rows) {
+      await this.closeStatement(row.user_id, period, now);
+    }
+    console.log(`🧾 Closed ${rows.length} statement(s) for ${period}`);
+    return { period, closed: rows.length };
+  }
+
+  /**
+   * Render a statement as JSON, CSV or printable HTML
+   */
+  async render(statement: Statement, format: StatementFormat): Promise<{ contentType: string; content: string }> {
+    switch (format) {
+      case 'csv':
+        return { contentType: 'text/csv', content: statementToCsv(statement) };
+      case 'html':
+        return {
+          contentType: 'text/html',
+          content: await this.templateEngine.render('billing/statement', { statement }, {
+            layout: 'document',
+            title: `Statement ${statement.period}`
+          })
+        };
+      default:
+        return { contentType: 'application/json', content: JSON.stringify(statement, null, 2) };
+    }
+  }
+
+  private async getClosedStatement(userId: string, period: string): Promise<Statement | null> {
+    const rows = await this.db.query(
+      'SELECT statement FROM billing_statements WHERE user_id = $1 AND period = $2',
+      [userId, period]
+    );
+    if (!rows[0]) {
+      return null;
+    }
+    return typeof rows[0].statement === 'string' ? JSON.parse(rows[0].statement) : rows[0].statement;
+  }
+
+  private async buildStatement(userId: string, period: string, now: Date): Promise<Statement> {
+    const { start, end } = getStatementPeriod(period);
+
+    const usageRows = await this.db.query(
+      `SELECT provider, COALESCE(model, '') AS model, COALESCE(method, '') AS method,
+              COUNT(*) AS requests,
+              SUM(input_tokens) AS input_tokens,
+              SUM(output_tokens) AS output_tokens,
+              SUM(total_tokens) AS total_tokens,
+              SUM(virtual_tokens_deducted) AS tokens_charged,
+              SUM(platform_fee_tokens) AS platform_fee_tokens
+       FROM token_usage_log
+       WHERE user_id = $1 AND event_type IN ('usage', 'capture') AND timestamp >= $2 AND timestamp < $3
+       GROUP BY provider, model, method
+       ORDER BY provider, model, method`,
+      [userId, start, end]
+    );
+    const topupRows = await this.db.query(
+      `SELECT payment_id, tokens_purchased, usable_tokens, platform_fee_tokens, amount_paid_cents, currency, processed_at
+       FROM token_topups
+       WHERE user_id = $1 AND processed_at >= $2 AND processed_at < $3
+       ORDER BY processed_at`,
+      [userId, start, end]
+    );
+    const refundRows = await this.db.query(
+      `SELECT payment_id, refunded_tokens, refunded_at
+       FROM token_topups
+       WHERE user_id = $1 AND refunded_tokens > 0 AND refunded_at >= $2 AND refunded_at < $3
+       ORDER BY refunded_at`,
+      [userId, start, end]
+    );
+
+    const usage: StatementUsageLine[] = usageRows.map(row => ({
+      provider: row.provider,
+      model: row.model,
+      method: row.method,
+      requests: parseInt(row.requests) || 0,
+      inputTokens: parseInt(row.input_tokens) || 0,
+      outputTokens: parseInt(row.output_tokens) || 0,
+      totalTokens: parseInt(row.total_tokens) || 0,
+      tokensCharged: parseInt(row.tokens_charged) || 0,
+      platformFeeTokens: parseInt(row.platform_fee_tokens) || 0
+    }));
+    const topups: StatementTopup[] = topupRows.map(row => ({
+      paymentId: row.payment_id,
+      processedAt: new Date(row.processed_at).toISOString(),
+      tokensPurchased: parseInt(row.tokens_purchased) || 0,
+      usableTokens: parseInt(row.usable_tokens) || 0,
+      platformFeeTokens: parseInt(row.platform_fee_tokens) || 0,
+      amountPaidCents: row.amount_paid_cents ?? undefined,
+      currency: row.currency || 'USD'
+    }));
+    const refunds: StatementRefund[] = refundRows.map(row => ({
+      paymentId: row.payment_id,
+      refundedAt: new Date(row.refunded_at).toISOString(),
+      refundedTokens: parseInt(row.refunded_tokens) || 0
+    }));
+
+    const sum = <T>(items: T[], pick: (item: T) => number) => items.reduce((total, item) => total + pick(item), 0);
+    return {
+      userId,
+      period,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      status: 'open',
+      generatedAt: now.toISOString(),
+      usage,
+      topups,
+      refunds,
+      totals: {
+        requests: sum(usage, line => line.requests),
+        totalTokens: sum(usage, line => line.totalTokens),
+        tokensCharged: sum(usage, line => line.tokensCharged),
+        platformFeeTokens: sum(usage, line => line.platformFeeTokens),
+        tokensAdded: sum(topups, topup => topup.usableTokens),
+        tokensRefunded: sum(refunds, refund => refund.refundedTokens),
+        amountPaidCents: sum(topups, topup => topup.amountPaidCents ?? 0)
+      }
+    };
+  }
+}
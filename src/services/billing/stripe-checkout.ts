@@ -0,0 +1,80 @@
+/**
+ * Stripe Checkout
+ *
+ * Creates Stripe Checkout sessions for the configured prices. The user ID is
+ * attached as client reference and metadata so webhooks can credit the buyer.
+ */
+
+import { StripeClient, type StripeCheckoutSession } from './stripe-client';
+
+/**
+ * What a Stripe price sells
+ * - subscription: recurring token grants on every paid invoice
+ * - one_time: a single token grant
+ * - metered: pay-as-you-go; usage is reported to Stripe instead of granting tokens
+ */
+export interface StripePricePlan {
+  plan: string;
+  type: 'subscription' | 'one_time' | 'metered';
+}
+
+export interface StripeCheckoutConfig {
+  pricePlans: Record<string, StripePricePlan>; // Keyed by Stripe price ID; only these can be bought
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
+export interface CreateCheckoutInput {
+  priceId: string;
+  quantity?: number;
+  successUrl?: string;
+  cancelUrl?: string;
+}
+
+export interface CheckoutResult {
+  sessionId: string;
+  url: string | null;
+  mode: 'payment' | 'subscription';
+  plan: string;
+}
+
+export class StripeCheckoutService {
+  constructor(private client: StripeClient, private config: StripeCheckoutConfig) {}
+
+  listPlans(): Array<StripePricePlan & { priceId: string }> {
+    return Object.entries(this.config.pricePlans).map(([priceId, plan]) => ({ priceId, ...plan }));
+  }
+
+  async createCheckout(user: { userId: string; email?: string }, input: CreateCheckoutInput): Promise<CheckoutResult> {
+    const plan = this.config.pricePlans[input.priceId];
+    if (!plan) {
+      throw new Error(`Unknown price: ${input.priceId}`);
+    }
+
+    const successUrl = input.successUrl ?? this.config.successUrl;
+    const cancelUrl = input.cancelUrl ?? this.config.cancelUrl;
+    if (!successUrl || !cancelUrl) {
+      throw new Error('Checkout success and cancel URLs are not configured');
+    }
+
+    const mode = plan.type === 'one_time' ? 'payment' : 'subscription';
+    const quantity = plan.type === 'metered' ? undefined : input.quantity ?? 1;
+    const session: StripeCheckoutSession = await this.client.createCheckoutSession({
+      mode,
+      // Metered prices are billed on reported usage, so they take no quantity
+      lineItems: [{ price: input.priceId, quantity }],
+      successUrl,
+      cancelUrl,
+      clientReferenceId: user.userId,
+      customerEmail: user.email,
+      metadata: {
+        user_id: user.userId,
+        price_id: input.priceId,
+        plan: plan.plan,
+        ...(quantity !== undefined && { quantity: String(quantity) })
+      }
+    });
+
+    return { sessionId: session.id, url: session.url, mode, plan: plan.plan };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Stripe Client
+ *
+ * Minimal Stripe REST client (form-encoded requests over axios) covering what
+ * the billing integration needs: checkout sessions and metered usage records.
+ * The API base is configurable so the integration can run against a local mock.
+ */
+
+import crypto from 'crypto';
+import axios, { type AxiosInstance } from 'axios';
+
+export interface StripeClientConfig {
+  secretKey: string;
+  apiBase?: string;        // Default: 'https://api.stripe.com'
+  apiVersion?: string;     // Stripe-Version header (default: '2024-06-20', which still supports usage records)
+  timeoutMs?: number;      // Default: 15000
+}
+
+export interface StripeCheckoutSessionParams {
+  mode: 'payment' | 'subscription';
+  lineItems: Array<{ price: string; quantity?: number }>;
+  successUrl: string;
+  cancelUrl: string;
+  clientReferenceId?: string;
+  customerEmail?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  mode: string;
+  [key: string]: any;
+}
+
+export interface StripeUsageRecord {
+  id: string;
+  quantity: number;
+  subscription_item: string;
+  timestamp: number;
+}
+
+export class StripeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly type?: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'StripeApiError';
+  }
+}
+
+/**
+ * Encode nested params the way the Stripe API expects
+ * e.g. { line_items: [{ price: 'p' }] } → line_items[0][price]=p
+ */
+export function encodeStripeForm(params: Record<string, any>): string {
+  const pairs: string[] = [];
+  const append = (key: string, value: any) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => append(`${key}[${index}]`, item));
+    } else if (typeof value === 'object') {
+      for (const [childKey, childValue] of Object.entries(value)) {
+        append(`${key}[${childKey}]`, childValue);
+      }
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    append(key, value);
+  }
+  return pairs.join('&');
+}
+
+/**
+ * Verify a Stripe-Signature header ('t=<timestamp>,v1=<hmac>') against the raw body
+ */
+export function verifyStripeSignature(
+  rawBody: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds = 300,
+  now = Date.now()
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parts = header.split(',').map(part => part.split('=') as [string, string]);
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) {
+    return false;
+  }
+  if (Math.abs(now / 1000 - parseInt(timestamp)) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody.toString()}`).digest('hex'),
+    'hex'
+  );
+  return signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}
+
+export class StripeClient {
+  private http: AxiosInstance;
+
+  constructor(config: StripeClientConfig) {
+    this.http = axios.create({
+      baseURL: config.apiBase ?? 'https://api.stripe.com',
+      timeout: config.timeoutMs ?? 15000,
+      headers: {
+        'Authorization': `Bearer ${config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Stripe-Version': config.apiVersion ?? '2024-06-20'
+      }
+    });
+  }
+
+  async createCheckoutSession(params: StripeCheckoutSessionParams): Promise<StripeCheckoutSession> {
+    const metadata = params.metadata;
+    return this.post('/v1/checkout/sessions', {
+      mode: params.mode,
+      line_items: params.lineItems,
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      client_reference_id: params.clientReferenceId,
+      customer_email: params.customerEmail,
+      metadata,
+      // Copy the metadata onto the subscription / payment so later webhooks carry it
+      ...(params.mode === 'subscription'
+        ? { subscription_data: { metadata } }
+        : { payment_intent_data: { metadata } })
+    });
+  }
+
+  /**
+   * Report metered usage for a subscription item
+   * The idempotency key makes a retried report count once.
+   */
+  async createUsageRecord(
+    subscriptionItemId: string,
+    usage: { quantity: number; timestamp?: Date; action?: 'increment' | 'set' },
+    idempotencyKey?: string
+  ): Promise<StripeUsageRecord> {
+    return this.post(
+      `/v1/subscription_items/${encodeURIComponent(subscriptionItemId)}/usage_records`,
+      {
+        quantity: usage.quantity,
+        timestamp: Math.floor((usage.timestamp ?? new Date()).getTime() / 1000),
+        action: usage.action ?? 'increment'
+      },
+      idempotencyKey
+    );
+  }
+
+  private async post<T>(path: string, params: Record<string, any>, idempotencyKey?: string): Promise<T> {
+    try {
+      const response = await this.http.post(path, encodeStripeForm(params), {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+      });
+      return response.data;
+    } catch (error: any) {
+      const stripeError = error.response?.data?.error;
+      throw new StripeApiError(
+        stripeError?.message ?? error.message,
+        error.response?.status,
+        stripeError?.type,
+        stripeError?.code
+      );
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Stripe Usage Reporter
+ *
+ * Metered Stripe plans are billed on reported usage instead of a token
+ * balance. Requests of metered subscribers are logged against their
+ * subscription item (VirtualTokenService.recordMeteredUsage); on a schedule
+ * the reporter claims the unreported rows into one report per subscription
+ * item and sends it to Stripe as a usage record.
+ *
+ * A report is claimed before it is sent, so rows are never reported twice.
+ * Reports Stripe did not accept stay pending and are resent with the same
+ * idempotency key on the next run.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import { StripeClient } from './stripe-client';
+import type { StripePricePlan } from './stripe-checkout';
+
+// Stripe subscription states that may keep using a metered plan
+const BILLABLE_STATUSES = ['active', 'trialing', 'past_due'];
+
+export interface StripeUsageReporterConfig {
+  pricePlans: Record<string, StripePricePlan>; // Keyed by Stripe price ID; 'metered' plans are reported
+  reportIntervalMs?: number;                   // Default: 3600000 (1 hour)
+}
+
+/**
+ * A user's metered subscription and the item their usage is reported to
+ */
+export interface MeteredSubscription {
+  subscriptionId: string;
+  subscriptionItemId: string;
+  priceId: string;
+  plan: string;
+}
+
+export interface StripeUsageReportSummary {
+  reported: number;        // Usage records Stripe accepted
+  totalQuantity: number;
+  failed: Array<{ reportId: string; subscriptionItemId: string; error: string }>;
+}
+
+export class StripeUsageReporter {
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<StripeUsageReportSummary>;
+
+  constructor(
+    private db: PostgreSQLAdapter,
+    private client: StripeClient,
+    private config: StripeUsageReporterConfig
+  ) {}
+
+  /**
+   * Price IDs of the configured metered plans
+   */
+  get meteredPriceIds(): string[] {
+    return Object.entries(this.config.pricePlans)
+      .filter(([, plan]) => plan.type === 'metered')
+      .map(([priceId]) => priceId);
+  }
+
+  /**
+   * The user's billable metered subscription, if they have one
+   */
+  async getMeteredSubscription(userId: string): Promise<MeteredSubscription | null> {
+    const priceIds = this.meteredPriceIds;
+    if (priceIds.length === 0) {
+      return null;
+    }
+
+    const rows = await this.db.query(
+      `SELECT subscription_id, subscription_item_id, variant_id, plan FROM billing_subscriptions
+       WHERE provider = 'stripe' AND user_id = $1 AND subscription_item_id IS NOT NULL
+         AND variant_id = ANY($2::varchar[]) AND status = ANY($3::varchar[])
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [userId, priceIds, BILLABLE_STATUSES]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+    return {
+      subscriptionId: row.subscription_id,
+      subscriptionItemId: row.subscription_item_id,
+      priceId: row.variant_id,
+      plan: row.plan ?? this.config.pricePlans[row.variant_id]?.plan
+    };
+  }
+
+  /**
+   * Report all unreported metered usage to Stripe
+   * Overlapping calls share one run.
+   */
+  reportUsage(): Promise<StripeUsageReportSummary> {
+    this.running ??= this.runReport().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  /**
+   * Report usage every reportIntervalMs until stop()
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.reportUsage().catch(error => {
+        console.error('❌ Scheduled Stripe usage report failed:', error instanceof Error ? error.message : error);
+      });
+    }, this.config.reportIntervalMs ?? 60 * 60 * 1000);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async runReport(): Promise<StripeUsageReportSummary> {
+    await this.claimUnreportedUsage();
+
+    const pending = await this.db.query(
+      `SELECT id, subscription_item_id, quantity, created_at FROM stripe_usage_reports
+       WHERE status = 'pending' ORDER BY created_at`
+    );
+    const summary: StripeUsageReportSummary = { reported: 0, totalQuantity: 0, failed: [] };
+
+    for (const report of pending) {
+      const quantity = parseInt(report.quantity);
+      try {
+        // The report ID as idempotency key makes a resent report count once
+        const record = await this.client.createUsageRecord(
+          report.subscription_item_id,
+          { quantity, timestamp: new Date(report.created_at) },
+          `usage_report_${report.id}`
+        );
+        await this.db.query(
+          `UPDATE stripe_usage_reports
+           SET status = 'reported', stripe_usage_record_id = $2, attempts = attempts + 1, last_error = NULL, reported_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [report.id, record.id]
+        );
+        summary.reported++;
+        summary.totalQuantity += quantity;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.db.query(
+          'UPDATE stripe_usage_reports SET attempts = attempts + 1, last_error = $2 WHERE id = $1',
+          [report.id, message]
+        );
+        summary.failed.push({ reportId: report.id, subscriptionItemId: report.subscription_item_id, error: message });
+      }
+    }
+
+    if (pending.length > 0) {
+      console.log(`📊 Reported Stripe usage for ${summary.reported} subscription items (${summary.totalQuantity} tokens, ${summary.failed.length} failed)`);
+    }
+    return summary;
+  }
+
+  /**
+   * Move unreported usage rows into one pending report per subscription item
+   */
+  private async claimUnreportedUsage(): Promise<void> {
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const rows = (await client.query(
+        `SELECT id, stripe_subscription_item_id, virtual_tokens_deducted FROM token_usage_log
+         WHERE stripe_subscription_item_id IS NOT NULL AND stripe_usage_report_id IS NULL
+         FOR UPDATE SKIP LOCKED`
+      )).rows;
+
+      const byItem = new Map<string, { ids: string[]; quantity: number }>();
+      for (const row of rows) {
+        const item = byItem.get(row.stripe_subscription_item_id) ?? { ids: [], quantity: 0 };
+        item.ids.push(row.id);
+        item.quantity += parseInt(row.virtual_tokens_deducted) || 0;
+        byItem.set(row.stripe_subscription_item_id, item);
+      }
+
+      for (const [subscriptionItemId, { ids, quantity }] of byItem) {
+        const reportId = uuidv4();
+        await client.query(
+          'INSERT INTO stripe_usage_reports (id, subscription_item_id, quantity) VALUES ($1, $2, $3)',
+          [reportId, subscriptionItemId, quantity]
+        );
+        await client.query(
+          'UPDATE token_usage_log SET stripe_usage_report_id = $1 WHERE id = ANY($2::uuid[])',
+          [reportId, ids]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
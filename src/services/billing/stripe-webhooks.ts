@@ -0,0 +1,282 @@
+/**
+ * Stripe Webhooks
+ *
+ * Checkout, subscription, invoice and refund events from Stripe:
+ * - checkout.session.completed: token grants for one-time purchases
+ * - customer.subscription.created/updated/deleted: subscription state
+ * - invoice.paid: token grants for every paid subscription invoice
+ * - invoice.payment_failed: marks the subscription past due
+ * - charge.refunded: claws tokens back
+ *
+ * Events are logged by their Stripe event ID, so retries are skipped and failed
+ * events can be replayed.
+ */
+
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import type { VirtualTokenService, RefundPolicy } from './virtual-token-service';
+import type { UsageAnalyticsService } from './usage-analytics-service';
+import { BillingRules } from './billing-rules';
+import { verifyStripeSignature } from './stripe-client';
+import type { StripePricePlan } from './stripe-checkout';
+import { WebhookEventProcessor, type WebhookEventOutcome } from './webhook-event-log';
+
+export interface StripeWebhookConfig {
+  webhookSecret?: string;                         // Endpoint signing secret (verification is skipped when unset)
+  pricePlans?: Record<string, StripePricePlan>;   // Keyed by price ID; unmapped prices are ignored
+  refundPolicy?: RefundPolicy;                    // Default: 'freeze'
+}
+
+export interface StripeWebhookServices {
+  virtualTokenService: VirtualTokenService;
+  usageAnalyticsService?: UsageAnalyticsService | null;
+  billingRules?: BillingRules;
+}
+
+const PROVIDER = 'stripe';
+
+const toDate = (seconds?: number | null) => (seconds ? new Date(seconds * 1000) : null);
+
+export class StripeWebhookHandler extends WebhookEventProcessor {
+  readonly provider = PROVIDER;
+  private billingRules: BillingRules;
+
+  constructor(
+    private db: PostgreSQLAdapter,
+    private services: StripeWebhookServices,
+    private config: StripeWebhookConfig = {}
+  ) {
+    super(db, 'Stripe');
+    this.billingRules = services.billingRules ?? services.virtualTokenService.getBillingRules();
+  }
+
+  /**
+   * Check the Stripe-Signature header against the raw body
+   */
+  verifySignature(rawBody: Buffer | string, signature?: string): boolean {
+    if (!this.config.webhookSecret) {
+      return true;
+    }
+    return verifyStripeSignature(rawBody, signature, this.config.webhookSecret);
+  }
+
+  /**
+   * Events are keyed by their Stripe event ID
+   */
+  protected parseDelivery(rawBody: Buffer | string) {
+    const payload = JSON.parse(rawBody.toString());
+    return { eventKey: String(payload.id), eventName: payload.type ?? 'unknown', payload };
+  }
+
+  protected async dispatch(eventName: string, payload: any): Promise<WebhookEventOutcome> {
+    const object = payload.data.object;
+    switch (eventName) {
+      case 'checkout.session.completed':
+        return this.handleCheckoutCompleted(object);
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return this.handleSubscriptionState(object);
+      case 'invoice.paid':
+        return this.handleInvoicePaid(object);
+      case 'invoice.payment_failed':
+        return this.handleInvoiceFailed(object);
+      case 'charge.refunded':
+        return this.handleChargeRefunded(object);
+      default:
+        return { status: 'ignored', message: `Unhandled event ${eventName}` };
+    }
+  }
+
+  /**
+   * One-time purchases are granted here; subscriptions are granted per paid invoice
+   */
+  private async handleCheckoutCompleted(session: any): Promise<WebhookEventOutcome> {
+    if (session.mode !== 'payment') {
+      return { status: 'ignored', message: `Session ${session.id} is a ${session.mode} checkout (granted on invoice.paid)` };
+    }
+    if (session.payment_status !== 'paid') {
+      return { status: 'ignored', message: `Session ${session.id} is ${session.payment_status}` };
+    }
+
+    const priceId = session.metadata?.price_id;
+    const plan = priceId ? this.config.pricePlans?.[priceId] : undefined;
+    if (!plan) {
+      return { status: 'ignored', message: `Price ${priceId} is not mapped to a plan` };
+    }
+
+    const userId = session.client_reference_id ?? session.metadata?.user_id;
+    if (!userId) {
+      throw new Error(`Session ${session.id} has no user reference`);
+    }
+
+    return this.grantTokens(
+      userId,
+      `stripe:${session.payment_intent ?? session.id}`,
+      priceId,
+      session.amount_total,
+      session.currency,
+      session,
+      plan,
+      'one_time',
+      session.metadata?.quantity ? parseInt(session.metadata.quantity) : undefined
+    );
+  }
+
+  private async handleSubscriptionState(subscription: any): Promise<WebhookEventOutcome> {
+    const item = subscription.items?.data?.[0];
+    const priceId: string | undefined = item?.price?.id;
+    const userId = subscription.metadata?.user_id ?? (await this.getSubscription(subscription.id))?.userId;
+    if (!userId) {
+      throw new Error(`Subscription ${subscription.id} has no user reference`);
+    }
+
+    await this.db.query(
+      `INSERT INTO billing_subscriptions
+       (provider, subscription_id, user_id, customer_id, subscription_item_id, variant_id, plan, status, renews_at, ends_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (provider, subscription_id) DO UPDATE SET
+         customer_id = EXCLUDED.customer_id,
+         subscription_item_id = EXCLUDED.subscription_item_id,
+         variant_id = EXCLUDED.variant_id,
+         plan = EXCLUDED.plan,
+         status = EXCLUDED.status,
+         renews_at = EXCLUDED.renews_at,
+         ends_at = EXCLUDED.ends_at,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        PROVIDER,
+        subscription.id,
+        userId,
+        subscription.customer,
+        item?.id ?? null,
+        priceId ?? null,
+        (priceId && this.config.pricePlans?.[priceId]?.plan) ?? null,
+        subscription.status,
+        toDate(subscription.current_period_end),
+        toDate(subscription.ended_at ?? subscription.cancel_at)
+      ]
+    );
+
+    return { status: 'processed', message: `subscription ${subscription.id} is ${subscription.status}` };
+  }
+
+  private async handleInvoicePaid(invoice: any): Promise<WebhookEventOutcome> {
+    if (!invoice.subscription) {
+      return { status: 'ignored', message: `Invoice ${invoice.id} is not for a subscription` };
+    }
+
+    const line = invoice.lines?.data?.[0];
+    const priceId: string | undefined = line?.price?.id;
+    const plan = priceId ? this.config.pricePlans?.[priceId] : undefined;
+    if (!plan) {
+      return { status: 'ignored', message: `Price ${priceId} is not mapped to a plan` };
+    }
+    if (plan.type === 'metered') {
+      return { status: 'ignored', message: `Invoice ${invoice.id} bills metered usage` };
+    }
+    if (!invoice.amount_paid) {
+      return { status: 'ignored', message: `Invoice ${invoice.id} has nothing paid` };
+    }
+
+    const userId = invoice.subscription_details?.metadata?.user_id
+      ?? (await this.getSubscription(invoice.subscription))?.userId;
+    if (!userId) {
+      throw new Error(`Unknown subscription ${invoice.subscription} for invoice ${invoice.id}`);
+    }
+
+    await this.updateSubscriptionStatus(invoice.subscription, 'active');
+    return this.grantTokens(
+      userId,
+      `stripe:invoice:${invoice.id}`,
+      priceId!,
+      invoice.amount_paid,
+      invoice.currency,
+      invoice,
+      plan,
+      'subscription',
+      line.quantity
+    );
+  }
+
+  private async handleInvoiceFailed(invoice: any): Promise<WebhookEventOutcome> {
+    if (!invoice.subscription) {
+      return { status: 'ignored', message: `Invoice ${invoice.id} is not for a subscription` };
+    }
+    const updated = await this.updateSubscriptionStatus(invoice.subscription, 'past_due');
+    return updated
+      ? { status: 'processed', message: `subscription ${invoice.subscription} is past due` }
+      : { status: 'ignored', message: `Unknown subscription ${invoice.subscription}` };
+  }
+
+  private async handleChargeRefunded(charge: any): Promise<WebhookEventOutcome> {
+    const paymentId = charge.invoice ? `stripe:invoice:${charge.invoice}` : `stripe:${charge.payment_intent}`;
+    const refund = await this.services.virtualTokenService.refundTopup(paymentId, {
+      refundedAmountCents: charge.amount_refunded,
+      policy: this.config.refundPolicy
+    });
+    if (!refund) {
+      return { status: 'ignored', message: `No token top-up for payment ${paymentId}` };
+    }
+
+    const frozenNote = refund.frozen ? ', account frozen' : '';
+    return {
+      status: 'processed',
+      message: `clawed back ${refund.tokensClawedBack} tokens from user ${refund.userId} (balance ${refund.newBalance}${frozenNote})`
+    };
+  }
+
+  private async grantTokens(
+    userId: string,
+    paymentId: string,
+    priceId: string,
+    amountPaidCents: number,
+    currency: string | undefined,
+    payload: any,
+    plan: StripePricePlan,
+    purchaseType: 'subscription' | 'one_time',
+    quantity?: number
+  ): Promise<WebhookEventOutcome> {
+    const { virtualTokenService, usageAnalyticsService } = this.services;
+    if (await virtualTokenService.isPaymentProcessed(paymentId)) {
+      return { status: 'ignored', message: `Payment ${paymentId} already granted` };
+    }
+
+    const currencyCode = (currency ?? 'usd').toUpperCase();
+    if (usageAnalyticsService && !(await usageAnalyticsService.isPaymentProcessed(paymentId))) {
+      await usageAnalyticsService.recordPurchase({
+        userId,
+        paymentId,
+        purchaseType,
+        variantId: priceId,
+        quantity,
+        amountPaidCents,
+        currency: currencyCode,
+        lemonSqueezyData: payload
+      });
+    }
+
+    // Tokens from the price's grant rule, or tokens per cent paid (default: 10)
+    const grant = this.billingRules.calculateGrant({ variantId: priceId, amountPaidCents, quantity });
+    await virtualTokenService.addTokensFromPayment(userId, grant, paymentId, priceId, amountPaidCents, currencyCode, payload);
+
+    return { status: 'processed', message: `${grant.tokensPurchased} tokens (${plan.plan}, ${grant.rule.grantRule}) for user ${userId}` };
+  }
+
+  private async getSubscription(subscriptionId: string): Promise<{ userId: string } | null> {
+    const rows = await this.db.query(
+      'SELECT user_id FROM billing_subscriptions WHERE provider = $1 AND subscription_id = $2',
+      [PROVIDER, subscriptionId]
+    );
+    return rows.length > 0 ? { userId: rows[0].user_id } : null;
+  }
+
+  private async updateSubscriptionStatus(subscriptionId: string, status: string): Promise<boolean> {
+    const rows = await this.db.query(
+      `UPDATE billing_subscriptions SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE provider = $2 AND subscription_id = $3
+       RETURNING subscription_id`,
+      [status, PROVIDER, subscriptionId]
+    );
+    return rows.length > 0;
+  }
+}
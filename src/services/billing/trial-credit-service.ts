@@ -0,0 +1,262 @@
+/**
+ * Trial Credit Service
+ *
+ * Free trial credits for new users: a one-time grant of tokens (optionally
+ * capped in requests) that expires, spent on the server's provider keys before
+ * a user pays or brings their own key. The grant happens the first time a
+ * signed-in user without tokens or a key reaches the backend.
+ *
+ * Abuse controls: one grant per verified e-mail address (normalized, so
+ * `+tags` do not count as new addresses) and one per device.
+ *
+ * Each request holds its estimated tokens until it finishes, so parallel
+ * requests cannot spend the same credits.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import { UserManager } from '../../auth/user-manager';
+
+export interface TrialCredit {
+  userId: string;
+  tokensGranted: number;
+  tokensUsed: number;
+  tokensHeld: number;           // Held by requests still running
+  tokensRemaining: number;
+  requestsGranted?: number;     // Unset: no request cap
+  requestsUsed: number;
+  requestsRemaining?: number;
+  grantedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A request taken from a trial, with the hold for its estimated tokens
+ */
+export interface TrialClaim extends TrialCredit {
+  holdId: string;
+}
+
+/**
+ * Who asks for a trial - the signed-in user plus the device they use
+ */
+export interface TrialClaimant {
+  userId: string;
+  email?: string;
+  emailVerified?: boolean;
+  deviceId?: string | null;     // Raw X-Device-Id header, hashed before storage
+}
+
+export interface TrialCreditConfig {
+  tokens?: number;              // Default: 10000
+  requests?: number;            // Request cap (default: none)
+  expiresInDays?: number;       // Default: 14
+  requireVerifiedEmail?: boolean; // Only grant when the JWT says emailVerified: true (default: true)
+  requireDeviceId?: boolean;    // Only grant when an X-Device-Id header is sent (default: false)
+  upgradeUrl?: string;          // Added to the PAYMENT_REQUIRED message
+}
+
+/**
+ * Thrown when a request cannot be paid from trial credits
+ */
+export class TrialCreditError extends Error {
+  constructor(message: string, public readonly reason: 'ineligible' | 'expired' | 'exhausted') {
+    super(message);
+    this.name = 'TrialCreditError';
+  }
+}
+
+/**
+ * Lower-case address without `+tag` - the same inbox counts once
+ */
+export function normalizeTrialEmail(email: string): string {
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  return domain ? `${local.split('+')[0]}@${domain}` : local;
+}
+
+// Holds of requests that never finished stop counting after this long
+const HOLD_TTL_MS = 15 * 60 * 1000;
+
+export class TrialCreditService {
+  private tokens: number;
+  private expiresInMs: number;
+
+  constructor(private db: PostgreSQLAdapter, private config: TrialCreditConfig = {}) {
+    this.tokens = config.tokens ?? 10000;
+    this.expiresInMs = (config.expiresInDays ?? 14) * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * The user's trial, if one was ever granted
+   */
+  async getTrial(userId: string, now = new Date()): Promise<TrialCredit | null> {
+    const rows = await this.db.query(
+      `SELECT t.*, COALESCE((
+         SELECT SUM(h.tokens) FROM trial_credit_holds h WHERE h.user_id = t.user_id AND h.held_until > $2
+       ), 0) AS tokens_held
+       FROM trial_credits t WHERE t.user_id = $1`,
+      [userId, now]
+    );
+    return rows[0] ? this.mapTrial(rows[0], parseInt(rows[0].tokens_held) || 0) : null;
+  }
+
+  /**
+   * The user's trial, granting it on first sign-in
+   * Returns null when the user is not eligible: no verified e-mail, no device
+   * ID (when required), or the e-mail or device already had a trial.
+   */
+  async getOrGrantTrial(claimant: TrialClaimant, now = new Date()): Promise<TrialCredit | null> {
+    const existing = await this.getTrial(claimant.userId, now);
+    if (existing) {
+      return existing;
+    }
+
+    const requireVerifiedEmail = this.config.requireVerifiedEmail ?? true;
+    if (!claimant.email || (requireVerifiedEmail && claimant.emailVerified !== true)) {
+      return null;
+    }
+    if (this.config.requireDeviceId && !claimant.deviceId) {
+      return null;
+    }
+
+    const emailHash = crypto.createHash('sha256').update(normalizeTrialEmail(claimant.email)).digest('hex');
+    const deviceHash = claimant.deviceId ? UserManager.generateDeviceId(claimant.deviceId) : null;
+    // Any unique conflict (user, e-mail or device) skips the grant
+    const rows = await this.db.query(
+      `INSERT INTO trial_credits (user_id, email_hash, device_hash, tokens_granted, requests_granted, granted_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [claimant.userId, emailHash, deviceHash, this.tokens, this.config.requests ?? null, now, new Date(now.getTime() + this.expiresInMs)]
+    );
+
+    if (rows.length === 0) {
+      // Lost a race with a parallel request of the same user, or a reused e-mail/device
+      const trial = await this.getTrial(claimant.userId, now);
+      if (!trial) {
+        console.log(`🚫 Trial credits refused for ${claimant.userId}: e-mail or device already had a trial`);
+      }
+      return trial;
+    }
+
+    console.log(`🎁 Granted ${this.tokens} trial tokens to ${claimant.userId}`);
+    return this.mapTrial(rows[0], 0);
+  }
+
+  /**
+   * Whether a trial can still pay for a request
+   */
+  isAvailable(trial: TrialCredit, now = new Date()): boolean {
+    return trial.expiresAt > now
+      && trial.tokensRemaining > 0
+      && (trial.requestsRemaining === undefined || trial.requestsRemaining > 0);
+  }
+
+  /**
+   * Take one request from the trial before calling the provider
+   * Holds the estimated tokens, capped at what is left, so parallel requests
+   * cannot overdraw the grant; a request may still use more than its hold
+   * when its estimate did not fit.
+   */
+  async claimRequest(userId: string, estimatedTokens: number, now = new Date()): Promise<TrialClaim> {
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const row = (await client.query('SELECT * FROM trial_credits WHERE user_id = $1 FOR UPDATE', [userId])).rows[0];
+      await client.query('DELETE FROM trial_credit_holds WHERE user_id = $1 AND held_until <= $2', [userId, now]);
+      const held = row
+        ? parseInt((await client.query(
+          'SELECT COALESCE(SUM(tokens), 0) AS held FROM trial_credit_holds WHERE user_id = $1', [userId]
+        )).rows[0].held) || 0
+        : 0;
+      const trial = row ? this.mapTrial(row, held) : null;
+
+      if (!trial || !this.isAvailable(trial, now)) {
+        throw new TrialCreditError(
+          this.upgradeMessage(trial, now),
+          !trial ? 'ineligible' : trial.expiresAt <= now ? 'expired' : 'exhausted'
+        );
+      }
+
+      const holdId = uuidv4();
+      const holdTokens = Math.min(Math.max(Math.ceil(estimatedTokens), 0), trial.tokensRemaining);
+      const updated = (await client.query(
+        'UPDATE trial_credits SET requests_used = requests_used + 1 WHERE user_id = $1 RETURNING *',
+        [userId]
+      )).rows[0];
+      await client.query(
+        'INSERT INTO trial_credit_holds (id, user_id, tokens, held_until) VALUES ($1, $2, $3, $4)',
+        [holdId, userId, holdTokens, new Date(now.getTime() + HOLD_TTL_MS)]
+      );
+
+      await client.query('COMMIT');
+      return { ...this.mapTrial(updated, held + holdTokens), holdId };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Return a claimed request that failed before producing output
+   */
+  async releaseRequest(holdId: string): Promise<void> {
+    await this.db.query(
+      `WITH released AS (DELETE FROM trial_credit_holds WHERE id = $1 RETURNING user_id)
+       UPDATE trial_credits SET requests_used = GREATEST(requests_used - 1, 0)
+       WHERE user_id IN (SELECT user_id FROM released)`,
+      [holdId]
+    );
+  }
+
+  /**
+   * Charge the tokens a trial request used and drop its hold
+   */
+  async recordUsage(userId: string, tokens: number, holdId?: string): Promise<TrialCredit | null> {
+    await this.db.query(
+      `WITH released AS (DELETE FROM trial_credit_holds WHERE id = $3 AND user_id = $1)
+       UPDATE trial_credits SET tokens_used = tokens_used + $2 WHERE user_id = $1`,
+      [userId, tokens, holdId ?? null]
+    );
+    return this.getTrial(userId);
+  }
+
+  /**
+   * Why trial credits cannot pay and how to continue
+   */
+  upgradeMessage(trial: TrialCredit | null, now = new Date()): string {
+    const reason = !trial
+      ? 'No free trial credits are available for this account.'
+      : trial.expiresAt <= now
+        ? `Your free trial expired on ${trial.expiresAt.toISOString().slice(0, 10)}.`
+        : 'Your free trial credits are used up.';
+    const upgrade = this.config.upgradeUrl ? ` Upgrade at ${this.config.upgradeUrl}` : '';
+    return `${reason} Top up tokens or add your own API key to continue.${upgrade}`;
+  }
+
+  private mapTrial(row: any, tokensHeld: number): TrialCredit {
+    const tokensGranted = parseInt(row.tokens_granted) || 0;
+    const tokensUsed = parseInt(row.tokens_used) || 0;
+    const requestsGranted = row.requests_granted === null || row.requests_granted === undefined
+      ? undefined
+      : parseInt(row.requests_granted);
+    const requestsUsed = parseInt(row.requests_used) || 0;
+    return {
+      userId: row.user_id,
+      tokensGranted,
+      tokensUsed,
+      tokensHeld,
+      tokensRemaining: Math.max(tokensGranted - tokensUsed - tokensHeld, 0),
+      requestsGranted,
+      requestsUsed,
+      requestsRemaining: requestsGranted === undefined ? undefined : Math.max(requestsGranted - requestsUsed, 0),
+      grantedAt: new Date(row.granted_at),
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+}
@@ -8,6 +8,8 @@
 
 import { PostgreSQLAdapter } from '../../database/postgres-adapter';
 import { v4 as uuidv4 } from 'uuid';
+import { getDefaultPricingCatalog } from './pricing-catalog';
+import { toCsv } from '../../utils/csv';
 
 export interface UsageRecord {
   id: string;
@@ -21,6 +23,7 @@ export interface UsageRecord {
   estimatedCostUsd?: number;
   requestId?: string;
   method?: string;
+  organizationId?: string;
   timestamp: Date;
   metadata?: any;
 }
@@ -50,6 +53,74 @@ export interface PurchaseRecord {
   lemonSqueezyData?: any;
 }
 
+export type UsageBucket = 'hour' | 'day' | 'week';
+export type UsageDimension = 'provider' | 'model' | 'method' | 'user' | 'organization' | 'userType';
+export type UsageExportFormat = 'csv' | 'ndjson';
+
+/**
+ * Aggregated usage query over BYOK and platform-paid requests (combined_usage view)
+ * Without bucket or groupBy the result is a single total row.
+ */
+export interface UsageQuery {
+  from: Date;
+  to: Date;                        // Exclusive
+  bucket?: UsageBucket;            // Time buckets (UTC, weeks start on Monday)
+  groupBy?: UsageDimension[];
+  filters?: {
+    userId?: string[];
+    organizationId?: string[];
+    provider?: string[];
+    model?: string[];
+    method?: string[];
+    userType?: 'subscription' | 'byok';
+  };
+  limit?: number;                  // Rows per page (default: 100, max: 1000)
+  cursor?: string;                 // nextCursor of the previous page
+}
+
+export interface UsageQueryRow {
+  bucket?: string;                 // ISO start of the time bucket
+  provider?: string;
+  model?: string;
+  method?: string;
+  userId?: string;
+  organizationId?: string;
+  userType?: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  tokensCharged: number;           // Virtual tokens (platform-paid requests)
+  estimatedCostUsd: number;        // Estimated provider cost (BYOK requests)
+}
+
+export interface UsageQueryResult {
+  rows: UsageQueryRow[];
+  nextCursor: string | null;
+}
+
+// Group keys: SQL expression and result field, in output order
+const USAGE_DIMENSIONS: Record<UsageDimension, { expression: string; field: keyof UsageQueryRow }> = {
+  provider: { expression: 'provider', field: 'provider' },
+  model: { expression: "COALESCE(model, '')", field: 'model' },
+  method: { expression: "COALESCE(method, '')", field: 'method' },
+  user: { expression: 'user_id', field: 'userId' },
+  organization: { expression: "COALESCE(organization_id, '')", field: 'organizationId' },
+  userType: { expression: 'user_type', field: 'userType' }
+};
+
+const USAGE_FILTERS: Record<'userId' | 'organizationId' | 'provider' | 'model' | 'method', string> = {
+  userId: 'user_id',
+  organizationId: 'organization_id',
+  provider: 'provider',
+  model: 'model',
+  method: 'method'
+};
+
+const USAGE_METRICS: Array<keyof UsageQueryRow> = [
+  'requests', 'inputTokens', 'outputTokens', 'totalTokens', 'tokensCharged', 'estimatedCostUsd'
+];
+
 export class UsageAnalyticsService {
   constructor(private db: PostgreSQLAdapter) {}
 
@@ -62,13 +133,13 @@ export class UsageAnalyticsService {
     await this.db.query(
       `INSERT INTO usage_analytics 
        (id, user_id, user_type, provider, model, input_tokens, output_tokens, 
-        total_tokens, estimated_cost_usd, request_id, method, metadata)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        total_tokens, estimated_cost_usd, request_id, method, metadata, organization_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
       [
         id, record.userId, record.userType, record.provider, record.model,
         record.inputTokens, record.outputTokens, record.totalTokens,
         record.estimatedCostUsd, record.requestId, record.method,
-        JSON.stringify(record.metadata)
+        JSON.stringify(record.metadata), record.organizationId ?? null
       ]
     );
 
@@ -163,6 +234,144 @@ export class UsageAnalyticsService {
     };
   }
 
+  /**
+   * Time-bucketed, grouped usage with filters and cursor pagination
+   * Rows are ordered by bucket, then group keys; pass nextCursor to get the next page.
+   */
+  async queryUsage(query: UsageQuery): Promise<UsageQueryResult> {
+    const limit = Math.min(Math.max(query.limit ?? 100, 1), 1000);
+    const keys = [
+      ...(query.bucket ? [{ expression: `date_trunc('${query.bucket}', timestamp)`, field: 'bucket' as const }] : []),
+      ...[...new Set(query.groupBy ?? [])].map(dimension => USAGE_DIMENSIONS[dimension])
+    ];
+    const aliases = keys.map((_, i) => `k${i}`);
+
+    const params: any[] = [query.from, query.to];
+    const conditions = ['timestamp >= $1', 'timestamp < $2'];
+    for (const [filter, column] of Object.entries(USAGE_FILTERS) as Array<[keyof typeof USAGE_FILTERS, string]>) {
+      const values = query.filters?.[filter];
+      if (values && values.length > 0) {
+        params.push(values);
+        conditions.push(`${column} = ANY($${params.length})`);
+      }
+    }
+    if (query.filters?.userType) {
+      params.push(query.filters.userType);
+      conditions.push(`user_type = $${params.length}`);
+    }
+
+    // Keyset pagination over the group keys
+    let after = '';
+    if (query.cursor && keys.length > 0) {
+      const values = this.decodeUsageCursor(query.cursor, keys.length);
+      const placeholders = values.map((value, i) => {
+        params.push(value);
+        return keys[i].field === 'bucket' ? `$${params.length}::timestamp` : `$${params.length}`;
+      });
+      after = `WHERE (${aliases.join(', ')}) > (${placeholders.join(', ')})`;
+    }
+    params.push(limit + 1);
+
+    const rows = await this.db.query(
+      `SELECT * FROM (
+         SELECT ${keys.map((key, i) => `${key.expression} AS ${aliases[i]}, `).join('')}
+                COUNT(*) AS requests,
+                SUM(input_tokens) AS input_tokens,
+                SUM(output_tokens) AS output_tokens,
+                SUM(total_tokens) AS total_tokens,
+                SUM(tokens_charged) AS tokens_charged,
+                SUM(estimated_cost_usd) AS estimated_cost_usd
+         FROM combined_usage
+         WHERE ${conditions.join(' AND ')}
+         ${keys.length > 0 ? `GROUP BY ${keys.map(key => key.expression).join(', ')}` : ''}
+       ) grouped
+       ${after}
+       ${keys.length > 0 ? `ORDER BY ${aliases.join(', ')}` : ''}
+       LIMIT $${params.length}`,
+      params
+    );
+
+    const page = rows.slice(0, limit).map(row => {
+      const result: UsageQueryRow = {
+        requests: parseInt(row.requests) || 0,
+        inputTokens: parseInt(row.input_tokens) || 0,
+        outputTokens: parseInt(row.output_tokens) || 0,
+        totalTokens: parseInt(row.total_tokens) || 0,
+        tokensCharged: parseInt(row.tokens_charged) || 0,
+        estimatedCostUsd: parseFloat(row.estimated_cost_usd) || 0
+      };
+      keys.forEach((key, i) => {
+        const value = row[aliases[i]];
+        (result as any)[key.field] = value instanceof Date ? value.toISOString() : value;
+      });
+      return result;
+    });
+
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > limit && keys.length > 0
+      ? Buffer.from(JSON.stringify(keys.map(key => last[key.field]))).toString('base64url')
+      : null;
+    return { rows: page, nextCursor };
+  }
+
+  /**
+   * Export every page of a usage query as CSV or NDJSON
+   * Stops after maxRows rows (truncated is then true).
+   */
+  async exportUsage(
+    query: Omit<UsageQuery, 'limit' | 'cursor'>,
+    format: UsageExportFormat,
+    maxRows = 100000
+  ): Promise<{ contentType: string; content: string; rowCount: number; truncated: boolean }> {
+    const rows: UsageQueryRow[] = [];
+    let cursor: string | undefined;
+    let truncated = false;
+
+    do {
+      const page = await this.queryUsage({ ...query, limit: 1000, cursor });
+      rows.push(...page.rows);
+      cursor = page.nextCursor ?? undefined;
+      if (rows.length >= maxRows) {
+        truncated = rows.length > maxRows || !!cursor;
+        rows.length = Math.min(rows.length, maxRows);
+        break;
+      }
+    } while (cursor);
+
+    if (format === 'ndjson') {
+      return {
+        contentType: 'application/x-ndjson',
+        content: rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : ''),
+        rowCount: rows.length,
+        truncated
+      };
+    }
+
+    const columns: Array<keyof UsageQueryRow> = [
+      ...(query.bucket ? ['bucket' as const] : []),
+      ...[...new Set(query.groupBy ?? [])].map(dimension => USAGE_DIMENSIONS[dimension].field),
+      ...USAGE_METRICS
+    ];
+    return {
+      contentType: 'text/csv',
+      content: toCsv([columns, ...rows.map(row => columns.map(column => row[column]))]),
+      rowCount: rows.length,
+      truncated
+    };
+  }
+
+  private decodeUsageCursor(cursor: string, length: number): unknown[] {
+    try {
+      const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      if (Array.isArray(values) && values.length === length) {
+        return values;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid cursor for this query');
+  }
+
   /**
    * Get user status (subscription vs BYOK, purchase history)
    */
@@ -268,26 +477,15 @@ export class UsageAnalyticsService {
   }
 
   /**
-   * Estimate cost based on provider and tokens
+   * Estimate cost in USD from the shared pricing catalog
    */
-  static estimateCost(provider: string, model: string, inputTokens: number, outputTokens: number): number {
-    // Rough cost estimates per 1K tokens (in USD)
-    const costPer1K: Record<string, Record<string, { input: number; output: number }>> = {
-      anthropic: {
-        'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
-        'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 }
-      },
-      openai: {
-        'gpt-4o': { input: 0.0025, output: 0.01 },
-        'gpt-4o-mini': { input: 0.00015, output: 0.0006 }
-      },
-      google: {
-        'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
-        'gemini-1.5-flash': { input: 0.000075, output: 0.0003 }
-      }
-    };
-
-    const rates = costPer1K[provider]?.[model] || { input: 0.001, output: 0.002 }; // fallback
-    return (inputTokens * rates.input + outputTokens * rates.output) / 1000;
+  static estimateCost(
+    provider: string,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    cachedInputTokens = 0
+  ): number {
+    return getDefaultPricingCatalog().calculateCost(provider, model, { inputTokens, outputTokens, cachedInputTokens }).cost;
   }
 }
\ No newline at end of file
@@ -10,6 +10,7 @@
 
 import { PostgreSQLAdapter } from '../../database/postgres-adapter';
 import { v4 as uuidv4 } from 'uuid';
+import { BillingRules, type BillingRulesConfig, type BillingRuleContext, type AppliedBillingRule, type TokenGrant } from './billing-rules';
 
 export interface TokenBalance {
   userId: string;
@@ -18,6 +19,8 @@ export interface TokenBalance {
   totalTokensPurchased: number;
   totalTokensUsed: number;
   platformFeeCollected: number;
+  frozenAt?: Date;       // Set while the account is frozen (e.g. after a refund it could not cover)
+  frozenReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +37,7 @@ export interface TokenUsage {
   virtualTokensDeducted: number;
   platformFeeTokens: number;
   costPer1kTokens?: number;
+  billingRule?: AppliedBillingRule;
   method?: string;
   timestamp: Date;
 }
@@ -48,19 +52,96 @@ export interface TokenTopup {
   platformFeeTokens: number;
   amountPaidCents?: number;
   currency: string;
+  grantRule?: TokenGrant['rule'];   // Absent on top-ups recorded before billing rules
+  refundedTokens?: number;          // Usable tokens clawed back by refunds
+  refundedAt?: Date;
   processedAt: Date;
 }
 
+/**
+ * How a refund that exceeds the remaining balance is handled
+ * - negative_balance: the balance goes below zero and later top-ups settle it
+ * - freeze: the balance stops at zero and the account is frozen until unfrozen
+ */
+export type RefundPolicy = 'negative_balance' | 'freeze';
+
+export interface TokenRefundResult {
+  paymentId: string;
+  userId: string;
+  tokensClawedBack: number;
+  newBalance: number;
+  shortfall: number;      // Tokens the balance could not cover
+  frozen: boolean;
+}
+
 export interface TokenDeductionResult {
   success: boolean;
   newBalance: number;
   tokensDeducted: number;
   platformFee: number;
   usageLogId: string;
+  billingRule?: AppliedBillingRule;   // Rule behind the charge (absent when nothing was deducted)
+}
+
+/**
+ * Usage of a metered subscriber, billed through Stripe instead of the balance
+ */
+export interface MeteredUsageResult {
+  tokensCharged: number;   // Reported to Stripe (billing rules applied)
+  platformFee: number;
+  usageLogId: string;
+  billingRule: AppliedBillingRule;
+}
+
+export type ReservationStatus = 'held' | 'captured' | 'released' | 'expired';
+
+/**
+ * Tokens held from a user's balance for an in-flight AI request
+ */
+export interface TokenReservation {
+  id: string;
+  userId: string;
+  requestId?: string;
+  method?: string;
+  reservedTokens: number; // Includes the platform fee
+  status: ReservationStatus;
+  expiresAt: Date;
 }
 
+export interface ReserveTokensOptions {
+  requestId?: string;
+  provider?: string;
+  model?: string;
+  method?: string;
+  tier?: string;
+  ttlMs?: number;
+}
+
+export interface VirtualTokenServiceOptions {
+  reservationTtlMs?: number; // Unsettled holds are returned after this (default: 10 minutes)
+  reservationSweepIntervalMs?: number; // How often startReservationSweep() returns stale holds (default: 1 minute)
+  billingRules?: BillingRules | BillingRulesConfig; // Multipliers, fees, minimum charges and purchase grants
+}
+
+type ReservationEvent = 'hold' | 'capture' | 'release' | 'expire';
+
 export class VirtualTokenService {
-  constructor(private db: PostgreSQLAdapter) {}
+  private reservationTtlMs: number;
+  private reservationSweepIntervalMs: number;
+  private billingRules: BillingRules;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private db: PostgreSQLAdapter, options: VirtualTokenServiceOptions = {}) {
+    this.reservationTtlMs = options.reservationTtlMs ?? 10 * 60 * 1000;
+    this.reservationSweepIntervalMs = options.reservationSweepIntervalMs ?? 60 * 1000;
+    this.billingRules = options.billingRules instanceof BillingRules
+      ? options.billingRules
+      : new BillingRules(options.billingRules);
+  }
+
+  getBillingRules(): BillingRules {
+    return this.billingRules;
+  }
 
   /**
    * Ensure user token account exists (create if needed)
@@ -86,7 +167,8 @@ export class VirtualTokenService {
   async getTokenBalance(userId: string): Promise<TokenBalance | null> {
     const result = await this.db.query(
       `SELECT user_id, email, virtual_token_balance, total_tokens_purchased, 
-              total_tokens_used, platform_fee_collected, created_at, updated_at
+              total_tokens_used, platform_fee_collected, frozen_at, frozen_reason,
+              created_at, updated_at
        FROM user_token_accounts 
        WHERE user_id = $1`,
       [userId]
@@ -104,6 +186,8 @@ export class VirtualTokenService {
       totalTokensPurchased: parseInt(row.total_tokens_purchased),
       totalTokensUsed: parseInt(row.total_tokens_used),
       platformFeeCollected: parseInt(row.platform_fee_collected),
+      frozenAt: row.frozen_at ?? undefined,
+      frozenReason: row.frozen_reason ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -112,19 +196,19 @@ export class VirtualTokenService {
   /**
    * Check if user has sufficient tokens for estimated usage
    */
-  async checkTokenBalance(userId: string, estimatedTokens: number): Promise<boolean> {
+  async checkTokenBalance(userId: string, estimatedTokens: number, context: BillingRuleContext = {}): Promise<boolean> {
     const balance = await this.getTokenBalance(userId);
-    if (!balance) {
+    if (!balance || balance.frozenAt) {
       return false;
     }
 
-    // Calculate what we'd charge (actual usage + 20% platform fee)
-    const chargeAmount = Math.ceil(estimatedTokens * 1.25); // 125% of estimated usage
-    return balance.virtualTokenBalance >= chargeAmount;
+    // Calculate what we'd charge (usage with model multiplier + platform fee)
+    const { totalCharge } = this.billingRules.calculateCharge(estimatedTokens, context);
+    return balance.virtualTokenBalance >= totalCharge;
   }
 
   /**
-   * Deduct tokens after AI request with 80/20 split
+   * Deduct tokens after AI request (usage × model multiplier + platform fee)
    */
   async deductTokens(
     userId: string, 
@@ -132,10 +216,11 @@ export class VirtualTokenService {
     provider: string,
     model?: string,
     requestId?: string,
-    method?: string
+    method?: string,
+    tier?: string
   ): Promise<TokenDeductionResult> {
-    const platformFeeTokens = Math.ceil(actualTokens * 0.25);  // 20% of total charge (25% of actual usage)
-    const totalCharge = actualTokens + platformFeeTokens;      // User pays actual + 25% fee
+    const charge = this.billingRules.calculateCharge(actualTokens, { provider, model, tier });
+    const { platformFeeTokens, totalCharge } = charge;
 
     const client = await this.db.getConnection();
     
@@ -144,7 +229,7 @@ export class VirtualTokenService {
 
       // Check current balance
       const balanceResult = await client.query(
-        'SELECT virtual_token_balance FROM user_token_accounts WHERE user_id = $1 FOR UPDATE',
+        'SELECT virtual_token_balance, frozen_at FROM user_token_accounts WHERE user_id = $1 FOR UPDATE',
         [userId]
       );
 
@@ -154,7 +239,7 @@ export class VirtualTokenService {
 
       const currentBalance = parseInt(balanceResult.rows[0].virtual_token_balance);
       
-      if (currentBalance < totalCharge) {
+      if (currentBalance < totalCharge || balanceResult.rows[0].frozen_at) {
         await client.query('ROLLBACK');
         return {
           success: false,
@@ -182,9 +267,10 @@ export class VirtualTokenService {
       await client.query(
         `INSERT INTO token_usage_log 
          (id, user_id, request_id, provider, model, input_tokens, output_tokens, 
-          total_tokens, virtual_tokens_deducted, platform_fee_tokens, method)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-        [usageLogId, userId, requestId, provider, model, 0, 0, actualTokens, totalCharge, platformFeeTokens, method]
+          total_tokens, virtual_tokens_deducted, platform_fee_tokens, method, billing_rule)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [usageLogId, userId, requestId, provider, model, 0, 0, actualTokens, totalCharge, platformFeeTokens, method,
+          JSON.stringify(charge.rule)]
       );
 
       await client.query('COMMIT');
@@ -194,7 +280,214 @@ export class VirtualTokenService {
         newBalance,
         tokensDeducted: totalCharge,
         platformFee: platformFeeTokens,
-        usageLogId
+        usageLogId,
+        billingRule: charge.rule
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Log the usage of a metered Stripe subscriber (same billing rules, balance untouched)
+   * The row carries the subscription item; StripeUsageReporter reports it.
+   */
+  async recordMeteredUsage(
+    userId: string,
+    subscriptionItemId: string,
+    actualTokens: number,
+    provider: string,
+    model?: string,
+    requestId?: string,
+    method?: string,
+    tier?: string
+  ): Promise<MeteredUsageResult> {
+    const charge = this.billingRules.calculateCharge(actualTokens, { provider, model, tier });
+    const { platformFeeTokens, totalCharge } = charge;
+
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE user_token_accounts
+         SET total_tokens_used = total_tokens_used + $1,
+             platform_fee_collected = platform_fee_collected + $2,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $3`,
+        [actualTokens, platformFeeTokens, userId]
+      );
+
+      const usageLogId = uuidv4();
+      await client.query(
+        `INSERT INTO token_usage_log
+         (id, user_id, request_id, provider, model, input_tokens, output_tokens,
+          total_tokens, virtual_tokens_deducted, platform_fee_tokens, method, billing_rule, stripe_subscription_item_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [usageLogId, userId, requestId, provider, model, 0, 0, actualTokens, totalCharge, platformFeeTokens, method,
+          JSON.stringify(charge.rule), subscriptionItemId]
+      );
+
+      await client.query('COMMIT');
+
+      return { tokensCharged: totalCharge, platformFee: platformFeeTokens, usageLogId, billingRule: charge.rule };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Hold the estimated maximum charge (same billing rules as the capture) from the balance
+   * The balance check and hold are one atomic update, so concurrent requests
+   * cannot overdraw. Returns null when the balance is insufficient or the account is frozen.
+   */
+  async reserveTokens(
+    userId: string,
+    estimatedTokens: number,
+    options: ReserveTokensOptions = {}
+  ): Promise<TokenReservation | null> {
+    const { totalCharge: reservedTokens } = this.billingRules.calculateCharge(estimatedTokens, {
+      provider: options.provider,
+      model: options.model,
+      tier: options.tier
+    });
+    const expiresAt = new Date(Date.now() + (options.ttlMs ?? this.reservationTtlMs));
+
+    // Return this user's stale holds first so they count towards the balance
+    await this.expireStaleReservations(userId);
+
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const held = await client.query(
+        `UPDATE user_token_accounts
+         SET virtual_token_balance = virtual_token_balance - $1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $2 AND virtual_token_balance >= $1 AND frozen_at IS NULL
+         RETURNING virtual_token_balance`,
+        [reservedTokens, userId]
+      );
+
+      if (held.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const reservation: TokenReservation = {
+        id: uuidv4(),
+        userId,
+        requestId: options.requestId,
+        method: options.method,
+        reservedTokens,
+        status: 'held',
+        expiresAt
+      };
+
+      await client.query(
+        `INSERT INTO token_reservations (id, user_id, request_id, method, reserved_tokens, status, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [reservation.id, userId, options.requestId, options.method, reservedTokens, 'held', expiresAt]
+      );
+      await this.logReservationEvent(client, 'hold', reservation, {
+        provider: options.provider,
+        model: options.model,
+        reservedTokens
+      });
+
+      await client.query('COMMIT');
+      return reservation;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Charge actual usage against a reservation and release the remainder
+   * Usage beyond the hold is taken from the balance, never below zero. An
+   * expired reservation no longer holds anything, so it is charged like deductTokens.
+   */
+  async captureReservation(
+    reservationId: string,
+    actualTokens: number,
+    provider: string,
+    model?: string,
+    requestId?: string,
+    method?: string,
+    tier?: string
+  ): Promise<TokenDeductionResult> {
+    const charge = this.billingRules.calculateCharge(actualTokens, { provider, model, tier });
+    const { platformFeeTokens, totalCharge } = charge;
+
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const reservation = await this.lockReservation(client, reservationId);
+      if (reservation.status === 'captured' || reservation.status === 'released') {
+        throw new Error(`Reservation ${reservationId} is already ${reservation.status}`);
+      }
+      const heldTokens = reservation.status === 'held' ? reservation.reservedTokens : 0;
+
+      const balanceResult = await client.query(
+        'SELECT virtual_token_balance FROM user_token_accounts WHERE user_id = $1 FOR UPDATE',
+        [reservation.userId]
+      );
+      const currentBalance = parseInt(balanceResult.rows[0].virtual_token_balance);
+
+      const tokensCharged = Math.min(totalCharge, heldTokens + currentBalance);
+      const newBalance = currentBalance + heldTokens - tokensCharged;
+
+      await client.query(
+        `UPDATE user_token_accounts
+         SET virtual_token_balance = $1,
+             total_tokens_used = total_tokens_used + $2,
+             platform_fee_collected = platform_fee_collected + $3,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $4`,
+        [newBalance, actualTokens, platformFeeTokens, reservation.userId]
+      );
+      await client.query(
+        `UPDATE token_reservations
+         SET status = 'captured', captured_tokens = $1, settled_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [tokensCharged, reservationId]
+      );
+
+      const event = { provider, model, requestId: requestId ?? reservation.requestId, method: method ?? reservation.method };
+      const usageLogId = await this.logReservationEvent(client, 'capture', reservation, {
+        ...event,
+        totalTokens: actualTokens,
+        virtualTokensDeducted: tokensCharged,
+        platformFeeTokens,
+        reservedTokens: heldTokens,
+        billingRule: charge.rule
+      });
+      if (heldTokens > tokensCharged) {
+        await this.logReservationEvent(client, 'release', reservation, { ...event, reservedTokens: heldTokens - tokensCharged });
+      }
+
+      await client.query('COMMIT');
+
+      return {
+        success: true,
+        newBalance,
+        tokensDeducted: tokensCharged,
+        platformFee: platformFeeTokens,
+        usageLogId,
+        billingRule: charge.rule
       };
     } catch (error) {
       await client.query('ROLLBACK');
@@ -205,20 +498,197 @@ export class VirtualTokenService {
   }
 
   /**
-   * Add tokens from payment webhook (80% usable, 20% platform fee)
+   * Return a reservation's hold to the balance (request failed or used no tokens)
+   * No-op for reservations that are already settled.
+   */
+  async releaseReservation(reservationId: string): Promise<void> {
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const reservation = await this.lockReservation(client, reservationId);
+      if (reservation.status !== 'held') {
+        await client.query('ROLLBACK');
+        return;
+      }
+
+      await this.returnHold(client, reservation, 'released');
+      await this.logReservationEvent(client, 'release', reservation, { reservedTokens: reservation.reservedTokens });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Return holds past their expiry to the balance (all users unless userId is given)
+   * Runs before each reservation; startReservationSweep() cleans up idle users too.
+   */
+  async expireStaleReservations(userId?: string): Promise<number> {
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const expired = await client.query(
+        `SELECT id, user_id, request_id, method, reserved_tokens, status, expires_at
+         FROM token_reservations
+         WHERE status = 'held' AND expires_at < CURRENT_TIMESTAMP
+         ${userId ? 'AND user_id = $1' : ''}
+         FOR UPDATE SKIP LOCKED`,
+        userId ? [userId] : []
+      );
+
+      for (const row of expired.rows) {
+        const reservation = this.mapReservation(row);
+        await this.returnHold(client, reservation, 'expired');
+        await this.logReservationEvent(client, 'expire', reservation, { reservedTokens: reservation.reservedTokens });
+      }
+
+      await client.query('COMMIT');
+
+      if (expired.rowCount > 0) {
+        console.log(`⏱️ Expired ${expired.rowCount} stale token reservation(s)`);
+      }
+      return expired.rowCount;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Expire stale holds of all users every reservationSweepIntervalMs until stopReservationSweep()
+   */
+  startReservationSweep(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.expireStaleReservations().catch(error => {
+        console.error('❌ Stale token reservation sweep failed:', error instanceof Error ? error.message : error);
+      });
+    }, this.reservationSweepIntervalMs);
+    this.sweepTimer.unref?.();
+  }
+
+  stopReservationSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  private async lockReservation(client: any, reservationId: string): Promise<TokenReservation> {
+    const result = await client.query(
+      `SELECT id, user_id, request_id, method, reserved_tokens, status, expires_at
+       FROM token_reservations WHERE id = $1 FOR UPDATE`,
+      [reservationId]
+    );
+    if (result.rowCount === 0) {
+      throw new Error(`Reservation ${reservationId} not found`);
+    }
+    return this.mapReservation(result.rows[0]);
+  }
+
+  private async returnHold(client: any, reservation: TokenReservation, status: 'released' | 'expired'): Promise<void> {
+    await client.query(
+      `UPDATE user_token_accounts
+       SET virtual_token_balance = virtual_token_balance + $1,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2`,
+      [reservation.reservedTokens, reservation.userId]
+    );
+    await client.query(
+      'UPDATE token_reservations SET status = $1, settled_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [status, reservation.id]
+    );
+  }
+
+  /**
+   * Record a reservation event in token_usage_log
+   * Only captures deduct tokens; hold/release/expire rows carry reserved_tokens.
+   */
+  private async logReservationEvent(
+    client: any,
+    event: ReservationEvent,
+    reservation: TokenReservation,
+    details: {
+      provider?: string;
+      model?: string;
+      requestId?: string;
+      method?: string;
+      totalTokens?: number;
+      virtualTokensDeducted?: number;
+      platformFeeTokens?: number;
+      reservedTokens: number;
+      billingRule?: AppliedBillingRule;
+    }
+  ): Promise<string> {
+    const usageLogId = uuidv4();
+    await client.query(
+      `INSERT INTO token_usage_log
+       (id, user_id, request_id, provider, model, input_tokens, output_tokens,
+        total_tokens, virtual_tokens_deducted, platform_fee_tokens, method,
+        event_type, reservation_id, reserved_tokens, billing_rule)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        usageLogId,
+        reservation.userId,
+        details.requestId ?? reservation.requestId,
+        details.provider || 'unknown',
+        details.model,
+        0,
+        0,
+        details.totalTokens ?? 0,
+        details.virtualTokensDeducted ?? 0,
+        details.platformFeeTokens ?? 0,
+        details.method ?? reservation.method,
+        event,
+        reservation.id,
+        details.reservedTokens,
+        details.billingRule ? JSON.stringify(details.billingRule) : null
+      ]
+    );
+    return usageLogId;
+  }
+
+  private mapReservation(row: any): TokenReservation {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      requestId: row.request_id ?? undefined,
+      method: row.method ?? undefined,
+      reservedTokens: parseInt(row.reserved_tokens),
+      status: row.status,
+      expiresAt: row.expires_at
+    };
+  }
+
+  /**
+   * Add tokens from payment webhook
+   * Pass a grant from getBillingRules().calculateGrant(), or a token count that
+   * is split by the purchase fee (default: 80% usable, 20% platform fee).
    */
   async addTokensFromPayment(
     userId: string,
-    tokensPurchased: number,
+    tokens: number | TokenGrant,
     paymentId: string,
     variantId?: string,
     amountPaidCents?: number,
     currency = 'USD',
     webhookData?: any
   ): Promise<TokenTopup> {
-    // 80% of purchased tokens are usable, 20% is platform fee
-    const usableTokens = Math.floor(tokensPurchased * 0.8);
-    const platformFeeTokens = tokensPurchased - usableTokens;
+    const grant = typeof tokens === 'number' ? this.billingRules.splitPurchase(tokens) : tokens;
+    const { tokensPurchased, usableTokens, platformFeeTokens } = grant;
 
     const client = await this.db.getConnection();
     
@@ -243,10 +713,10 @@ export class VirtualTokenService {
       await client.query(
         `INSERT INTO token_topups 
          (id, user_id, payment_id, variant_id, tokens_purchased, usable_tokens, 
-          platform_fee_tokens, amount_paid_cents, currency, lemonsqueezy_data)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          platform_fee_tokens, amount_paid_cents, currency, lemonsqueezy_data, billing_rule)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
         [topupId, userId, paymentId, variantId, tokensPurchased, usableTokens, 
-         platformFeeTokens, amountPaidCents, currency, JSON.stringify(webhookData)]
+         platformFeeTokens, amountPaidCents, currency, JSON.stringify(webhookData), JSON.stringify(grant.rule)]
       );
 
       await client.query('COMMIT');
@@ -261,6 +731,7 @@ export class VirtualTokenService {
         platformFeeTokens,
         amountPaidCents,
         currency,
+        grantRule: grant.rule,
         processedAt: new Date()
       };
     } catch (error) {
@@ -278,9 +749,9 @@ export class VirtualTokenService {
     const result = await this.db.query(
       `SELECT id, user_id, request_id, provider, model, input_tokens, output_tokens,
               total_tokens, virtual_tokens_deducted, platform_fee_tokens, 
-              cost_per_1k_tokens, method, timestamp
+              cost_per_1k_tokens, method, billing_rule, timestamp
        FROM token_usage_log 
-       WHERE user_id = $1 
+       WHERE user_id = $1 AND event_type IN ('usage', 'capture')
        ORDER BY timestamp DESC 
        LIMIT $2`,
       [userId, limit]
@@ -298,6 +769,7 @@ export class VirtualTokenService {
       virtualTokensDeducted: parseInt(row.virtual_tokens_deducted),
       platformFeeTokens: parseInt(row.platform_fee_tokens),
       costPer1kTokens: row.cost_per_1k_tokens ? parseFloat(row.cost_per_1k_tokens) : undefined,
+      billingRule: row.billing_rule ?? undefined,
       method: row.method,
       timestamp: row.timestamp
     }));
@@ -309,7 +781,8 @@ export class VirtualTokenService {
   async getTopupHistory(userId: string, limit = 20): Promise<TokenTopup[]> {
     const result = await this.db.query(
       `SELECT id, user_id, payment_id, variant_id, tokens_purchased, usable_tokens,
-              platform_fee_tokens, amount_paid_cents, currency, processed_at
+              platform_fee_tokens, amount_paid_cents, currency, billing_rule,
+              refunded_tokens, refunded_at, processed_at
        FROM token_topups 
        WHERE user_id = $1 
        ORDER BY processed_at DESC 
@@ -327,6 +800,9 @@ export class VirtualTokenService {
       platformFeeTokens: parseInt(row.platform_fee_tokens),
       amountPaidCents: row.amount_paid_cents ? parseInt(row.amount_paid_cents) : undefined,
       currency: row.currency,
+      grantRule: row.billing_rule ?? undefined,
+      refundedTokens: row.refunded_tokens ? parseInt(row.refunded_tokens) : undefined,
+      refundedAt: row.refunded_at ?? undefined,
       processedAt: row.processed_at
     }));
   }
@@ -341,4 +817,98 @@ export class VirtualTokenService {
     );
     return parseInt(result[0].count) > 0;
   }
-}
\ No newline at end of file
+
+  /**
+   * Claw back the usable tokens of a refunded top-up
+   * refundedAmountCents is the total refunded so far (default: the whole
+   * payment); tokens already clawed back for the payment are not taken twice.
+   */
+  async refundTopup(
+    paymentId: string,
+    options: { refundedAmountCents?: number; policy?: RefundPolicy } = {}
+  ): Promise<TokenRefundResult | null> {
+    const policy = options.policy ?? 'freeze';
+    const client = await this.db.getConnection();
+
+    try {
+      await client.query('BEGIN');
+
+      const topupResult = await client.query(
+        `SELECT user_id, usable_tokens, amount_paid_cents, refunded_tokens
+         FROM token_topups WHERE payment_id = $1 FOR UPDATE`,
+        [paymentId]
+      );
+      if (topupResult.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const topup = topupResult.rows[0];
+      const userId: string = topup.user_id;
+      const usableTokens = parseInt(topup.usable_tokens);
+      const alreadyRefunded = parseInt(topup.refunded_tokens ?? 0);
+      const amountPaidCents = topup.amount_paid_cents ? parseInt(topup.amount_paid_cents) : 0;
+
+      const refundShare = options.refundedAmountCents !== undefined && amountPaidCents > 0
+        ? Math.min(options.refundedAmountCents / amountPaidCents, 1)
+        : 1;
+      const tokensClawedBack = Math.max(0, Math.ceil(usableTokens * refundShare) - alreadyRefunded);
+
+      const accountResult = await client.query(
+        'SELECT virtual_token_balance FROM user_token_accounts WHERE user_id = $1 FOR UPDATE',
+        [userId]
+      );
+      const currentBalance = parseInt(accountResult.rows[0]?.virtual_token_balance ?? 0);
+      const shortfall = Math.max(0, tokensClawedBack - Math.max(currentBalance, 0));
+      const frozen = policy === 'freeze' && shortfall > 0;
+      const newBalance = policy === 'freeze'
+        ? Math.max(0, currentBalance - tokensClawedBack)
+        : currentBalance - tokensClawedBack;
+
+      await client.query(
+        `UPDATE user_token_accounts
+         SET virtual_token_balance = $1,
+             frozen_at = CASE WHEN $2::boolean THEN CURRENT_TIMESTAMP ELSE frozen_at END,
+             frozen_reason = CASE WHEN $2::boolean THEN $3 ELSE frozen_reason END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $4`,
+        [newBalance, frozen, `refund:${paymentId}`, userId]
+      );
+      await client.query(
+        `UPDATE token_topups
+         SET refunded_tokens = refunded_tokens + $1, refunded_at = CURRENT_TIMESTAMP
+         WHERE payment_id = $2`,
+        [tokensClawedBack, paymentId]
+      );
+
+      await client.query('COMMIT');
+      return { paymentId, userId, tokensClawedBack, newBalance, shortfall, frozen };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Block reservations and deductions for an account
+   */
+  async freezeAccount(userId: string, reason: string): Promise<void> {
+    await this.db.query(
+      `UPDATE user_token_accounts
+       SET frozen_at = CURRENT_TIMESTAMP, frozen_reason = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $2`,
+      [reason, userId]
+    );
+  }
+
+  async unfreezeAccount(userId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE user_token_accounts
+       SET frozen_at = NULL, frozen_reason = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1`,
+      [userId]
+    );
+  }
+}
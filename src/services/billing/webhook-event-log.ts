@@ -0,0 +1,218 @@
+/**
+ * Webhook Event Log
+ *
+ * Idempotent store of payment provider webhooks. Each delivery is recorded
+ * once per (provider, event key) before it is processed, so retries from the
+ * provider are skipped and failed events can be replayed from the stored payload.
+ * Processing starts with an atomic claim of the event, so concurrent deliveries
+ * of the same event never both process it.
+ */
+
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import { v4 as uuidv4 } from 'uuid';
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'ignored';
+
+export interface WebhookEventRecord {
+  id: string;
+  provider: string;
+  eventKey: string;
+  eventName: string;
+  payload: any;
+  status: WebhookEventStatus;
+  attempts: number;
+  error?: string;
+  receivedAt: Date;
+  processedAt?: Date;
+}
+
+export interface WebhookHandleResult {
+  eventId: string;
+  eventName: string;
+  status: WebhookEventStatus;
+  duplicate: boolean;
+  message?: string;
+}
+
+/**
+ * Provider webhook handler that can replay logged events (exposed to admins)
+ */
+export interface PaymentWebhookHandler {
+  readonly provider: string;
+  replay(eventId: string): Promise<WebhookHandleResult>;
+  listEvents(filter?: { status?: WebhookEventStatus; limit?: number }): Promise<WebhookEventRecord[]>;
+}
+
+export type WebhookEventOutcome = { status: 'processed' | 'ignored'; message: string };
+
+// A claim this old belongs to a worker that died mid-processing and may be taken over
+const CLAIM_TIMEOUT_MINUTES = 15;
+
+export class WebhookEventLog {
+  constructor(private db: PostgreSQLAdapter) {}
+
+  /**
+   * Record a delivery. Returns the existing event (duplicate: true) when the
+   * same provider event was received before.
+   */
+  async record(
+    provider: string,
+    eventKey: string,
+    eventName: string,
+    payload: any
+  ): Promise<{ event: WebhookEventRecord; duplicate: boolean }> {
+    const inserted = await this.db.query(
+      `INSERT INTO payment_webhook_events (id, provider, event_key, event_name, payload, status)
+       VALUES ($1, $2, $3, $4, $5, 'received')
+       ON CONFLICT (provider, event_key) DO NOTHING
+       RETURNING *`,
+      [uuidv4(), provider, eventKey, eventName, JSON.stringify(payload)]
+    );
+
+    if (inserted.length > 0) {
+      return { event: this.mapEvent(inserted[0]), duplicate: false };
+    }
+
+    const existing = await this.db.query(
+      'SELECT * FROM payment_webhook_events WHERE provider = $1 AND event_key = $2',
+      [provider, eventKey]
+    );
+    return { event: this.mapEvent(existing[0]), duplicate: true };
+  }
+
+  async get(eventId: string): Promise<WebhookEventRecord | null> {
+    const rows = await this.db.query('SELECT * FROM payment_webhook_events WHERE id = $1', [eventId]);
+    return rows.length > 0 ? this.mapEvent(rows[0]) : null;
+  }
+
+  async list(provider: string, filter: { status?: WebhookEventStatus; limit?: number } = {}): Promise<WebhookEventRecord[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM payment_webhook_events
+       WHERE provider = $1 AND ($2::varchar IS NULL OR status = $2)
+       ORDER BY received_at DESC
+       LIMIT $3`,
+      [provider, filter.status ?? null, filter.limit ?? 50]
+    );
+    return rows.map(row => this.mapEvent(row));
+  }
+
+  /**
+   * Claim an event for processing. Returns null when it is not in one of the
+   * given statuses, e.g. because another delivery is processing it right now.
+   */
+  async claim(eventId: string, fromStatuses: WebhookEventStatus[]): Promise<WebhookEventRecord | null> {
+    const rows = await this.db.query(
+      `UPDATE payment_webhook_events
+       SET status = 'processing', claimed_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND (status = ANY($2::varchar[])
+              OR (status = 'processing' AND claimed_at < CURRENT_TIMESTAMP - make_interval(mins => $3)))
+       RETURNING *`,
+      [eventId, fromStatuses, CLAIM_TIMEOUT_MINUTES]
+    );
+    return rows.length > 0 ? this.mapEvent(rows[0]) : null;
+  }
+
+  /**
+   * Store the outcome of a processing attempt
+   */
+  async complete(eventId: string, status: Exclude<WebhookEventStatus, 'received' | 'processing'>, error?: string): Promise<void> {
+    await this.db.query(
+      `UPDATE payment_webhook_events
+       SET status = $1, error = $2, attempts = attempts + 1, processed_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [status, error ?? null, eventId]
+    );
+  }
+
+  private mapEvent(row: any): WebhookEventRecord {
+    return {
+      id: row.id,
+      provider: row.provider,
+      eventKey: row.event_key,
+      eventName: row.event_name,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      status: row.status,
+      attempts: parseInt(row.attempts ?? 0),
+      error: row.error ?? undefined,
+      receivedAt: row.received_at,
+      processedAt: row.processed_at ?? undefined
+    };
+  }
+}
+
+/**
+ * Shared receive/replay flow of the payment provider webhook handlers:
+ * subclasses parse deliveries and handle events, this class logs and claims them
+ */
+export abstract class WebhookEventProcessor implements PaymentWebhookHandler {
+  abstract readonly provider: string;
+  protected eventLog: WebhookEventLog;
+
+  constructor(db: PostgreSQLAdapter, private displayName: string) {
+    this.eventLog = new WebhookEventLog(db);
+  }
+
+  /**
+   * Event key, name and payload of a verified delivery
+   */
+  protected abstract parseDelivery(rawBody: Buffer | string): { eventKey: string; eventName: string; payload: any };
+
+  protected abstract dispatch(eventName: string, payload: any): Promise<WebhookEventOutcome>;
+
+  /**
+   * Log and process a verified delivery
+   * Deliveries of an already processed (or ignored) event are skipped, as are
+   * deliveries that arrive while another one is processing the event; a
+   * retried delivery of a failed event is processed again.
+   */
+  async receive(rawBody: Buffer | string): Promise<WebhookHandleResult> {
+    const { eventKey, eventName, payload } = this.parseDelivery(rawBody);
+
+    const { event, duplicate } = await this.eventLog.record(this.provider, eventKey, eventName, payload);
+    if (duplicate && (event.status === 'processed' || event.status === 'ignored')) {
+      return { eventId: event.id, eventName, status: event.status, duplicate: true };
+    }
+
+    const claimed = await this.eventLog.claim(event.id, ['received', 'failed']);
+    if (!claimed) {
+      const current = await this.eventLog.get(event.id);
+      return { eventId: event.id, eventName, status: current?.status ?? 'processing', duplicate: true };
+    }
+    return { ...(await this.process(claimed)), duplicate };
+  }
+
+  /**
+   * Process a logged event again from its stored payload
+   */
+  async replay(eventId: string): Promise<WebhookHandleResult> {
+    const event = await this.eventLog.get(eventId);
+    if (!event || event.provider !== this.provider) {
+      throw new Error(`Webhook event not found: ${eventId}`);
+    }
+
+    const claimed = await this.eventLog.claim(event.id, ['received', 'failed', 'processed', 'ignored']);
+    if (!claimed) {
+      return { eventId, eventName: event.eventName, status: 'processing', duplicate: true, message: 'Event is being processed' };
+    }
+    return { ...(await this.process(claimed)), duplicate: false };
+  }
+
+  async listEvents(filter: { status?: WebhookEventStatus; limit?: number } = {}): Promise<WebhookEventRecord[]> {
+    return this.eventLog.list(this.provider, filter);
+  }
+
+  private async process(event: WebhookEventRecord): Promise<Omit<WebhookHandleResult, 'duplicate'>> {
+    try {
+      const outcome = await this.dispatch(event.eventName, event.payload);
+      await this.eventLog.complete(event.id, outcome.status, outcome.status === 'ignored' ? outcome.message : undefined);
+      console.log(`${outcome.status === 'processed' ? '✅' : '⏭️'} ${this.displayName} ${event.eventName}: ${outcome.message}`);
+      return { eventId: event.id, eventName: event.eventName, ...outcome };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.eventLog.complete(event.id, 'failed', message);
+      console.error(`❌ ${this.displayName} ${event.eventName} failed:`, message);
+      return { eventId: event.id, eventName: event.eventName, status: 'failed', message };
+    }
+  }
+}
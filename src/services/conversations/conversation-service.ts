@@ -0,0 +1,213 @@
+/**
+ * Conversation Service
+ *
+ * Server-side conversation threads. Extensions send only the new user message
+ * plus a threadId; the stored history is replayed to the model and the new
+ * turns are appended after each response.
+ *
+ * Threads are always scoped to the owning userId - a thread belonging to another
+ * user is treated exactly like a missing one.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatMessage } from '../ai/ai-service';
+import type {
+  ConversationStore,
+  ConversationThread,
+  ConversationMessage,
+  ConversationSummary
+} from './conversation-store';
+
+export interface ConversationServiceConfig {
+  contextWindowTokens?: number;   // Default: 128000 - used when the model's context window is unknown
+  reserveOutputTokens?: number;   // Default: 4000 - kept free for the model's reply
+  /**
+   * Optional summarizer for turns that no longer fit the context window.
+   * Without one, the oldest turns are simply dropped.
+   */
+  summarizer?: (messages: ConversationMessage[]) => Promise<string>;
+}
+
+export interface ConversationContext {
+  messages: ChatMessage[];
+  droppedMessages: number;
+  summary?: string;
+}
+
+/**
+ * Rough token estimate (4 chars per token plus per-message overhead)
+ */
+export function estimateMessageTokens(message: { content: string }): number {
+  return Math.ceil(message.content.length / 4) + 4;
+}
+
+export class ConversationService {
+  private contextWindowTokens: number;
+  private reserveOutputTokens: number;
+
+  constructor(
+    private store: ConversationStore,
+    private config: ConversationServiceConfig = {}
+  ) {
+    this.contextWindowTokens = config.contextWindowTokens || 128000;
+    this.reserveOutputTokens = config.reserveOutputTokens || 4000;
+  }
+
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+  }
+
+  /**
+   * Create a new thread, optionally seeded with existing messages
+   */
+  async createThread(userId: string, options: {
+    title?: string;
+    metadata?: Record<string, any>;
+    messages?: ChatMessage[];
+  } = {}): Promise<ConversationThread> {
+    const now = new Date();
+    const thread: ConversationThread = {
+      id: uuidv4(),
+      userId,
+      title: options.title,
+      metadata: options.metadata,
+      messages: this.toConversationMessages(options.messages || []),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.createThread(thread);
+    return thread;
+  }
+
+  /**
+   * Get a thread owned by userId (null if missing or owned by someone else)
+   */
+  async getThread(userId: string, threadId: string): Promise<ConversationThread | null> {
+    const thread = await this.store.getThread(threadId);
+    if (!thread || thread.userId !== userId) {
+      return null;
+    }
+    return thread;
+  }
+
+  async listThreads(userId: string): Promise<ConversationSummary[]> {
+    return this.store.listThreads(userId);
+  }
+
+  /**
+   * Append turns to a thread owned by userId
+   */
+  async appendMessages(userId: string, threadId: string, messages: ChatMessage[]): Promise<ConversationMessage[] | null> {
+    const thread = await this.getThread(userId, threadId);
+    if (!thread) {
+      return null;
+    }
+
+    const appended = this.toConversationMessages(messages);
+    await this.store.appendMessages(threadId, appended);
+    return appended;
+  }
+
+  /**
+   * Fork a thread into a new one, copying history up to (and including) fromMessageId
+   */
+  async forkThread(userId: string, threadId: string, options: {
+    fromMessageId?: string;
+    title?: string;
+  } = {}): Promise<ConversationThread | null> {
+    const source = await this.getThread(userId, threadId);
+    if (!source) {
+      return null;
+    }
+
+    let history = source.messages;
+    if (options.fromMessageId) {
+      const index = history.findIndex(message => message.id === options.fromMessageId);
+      if (index === -1) {
+        throw new Error(`Message not found in thread: ${options.fromMessageId}`);
+      }
+      history = history.slice(0, index + 1);
+    }
+
+    const now = new Date();
+    const fork: ConversationThread = {
+      id: uuidv4(),
+      userId,
+      title: options.title || (source.title ? `${source.title} (fork)` : undefined),
+      parentThreadId: source.id,
+      metadata: source.metadata,
+      // Fresh ids so forked messages are independent rows
+      messages: history.map(message => ({ ...message, id: uuidv4() })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.createThread(fork);
+    return fork;
+  }
+
+  async deleteThread(userId: string, threadId: string): Promise<boolean> {
+    const thread = await this.getThread(userId, threadId);
+    if (!thread) {
+      return false;
+    }
+    return this.store.deleteThread(threadId);
+  }
+
+  /**
+   * Build the history to send to the model, keeping the most recent turns that
+   * fit in the context window. Older turns are summarized (if a summarizer is
+   * configured) or dropped.
+   */
+  async buildContext(thread: ConversationThread, options: {
+    reservedTokens?: number;       // Tokens already used by system prompt + new input
+    contextWindowTokens?: number;
+    reserveOutputTokens?: number;
+  } = {}): Promise<ConversationContext> {
+    const budget = (options.contextWindowTokens || this.contextWindowTokens)
+      - (options.reserveOutputTokens || this.reserveOutputTokens)
+      - (options.reservedTokens || 0);
+
+    let used = 0;
+    let start = thread.messages.length;
+    while (start > 0) {
+      const cost = estimateMessageTokens(thread.messages[start - 1]);
+      if (used + cost > budget) break;
+      used += cost;
+      start--;
+    }
+
+    // A tool result without its preceding turn is rejected by providers
+    while (start < thread.messages.length && thread.messages[start].role === 'tool') {
+      start++;
+    }
+
+    const dropped = thread.messages.slice(0, start);
+    const kept = thread.messages.slice(start);
+
+    let summary: string | undefined;
+    if (dropped.length > 0 && this.config.summarizer) {
+      summary = await this.config.summarizer(dropped);
+    }
+
+    return {
+      messages: kept.map(({ role, content, toolCallId, toolName, toolCalls }) => ({ role, content, toolCallId, toolName, toolCalls })),
+      droppedMessages: dropped.length,
+      summary
+    };
+  }
+
+  private toConversationMessages(messages: ChatMessage[]): ConversationMessage[] {
+    const now = new Date();
+    return messages.map(message => ({
+      id: uuidv4(),
+      role: message.role,
+      content: message.content,
+      toolCallId: message.toolCallId,
+      toolName: message.toolName,
+      toolCalls: message.toolCalls,
+      createdAt: now
+    }));
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Conversation Store Implementations
+ *
+ * Provides three storage backends for server-side conversation threads:
+ * - In-Memory: Fast, dev-friendly, data lost on restart
+ * - File: Persistent JSON file, single-server only
+ * - PostgreSQL: Production-ready, uses the shared PostgreSQLAdapter
+ *   (tables from migrations/006_conversations.sql and 021_conversation_tool_calls.sql)
+ */
+
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import type { ChatMessage } from '../ai/ai-service';
+
+export interface ConversationMessage extends ChatMessage {
+  id: string;
+  createdAt: Date;
+}
+
+export interface ConversationThread {
+  id: string;
+  userId: string;
+  title?: string;
+  parentThreadId?: string; // Set when the thread was forked from another thread
+  metadata?: Record<string, any>;
+  messages: ConversationMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ConversationSummary = Omit<ConversationThread, 'messages'> & {
+  messageCount: number;
+};
+
+export interface ConversationStore {
+  initialize(): Promise<void>;
+  createThread(thread: ConversationThread): Promise<void>;
+  getThread(threadId: string): Promise<ConversationThread | null>;
+  listThreads(userId: string): Promise<ConversationSummary[]>;
+  appendMessages(threadId: string, messages: ConversationMessage[]): Promise<void>;
+  deleteThread(threadId: string): Promise<boolean>;
+}
+
+export type ConversationStoreType = 'memory' | 'file' | 'postgres';
+
+function toSummary(thread: ConversationThread): ConversationSummary {
+  return {
+    id: thread.id,
+    userId: thread.userId,
+    title: thread.title,
+    parentThreadId: thread.parentThreadId,
+    metadata: thread.metadata,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+    messageCount: thread.messages.length
+  };
+}
+
+function byMostRecent(a: ConversationSummary, b: ConversationSummary): number {
+  return b.updatedAt.getTime() - a.updatedAt.getTime();
+}
+
+/**
+ * In-Memory Conversation Store
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  protected threads = new Map<string, ConversationThread>();
+
+  async initialize(): Promise<void> {
+    console.log(`🧠 In-Memory conversation store initialized`);
+  }
+
+  async createThread(thread: ConversationThread): Promise<void> {
+    this.threads.set(thread.id, { ...thread, messages: [...thread.messages] });
+  }
+
+  async getThread(threadId: string): Promise<ConversationThread | null> {
+    const thread = this.threads.get(threadId);
+    return thread ? { ...thread, messages: [...thread.messages] } : null;
+  }
+
+  async listThreads(userId: string): Promise<ConversationSummary[]> {
+    return Array.from(this.threads.values())
+      .filter(thread => thread.userId === userId)
+      .map(toSummary)
+      .sort(byMostRecent);
+  }
+
+  async appendMessages(threadId: string, messages: ConversationMessage[]): Promise<void> {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Conversation not found: ${threadId}`);
+    }
+    thread.messages.push(...messages);
+    thread.updatedAt = new Date();
+  }
+
+  async deleteThread(threadId: string): Promise<boolean> {
+    return this.threads.delete(threadId);
+  }
+}
+
+/**
+ * File-based Conversation Store
+ * Keeps threads in memory and writes the whole set to a JSON file on every change
+ */
+export class FileConversationStore extends InMemoryConversationStore {
+  constructor(private filePath: string = './data/conversations.json') {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    if (existsSync(this.filePath)) {
+      const raw = readFileSync(this.filePath, 'utf8');
+      if (raw.trim()) {
+        const data = JSON.parse(raw) as { threads: any[] };
+        for (const thread of data.threads || []) {
+          this.threads.set(thread.id, {
+            ...thread,
+            createdAt: new Date(thread.createdAt),
+            updatedAt: new Date(thread.updatedAt),
+            messages: (thread.messages || []).map((message: any) => ({
+              ...message,
+              createdAt: new Date(message.createdAt)
+            }))
+          });
+        }
+      }
+    }
+
+    console.log(`📁 File conversation store initialized: ${this.filePath} (${this.threads.size} threads)`);
+  }
+
+  async createThread(thread: ConversationThread): Promise<void> {
+    await super.createThread(thread);
+    this.save();
+  }
+
+  async appendMessages(threadId: string, messages: ConversationMessage[]): Promise<void> {
+    await super.appendMessages(threadId, messages);
+    this.save();
+  }
+
+  async deleteThread(threadId: string): Promise<boolean> {
+    const deleted = await super.deleteThread(threadId);
+    if (deleted) {
+      this.save();
+    }
+    return deleted;
+  }
+
+  private save(): void {
+    writeFileSync(this.filePath, JSON.stringify({
+      version: '1.0',
+      threads: Array.from(this.threads.values())
+    }, null, 2));
+  }
+}
+
+/**
+ * PostgreSQL Conversation Store
+ */
+export class PostgreSQLConversationStore implements ConversationStore {
+  constructor(private db: PostgreSQLAdapter) {}
+
+  async initialize(): Promise<void> {
+    // Schema is managed by migrations/006_conversations.sql and 021_conversation_tool_calls.sql
+  }
+
+  async createThread(thread: ConversationThread): Promise<void> {
+    await this.db.query(
+      `INSERT INTO conversation_threads
+       (id, user_id, title, parent_thread_id, metadata, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        thread.id, thread.userId, thread.title || null, thread.parentThreadId || null,
+        JSON.stringify(thread.metadata || {}), thread.createdAt, thread.updatedAt
+      ]
+    );
+
+    if (thread.messages.length > 0) {
+      await this.insertMessages(thread.id, thread.messages);
+    }
+  }
+
+  async getThread(threadId: string): Promise<ConversationThread | null> {
+    const threads = await this.db.query(
+      'SELECT * FROM conversation_threads WHERE id = $1',
+      [threadId]
+    );
+    if (threads.length === 0) {
+      return null;
+    }
+
+    const messages = await this.db.query(
+      'SELECT * FROM conversation_messages WHERE thread_id = $1 ORDER BY seq ASC',
+      [threadId]
+    );
+
+    return {
+      ...this.mapThread(threads[0]),
+      messages: messages.map(row => ({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        toolCallId: row.tool_call_id || undefined,
+        toolName: row.tool_name || undefined,
+        toolCalls: row.tool_calls || undefined,
+        createdAt: new Date(row.created_at)
+      }))
+    };
+  }
+
+  async listThreads(userId: string): Promise<ConversationSummary[]> {
+    const rows = await this.db.query(
+      `SELECT t.*, COUNT(m.id)::int AS message_count
+       FROM conversation_threads t
+       LEFT JOIN conversation_messages m ON m.thread_id = t.id
+       WHERE t.user_id = $1
+       GROUP BY t.id
+       ORDER BY t.updated_at DESC`,
+      [userId]
+    );
+
+    return rows.map(row => ({
+      ...this.mapThread(row),
+      messageCount: row.message_count
+    }));
+  }
+
+  async appendMessages(threadId: string, messages: ConversationMessage[]): Promise<void> {
+    await this.insertMessages(threadId, messages);
+    await this.db.query(
+      'UPDATE conversation_threads SET updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [threadId]
+    );
+  }
+
+  async deleteThread(threadId: string): Promise<boolean> {
+    // Messages are removed by ON DELETE CASCADE
+    const result = await this.db.execute(
+      'DELETE FROM conversation_threads WHERE id = $1',
+      [threadId]
+    );
+    return result.changes > 0;
+  }
+
+  private async insertMessages(threadId: string, messages: ConversationMessage[]): Promise<void> {
+    for (const message of messages) {
+      await this.db.query(
+        `INSERT INTO conversation_messages
+         (id, thread_id, role, content, tool_call_id, tool_name, tool_calls, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          message.id, threadId, message.role, message.content,
+          message.toolCallId || null, message.toolName || null,
+          message.toolCalls ? JSON.stringify(message.toolCalls) : null, message.createdAt
+        ]
+      );
+    }
+  }
+
+  private mapThread(row: any): Omit<ConversationThread, 'messages'> {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title || undefined,
+      parentThreadId: row.parent_thread_id || undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+/**
+ * Factory function to create conversation store based on configuration
+ */
+export function createConversationStore(config: {
+  type: ConversationStoreType;
+  filePath?: string;
+  db?: PostgreSQLAdapter;
+}): ConversationStore {
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryConversationStore();
+
+    case 'file':
+      return new FileConversationStore(config.filePath || './data/conversations.json');
+
+    case 'postgres':
+      if (!config.db) {
+        throw new Error('PostgreSQL conversation store requires a database adapter');
+      }
+      return new PostgreSQLConversationStore(config.db);
+
+    default:
+      throw new Error(`Unsupported conversation store type: ${config.type}`);
+  }
+}
@@ -0,0 +1,3 @@
+// Conversations Domain - Server-side threads and history storage
+export * from './conversation-store.js';
+export * from './conversation-service.js';
@@ -0,0 +1,2 @@
+// Organizations Domain - Teams, roles, invitations, shared token pools and organization keys
+export * from './organization-service.js';
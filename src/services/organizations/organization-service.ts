@@ -0,0 +1,521 @@
+/**
+ * Organization Service
+ *
+ * Teams that buy tokens centrally. Each organization has members with roles
+ * (owner/admin/member), an optional seat limit, e-mail invitations, a shared
+ * token pool and provider keys (BYOK) in the secret vault.
+ *
+ * The shared pool is an ordinary token account with the ID 'org:<id>', so
+ * reservations, captures and payment webhooks work on it unchanged. Members
+ * draw from it up to their monthly token limit.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { PostgreSQLAdapter } from '../../database/postgres-adapter';
+import type { VirtualTokenService, TokenBalance } from '../billing/virtual-token-service';
+import type { PostgreSQLRPCMethods } from '../../auth/PostgreSQLRPCMethods';
+import { getBudgetPeriod } from '../billing/budget-service';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+export type OrganizationKeyProvider = 'anthropic' | 'openai' | 'google';
+
+export interface Organization {
+  id: string;
+  name: string;
+  seatLimit?: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userId: string;
+  email?: string;
+  role: OrganizationRole;
+  monthlyTokenLimit?: number;   // Most tokens the member may draw from the pool per month
+  tokensUsedThisMonth?: number;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface OrganizationServiceConfig {
+  virtualTokenService?: VirtualTokenService | null; // Shared token pool
+  keyVault?: PostgreSQLRPCMethods | null;           // Organization provider keys
+  invitationTtlHours?: number;                      // Default: 168 (7 days)
+}
+
+/**
+ * Organization rule violation, `code` matches the tRPC error code to report
+ */
+export class OrganizationError extends Error {
+  constructor(message: string, public readonly code: 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'BAD_REQUEST' | 'PRECONDITION_FAILED') {
+    super(message);
+    this.name = 'OrganizationError';
+  }
+}
+
+const ROLE_RANK: Record<OrganizationRole, number> = { member: 1, admin: 2, owner: 3 };
+
+/**
+ * Whether a role grants at least the rights of another
+ */
+export function hasOrganizationRole(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class OrganizationService {
+  private virtualTokenService: VirtualTokenService | null;
+  private keyVault: PostgreSQLRPCMethods | null;
+  private invitationTtlMs: number;
+
+  constructor(private db: PostgreSQLAdapter, config: OrganizationServiceConfig = {}) {
+    this.virtualTokenService = config.virtualTokenService ?? null;
+    this.keyVault = config.keyVault ?? null;
+    this.invitationTtlMs = (config.invitationTtlHours ?? 168) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Token account of an organization's shared pool
+   */
+  static accountId(organizationId: string): string {
+    return `org:${organizationId}`;
+  }
+
+  async createOrganization(
+    owner: { userId: string; email?: string },
+    input: { name: string; seatLimit?: number }
+  ): Promise<Organization> {
+    const id = uuidv4();
+    const client = await this.db.getConnection();
+
+    let row: any;
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `INSERT INTO organizations (id, name, seat_limit, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [id, input.name, input.seatLimit ?? null, owner.userId]
+      );
+      await client.query(
+        `INSERT INTO organization_members (organization_id, user_id, email, role)
+         VALUES ($1, $2, $3, 'owner')`,
+        [id, owner.userId, owner.email ?? null]
+      );
+      await client.query('COMMIT');
+      row = result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (this.virtualTokenService) {
+      await this.virtualTokenService.ensureUserAccount(OrganizationService.accountId(id));
+    }
+    console.log(`🏢 Created organization ${id} (${input.name})`);
+    return this.mapOrganization(row);
+  }
+
+  async getOrganization(organizationId: string): Promise<Organization | null> {
+    const rows = await this.db.query('SELECT * FROM organizations WHERE id = $1', [organizationId]);
+    return rows[0] ? this.mapOrganization(rows[0]) : null;
+  }
+
+  async updateOrganization(organizationId: string, changes: { name?: string; seatLimit?: number | null }): Promise<Organization | null> {
+    const rows = await this.db.query(
+      `UPDATE organizations
+       SET name = COALESCE($1, name),
+           seat_limit = CASE WHEN $2::boolean THEN $3 ELSE seat_limit END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING *`,
+      [changes.name ?? null, changes.seatLimit !== undefined, changes.seatLimit ?? null, organizationId]
+    );
+    return rows[0] ? this.mapOrganization(rows[0]) : null;
+  }
+
+  async deleteOrganization(organizationId: string): Promise<boolean> {
+    const rows = await this.db.query('DELETE FROM organizations WHERE id = $1 RETURNING id', [organizationId]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Organizations a user belongs to, with their role
+   */
+  async listForUser(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+    const rows = await this.db.query(
+      `SELECT o.*, m.role FROM organizations o
+       JOIN organization_members m ON m.organization_id = o.id
+       WHERE m.user_id = $1
+       ORDER BY o.name`,
+      [userId]
+    );
+    return rows.map(row => ({ ...this.mapOrganization(row), role: row.role }));
+  }
+
+  async getMembership(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    const rows = await this.db.query(
+      'SELECT * FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+    return rows[0] ? this.mapMember(rows[0]) : null;
+  }
+
+  /**
+   * Membership in a user's active organization (JWT organizationId or the X-Organization-Id header)
+   * Organizations unknown to this server are ignored; known ones require membership.
+   */
+  async resolveActiveMembership(user: { userId: string; organizationId?: string }): Promise<OrganizationMember | null> {
+    if (!user.organizationId || !(await this.getOrganization(user.organizationId))) {
+      return null;
+    }
+
+    const membership = await this.getMembership(user.organizationId, user.userId);
+    if (!membership) {
+      throw new OrganizationError(`Not a member of organization ${user.organizationId}`, 'FORBIDDEN');
+    }
+    return membership;
+  }
+
+  async listMembers(organizationId: string, now = new Date()): Promise<OrganizationMember[]> {
+    const { start } = getBudgetPeriod('monthly', now);
+    const rows = await this.db.query(
+      `SELECT m.*, COALESCE(u.tokens, 0) AS tokens_used
+       FROM organization_members m
+       LEFT JOIN (
+         SELECT user_id, SUM(tokens) AS tokens FROM organization_token_usage
+         WHERE organization_id = $1 AND created_at >= $2
+         GROUP BY user_id
+       ) u ON u.user_id = m.user_id
+       WHERE m.organization_id = $1
+       ORDER BY m.joined_at`,
+      [organizationId, start]
+    );
+    return rows.map(row => ({ ...this.mapMember(row), tokensUsedThisMonth: parseInt(row.tokens_used) || 0 }));
+  }
+
+  /**
+   * Change a member's role or monthly token limit (null removes the limit)
+   * An organization always keeps at least one owner.
+   */
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    changes: { role?: OrganizationRole; monthlyTokenLimit?: number | null }
+  ): Promise<OrganizationMember | null> {
+    const member = await this.getMembership(organizationId, userId);
+    if (!member) {
+      return null;
+    }
+    if (member.role === 'owner' && changes.role && changes.role !== 'owner') {
+      await this.assertAnotherOwner(organizationId);
+    }
+
+    const rows = await this.db.query(
+      `UPDATE organization_members
+       SET role = COALESCE($1, role),
+           monthly_token_limit = CASE WHEN $2::boolean THEN $3 ELSE monthly_token_limit END
+       WHERE organization_id = $4 AND user_id = $5
+       RETURNING *`,
+      [changes.role ?? null, changes.monthlyTokenLimit !== undefined, changes.monthlyTokenLimit ?? null, organizationId, userId]
+    );
+    return this.mapMember(rows[0]);
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const member = await this.getMembership(organizationId, userId);
+    if (!member) {
+      return false;
+    }
+    if (member.role === 'owner') {
+      await this.assertAnotherOwner(organizationId);
+    }
+
+    await this.db.query(
+      'DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+    return true;
+  }
+
+  /**
+   * Invite someone by e-mail. The token is returned once and only its hash is
+   * stored - send it to the invitee (e.g. in an accept link).
+   */
+  async createInvitation(
+    organizationId: string,
+    input: { email: string; role?: Exclude<OrganizationRole, 'owner'>; invitedBy: string }
+  ): Promise<{ invitation: OrganizationInvitation; token: string }> {
+    const email = input.email.toLowerCase();
+    const existing = await this.db.query(
+      'SELECT user_id FROM organization_members WHERE organization_id = $1 AND LOWER(email) = $2',
+      [organizationId, email]
+    );
+    if (existing.length > 0) {
+      throw new OrganizationError(`${email} is already a member`, 'CONFLICT');
+    }
+    await this.assertSeatAvailable(organizationId);
+
+    // A new invitation replaces any pending one for the same address
+    await this.db.query(
+      `UPDATE organization_invitations SET revoked_at = CURRENT_TIMESTAMP
+       WHERE organization_id = $1 AND email = $2 AND accepted_at IS NULL AND revoked_at IS NULL`,
+      [organizationId, email]
+    );
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const rows = await this.db.query(
+      `INSERT INTO organization_invitations (id, organization_id, email, role, token_hash, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [uuidv4(), organizationId, email, input.role ?? 'member', hashToken(token), input.invitedBy, new Date(Date.now() + this.invitationTtlMs)]
+    );
+    return { invitation: this.mapInvitation(rows[0]), token };
+  }
+
+  async listInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    const rows = await this.db.query(
+      `SELECT * FROM organization_invitations
+       WHERE organization_id = $1 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       ORDER BY created_at DESC`,
+      [organizationId]
+    );
+    return rows.map(row => this.mapInvitation(row));
+  }
+
+  async revokeInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+    const rows = await this.db.query(
+      `UPDATE organization_invitations SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL AND revoked_at IS NULL
+       RETURNING id`,
+      [invitationId, organizationId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Join an organization with an invitation token
+   * The signed-in user's e-mail must match the invited address.
+   */
+  async acceptInvitation(token: string, user: { userId: string; email?: string }): Promise<OrganizationMember> {
+    const rows = await this.db.query('SELECT * FROM organization_invitations WHERE token_hash = $1', [hashToken(token)]);
+    const invitation = rows[0] ? this.mapInvitation(rows[0]) : null;
+
+    if (!invitation || invitation.revokedAt || invitation.acceptedAt) {
+      throw new OrganizationError('Invitation not found', 'NOT_FOUND');
+    }
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      throw new OrganizationError('Invitation has expired', 'BAD_REQUEST');
+    }
+    if (!user.email || user.email.toLowerCase() !== invitation.email) {
+      throw new OrganizationError('Invitation was sent to a different e-mail address', 'FORBIDDEN');
+    }
+
+    const claimed = await this.db.query(
+      `UPDATE organization_invitations SET accepted_at = CURRENT_TIMESTAMP, accepted_by = $1
+       WHERE id = $2 AND accepted_at IS NULL AND revoked_at IS NULL
+       RETURNING id`,
+      [user.userId, invitation.id]
+    );
+    if (claimed.length === 0) {
+      throw new OrganizationError('Invitation not found', 'NOT_FOUND');
+    }
+
+    const inserted = await this.db.query(
+      `INSERT INTO organization_members (organization_id, user_id, email, role)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (organization_id, user_id) DO NOTHING
+       RETURNING *`,
+      [invitation.organizationId, user.userId, user.email, invitation.role]
+    );
+    console.log(`👥 ${user.userId} joined organization ${invitation.organizationId} as ${invitation.role}`);
+    return inserted[0]
+      ? this.mapMember(inserted[0])
+      : (await this.getMembership(invitation.organizationId, user.userId))!;
+  }
+
+  async getBalance(organizationId: string): Promise<TokenBalance | null> {
+    if (!this.virtualTokenService) {
+      return null;
+    }
+    return this.virtualTokenService.getTokenBalance(OrganizationService.accountId(organizationId));
+  }
+
+  /**
+   * Check a member's monthly limit before drawing from the shared pool
+   * Throws FORBIDDEN when the tokens would take the member over their limit.
+   */
+  async checkMemberAllowance(organizationId: string, userId: string, tokens: number, now = new Date()): Promise<void> {
+    const member = await this.getMembership(organizationId, userId);
+    if (!member) {
+      throw new OrganizationError(`Not a member of organization ${organizationId}`, 'FORBIDDEN');
+    }
+    if (member.monthlyTokenLimit === undefined) {
+      return;
+    }
+
+    const used = await this.getMemberUsage(organizationId, userId, now);
+    if (used + tokens > member.monthlyTokenLimit) {
+      throw new OrganizationError(
+        `Monthly organization token limit reached: ${used} of ${member.monthlyTokenLimit} tokens used`,
+        'FORBIDDEN'
+      );
+    }
+  }
+
+  async recordMemberUsage(organizationId: string, userId: string, tokens: number, requestId?: string): Promise<void> {
+    await this.db.query(
+      `INSERT INTO organization_token_usage (id, organization_id, user_id, tokens, request_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [uuidv4(), organizationId, userId, tokens, requestId ?? null]
+    );
+  }
+
+  async getMemberUsage(organizationId: string, userId: string, now = new Date()): Promise<number> {
+    const { start } = getBudgetPeriod('monthly', now);
+    const rows = await this.db.query(
+      `SELECT COALESCE(SUM(tokens), 0) AS tokens FROM organization_token_usage
+       WHERE organization_id = $1 AND user_id = $2 AND created_at >= $3`,
+      [organizationId, userId, start]
+    );
+    return parseInt(rows[0]?.tokens) || 0;
+  }
+
+  /**
+   * Organization provider keys (BYOK) live in the secret vault under the owner 'org:<id>'
+   */
+  async setProviderKey(organizationId: string, provider: OrganizationKeyProvider, apiKey: string): Promise<void> {
+    const result = await this.requireKeyVault().storeUserKey({ email: OrganizationService.accountId(organizationId), provider, apiKey });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to store API key');
+    }
+  }
+
+  async deleteProviderKey(organizationId: string, provider: OrganizationKeyProvider): Promise<boolean> {
+    const result = await this.requireKeyVault().deleteUserKey({ email: OrganizationService.accountId(organizationId), provider });
+    return result.success;
+  }
+
+  async listProviderKeys(organizationId: string): Promise<string[]> {
+    if (!this.keyVault) {
+      return [];
+    }
+    const result = await this.keyVault.getUserProviders({ email: OrganizationService.accountId(organizationId) });
+    return result.providers ?? [];
+  }
+
+  /**
+   * Key for a provider, or the first stored key when no provider is given
+   */
+  async getProviderKey(organizationId: string, provider?: string): Promise<{ provider: string; apiKey: string } | null> {
+    if (!this.keyVault) {
+      return null;
+    }
+
+    const keyProvider = provider ?? (await this.listProviderKeys(organizationId))[0];
+    if (!keyProvider) {
+      return null;
+    }
+    const result = await this.keyVault.getUserKey({
+      email: OrganizationService.accountId(organizationId),
+      provider: keyProvider as OrganizationKeyProvider
+    });
+    return result.success && result.message ? { provider: keyProvider, apiKey: result.message } : null;
+  }
+
+  private requireKeyVault(): PostgreSQLRPCMethods {
+    if (!this.keyVault) {
+      throw new OrganizationError('Secret manager is not configured on this server', 'PRECONDITION_FAILED');
+    }
+    return this.keyVault;
+  }
+
+  private async assertAnotherOwner(organizationId: string): Promise<void> {
+    const rows = await this.db.query(
+      `SELECT COUNT(*) AS owners FROM organization_members WHERE organization_id = $1 AND role = 'owner'`,
+      [organizationId]
+    );
+    if ((parseInt(rows[0]?.owners) || 0) <= 1) {
+      throw new OrganizationError('An organization needs at least one owner', 'BAD_REQUEST');
+    }
+  }
+
+  /**
+   * Seats are taken by members and pending invitations
+   */
+  private async assertSeatAvailable(organizationId: string): Promise<void> {
+    const rows = await this.db.query(
+      `SELECT o.seat_limit,
+              (SELECT COUNT(*) FROM organization_members WHERE organization_id = o.id) AS members,
+              (SELECT COUNT(*) FROM organization_invitations
+               WHERE organization_id = o.id AND accepted_at IS NULL AND revoked_at IS NULL
+                 AND expires_at > CURRENT_TIMESTAMP) AS pending
+       FROM organizations o WHERE o.id = $1`,
+      [organizationId]
+    );
+    const row = rows[0];
+    if (!row) {
+      throw new OrganizationError(`Organization ${organizationId} not found`, 'NOT_FOUND');
+    }
+
+    const taken = (parseInt(row.members) || 0) + (parseInt(row.pending) || 0);
+    if (row.seat_limit !== null && row.seat_limit !== undefined && taken >= row.seat_limit) {
+      throw new OrganizationError(`All ${row.seat_limit} seats are taken`, 'PRECONDITION_FAILED');
+    }
+  }
+
+  private mapOrganization(row: any): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      seatLimit: row.seat_limit ?? undefined,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMember(row: any): OrganizationMember {
+    return {
+      organizationId: row.organization_id,
+      userId: row.user_id,
+      email: row.email ?? undefined,
+      role: row.role,
+      monthlyTokenLimit: row.monthly_token_limit ?? undefined,
+      joinedAt: row.joined_at
+    };
+  }
+
+  private mapInvitation(row: any): OrganizationInvitation {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      email: row.email,
+      role: row.role,
+      invitedBy: row.invited_by,
+      expiresAt: new Date(row.expires_at),
+      acceptedAt: row.accepted_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -347,6 +347,11 @@ export class PostgreSQLSecretManager {
   // Private helper methods
 
   private getUserId(email: string): string {
+    // Organization keys are owned by 'org:<id>' - email-derived IDs never contain ':'
+    if (email.startsWith('org:')) {
+      return email;
+    }
+
     // Generate consistent user ID from email
     return email.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
   }
@@ -0,0 +1,238 @@
+/**
+ * PostgreSQL Storage Adapter
+ *
+ * Shared, encrypted API key storage for multi-instance deployments
+ * Every row belongs to one user and every query is scoped to it; keys are
+ * encrypted at rest with AES-256-GCM in the same format as PostgreSQLSecretManager
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import * as winston from 'winston';
+import { StorageAdapter } from './StorageAdapter';
+import { PostgreSQLAdapter } from '../database/postgres-adapter';
+
+// Owner of keys stored without a user (server-wide keys)
+const SHARED_USER_ID = '';
+
+const KNOWN_PROVIDERS = ['anthropic', 'openai', 'google', 'deepseek', 'openrouter'];
+
+export class PostgreSQLStorageAdapter implements StorageAdapter {
+  private logger: winston.Logger;
+  private masterKey: Buffer;
+  private isInitialized = false;
+
+  constructor(
+    private db: PostgreSQLAdapter,
+    encryptionKey: string,
+    logger?: winston.Logger
+  ) {
+    this.logger = logger || winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [new winston.transports.Console()]
+    });
+
+    // Same key derivation as PostgreSQLSecretManager - AES-256 needs 32 bytes
+    this.masterKey = Buffer.from(encryptionKey || '', 'utf8').subarray(0, 32);
+    if (this.masterKey.length < 32) {
+      throw new Error('PostgreSQL storage encryptionKey must be at least 32 characters');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.db.query(`
+        CREATE TABLE IF NOT EXISTS storage_api_keys (
+          id SERIAL PRIMARY KEY,
+          user_id VARCHAR(255) NOT NULL,
+          provider VARCHAR(50) NOT NULL,
+          encrypted_key TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT NOW(),
+          updated_at TIMESTAMP DEFAULT NOW(),
+          rotated_at TIMESTAMP,
+          UNIQUE(user_id, provider)
+        )
+      `);
+      await this.db.query('CREATE INDEX IF NOT EXISTS idx_storage_api_keys_user_id ON storage_api_keys(user_id)');
+
+      this.isInitialized = true;
+      this.logger.info('PostgreSQL storage initialized');
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Failed to initialize PostgreSQL storage', { error: errorMessage });
+      throw new Error(`PostgreSQL storage initialization failed: ${errorMessage}`);
+    }
+  }
+
+  async storeApiKey(provider: string, apiKey: string, userId?: string): Promise<string> {
+    this.ensureInitialized();
+
+    const rows = await this.db.query(
+      `INSERT INTO storage_api_keys (user_id, provider, encrypted_key)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, provider)
+       DO UPDATE SET encrypted_key = $3, updated_at = NOW()
+       RETURNING id`,
+      [this.owner(userId), provider, this.encrypt(apiKey)]
+    );
+    const keyId = String(rows[0].id);
+
+    this.logger.info('API key stored in PostgreSQL', { provider, userId, keyId });
+    return keyId;
+  }
+
+  async getApiKey(provider: string, userId?: string): Promise<string | null> {
+    this.ensureInitialized();
+
+    const rows = await this.db.query(
+      'SELECT encrypted_key FROM storage_api_keys WHERE user_id = $1 AND provider = $2',
+      [this.owner(userId), provider]
+    );
+    if (rows.length === 0) {
+      return null;
+    }
+
+    try {
+      return this.decrypt(rows[0].encrypted_key);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Failed to decrypt API key', { provider, userId, error: errorMessage });
+      return null;
+    }
+  }
+
+  async deleteApiKey(provider: string, userId?: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    const rows = await this.db.query(
+      'DELETE FROM storage_api_keys WHERE user_id = $1 AND provider = $2 RETURNING id',
+      [this.owner(userId), provider]
+    );
+    if (rows.length === 0) {
+      return false;
+    }
+
+    this.logger.info('API key deleted from PostgreSQL', { provider, userId });
+    return true;
+  }
+
+  async listProviders(userId?: string): Promise<Array<{provider: string, hasKey: boolean}>> {
+    this.ensureInitialized();
+
+    const rows = await this.db.query(
+      'SELECT provider FROM storage_api_keys WHERE user_id = $1',
+      [this.owner(userId)]
+    );
+    const stored = new Set(rows.map(row => row.provider as string));
+
+    return [...new Set([...KNOWN_PROVIDERS, ...stored])].map(provider => ({
+      provider,
+      hasKey: stored.has(provider)
+    }));
+  }
+
+  async rotateApiKey(provider: string, newApiKey: string, userId?: string): Promise<string> {
+    this.ensureInitialized();
+
+    // Replace in place so every instance reads the new key immediately
+    const rows = await this.db.query(
+      `UPDATE storage_api_keys SET encrypted_key = $3, updated_at = NOW(), rotated_at = NOW()
+       WHERE user_id = $1 AND provider = $2
+       RETURNING id`,
+      [this.owner(userId), provider, this.encrypt(newApiKey)]
+    );
+    if (rows.length === 0) {
+      // Nothing to rotate yet - store it as the first key
+      return this.storeApiKey(provider, newApiKey, userId);
+    }
+
+    const keyId = String(rows[0].id);
+    this.logger.info('API key rotated in PostgreSQL', { provider, userId, keyId });
+    return keyId;
+  }
+
+  async validateApiKey(provider: string, userId?: string): Promise<boolean> {
+    const apiKey = await this.getApiKey(provider, userId);
+    return !!apiKey;
+  }
+
+  async healthCheck(): Promise<{status: 'healthy' | 'unhealthy', details: any}> {
+    try {
+      this.ensureInitialized();
+
+      const rows = await this.db.query(
+        'SELECT COUNT(*) AS key_count, COUNT(DISTINCT user_id) AS user_count FROM storage_api_keys'
+      );
+
+      return {
+        status: 'healthy',
+        details: {
+          type: 'postgres',
+          connected: true,
+          keyCount: parseInt(rows[0].key_count) || 0,
+          userCount: parseInt(rows[0].user_count) || 0,
+        }
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        status: 'unhealthy',
+        details: {
+          type: 'postgres',
+          connected: false,
+          error: errorMessage,
+        }
+      };
+    }
+  }
+
+  getType(): 'postgres' {
+    return 'postgres';
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('PostgreSQL storage not initialized. Call initialize() first.');
+    }
+  }
+
+  private owner(userId?: string): string {
+    return userId || SHARED_USER_ID;
+  }
+
+  private encrypt(text: string): string {
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-gcm', this.masterKey, iv);
+
+    let encrypted = cipher.update(text, 'utf8', 'hex');
+    encrypted += cipher.final('hex');
+
+    const authTag = cipher.getAuthTag();
+
+    return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted}`;
+  }
+
+  private decrypt(encryptedData: string): string {
+    const [ivHex, authTagHex, encrypted] = encryptedData.split(':');
+
+    const decipher = createDecipheriv('aes-256-gcm', this.masterKey, Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+
+    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
+}
@@ -62,12 +62,14 @@ export interface StorageConfig {
 export interface PostgreSQLStorageConfig extends StorageConfig {
   type: 'postgres';
   config: {
-    host: string;
-    port: number;
-    database: string;
-    user: string;
-    password: string;
-    encryptionKey: string;
+    connectionString?: string;  // e.g. DATABASE_URL - replaces host/port/database/user/password
+    host?: string;
+    port?: number;
+    database?: string;
+    user?: string;
+    password?: string;
+    ssl?: boolean;
+    encryptionKey: string;      // At least 32 characters
   };
 }
 
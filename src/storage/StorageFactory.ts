@@ -14,6 +14,8 @@ import {
 // VaultStorageAdapter removed - using simplified storage
 import { FileStorageAdapter } from './FileStorageAdapter';
 import { ClientManagedStorageAdapter } from './ClientManagedStorageAdapter';
+import { PostgreSQLStorageAdapter } from './PostgreSQLStorageAdapter';
+import { PostgreSQLAdapter } from '../database/postgres-adapter';
 import * as winston from 'winston';
 import * as path from 'path';
 
@@ -73,10 +75,27 @@ export class StorageFactory {
   private static createPostgreSQLStorage(
     config: PostgreSQLStorageConfig,
     logger: winston.Logger
-  ): any {
-    // PostgreSQL storage adapter implementation would go here
-    // For now, throw an error as this needs to be implemented
-    throw new Error('PostgreSQL storage adapter not yet implemented. Use "file" or "client-managed" storage types instead.');
+  ): PostgreSQLStorageAdapter {
+    const { connectionString, host, port, database, user, password, ssl, encryptionKey } = config.config || {} as PostgreSQLStorageConfig['config'];
+
+    if (!connectionString && !host) {
+      throw new Error('PostgreSQL storage requires a connection string or host');
+    }
+
+    if (!encryptionKey) {
+      throw new Error('PostgreSQL storage requires an encryption key');
+    }
+
+    const db = new PostgreSQLAdapter(connectionString || {
+      host: host!,
+      port: port || 5432,
+      database: database!,
+      user: user!,
+      password: password!,
+      ssl
+    }, logger);
+
+    return new PostgreSQLStorageAdapter(db, encryptionKey, logger);
   }
 
   /**
@@ -118,12 +137,33 @@ export class StorageFactory {
     const log = logger || this.logger;
     
     // Try to detect storage type from environment
+    // A shared database wins over a local file so every instance sees the same keys
+    if (process.env.DATABASE_URL) {
+      log.info('Detected DATABASE_URL in environment, using PostgreSQL storage');
+
+      return this.createStorage({
+        type: 'postgres',
+        config: {
+          connectionString: process.env.DATABASE_URL,
+          encryptionKey: this.postgresEncryptionKey()
+        }
+      } as PostgreSQLStorageConfig, log);
+    }
+
     if (process.env.SECRET_MANAGER_DB_HOST && process.env.SECRET_MANAGER_DB_PASS) {
       log.info('Detected PostgreSQL Vault configuration in environment');
       
       return this.createStorage({
-        type: 'postgres'
-      }, log);
+        type: 'postgres',
+        config: {
+          host: process.env.SECRET_MANAGER_DB_HOST,
+          port: parseInt(process.env.SECRET_MANAGER_DB_PORT || '5432'),
+          database: process.env.SECRET_MANAGER_DB_NAME || 'secrets',
+          user: process.env.SECRET_MANAGER_DB_USER || 'secret_manager',
+          password: process.env.SECRET_MANAGER_DB_PASS,
+          encryptionKey: this.postgresEncryptionKey()
+        }
+      } as PostgreSQLStorageConfig, log);
     }
     
     if (process.env.STORAGE_FILE_PATH || process.env.MASTER_KEY) {
@@ -146,6 +186,17 @@ export class StorageFactory {
     }, log);
   }
 
+  /**
+   * Encryption key for PostgreSQL storage from the environment
+   */
+  private static postgresEncryptionKey(): string {
+    const key = process.env.SECRET_MANAGER_ENCRYPTION_KEY || process.env.MASTER_KEY;
+    if (!key) {
+      throw new Error('PostgreSQL storage requires SECRET_MANAGER_ENCRYPTION_KEY (or MASTER_KEY) to be set');
+    }
+    return key;
+  }
+
   /**
    * Validate storage configuration
    */
@@ -156,10 +207,13 @@ export class StorageFactory {
       case 'postgres':
         const postgresConfig = config as PostgreSQLStorageConfig;
         if (postgresConfig.config) {
-          if (!postgresConfig.config.host) errors.push('PostgreSQL storage host is required');
-          if (!postgresConfig.config.database) errors.push('PostgreSQL storage database is required');
-          if (!postgresConfig.config.user) errors.push('PostgreSQL storage user is required');
-          if (!postgresConfig.config.password) errors.push('PostgreSQL storage password is required');
+          // A connection string carries host, database and credentials
+          if (!postgresConfig.config.connectionString) {
+            if (!postgresConfig.config.host) errors.push('PostgreSQL storage host is required');
+            if (!postgresConfig.config.database) errors.push('PostgreSQL storage database is required');
+            if (!postgresConfig.config.user) errors.push('PostgreSQL storage user is required');
+            if (!postgresConfig.config.password) errors.push('PostgreSQL storage password is required');
+          }
           if (!postgresConfig.config.encryptionKey) errors.push('PostgreSQL storage encryptionKey is required');
         }
         break;
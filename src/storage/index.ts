@@ -18,6 +18,7 @@ export {
 // VaultStorageAdapter removed - using simplified storage
 export { FileStorageAdapter } from './FileStorageAdapter';
 export { ClientManagedStorageAdapter } from './ClientManagedStorageAdapter';
+export { PostgreSQLStorageAdapter } from './PostgreSQLStorageAdapter';
 
 // Factory and utilities
 export { StorageFactory } from './StorageFactory';
\ No newline at end of file
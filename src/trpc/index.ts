@@ -39,6 +39,7 @@ export function createTRPCContext(opts: CreateExpressContextOptions): {
   res: Response;
   user: OpenSaaSJWTPayload | null;
   apiKey: string | null;
+  deviceId: string | null;
 } {
   const authReq = opts.req as AuthenticatedRequest;
   
@@ -47,9 +48,13 @@ export function createTRPCContext(opts: CreateExpressContextOptions): {
   
   // Extract API key from header for BYOK scenarios
   const apiKey = opts.req.headers['x-api-key'] as string | null;
+
+  // Device fingerprint for one-trial-per-device checks
+  const deviceId = (opts.req.headers['x-device-id'] as string | undefined) || null;
   
   // Development mode: Handle OpenSaaS JWT tokens and session tokens
-  if (!user && opts.req.headers.authorization?.startsWith('Bearer ')) {
+  // (never for tokens the OAuth server refused - they must not pass unverified)
+  if (!user && !authReq.oauthTokenRejected && opts.req.headers.authorization?.startsWith('Bearer ')) {
     const token = opts.req.headers.authorization.substring(7);
     
     // Handle OpenSaaS session tokens (old format)
@@ -99,7 +104,8 @@ export function createTRPCContext(opts: CreateExpressContextOptions): {
           exp: payload.exp,
           iss: payload.iss,
           aud: payload.aud,
-          organizationId: payload.organizationId
+          organizationId: payload.organizationId,
+          emailVerified: payload.emailVerified ?? payload.email_verified
         };
         
         console.log('✅ OpenSaaS user authenticated:', { 
@@ -114,12 +120,21 @@ export function createTRPCContext(opts: CreateExpressContextOptions): {
       }
     }
   }
-  
+
+  // Active organization: X-Organization-Id switches between the user's teams
+  // (membership is checked where the organization is used). Service accounts
+  // always bill the organization they were created for.
+  const organizationId = opts.req.headers['x-organization-id'];
+  if (user && user.principalType !== 'service' && typeof organizationId === 'string' && organizationId) {
+    user = { ...user, organizationId };
+  }
+
   return {
     req: opts.req,
     res: opts.res,
     user, // Populated by JWT middleware if token is valid, or mock user in dev mode
     apiKey,
+    deviceId,
   };
 }
 
@@ -179,6 +194,23 @@ export const protectedProcedure: ReturnType<typeof t.procedure.use> = t.procedur
   });
 });
 
+/**
+ * User procedure - protectedProcedure that refuses service accounts
+ * Service account tokens act for their owner on AI requests only; they never
+ * read or change the owner's data (conversations, billing, profile, keys,
+ * organizations, budgets), whatever scopes they carry.
+ */
+export const userProcedure: typeof protectedProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user?.principalType === 'service') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Service accounts cannot use this procedure. Sign in as a user.',
+    });
+  }
+
+  return next();
+});
+
 /**
  * Token-protected procedure - requires JWT + checks token balance
  */
@@ -16,15 +16,47 @@ import { createUserRouter } from '@src-trpc/routers/user';
 import { createBillingRouter } from '@src-trpc/routers/billing';
 import { createAuthRouter } from '@src-trpc/routers/auth';
 import { createAdminRouter } from '@src-trpc/routers/admin';
+import { createConversationsRouter } from '@src-trpc/routers/conversations';
+import { createOrgRouter } from '@src-trpc/routers/org';
 import type { inferRouterInputs, inferRouterOutputs } from '@trpc/server';
 import type { PostgreSQLAdapter } from '@database/postgres-adapter';
 import type { PostgreSQLRPCMethods } from '@auth/PostgreSQLRPCMethods';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import { PricingCatalog, getDefaultPricingCatalog } from '@services/billing/pricing-catalog';
+import type { BillingRules } from '@services/billing/billing-rules';
+import type { PaymentWebhookHandler } from '@services/billing/webhook-event-log';
+import type { StripeCheckoutService } from '@services/billing/stripe-checkout';
+import type { BudgetService } from '@services/billing/budget-service';
+import { StatementService } from '@services/billing/statement-service';
 import { WorkspaceManager } from '@services/resources/workspace-manager';
 import type { WorkspaceManagerConfig, ServerWorkspaceConfig } from '@services/resources/workspace-manager';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import type { OrganizationService } from '@services/organizations/organization-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
+import type { ServiceAccountManager } from '@auth/service-accounts';
+import type { ProviderFailoverConfig } from '@services/ai/provider-failover';
+import type { AgentServiceConfig } from '@services/ai/agent-tools';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Optional services and shared settings across routers (created by the server)
+ */
+export interface AppRouterServices {
+  conversationService?: ConversationService;
+  aiFailover?: ProviderFailoverConfig;
+  aiAgent?: AgentServiceConfig;
+  pricingCatalog?: PricingCatalog;
+  billingRules?: BillingRules;
+  paymentWebhooks?: PaymentWebhookHandler[];
+  stripeCheckout?: StripeCheckoutService;
+  budgetService?: BudgetService;
+  organizationService?: OrganizationService;
+  trialCreditService?: TrialCreditService;
+  stripeUsageReporter?: StripeUsageReporter;
+  serviceAccounts?: ServiceAccountManager;
+}
 
 /**
  * Create app router with configurable AI limits and optional token tracking
@@ -72,18 +104,21 @@ export function createAppRouter(
       watchIgnore?: string[];
     }>;
   },
-  customRouters?: { [namespace: string]: any }
+  customRouters?: { [namespace: string]: any },
+  services: AppRouterServices = {}
 ): ReturnType<typeof router> {
   // Initialize services if database is available
   let virtualTokenService: VirtualTokenService | null = null;
   let usageAnalyticsService: UsageAnalyticsService | null = null;
   let hybridUserService: any | null = null; // TODO: Import proper type
+  let statementService: StatementService | null = null;
 
   if (dbAdapter) {
     usageAnalyticsService = new UsageAnalyticsService(dbAdapter);
 
     if (tokenTrackingEnabled) {
-      virtualTokenService = new VirtualTokenService(dbAdapter);
+      virtualTokenService = new VirtualTokenService(dbAdapter, { billingRules: services.billingRules });
+      statementService = new StatementService(dbAdapter);
     }
   }
 
@@ -156,22 +191,32 @@ export function createAppRouter(
           // Use server configuration (current behavior)
           return new AIService({
             serviceProviders: createServiceProvidersConfig(serverProviders || ['anthropic']),
-            modelRestrictions
+            modelRestrictions,
+            failover: services.aiFailover
           });
         }
       })()
     : null;
 
+  const pricingCatalog = services.pricingCatalog ?? getDefaultPricingCatalog();
+
   // Create routers
   const systemRouter = createSystemRouter(workspaceManager);
-  const userRouter = createUserRouter(virtualTokenService, usageAnalyticsService, hybridUserService, byokProviders);
-  const billingRouter = createBillingRouter(virtualTokenService, usageAnalyticsService, hybridUserService);
+  const userRouter = createUserRouter(virtualTokenService, usageAnalyticsService, hybridUserService, byokProviders, services.trialCreditService ?? null);
+  const billingRouter = createBillingRouter(virtualTokenService, usageAnalyticsService, hybridUserService, services.stripeCheckout ?? null, services.budgetService ?? null, statementService);
   const authRouter = createAuthRouter(postgresRPCMethods);
+  const conversationsRouter = createConversationsRouter(services.conversationService || null);
+  const orgRouter = createOrgRouter(services.organizationService || null);
   const adminRouter = createAdminRouter({
     adminUsers: ['admin@company.com'],
     requireAdminAuth: true,
     usageAnalyticsService,
-    virtualTokenService
+    virtualTokenService,
+    pricingCatalog,
+    paymentWebhooks: services.paymentWebhooks,
+    budgetService: services.budgetService,
+    statementService,
+    serviceAccounts: services.serviceAccounts ?? null
   });
 
   const aiRouter = createAIRouter({
@@ -181,7 +226,16 @@ export function createAppRouter(
     serverProviders,
     byokProviders,
     postgresRPCMethods,
-    modelRestrictions
+    modelRestrictions,
+    conversationService: services.conversationService,
+    failover: services.aiFailover,
+    agent: services.aiAgent,
+    pricingCatalog,
+    billingRules: services.billingRules,
+    budgetService: services.budgetService,
+    organizationService: services.organizationService,
+    trialCreditService: services.trialCreditService,
+    stripeUsageReporter: services.stripeUsageReporter
   } as any);
 
   // Build base routers object
@@ -191,7 +245,9 @@ export function createAppRouter(
     user: userRouter,
     billing: billingRouter,
     auth: authRouter,
-    admin: adminRouter
+    admin: adminRouter,
+    conversations: conversationsRouter,
+    org: orgRouter
   };
 
   // Only include MCP router if enabled
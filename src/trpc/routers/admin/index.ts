@@ -8,22 +8,103 @@ import { router, publicProcedure } from '@src-trpc/index';
 import { createAdminMCPTool } from '@auth/scopes';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
+import { PricingCatalog, getDefaultPricingCatalog } from '@services/billing/pricing-catalog';
+import type { PaymentWebhookHandler } from '@services/billing/webhook-event-log';
+import type { BudgetService } from '@services/billing/budget-service';
+import type { StatementService } from '@services/billing/statement-service';
+import { usageQueryInputSchema, usageExportInputSchema, runUsageQuery, toUsageQuery } from '@src-trpc/routers/billing/usage-query';
+import { ServiceAccountError, type ServiceAccountManager } from '@auth/service-accounts';
 
 interface AdminConfig {
   adminUsers?: string[];
   requireAdminAuth?: boolean;
   usageAnalyticsService?: UsageAnalyticsService | null;
   virtualTokenService?: VirtualTokenService | null;
+  pricingCatalog?: PricingCatalog;
+  paymentWebhooks?: PaymentWebhookHandler[];
+  budgetService?: BudgetService | null;
+  statementService?: StatementService | null;
+  serviceAccounts?: ServiceAccountManager | null;
 }
 
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+const statementPeriodPattern = /^\d{4}-(0[1-9]|1[0-2])$/;
+
 export function createAdminRouter(config: AdminConfig = {}): ReturnType<typeof router> {
   const {
     adminUsers = ['admin@company.com'],
     requireAdminAuth = true,
     usageAnalyticsService,
-    virtualTokenService
+    virtualTokenService,
+    pricingCatalog = getDefaultPricingCatalog(),
+    paymentWebhooks = [],
+    budgetService,
+    statementService,
+    serviceAccounts
   } = config;
 
+  const getWebhookHandler = (provider: string) => {
+    const handler = paymentWebhooks.find(candidate => candidate.provider === provider);
+    if (!handler) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: `Webhooks for ${provider} are not enabled`
+      });
+    }
+    return handler;
+  };
+
+  const requireBudgetService = (): BudgetService => {
+    if (!budgetService) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: 'Spending budgets are not enabled'
+      });
+    }
+    return budgetService;
+  };
+
+  const requireUsageAnalytics = (): UsageAnalyticsService => {
+    if (!usageAnalyticsService) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: 'Usage analytics is not enabled'
+      });
+    }
+    return usageAnalyticsService;
+  };
+
+  const requireStatementService = (): StatementService => {
+    if (!statementService) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: 'Token tracking is not enabled'
+      });
+    }
+    return statementService;
+  };
+
+  const requireServiceAccounts = (): ServiceAccountManager => {
+    if (!serviceAccounts) {
+      throw new TRPCError({
+        code: 'PRECONDITION_FAILED',
+        message: 'Service accounts require the OAuth server'
+      });
+    }
+    return serviceAccounts;
+  };
+
+  const withServiceAccountErrors = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof ServiceAccountError) {
+        throw new TRPCError({ code: error.code, message: error.message });
+      }
+      throw error;
+    }
+  };
+
   const assertAdminAccess = (ctx: any, procedureName: string) => {
     if (!requireAdminAuth) {
       return;
@@ -38,6 +119,15 @@ export function createAdminRouter(config: AdminConfig = {}): ReturnType<typeof r
       });
     }
 
+    // Service accounts never administer, even when an admin owns them
+    if (ctx.user.principalType === 'service') {
+      console.warn(`🚫 Admin access denied for ${procedureName} (service account ${ctx.user.serviceAccount?.clientId})`);
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Admin privileges required'
+      });
+    }
+
     // Second check: Authenticated user must be in admin list
     const userEmail = ctx.user.email || '';
     const userId = ctx.user.id;
@@ -333,6 +423,417 @@ export function createAdminRouter(config: AdminConfig = {}): ReturnType<typeof r
         };
       }),
 
+    /**
+     * Model pricing catalog
+     */
+    listModelPricing: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'listModelPricing',
+          description: 'List model prices (per 1M tokens) from the pricing catalog',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        provider: z.string().optional().describe('Only prices for this provider'),
+        model: z.string().optional().describe('Only prices for this model ID'),
+      }).default({}))
+      .query(({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.listModelPricing');
+
+        const prices = pricingCatalog.listPrices(input);
+        return {
+          prices,
+          count: prices.length,
+          defaultPrice: pricingCatalog.getDefaultPrice()
+        };
+      }),
+
+    setModelPricing: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'setModelPricing',
+          description: 'Add or update a model price (per 1M tokens) from an effective date',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        provider: z.string().min(1).describe('Provider name, e.g. anthropic'),
+        model: z.string().min(1).describe("Model ID, or '*' for the provider default"),
+        input: z.number().min(0).describe('Price per 1M input tokens'),
+        output: z.number().min(0).describe('Price per 1M output tokens'),
+        cachedInput: z.number().min(0).optional().describe('Price per 1M cached input tokens'),
+        currency: z.string().length(3).optional().describe('ISO currency code (default: catalog currency)'),
+        effectiveFrom: z.string().regex(datePattern).optional().describe('YYYY-MM-DD (default: today)'),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.setModelPricing');
+
+        try {
+          const price = await pricingCatalog.setPrice(input, ctx.user?.email || ctx.user?.userId);
+          console.log(`💲 Pricing updated: ${price.provider}/${price.model} from ${price.effectiveFrom}`);
+          return { success: true, price };
+        } catch (error) {
+          console.error('❌ Failed to update model pricing:', error);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: 'Failed to update model pricing'
+          });
+        }
+      }),
+
+    removeModelPricing: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'removeModelPricing',
+          description: 'Remove a model price version, or all versions of a model',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        provider: z.string().min(1),
+        model: z.string().min(1),
+        effectiveFrom: z.string().regex(datePattern).optional().describe('Only remove this version'),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.removeModelPricing');
+
+        const removed = await pricingCatalog.removePrice(input.provider, input.model, input.effectiveFrom);
+        if (removed === 0) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `No pricing found for ${input.provider}/${input.model}`
+          });
+        }
+        return { success: true, removed };
+      }),
+
+    /**
+     * Payment webhook event log
+     */
+    listWebhookEvents: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'listWebhookEvents',
+          description: 'List logged payment webhook events, newest first',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        provider: z.string().default('lemonsqueezy'),
+        status: z.enum(['received', 'processing', 'processed', 'failed', 'ignored']).optional(),
+        limit: z.number().int().min(1).max(500).default(50),
+      }).default({ provider: 'lemonsqueezy', limit: 50 }))
+      .query(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.listWebhookEvents');
+
+        const events = await getWebhookHandler(input.provider).listEvents({ status: input.status, limit: input.limit });
+        return { events, count: events.length };
+      }),
+
+    replayWebhookEvent: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'replayWebhookEvent',
+          description: 'Process a logged payment webhook event again from its stored payload',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        provider: z.string().default('lemonsqueezy'),
+        eventId: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.replayWebhookEvent');
+
+        try {
+          return await getWebhookHandler(input.provider).replay(input.eventId);
+        } catch (error) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: error instanceof Error ? error.message : 'Webhook event not found'
+          });
+        }
+      }),
+
+    unfreezeTokenAccount: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'unfreezeTokenAccount',
+          description: 'Allow a token account frozen after a refund to use tokens again',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        userId: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.unfreezeTokenAccount');
+
+        if (!virtualTokenService) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: 'Token tracking is not enabled'
+          });
+        }
+        await virtualTokenService.unfreezeAccount(input.userId);
+        return { success: true, userId: input.userId };
+      }),
+
+    /**
+     * Spending budgets per user, API key fingerprint or organization
+     */
+    listBudgets: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'listBudgets',
+          description: 'List spending budgets, optionally for one scope',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        scope: z.enum(['user', 'api_key', 'organization']).optional(),
+        scopeId: z.string().optional(),
+      }).default({}))
+      .query(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.listBudgets');
+
+        const budgets = await requireBudgetService().listBudgets(input);
+        return { budgets, count: budgets.length };
+      }),
+
+    setBudget: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'setBudget',
+          description: 'Create or replace a daily or monthly spending budget (USD or tokens)',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        scope: z.enum(['user', 'api_key', 'organization']),
+        scopeId: z.string().min(1),            // api_key budgets take the key fingerprint (key_...)
+        period: z.enum(['daily', 'monthly']),
+        unit: z.enum(['usd', 'tokens']),
+        limit: z.number().positive(),
+        alertThresholds: z.array(z.number().int().min(1).max(100)).max(10).optional(),
+        hardCap: z.boolean().default(true),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.setBudget');
+
+        const budget = await requireBudgetService().setBudget({ ...input, createdBy: ctx.user?.email });
+        return { budget };
+      }),
+
+    deleteBudget: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'deleteBudget',
+          description: 'Remove a spending budget',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        budgetId: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.deleteBudget');
+
+        const removed = await requireBudgetService().deleteBudget(input.budgetId);
+        if (!removed) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Budget ${input.budgetId} not found`
+          });
+        }
+        return { success: true, budgetId: input.budgetId };
+      }),
+
+    /**
+     * Usage across all accounts for dashboards - time buckets, grouping, filters, pagination
+     */
+    queryUsage: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'queryUsage',
+          description: 'Aggregate usage by hour/day/week and provider, model, method, user or organization',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(usageQueryInputSchema)
+      .query(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.queryUsage');
+
+        return runUsageQuery(() => requireUsageAnalytics().queryUsage(toUsageQuery(input)));
+      }),
+
+    exportUsage: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'exportUsage',
+          description: 'Export aggregated usage as CSV or NDJSON',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(usageExportInputSchema)
+      .query(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.exportUsage');
+
+        const { format, maxRows, ...query } = input;
+        return requireUsageAnalytics().exportUsage(toUsageQuery(query), format, maxRows);
+      }),
+
+    /**
+     * Monthly statements - the batch job closes ended months as immutable snapshots
+     */
+    closeStatements: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'closeStatements',
+          description: 'Close the monthly statements of all accounts with activity in an ended month',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        period: z.string().regex(statementPeriodPattern).optional(), // Default: previous month
+      }).default({}))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.closeStatements');
+
+        try {
+          return await requireStatementService().closePeriod(input.period);
+        } catch (error) {
+          if (error instanceof TRPCError) throw error;
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Failed to close statements'
+          });
+        }
+      }),
+
+    getStatement: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'getStatement',
+          description: 'Get the monthly statement of any account as JSON, CSV or HTML',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        userId: z.string().min(1),
+        period: z.string().regex(statementPeriodPattern),
+        format: z.enum(['json', 'csv', 'html']).default('json'),
+      }))
+      .query(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.getStatement');
+
+        const service = requireStatementService();
+        const statement = await service.getStatement(input.userId, input.period);
+        const { contentType, content } = await service.render(statement, input.format);
+        return { statement, format: input.format, contentType, content };
+      }),
+
+    /**
+     * Service accounts - client_credentials OAuth clients for CI jobs and internal services
+     */
+    createServiceAccount: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'createServiceAccount',
+          description: 'Create a service account for machine-to-machine access (the secret is shown once)',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        name: z.string().min(1).max(100),
+        ownerUserId: z.string().min(1),              // Usage and billing go to this user
+        organizationId: z.string().uuid().optional(), // ... or this organization's pool (the owner must be a member)
+        scopes: z.array(z.string().min(1)).min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.createServiceAccount');
+
+        const service = requireServiceAccounts();
+        return withServiceAccountErrors(() => service.create(input, ctx.user?.email || ctx.user?.userId));
+      }),
+
+    listServiceAccounts: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'listServiceAccounts',
+          description: 'List service accounts and the scopes they may be granted',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({}).optional())
+      .query(async ({ ctx }) => {
+        assertAdminAccess(ctx, 'admin.listServiceAccounts');
+
+        const service = requireServiceAccounts();
+        const accounts = await service.list();
+        return { accounts, count: accounts.length, allowedScopes: service.allowedScopes() };
+      }),
+
+    rotateServiceAccountSecret: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'rotateServiceAccountSecret',
+          description: 'Issue a new client secret for a service account',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        clientId: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.rotateServiceAccountSecret');
+
+        const service = requireServiceAccounts();
+        return withServiceAccountErrors(() => service.rotateSecret(input.clientId));
+      }),
+
+    deleteServiceAccount: publicProcedure
+      .meta({
+        ...createAdminMCPTool({
+          name: 'deleteServiceAccount',
+          description: 'Delete a service account; its tokens stop working immediately',
+          category: 'admin',
+          adminUsers
+        }),
+      })
+      .input(z.object({
+        clientId: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        assertAdminAccess(ctx, 'admin.deleteServiceAccount');
+
+        const removed = await requireServiceAccounts().delete(input.clientId);
+        if (!removed) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Service account ${input.clientId} not found`
+          });
+        }
+        return { success: true, clientId: input.clientId };
+      }),
+
     /**
      * Clear caches and reset services
      */
@@ -9,6 +9,8 @@ import { UsageAnalyticsService } from '@services/billing/usage-analytics-service
 import { PostgreSQLAdapter } from '@database/postgres-adapter'; // unused, why?
 import { PostgreSQLRPCMethods } from '@auth/PostgreSQLRPCMethods'; // unused, why?
 import { createGenerationProcedures } from './methods/generation';
+import { createStreamingProcedures } from './methods/streaming';
+import { createStructuredOutputProcedures } from './methods/structured';
 import { createProviderProcedures } from './methods/providers';
 import { AIRouterFactoryConfig, DEFAULT_CONFIG, createServiceProvidersConfig, AIRouterConfig } from './types'; // AIRouterConig is imported but not used, why?
 
@@ -20,7 +22,16 @@ export function createAIRouter(factoryConfig: AIRouterFactoryConfig = {}): Retur
     serverProviders = ['anthropic'],
     //byokProviders = ['anthropic'], // where is it used?
     //postgresRPCMethods, // where is it used?
-    modelRestrictions
+    modelRestrictions,
+    conversationService = null,
+    failover,
+    agent,
+    pricingCatalog,
+    billingRules,
+    budgetService = null,
+    organizationService = null,
+    trialCreditService = null,
+    stripeUsageReporter = null
   } = factoryConfig;
 
   const mergedConfig = {
@@ -32,7 +43,9 @@ export function createAIRouter(factoryConfig: AIRouterFactoryConfig = {}): Retur
   // Initialize AI service with configured providers
   const aiService = new AIService({
     serviceProviders: createServiceProvidersConfig(serverProviders),
-    modelRestrictions
+    modelRestrictions,
+    failover,
+    agent
   });
 
   // Initialize services if database is available
@@ -44,7 +57,7 @@ export function createAIRouter(factoryConfig: AIRouterFactoryConfig = {}): Retur
     usageAnalyticsService = new UsageAnalyticsService(dbAdapter);
 
     if (tokenTrackingEnabled) {
-      virtualTokenService = new VirtualTokenService(dbAdapter);
+      virtualTokenService = new VirtualTokenService(dbAdapter, { billingRules });
     }
   }
 
@@ -54,15 +67,47 @@ export function createAIRouter(factoryConfig: AIRouterFactoryConfig = {}): Retur
     aiService,
     virtualTokenService,
     usageAnalyticsService,
-    hybridUserService
+    hybridUserService,
+    conversationService,
+    budgetService,
+    organizationService,
+    trialCreditService,
+    stripeUsageReporter
+  );
+
+  const streamingProcedures = createStreamingProcedures(
+    mergedConfig,
+    aiService,
+    virtualTokenService,
+    usageAnalyticsService,
+    conversationService,
+    trialCreditService,
+    budgetService,
+    organizationService,
+    stripeUsageReporter
+  );
+
+  const structuredOutputProcedures = createStructuredOutputProcedures(
+    mergedConfig,
+    aiService,
+    virtualTokenService,
+    usageAnalyticsService,
+    conversationService,
+    trialCreditService,
+    budgetService,
+    organizationService,
+    stripeUsageReporter
   );
 
   const providerProcedures = createProviderProcedures(
-    aiService
+    aiService,
+    pricingCatalog
   );
 
   return router({
     ...generationProcedures,
+    ...streamingProcedures,
+    ...structuredOutputProcedures,
     ...providerProcedures,
   });
 }
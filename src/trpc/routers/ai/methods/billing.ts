@@ -0,0 +1,466 @@
+import { TRPCError } from '@trpc/server';
+import type { ExecuteResult } from '@services/ai/ai-service';
+import type { VirtualTokenService, TokenReservation } from '@services/billing/virtual-token-service';
+import type { BillingRuleContext } from '@services/billing/billing-rules';
+import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import { BudgetExceededError, type BudgetService, type BudgetStatus, type BudgetSubject } from '@services/billing/budget-service';
+import { OrganizationError, OrganizationService, type OrganizationMember } from '@services/organizations/organization-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
+import { TrialCreditError, type TrialCreditService, type TrialCredit, type TrialClaim, type TrialClaimant } from '@services/billing/trial-credit-service';
+
+export type BillingMode = 'subscription' | 'metered' | 'byok' | 'trial' | 'public';
+
+export interface BillingServices {
+  virtualTokenService: VirtualTokenService | null;
+  usageAnalyticsService: UsageAnalyticsService | null;
+  trialCreditService?: TrialCreditService | null;
+  budgetService?: BudgetService | null;
+  organizationService?: OrganizationService | null;
+  stripeUsageReporter?: StripeUsageReporter | null;
+}
+
+/**
+ * How a request is paid for, plus the token hold for subscription requests
+ */
+export interface Billing {
+  mode: BillingMode;
+  apiKey?: string; // Provider key to call with - unset uses the server's keys
+  provider?: string; // Provider the key belongs to (organization keys)
+  organizationId?: string; // Active organization the usage is recorded for
+  pool?: OrganizationMember; // Membership the organization pool is drawn through
+  reservation?: TokenReservation;
+  subscriptionItemId?: string; // Stripe subscription item metered usage is reported to
+  trial?: TrialClaim; // Trial credits the request was claimed from, with its token hold
+  tier?: string; // Subscription tier for the billing rules at capture
+  budget?: { subject: BudgetSubject; byok: boolean; holdId?: string }; // Budgets the request counts against
+}
+
+/**
+ * Hold the estimated maximum for a subscription request
+ * Throws PAYMENT_REQUIRED when the balance cannot cover it.
+ */
+export async function reserveSubscriptionTokens(
+  virtualTokenService: VirtualTokenService,
+  userId: string,
+  email: string | undefined,
+  estimatedTokens: number,
+  method: string,
+  context: BillingRuleContext = {}
+): Promise<TokenReservation> {
+  await virtualTokenService.ensureUserAccount(userId, email);
+
+  const reservation = await virtualTokenService.reserveTokens(userId, estimatedTokens, { method, ...context });
+  if (!reservation) {
+    throw new TRPCError({
+      code: 'PAYMENT_REQUIRED',
+      message: 'Insufficient token balance. Please top up your account to continue.',
+    });
+  }
+  return reservation;
+}
+
+/**
+ * Take a request from the caller's trial credits, granting them on first use
+ * Holds the estimated tokens; throws PAYMENT_REQUIRED with the upgrade
+ * message when the trial cannot pay.
+ */
+export async function claimTrialRequest(
+  trialCreditService: TrialCreditService,
+  claimant: TrialClaimant,
+  estimatedTokens: number
+): Promise<TrialClaim> {
+  const trial = await trialCreditService.getOrGrantTrial(claimant);
+  if (!trial) {
+    throw new TRPCError({ code: 'PAYMENT_REQUIRED', message: trialCreditService.upgradeMessage(null) });
+  }
+
+  try {
+    return await trialCreditService.claimRequest(claimant.userId, estimatedTokens);
+  } catch (error) {
+    if (error instanceof TrialCreditError) {
+      throw new TRPCError({ code: 'PAYMENT_REQUIRED', message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Trial balance after a request, as returned to the client
+ */
+export function toTrialUsage(trial: TrialCredit, tokensUsed: number) {
+  return {
+    tokensUsed,
+    tokensRemaining: trial.tokensRemaining,
+    requestsRemaining: trial.requestsRemaining ?? null,
+    expiresAt: trial.expiresAt.toISOString()
+  };
+}
+
+/**
+ * Decide how a request is paid for
+ * A key passed with the request always wins. Members of the active
+ * organization otherwise use its provider key, else draw from its shared
+ * token pool (within their monthly limit). Metered Stripe subscribers are
+ * billed on reported usage. Subscription users get a hold for the estimated
+ * maximum (prompt plus maxTokens); signed-in users without a
+ * key use their trial credits when the server offers them; everyone else
+ * needs their own API key. Signed-in callers also hold the estimate against
+ * their budgets (BYOK: self-imposed budgets only).
+ */
+export async function resolveBilling(
+  services: BillingServices,
+  caller: {
+    userId?: string; email?: string; emailVerified?: boolean; deviceId?: string | null; tier?: string; organizationId?: string;
+    apiKey?: string; // Key passed with the request
+    headerApiKey?: string; // Key sent in the x-api-key header
+  },
+  estimate: { promptTokens: number; maxTokens: number },
+  method: string,
+  target: { provider?: string; model?: string } = {}
+): Promise<Billing> {
+  const {
+    virtualTokenService, usageAnalyticsService, budgetService = null, organizationService = null, stripeUsageReporter = null
+  } = services;
+  const { userId, organizationId } = caller;
+  const estimatedTokens = estimate.promptTokens + estimate.maxTokens;
+
+  const membership = await resolveOrganization(organizationService, userId ? { userId, organizationId } : null);
+  const organizationKey = membership && !caller.apiKey
+    ? await organizationService!.getProviderKey(membership.organizationId, target.provider)
+    : null;
+  const apiKey = caller.apiKey || organizationKey?.apiKey || caller.headerApiKey;
+  const pool = membership && !caller.apiKey && !organizationKey ? membership : undefined;
+
+  // Budgets match the user, their provider key and their organization
+  const subject: BudgetSubject = { userId, apiKey, organizationId };
+  const budgetEstimate = { ...target, ...estimate };
+
+  const metered = userId && virtualTokenService && stripeUsageReporter && !pool
+    ? await stripeUsageReporter.getMeteredSubscription(userId)
+    : null;
+  if (metered) {
+    // Usage is logged against the balance-less account and reported to Stripe
+    await virtualTokenService!.ensureUserAccount(userId!, caller.email);
+    const holdId = await enforceBudgets(budgetService, subject, budgetEstimate, false);
+    return {
+      mode: 'metered', organizationId, subscriptionItemId: metered.subscriptionItemId, tier: caller.tier,
+      budget: { subject, byok: false, holdId }
+    };
+  }
+
+  if (userId && virtualTokenService && (pool || (usageAnalyticsService
+    && (await usageAnalyticsService.getUserStatus(userId)).userType === 'subscription'))) {
+    const budget = { subject, byok: false, holdId: await enforceBudgets(budgetService, subject, budgetEstimate, false) };
+    try {
+      if (pool) {
+        await enforceMemberAllowance(organizationService!, pool, estimatedTokens);
+      }
+      const reservation = pool
+        ? await reserveSubscriptionTokens(
+          virtualTokenService, OrganizationService.accountId(pool.organizationId), undefined,
+          estimatedTokens, method, { ...target, tier: caller.tier }
+        )
+        : await reserveSubscriptionTokens(
+          virtualTokenService, userId, caller.email, estimatedTokens, method, { ...target, tier: caller.tier }
+        );
+      return { mode: 'subscription', organizationId, pool, reservation, tier: caller.tier, budget };
+    } catch (error) {
+      await releaseBudgetHold(budgetService, budget.holdId);
+      throw error;
+    }
+  }
+
+  if (apiKey) {
+    // An organization key only works with its own provider
+    const key = { apiKey, provider: organizationKey?.provider };
+    if (!userId) {
+      return { mode: 'public', ...key };
+    }
+    const holdId = await enforceBudgets(budgetService, subject, budgetEstimate, true);
+    return { mode: 'byok', ...key, organizationId, budget: { subject, byok: true, holdId } };
+  }
+
+  if (userId && services.trialCreditService) {
+    const budget = { subject, byok: false, holdId: await enforceBudgets(budgetService, subject, budgetEstimate, false) };
+    try {
+      const trial = await claimTrialRequest(services.trialCreditService, { ...caller, userId }, estimatedTokens);
+      return { mode: 'trial', trial, budget };
+    } catch (error) {
+      await releaseBudgetHold(budgetService, budget.holdId);
+      throw error;
+    }
+  }
+
+  throw new TRPCError({
+    code: 'BAD_REQUEST',
+    message: 'API key required for public usage. Please provide your AI provider API key.',
+  });
+}
+
+/**
+ * Return the hold of a request that failed before producing output
+ */
+export async function releaseBilling(services: BillingServices, billing: Billing): Promise<void> {
+  if (billing.reservation && services.virtualTokenService) {
+    await services.virtualTokenService.releaseReservation(billing.reservation.id);
+  }
+  if (billing.trial && services.trialCreditService) {
+    await services.trialCreditService.releaseRequest(billing.trial.holdId);
+  }
+  await releaseBudgetHold(services.budgetService ?? null, billing.budget?.holdId);
+}
+
+/**
+ * Capture tokens (subscription), log metered usage, charge trial credits or record usage (BYOK) for a finished request
+ * Returns the billing fields to merge into the procedure response.
+ */
+export async function billUsage(
+  services: BillingServices,
+  billing: Billing,
+  userId: string | undefined,
+  result: ExecuteResult,
+  method: string,
+  metadata?: Record<string, any>
+) {
+  const { virtualTokenService, usageAnalyticsService, budgetService = null } = services;
+  const { mode, reservation, budget } = billing;
+  if (!userId || !result.usage?.totalTokens) {
+    await releaseBilling(services, billing);
+    return undefined;
+  }
+
+  const remainingBudget = budget
+    ? await recordBudgetSpend(budgetService, budget.subject, result, budget.byok, budget.holdId)
+    : undefined;
+
+  if (mode === 'trial' && services.trialCreditService) {
+    const trial = await services.trialCreditService.recordUsage(userId, result.usage.totalTokens, billing.trial?.holdId);
+    return trial ? { trialUsage: toTrialUsage(trial, result.usage.totalTokens) } : undefined;
+  }
+
+  if (mode === 'subscription' && virtualTokenService && reservation) {
+    const deductionResult = await virtualTokenService.captureReservation(
+      reservation.id,
+      result.usage.totalTokens,
+      result.provider || 'unknown',
+      result.model,
+      result.requestId,
+      method,
+      billing.tier
+    );
+    if (billing.pool && services.organizationService) {
+      await services.organizationService.recordMemberUsage(
+        billing.pool.organizationId, userId, deductionResult.tokensDeducted, result.requestId
+      );
+    }
+
+    return {
+      tokenUsage: {
+        tokensUsed: result.usage.totalTokens,
+        tokensCharged: deductionResult.tokensDeducted,
+        platformFee: deductionResult.platformFee,
+        remainingBalance: deductionResult.newBalance,
+        remainingBudget,
+      }
+    };
+  }
+
+  if (mode === 'metered' && virtualTokenService && billing.subscriptionItemId) {
+    const metered = await virtualTokenService.recordMeteredUsage(
+      userId,
+      billing.subscriptionItemId,
+      result.usage.totalTokens,
+      result.provider || 'unknown',
+      result.model,
+      result.requestId,
+      method,
+      billing.tier
+    );
+
+    return {
+      tokenUsage: {
+        tokensUsed: result.usage.totalTokens,
+        tokensCharged: metered.tokensCharged,
+        platformFee: metered.platformFee,
+        remainingBalance: null,
+        remainingBudget,
+      }
+    };
+  }
+
+  if (mode === 'byok' && usageAnalyticsService) {
+    const estimatedCost = UsageAnalyticsService.estimateCost(
+      result.provider || 'unknown',
+      result.model,
+      result.usage.promptTokens,
+      result.usage.completionTokens
+    );
+
+    await usageAnalyticsService.recordUsage({
+      userId,
+      userType: 'byok',
+      provider: result.provider || 'unknown',
+      model: result.model,
+      inputTokens: result.usage.promptTokens,
+      outputTokens: result.usage.completionTokens,
+      totalTokens: result.usage.totalTokens,
+      estimatedCostUsd: estimatedCost,
+      requestId: result.requestId,
+      method,
+      organizationId: billing.organizationId,
+      metadata
+    });
+
+    return {
+      usageInfo: {
+        tokensUsed: result.usage.totalTokens,
+        estimatedCostUsd: estimatedCost,
+        remainingBudget
+      }
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Budget left after a request - the tightest of the caller's budgets
+ */
+export interface RemainingBudget {
+  budgetId: string;
+  scope: BudgetStatus['scope'];
+  period: BudgetStatus['period'];
+  unit: BudgetStatus['unit'];
+  limit: number;
+  spent: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+/**
+ * Check the caller's budgets before calling the provider and hold the estimate
+ * The estimate covers the prompt plus the completion limit. Throws FORBIDDEN
+ * when a hard-capped budget would be exceeded. Returns the hold id, which
+ * recordBudgetSpend settles and releaseBudgetHold gives back.
+ */
+export async function enforceBudgets(
+  budgetService: BudgetService | null,
+  subject: BudgetSubject,
+  estimate: { provider?: string; model?: string; promptTokens: number; maxTokens: number },
+  byok: boolean
+): Promise<string | undefined> {
+  if (!budgetService) return undefined;
+
+  try {
+    const hold = await budgetService.reserveSpend(subject, {
+      tokens: estimate.promptTokens + estimate.maxTokens,
+      costUsd: UsageAnalyticsService.estimateCost(
+        estimate.provider || 'unknown',
+        estimate.model || 'default',
+        estimate.promptTokens,
+        estimate.maxTokens
+      )
+    }, { byok });
+    return hold.id;
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Return the budget hold of a request that failed before producing output
+ */
+export async function releaseBudgetHold(budgetService: BudgetService | null, holdId: string | undefined): Promise<void> {
+  if (!budgetService || !holdId) return;
+
+  try {
+    await budgetService.releaseSpend(holdId);
+  } catch (error) {
+    console.error('❌ Failed to release budget hold:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Count a finished request against the caller's budgets, settling its hold
+ * Failures are logged, never surfaced - the request has already run.
+ */
+export async function recordBudgetSpend(
+  budgetService: BudgetService | null,
+  subject: BudgetSubject,
+  result: ExecuteResult,
+  byok: boolean,
+  holdId?: string
+): Promise<RemainingBudget | null | undefined> {
+  if (!budgetService || !result.usage) return undefined;
+
+  try {
+    const statuses = await budgetService.recordSpend(subject, {
+      tokens: result.usage.totalTokens,
+      costUsd: UsageAnalyticsService.estimateCost(
+        result.provider || 'unknown',
+        result.model,
+        result.usage.promptTokens,
+        result.usage.completionTokens
+      )
+    }, { byok, requestId: result.requestId, holdId });
+
+    const tightest = statuses.reduce<BudgetStatus | null>(
+      (min, status) => !min || status.remaining / status.limit < min.remaining / min.limit ? status : min,
+      null
+    );
+    return tightest && {
+      budgetId: tightest.budgetId,
+      scope: tightest.scope,
+      period: tightest.period,
+      unit: tightest.unit,
+      limit: tightest.limit,
+      spent: tightest.spent,
+      remaining: tightest.remaining,
+      resetsAt: tightest.resetsAt.toISOString()
+    };
+  } catch (error) {
+    console.error('❌ Failed to record budget spend:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+/**
+ * Membership in the caller's active organization
+ * Throws FORBIDDEN when the organization exists but the caller is not a member.
+ */
+export async function resolveOrganization(
+  organizationService: OrganizationService | null,
+  user: { userId: string; organizationId?: string } | null | undefined
+): Promise<OrganizationMember | null> {
+  if (!organizationService || !user) return null;
+
+  try {
+    return await organizationService.resolveActiveMembership(user);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      throw new TRPCError({ code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check a member's monthly limit before reserving from the organization pool
+ */
+export async function enforceMemberAllowance(
+  organizationService: OrganizationService,
+  membership: OrganizationMember,
+  estimatedTokens: number
+): Promise<void> {
+  try {
+    await organizationService.checkMemberAllowance(membership.organizationId, membership.userId, estimatedTokens);
+  } catch (error) {
+    if (error instanceof OrganizationError) {
+      throw new TRPCError({ code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
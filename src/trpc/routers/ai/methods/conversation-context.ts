@@ -0,0 +1,102 @@
+import { TRPCError } from '@trpc/server';
+import type { ChatMessage, ExecuteResult } from '@services/ai/ai-service';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import { estimateMessageTokens } from '@services/conversations/conversation-service';
+
+export interface PreparedConversation {
+  systemPrompt: string;
+  messages?: ChatMessage[];
+  /**
+   * Persist the new turns and the assistant reply (no-op without a threadId)
+   */
+  commit(result: ExecuteResult): Promise<void>;
+}
+
+/**
+ * Resolve the stored thread history for generateText/streamText
+ *
+ * Without a threadId the input is passed through unchanged. With a threadId the
+ * caller must be a signed-in user (not a service account) and own the thread; stored history is prepended
+ * (truncated to the context window) before the new messages. The window comes
+ * from getContextWindow, or the conversation config for unknown models.
+ */
+export async function prepareConversation(
+  conversationService: ConversationService | null,
+  user: { userId: string; principalType?: 'user' | 'service' } | null | undefined,
+  input: {
+    threadId?: string;
+    content?: string;
+    messages?: ChatMessage[];
+    systemPrompt: string;
+    options?: { maxTokens?: number };
+  },
+  getContextWindow?: () => Promise<number | undefined>
+): Promise<PreparedConversation> {
+  if (!input.threadId) {
+    return {
+      systemPrompt: input.systemPrompt,
+      messages: input.messages,
+      commit: async () => {}
+    };
+  }
+
+  if (!conversationService) {
+    throw new TRPCError({
+      code: 'NOT_IMPLEMENTED',
+      message: 'Conversations are not enabled on this server.',
+    });
+  }
+  if (!user?.userId) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required to use conversation threads.',
+    });
+  }
+  if (user.principalType === 'service') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Service accounts cannot use conversation threads. Sign in as a user.',
+    });
+  }
+  const { userId } = user;
+
+  const thread = await conversationService.getThread(userId, input.threadId);
+  if (!thread) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Conversation not found: ${input.threadId}`,
+    });
+  }
+
+  // New turns for this request, in the order they are sent to the model
+  const newTurns: ChatMessage[] = [
+    ...(input.messages || []),
+    ...(input.content ? [{ role: 'user' as const, content: input.content }] : [])
+  ];
+
+  const reservedTokens = estimateMessageTokens({ content: input.systemPrompt })
+    + newTurns.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+  const context = await conversationService.buildContext(thread, {
+    reservedTokens,
+    contextWindowTokens: await getContextWindow?.(),
+    reserveOutputTokens: input.options?.maxTokens
+  });
+
+  if (context.droppedMessages > 0) {
+    console.log(`✂️ Conversation ${thread.id}: ${context.droppedMessages} older messages ${context.summary ? 'summarized' : 'truncated'} to fit context window`);
+  }
+
+  return {
+    systemPrompt: context.summary
+      ? `${input.systemPrompt}\n\nSummary of the earlier conversation:\n${context.summary}`
+      : input.systemPrompt,
+    messages: [...context.messages, ...(input.messages || [])],
+    commit: async (result: ExecuteResult) => {
+      await conversationService.appendMessages(userId, thread.id, [
+        ...newTurns,
+        { role: 'assistant', content: result.content }
+      ]);
+    }
+  };
+}
@@ -5,23 +5,53 @@ import { AIService } from '@services/ai/ai-service';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
 import type { DEFAULT_CONFIG } from '../types';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import { prepareConversation } from './conversation-context';
+import { resolveBilling, releaseBilling, billUsage } from './billing';
+import type { BudgetService } from '@services/billing/budget-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
+import type { OrganizationService } from '@services/organizations/organization-service';
 import { TimingLogger } from '../../../../utils/timing';
 
 /**
- * AI text generation procedures
+ * A conversation turn - assistant turns may carry the tool calls they made,
+ * tool results must reference the call they answer
  */
-export function createGenerationProcedures(
-  mergedConfig: typeof DEFAULT_CONFIG,
-  aiService: AIService,
-  virtualTokenService: VirtualTokenService | null,
-  usageAnalyticsService: UsageAnalyticsService | null,
-  _hybridUserService: any | null
-) {
-  // Create dynamic schemas based on configuration
-  const generateTextSchema = z.object({
+export const chatMessageSchema = z.discriminatedUnion('role', [
+  z.object({
+    role: z.literal('user'),
+    content: z.string(),
+  }),
+  z.object({
+    role: z.literal('assistant'),
+    content: z.string(),
+    toolCalls: z.array(z.object({
+      toolCallId: z.string().min(1),
+      toolName: z.string().min(1),
+      args: z.unknown().optional(),
+    })).optional(),
+  }),
+  z.object({
+    role: z.literal('tool'),
+    content: z.string(),
+    toolCallId: z.string().min(1),
+    toolName: z.string().optional(),
+  }),
+]);
+
+/**
+ * Input schema shared by generateText and streamText, limits come from router config
+ * Content limits apply to the whole conversation (content plus all messages)
+ */
+export function createGenerateTextSchema(mergedConfig: typeof DEFAULT_CONFIG) {
+  return z.object({
     content: z.string()
       .min(mergedConfig.content.minLength)
-      .max(mergedConfig.content.maxLength),
+      .max(mergedConfig.content.maxLength)
+      .optional(),
+    threadId: z.string().optional(), // Server-side conversation thread - history is loaded automatically
+    messages: z.array(chatMessageSchema).optional(),
     systemPrompt: z.string()
       .min(mergedConfig.systemPrompt.minLength)
       .max(mergedConfig.systemPrompt.maxLength),
@@ -40,12 +70,88 @@ export function createGenerationProcedures(
         .optional(),
       temperature: z.number().min(0).max(1).optional(),
     }).optional(),
+  }).superRefine((input, ctx) => {
+    if (!input.content && !input.messages?.length) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Either content or messages must be provided',
+        path: ['content'],
+      });
+      return;
+    }
+
+    const conversationLength = getConversationLength(input);
+    if (conversationLength < mergedConfig.content.minLength || conversationLength > mergedConfig.content.maxLength) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Conversation length must be between ${mergedConfig.content.minLength} and ${mergedConfig.content.maxLength} characters (got ${conversationLength})`,
+        path: ['messages'],
+      });
+    }
+  });
+}
+
+/**
+ * Agent options for generateText - the model may call tools over several steps
+ * Tools are limited to those the caller could use through the MCP endpoint.
+ */
+export const agentOptionsSchema = z.object({
+  maxSteps: z.number().int().min(1).max(20).optional(),
+  allowedTools: z.array(z.string()).optional(),          // Tool names or `prefix*` patterns
+  toolTimeoutMs: z.number().int().min(100).max(300000).optional(),
+  toolTimeouts: z.record(z.string(), z.number().int().min(100).max(300000)).optional(),
+});
+
+/**
+ * Total characters across content and conversation messages
+ */
+export function getConversationLength(input: { content?: string; messages?: Array<{ content: string }> }): number {
+  return (input.content?.length || 0)
+    + (input.messages || []).reduce((total, message) => total + message.content.length, 0);
+}
+
+/**
+ * Rough prompt token estimate (4 chars per token) for balance checks
+ */
+export function estimatePromptTokens(input: { content?: string; messages?: Array<{ content: string }>; systemPrompt: string }): number {
+  return Math.ceil(getConversationLength(input) / 4) + Math.ceil(input.systemPrompt.length / 4);
+}
+
+/**
+ * AI text generation procedures
+ */
+export function createGenerationProcedures(
+  mergedConfig: typeof DEFAULT_CONFIG,
+  aiService: AIService,
+  virtualTokenService: VirtualTokenService | null,
+  usageAnalyticsService: UsageAnalyticsService | null,
+  _hybridUserService: any | null,
+  conversationService: ConversationService | null = null,
+  budgetService: BudgetService | null = null,
+  organizationService: OrganizationService | null = null,
+  trialCreditService: TrialCreditService | null = null,
+  stripeUsageReporter: StripeUsageReporter | null = null
+) {
+  // Create dynamic schemas based on configuration
+  const generateTextSchema = createGenerateTextSchema(mergedConfig).safeExtend({
+    agent: agentOptionsSchema.optional(),
+  });
+
+  const remainingBudgetSchema = z.object({
+    budgetId: z.string(),
+    scope: z.enum(['user', 'api_key', 'organization']),
+    period: z.enum(['daily', 'monthly']),
+    unit: z.enum(['usd', 'tokens']),
+    limit: z.number(),
+    spent: z.number(),
+    remaining: z.number(),
+    resetsAt: z.string(),
   });
 
   return {
     /**
      * Generate structured text completions across supported AI providers.
-     * @description Executes guarded text generation with system prompt protection, token metering, and BYOK handling for authenticated and public callers.
+     * @description Executes guarded text generation with system prompt protection, token metering, and BYOK handling for authenticated and public callers. Pass a `threadId` to continue a server-side conversation. Pass `agent` to let the model call MCP tools over up to `maxSteps` steps; `data.steps` holds the tool call trace and usage covers every step. Requests that would exceed a hard-capped spending budget fail with FORBIDDEN; `remainingBudget` reports the tightest budget left. Members of the active organization without their own key use the organization's provider key or draw from its shared token pool. Signed-in users with neither tokens nor a key spend their free trial credits (`trialUsage`) and get PAYMENT_REQUIRED once the trial has run out.
      * @example
      * ```ts
      * const { data } = await client.ai.generateText.mutate({
@@ -65,180 +171,86 @@ export function createGenerationProcedures(
           tokensCharged: z.number(),
           platformFee: z.number().nullable(),
           remainingBalance: z.number().nullable(),
+          remainingBudget: remainingBudgetSchema.nullable().optional(),
         }).optional(),
         usageInfo: z.object({
           tokensUsed: z.number(),
-          estimatedCostUsd: z.number()
+          estimatedCostUsd: z.number(),
+          remainingBudget: remainingBudgetSchema.nullable().optional(),
+        }).optional(),
+        trialUsage: z.object({
+          tokensUsed: z.number(),
+          tokensRemaining: z.number(),
+          requestsRemaining: z.number().nullable(),
+          expiresAt: z.string(),
         }).optional()
       }))
       .mutation(async ({ input, ctx }) => {
         const timing = new TimingLogger('AI');
 
-        const { content, systemPrompt, provider, metadata, options } = input;
+        const { content, provider, metadata, options } = input;
         const { user } = ctx;
         const userId = user?.userId;
-        const apiKey = input.apiKey || ctx.apiKey;
-        let t1 = timing.checkpoint('Input parsed');
-
-        // Determine user type and execution path
-        if (userId && usageAnalyticsService) {
-          // Authenticated user - determine if subscription or BYOK
-          const userStatus = await usageAnalyticsService.getUserStatus(userId);
-
-          // Subscription user with token tracking
-          if (userStatus.userType === 'subscription' && virtualTokenService) {
-            // Ensure user account exists
-            await virtualTokenService.ensureUserAccount(userId, ctx.user?.email);
-
-            // Estimate tokens (rough estimate: 4 chars per token)
-            const estimatedTokens = Math.ceil(content.length / 4) + Math.ceil(systemPrompt.length / 4);
-
-            // Check token balance
-            const hasBalance = await virtualTokenService.checkTokenBalance(userId, estimatedTokens);
-            if (!hasBalance) {
-              throw new TRPCError({
-                code: 'PAYMENT_REQUIRED',
-                message: 'Insufficient token balance. Please top up your account to continue.',
-              });
-            }
-
-            try {
-              // Execute AI request
-              const result = await aiService.execute({
-                content,
-                systemPrompt,
-                metadata: { ...metadata, provider },
-                options,
-              });
-
-              // Deduct actual tokens used
-              if (result.usage?.totalTokens) {
-                const deductionResult = await virtualTokenService.deductTokens(
-                  userId,
-                  result.usage.totalTokens,
-                  result.provider || 'unknown',
-                  result.model,
-                  result.requestId,
-                  'generateText'
-                );
-
-                return {
-                  success: true as const,
-                  data: result,
-                  tokenUsage: {
-                    tokensUsed: result.usage.totalTokens,
-                    tokensCharged: deductionResult.tokensDeducted,
-                    platformFee: deductionResult.platformFee,
-                    remainingBalance: deductionResult.newBalance,
-                  },
-                };
-              }
-
-              return {
-                success: true as const,
-                data: result,
-              };
-            } catch (error) {
-              throw new TRPCError({
-                code: 'INTERNAL_SERVER_ERROR',
-                message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              });
-            }
-          }
-        } else if (userId && apiKey) {
-          // Authenticated BYOK user - track usage but don't limit
-          try {
-            const result = await aiService.execute({
-              content,
-              systemPrompt,
-              metadata,
-              options,
-              apiKey,
-            });
-
-            // Record usage for analytics (no limiting)
-            if (usageAnalyticsService && result.usage) {
-              const estimatedCost = UsageAnalyticsService.estimateCost(
-                result.provider || 'unknown',
-                result.model,
-                result.usage.promptTokens,
-                result.usage.completionTokens
-              );
-
-              await usageAnalyticsService.recordUsage({
-                userId,
-                userType: 'byok',
-                provider: result.provider || 'unknown',
-                model: result.model,
-                inputTokens: result.usage.promptTokens,
-                outputTokens: result.usage.completionTokens,
-                totalTokens: result.usage.totalTokens,
-                estimatedCostUsd: estimatedCost,
-                requestId: result.requestId,
-                method: 'generateText',
-                metadata
-              });
-            }
-
-            return {
-              success: true as const,
-              data: result,
-              usageInfo: result.usage ? {
-                tokensUsed: result.usage.totalTokens,
-                estimatedCostUsd: UsageAnalyticsService.estimateCost(
-                  result.provider || 'unknown',
-                  result.model,
-                  result.usage.promptTokens,
-                  result.usage.completionTokens
-                )
-              } : undefined
-            };
-          } catch (error) {
-            throw new TRPCError({
-              code: 'INTERNAL_SERVER_ERROR',
-              message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            });
-          }
-        } else {
-          // Public/unauthenticated usage with BYOK
-          if (!apiKey) {
-            throw new TRPCError({
-              code: 'BAD_REQUEST',
-              message: 'API key required for public usage. Please provide your AI provider API key.',
-            });
-          }
-
-          try {
-            let t2 = timing.checkpoint('Calling aiService.execute (public/BYOK)', t1);
-
-            const result = await aiService.execute({
-              content,
-              systemPrompt,
-              metadata: { ...metadata, provider },
-              options,
-              apiKey,
-            });
-
-            timing.checkpoint('AI execution completed', t2);
-            timing.end();
-
-            return {
-              success: true as const,
-              data: result,
-            };
-          } catch (error) {
-            throw new TRPCError({
-              code: 'INTERNAL_SERVER_ERROR',
-              message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            });
-          }
-        }
+        const agent = input.agent && { ...input.agent, user };
+
+        // Load thread history when a threadId is given (no-op otherwise)
+        const conversation = await prepareConversation(conversationService, user, input,
+          () => aiService.getContextWindow(provider, options?.model));
+        const { systemPrompt, messages } = conversation;
+        const t1 = timing.checkpoint('Input parsed');
 
-        // Default fallback - should not reach here normally
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Unable to process request - invalid execution path',
-        });
+        // Determine billing up front - subscriptions and organization pools hold the
+        // most this request can cost (whole conversation plus maxTokens, for every agent step)
+        const steps = agent ? aiService.getAgentMaxSteps(agent) : 1;
+        const billing = {
+          virtualTokenService, usageAnalyticsService, trialCreditService, budgetService, organizationService, stripeUsageReporter
+        };
+        const billingContext = await resolveBilling(
+          billing,
+          {
+            userId, email: user?.email, emailVerified: user?.emailVerified, deviceId: ctx.deviceId,
+            tier: user?.subscriptionTier, organizationId: user?.organizationId,
+            apiKey: input.apiKey, headerApiKey: ctx.apiKey ?? undefined
+          },
+          {
+            promptTokens: estimatePromptTokens({ content, messages, systemPrompt }) * steps,
+            maxTokens: (options?.maxTokens ?? mergedConfig.tokens.defaultMaxTokens) * steps
+          },
+          'generateText',
+          { provider, model: options?.model }
+        );
+
+        try {
+          const t2 = timing.checkpoint(`Calling aiService.execute (${billingContext.mode})`, t1);
+
+          const result = await aiService.execute({
+            content,
+            messages,
+            systemPrompt,
+            metadata: { ...metadata, provider: billingContext.provider ?? provider },
+            options,
+            apiKey: billingContext.apiKey,
+            agent,
+          });
+          await conversation.commit(result);
+
+          timing.checkpoint('AI execution completed', t2);
+          timing.end();
+
+          // Capture actual tokens used (the rest of the hold is released), charge the trial or record BYOK usage
+          return {
+            success: true as const,
+            data: result,
+            ...(await billUsage(billing, billingContext, userId, result, 'generateText', metadata))
+          };
+        } catch (error) {
+          // Nothing to charge - return the holds (no-op once captured)
+          await releaseBilling(billing, billingContext);
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
       }),
   };
 }
@@ -2,13 +2,28 @@ import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { publicProcedure } from '../../../index';
 import { AIService } from '@services/ai/ai-service';
+import { PricingCatalog, getDefaultPricingCatalog } from '@services/billing/pricing-catalog';
 
 /**
  * AI provider management procedures
  */
 export function createProviderProcedures(
-  aiService: AIService
+  aiService: AIService,
+  pricingCatalog: PricingCatalog = getDefaultPricingCatalog()
 ) {
+  // Current catalog price per model (USD per 1M tokens unless the catalog says otherwise)
+  const getModelPricing = (provider: string, models: string[]) =>
+    Object.fromEntries(models.map(model => {
+      const price = pricingCatalog.getPrice(provider, model);
+      return [model, price ? {
+        input: price.input,
+        output: price.output,
+        cachedInput: price.cachedInput ?? price.input,
+        currency: price.currency,
+        effectiveFrom: price.effectiveFrom
+      } : null];
+    }));
+
   return {
     /**
      * List available AI service providers.
@@ -60,14 +75,16 @@ export function createProviderProcedures(
 
     /**
      * List allowed models for a provider (respects model restrictions)
-     * Returns production-ready model IDs that can be used directly with AI SDKs
+     * Returns production-ready model IDs that can be used directly with AI SDKs,
+     * with per-model pricing from the pricing catalog (null when unpriced)
      */
     listAllowedModels: publicProcedure
       .input(z.object({
-        provider: z.enum(['anthropic', 'openai', 'google', 'openrouter']).optional()
+        provider: z.enum(['anthropic', 'openai', 'google', 'openrouter']).optional(),
+        includePricing: z.boolean().optional().describe('All providers: return { models, pricing } instead of the plain model map')
       }).optional())
       .query(async ({ input }) => {
-        const { provider } = input || {};
+        const { provider, includePricing } = input || {};
 
         if (provider) {
           const detailedModels = await aiService.getAvailableModelsDetailed(provider);
@@ -78,7 +95,8 @@ export function createProviderProcedures(
           return {
             provider,
             models,
-            count: models.length
+            count: models.length,
+            pricing: getModelPricing(provider, models)
           };
         } else {
           // All providers
@@ -91,6 +109,15 @@ export function createProviderProcedures(
             );
           }
 
+          if (includePricing) {
+            return {
+              models: allModels,
+              pricing: Object.fromEntries(
+                Object.entries(allModels).map(([name, models]) => [name, getModelPricing(name, models)])
+              )
+            };
+          }
+
           return allModels;
         }
       }),
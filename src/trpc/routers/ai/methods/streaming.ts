@@ -0,0 +1,162 @@
+import { TRPCError } from '@trpc/server';
+import { publicProcedure } from '../../../index';
+import { AIService, type ExecuteResult } from '@services/ai/ai-service';
+import { VirtualTokenService } from '@services/billing/virtual-token-service';
+import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
+import type { BudgetService } from '@services/billing/budget-service';
+import type { OrganizationService } from '@services/organizations/organization-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
+import type { DEFAULT_CONFIG } from '../types';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import { createGenerateTextSchema, estimatePromptTokens } from './generation';
+import { prepareConversation } from './conversation-context';
+import { resolveBilling, releaseBilling, billUsage } from './billing';
+import { TimingLogger } from '../../../../utils/timing';
+
+/**
+ * AI streaming procedures
+ */
+export function createStreamingProcedures(
+  mergedConfig: typeof DEFAULT_CONFIG,
+  aiService: AIService,
+  virtualTokenService: VirtualTokenService | null,
+  usageAnalyticsService: UsageAnalyticsService | null,
+  conversationService: ConversationService | null = null,
+  trialCreditService: TrialCreditService | null = null,
+  budgetService: BudgetService | null = null,
+  organizationService: OrganizationService | null = null,
+  stripeUsageReporter: StripeUsageReporter | null = null
+) {
+  const generateTextSchema = createGenerateTextSchema(mergedConfig);
+
+  return {
+    /**
+     * Stream text completions as they are generated.
+     * @description Same input and billing rules as generateText, but emits `delta` events while the provider streams and a final `done` event with the full result. If the client disconnects early, the tokens streamed so far are still billed.
+     * @example
+     * ```ts
+     * client.ai.streamText.subscribe({
+     *   content: 'Explain event sourcing in three paragraphs.',
+     *   systemPrompt: 'You are a concise technical writer.',
+     * }, {
+     *   onData: (event) => event.type === 'delta' && process.stdout.write(event.text),
+     * });
+     * ```
+     */
+    streamText: publicProcedure
+      .input(generateTextSchema)
+      .subscription(async function* ({ input, ctx, signal }) {
+        const timing = new TimingLogger('AI');
+
+        const { content, provider, metadata, options } = input;
+        const userId = ctx.user?.userId;
+
+        // Load thread history when a threadId is given (no-op otherwise)
+        const conversation = await prepareConversation(conversationService, ctx.user, input,
+          () => aiService.getContextWindow(provider, options?.model));
+        const { systemPrompt, messages } = conversation;
+        const estimatedPromptTokens = estimatePromptTokens({ content, messages, systemPrompt });
+
+        // Determine billing up front (subscriptions hold their maximum) - same rules as generateText
+        const billing = {
+          virtualTokenService, usageAnalyticsService, trialCreditService, budgetService, organizationService, stripeUsageReporter
+        };
+        const billingContext = await resolveBilling(
+          billing,
+          {
+            userId, email: ctx.user?.email, emailVerified: ctx.user?.emailVerified, deviceId: ctx.deviceId,
+            tier: ctx.user?.subscriptionTier, organizationId: ctx.user?.organizationId,
+            apiKey: input.apiKey, headerApiKey: ctx.apiKey ?? undefined
+          },
+          {
+            promptTokens: estimatedPromptTokens,
+            maxTokens: options?.maxTokens ?? mergedConfig.tokens.defaultMaxTokens
+          },
+          'streamText',
+          { provider, model: options?.model }
+        );
+
+        /**
+         * Bill final (or partial) usage for this stream
+         */
+        const billStream = (result: ExecuteResult, partial: boolean) =>
+          billUsage(billing, billingContext, userId, result, 'streamText', partial ? { ...metadata, partial: true } : metadata);
+
+        let streamedText = '';
+        let completed = false;
+        // Provider and model the request resolved to, reported by the stream's start event
+        let resolved: { provider?: string; model?: string } = { provider: billingContext.provider ?? provider, model: options?.model };
+
+        try {
+          const events = aiService.stream({
+            content,
+            messages,
+            systemPrompt,
+            metadata: { ...metadata, provider: billingContext.provider ?? provider },
+            options,
+            apiKey: billingContext.apiKey,
+          }, { abortSignal: signal });
+
+          for await (const event of events) {
+            if (event.type === 'start') {
+              resolved = { provider: event.provider, model: event.model };
+              continue;
+            }
+            if (event.type === 'text-delta') {
+              streamedText += event.text;
+              yield { type: 'delta' as const, text: event.text };
+              continue;
+            }
+
+            completed = true;
+            await conversation.commit(event.result);
+            const billingInfo = await billStream(event.result, false);
+            timing.end();
+
+            yield {
+              type: 'done' as const,
+              success: true as const,
+              data: event.result,
+              ...billingInfo
+            };
+          }
+        } catch (error) {
+          if (error instanceof TRPCError) {
+            throw error;
+          }
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        } finally {
+          // Client went away mid-stream - bill what was already generated
+          if (!completed && streamedText.length > 0) {
+            const completionTokens = Math.ceil(streamedText.length / 4);
+            const partialResult: ExecuteResult = {
+              content: streamedText,
+              usage: {
+                promptTokens: estimatedPromptTokens,
+                completionTokens,
+                totalTokens: estimatedPromptTokens + completionTokens
+              },
+              model: resolved.model || 'unknown',
+              provider: resolved.provider,
+              requestId: crypto.randomUUID(),
+              finishReason: 'aborted'
+            };
+
+            try {
+              await billStream(partialResult, true);
+              console.log(`⚠️ Stream aborted after ${completionTokens} tokens - partial usage billed`);
+            } catch (billingError) {
+              console.error('❌ Failed to bill partial stream usage:', billingError);
+            }
+          } else if (!completed) {
+            // Failed before any output - return the token hold
+            await releaseBilling(billing, billingContext);
+          }
+        }
+      }),
+  };
+}
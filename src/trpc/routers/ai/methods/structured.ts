@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { publicProcedure } from '../../../index';
+import { AIService } from '@services/ai/ai-service';
+import { StructuredOutputError } from '@services/ai/structured-output';
+import { VirtualTokenService } from '@services/billing/virtual-token-service';
+import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
+import type { BudgetService } from '@services/billing/budget-service';
+import type { OrganizationService } from '@services/organizations/organization-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
+import type { DEFAULT_CONFIG } from '../types';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import { createGenerateTextSchema, estimatePromptTokens } from './generation';
+import { prepareConversation } from './conversation-context';
+import { resolveBilling, releaseBilling, billUsage } from './billing';
+
+/**
+ * Input schema for generateObject: generateText input plus the output schema
+ */
+export function createGenerateObjectSchema(mergedConfig: typeof DEFAULT_CONFIG) {
+  return createGenerateTextSchema(mergedConfig)
+    .safeExtend({
+      schema: z.record(z.string(), z.any()).optional(),  // Inline JSON Schema (object root)
+      schemaId: z.string().optional(),                    // Schema registered in schemaRegistry
+      schemaName: z.string().optional(),
+      schemaDescription: z.string().optional(),
+      maxRepairAttempts: z.number().int().min(0).max(5).optional(),
+    })
+    .refine(input => Boolean(input.schema) !== Boolean(input.schemaId), {
+      message: 'Provide exactly one of schema or schemaId',
+      path: ['schema'],
+    });
+}
+
+/**
+ * AI structured output procedures
+ */
+export function createStructuredOutputProcedures(
+  mergedConfig: typeof DEFAULT_CONFIG,
+  aiService: AIService,
+  virtualTokenService: VirtualTokenService | null,
+  usageAnalyticsService: UsageAnalyticsService | null,
+  conversationService: ConversationService | null = null,
+  trialCreditService: TrialCreditService | null = null,
+  budgetService: BudgetService | null = null,
+  organizationService: OrganizationService | null = null,
+  stripeUsageReporter: StripeUsageReporter | null = null
+) {
+  const generateObjectSchema = createGenerateObjectSchema(mergedConfig);
+
+  return {
+    /**
+     * Generate a JSON object that matches a schema.
+     * @description Pass an inline JSON Schema or the id of a schema registered in `schemaRegistry`. Providers with native JSON mode are constrained to the schema; the result is always validated and invalid output is sent back to the model with the validation errors (up to `maxRepairAttempts`, default 2). Billing follows generateText and includes repair attempts.
+     * @example
+     * ```ts
+     * const { data } = await client.ai.generateObject.mutate({
+     *   content: 'Ada Lovelace, born 1815 in London',
+     *   systemPrompt: 'Extract the person described.',
+     *   schema: {
+     *     type: 'object',
+     *     properties: { name: { type: 'string' }, birthYear: { type: 'integer' } },
+     *     required: ['name', 'birthYear'],
+     *   },
+     * });
+     * console.log(data.object.birthYear);
+     * ```
+     */
+    generateObject: publicProcedure
+      .input(generateObjectSchema)
+      .mutation(async ({ input, ctx }) => {
+        const { content, provider, metadata, options, schema, schemaId, schemaName, schemaDescription, maxRepairAttempts } = input;
+        const userId = ctx.user?.userId;
+
+        // Load thread history when a threadId is given (no-op otherwise)
+        const conversation = await prepareConversation(conversationService, ctx.user, input,
+          () => aiService.getContextWindow(provider, options?.model));
+        const { systemPrompt, messages } = conversation;
+
+        const billing = {
+          virtualTokenService, usageAnalyticsService, trialCreditService, budgetService, organizationService, stripeUsageReporter
+        };
+        // Repair attempts resend the prompt, but the hold covers one request - overage is captured from the balance
+        const billingContext = await resolveBilling(
+          billing,
+          {
+            userId, email: ctx.user?.email, emailVerified: ctx.user?.emailVerified, deviceId: ctx.deviceId,
+            tier: ctx.user?.subscriptionTier, organizationId: ctx.user?.organizationId,
+            apiKey: input.apiKey, headerApiKey: ctx.apiKey ?? undefined
+          },
+          {
+            promptTokens: estimatePromptTokens({ content, messages, systemPrompt }),
+            maxTokens: options?.maxTokens ?? mergedConfig.tokens.defaultMaxTokens
+          },
+          'generateObject',
+          { provider, model: options?.model }
+        );
+
+        try {
+          const result = await aiService.generateObject({
+            content,
+            messages,
+            systemPrompt,
+            metadata: { ...metadata, provider: billingContext.provider ?? provider },
+            options,
+            apiKey: billingContext.apiKey,
+            schema,
+            schemaId,
+            schemaName,
+            schemaDescription,
+            maxRepairAttempts,
+          });
+          await conversation.commit(result);
+
+          return {
+            success: true as const,
+            data: result,
+            ...(await billUsage(billing, billingContext, userId, result, 'generateObject', metadata))
+          };
+        } catch (error) {
+          await releaseBilling(billing, billingContext);
+          if (error instanceof StructuredOutputError) {
+            throw new TRPCError({
+              code: error.reason === 'schema_not_found' ? 'BAD_REQUEST' : 'UNPROCESSABLE_CONTENT',
+              message: error.message,
+              cause: error,
+            });
+          }
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: `AI service error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          });
+        }
+      }),
+  };
+}
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { protectedProcedure } from '../../../index';
+import { userProcedure } from '../../../index';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
 
@@ -16,7 +16,7 @@ export function createTokensProcedures(
     /**
      * Get user's token balances (all types)
      */
-    getUserTokenBalances: protectedProcedure
+    getUserTokenBalances: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -48,7 +48,7 @@ export function createTokensProcedures(
     /**
      * Plan token consumption for a request (preview before execution)
      */
-    planConsumption: protectedProcedure
+    planConsumption: userProcedure
       .input(z.object({
         estimatedTokens: z.number().min(1).max(1000000),
         hasApiKey: z.boolean().default(false)
@@ -82,7 +82,7 @@ export function createTokensProcedures(
     /**
      * Get consumption history for user
      */
-    getConsumptionHistory: protectedProcedure
+    getConsumptionHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(100).default(20)
       }))
@@ -101,7 +101,7 @@ export function createTokensProcedures(
     /**
      * Get user's token balance (requires authentication)
      */
-    getTokenBalance: protectedProcedure
+    getTokenBalance: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!virtualTokenService) {
@@ -134,7 +134,7 @@ export function createTokensProcedures(
     /**
      * Get user's token usage history (requires authentication)
      */
-    getUsageHistory: protectedProcedure
+    getUsageHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(100).default(20),
       }))
@@ -153,7 +153,7 @@ export function createTokensProcedures(
     /**
      * Get user's token purchase history (requires authentication)
      */
-    getTopupHistory: protectedProcedure
+    getTopupHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(50).default(10),
       }))
@@ -172,7 +172,7 @@ export function createTokensProcedures(
     /**
      * Get user's complete usage analytics (for both subscription and BYOK users)
      */
-    getUsageAnalytics: protectedProcedure
+    getUsageAnalytics: userProcedure
       .input(z.object({
         days: z.number().min(1).max(365).default(30),
         includeHistory: z.boolean().default(false),
@@ -205,7 +205,7 @@ export function createTokensProcedures(
     /**
      * Get user's purchase history (both subscription and one-time)
      */
-    getPurchaseHistory: protectedProcedure
+    getPurchaseHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(50).default(10),
         type: z.enum(['all', 'subscription', 'one_time']).default('all'),
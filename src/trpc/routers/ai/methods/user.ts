@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { protectedProcedure } from '../../../index';
+import { userProcedure } from '../../../index';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
 
@@ -17,7 +17,7 @@ export function createUserProcedures(
     /**
      * Get user profile with capabilities and preferences (hybrid users)
      */
-    getUserProfile: protectedProcedure
+    getUserProfile: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -40,7 +40,7 @@ export function createUserProcedures(
     /**
      * Update user consumption preferences
      */
-    updateUserPreferences: protectedProcedure
+    updateUserPreferences: userProcedure
       .input(z.object({
         consumptionOrder: z.array(z.enum(['subscription', 'one_time', 'byok'])).optional(),
         byokEnabled: z.boolean().optional(),
@@ -67,7 +67,7 @@ export function createUserProcedures(
     /**
      * Configure BYOK providers for user (SECURE - API keys stored server-side)
      */
-    configureBYOK: protectedProcedure
+    configureBYOK: userProcedure
       .input(z.object({
         providers: z.record(z.string(), z.object({
           enabled: z.boolean(),
@@ -108,7 +108,7 @@ export function createUserProcedures(
     /**
      * Get BYOK configuration status (without exposing API keys)
      */
-    getBYOKStatus: protectedProcedure
+    getBYOKStatus: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -148,7 +148,7 @@ export function createUserProcedures(
     /**
      * Get user status (subscription vs BYOK, purchase history)
      */
-    getUserStatus: protectedProcedure
+    getUserStatus: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!usageAnalyticsService) {
@@ -178,7 +178,7 @@ export function createUserProcedures(
     /**
      * Check if user can make AI requests (subscription users need tokens, BYOK users need API key)
      */
-    checkRequestEligibility: protectedProcedure
+    checkRequestEligibility: userProcedure
       .input(z.object({
         estimatedTokens: z.number().min(1).default(1000),
         hasApiKey: z.boolean().default(false),
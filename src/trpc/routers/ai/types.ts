@@ -4,6 +4,15 @@
 
 import { PostgreSQLAdapter } from '@database/postgres-adapter';
 import { PostgreSQLRPCMethods } from '@auth/PostgreSQLRPCMethods';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import type { ProviderFailoverConfig } from '@services/ai/provider-failover';
+import type { AgentServiceConfig } from '@services/ai/agent-tools';
+import type { PricingCatalog } from '@services/billing/pricing-catalog';
+import type { BillingRules } from '@services/billing/billing-rules';
+import type { BudgetService } from '@services/billing/budget-service';
+import type { OrganizationService } from '@services/organizations/organization-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
+import type { StripeUsageReporter } from '@services/billing/stripe-usage-reporter';
 
 // Configurable limits interface
 export interface AIRouterConfig {
@@ -147,6 +156,15 @@ export function createServiceProvidersConfig(providers: string[]): Record<string
 // Router configuration interface for factory function
 export interface AIRouterFactoryConfig {
   config?: AIRouterConfig;
+  conversationService?: ConversationService;
+  failover?: ProviderFailoverConfig;
+  agent?: AgentServiceConfig;
+  pricingCatalog?: PricingCatalog;
+  billingRules?: BillingRules;
+  budgetService?: BudgetService;
+  organizationService?: OrganizationService;
+  trialCreditService?: TrialCreditService;
+  stripeUsageReporter?: StripeUsageReporter;
   tokenTrackingEnabled?: boolean;
   dbAdapter?: PostgreSQLAdapter;
   serverProviders?: string[];
@@ -1,10 +1,10 @@
 /**
- * Auth Router - BYOK API key management
+ * Auth Router - BYOK API key management (users only, not service accounts)
  */
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, protectedProcedure } from '@src-trpc/index';
+import { router, userProcedure } from '@src-trpc/index';
 import { PostgreSQLRPCMethods } from '@auth/PostgreSQLRPCMethods';
 
 export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): ReturnType<typeof router> {
@@ -12,7 +12,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Store user API key (BYOK)
      */
-    storeUserKey: protectedProcedure
+    storeUserKey: userProcedure
       .input(z.object({
         email: z.string().email(),
         provider: z.enum(['anthropic', 'openai', 'google']),
@@ -49,7 +49,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Get user API key status (without exposing the key)
      */
-    getUserKey: protectedProcedure
+    getUserKey: userProcedure
       .input(z.object({
         email: z.string().email(),
         provider: z.enum(['anthropic', 'openai', 'google']),
@@ -87,7 +87,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Get all configured providers for a user
      */
-    getUserProviders: protectedProcedure
+    getUserProviders: userProcedure
       .input(z.object({
         email: z.string().email(),
       }))
@@ -125,7 +125,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Validate user API key
      */
-    validateUserKey: protectedProcedure
+    validateUserKey: userProcedure
       .input(z.object({
         email: z.string().email(),
         provider: z.enum(['anthropic', 'openai', 'google']),
@@ -159,7 +159,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Rotate (update) user API key
      */
-    rotateUserKey: protectedProcedure
+    rotateUserKey: userProcedure
       .input(z.object({
         email: z.string().email(),
         provider: z.enum(['anthropic', 'openai', 'google']),
@@ -196,7 +196,7 @@ export function createAuthRouter(postgresRPCMethods?: PostgreSQLRPCMethods): Ret
     /**
      * Delete user API key
      */
-    deleteUserKey: protectedProcedure
+    deleteUserKey: userProcedure
       .input(z.object({
         email: z.string().email(),
         provider: z.enum(['anthropic', 'openai', 'google']),
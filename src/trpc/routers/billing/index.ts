@@ -4,9 +4,14 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, protectedProcedure } from '@src-trpc/index';
+import { router, userProcedure } from '@src-trpc/index';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import type { StripeCheckoutService } from '@services/billing/stripe-checkout';
+import { StripeApiError } from '@services/billing/stripe-client';
+import { BudgetService } from '@services/billing/budget-service';
+import type { StatementService } from '@services/billing/statement-service';
+import { usageQueryInputSchema, usageExportInputSchema, runUsageQuery, scopeUsageQuery, toUsageQuery } from './usage-query';
 
 interface HybridUserService {
   getUserTokenBalances(userId: string): Promise<any[]>;
@@ -17,13 +22,62 @@ interface HybridUserService {
 export function createBillingRouter(
   virtualTokenService: VirtualTokenService | null,
   usageAnalyticsService: UsageAnalyticsService | null,
-  hybridUserService: HybridUserService | null
+  hybridUserService: HybridUserService | null,
+  stripeCheckout: StripeCheckoutService | null = null,
+  budgetService: BudgetService | null = null,
+  statementService: StatementService | null = null
 ): ReturnType<typeof router> {
+  const requireBudgetService = (): BudgetService => {
+    if (!budgetService) {
+      throw new TRPCError({
+        code: 'NOT_IMPLEMENTED',
+        message: 'Spending budgets are not enabled on this server.',
+      });
+    }
+    return budgetService;
+  };
+
   return router({
+    /**
+     * Start a Stripe Checkout session for a configured price (requires authentication)
+     * Tokens are granted by the Stripe webhook once the payment succeeds.
+     */
+    createCheckout: userProcedure
+      .input(z.object({
+        priceId: z.string().min(1),
+        quantity: z.number().int().min(1).max(1000).optional(),
+        successUrl: z.string().url().optional(),
+        cancelUrl: z.string().url().optional()
+      }))
+      .mutation(async ({ input, ctx }) => {
+        if (!stripeCheckout) {
+          throw new TRPCError({
+            code: 'NOT_IMPLEMENTED',
+            message: 'Stripe checkout is not enabled on this server.',
+          });
+        }
+
+        try {
+          return await stripeCheckout.createCheckout({ userId: ctx.user!.userId, email: ctx.user!.email }, input);
+        } catch (error) {
+          if (error instanceof StripeApiError) {
+            console.error('❌ Stripe checkout failed:', error.message);
+            throw new TRPCError({
+              code: 'BAD_GATEWAY',
+              message: 'Payment provider rejected the checkout request.',
+            });
+          }
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Checkout failed',
+          });
+        }
+      }),
+
     /**
      * Get user's token balances (all types)
      */
-    getUserTokenBalances: protectedProcedure
+    getUserTokenBalances: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -55,7 +109,7 @@ export function createBillingRouter(
     /**
      * Plan token consumption for a request (preview before execution)
      */
-    planConsumption: protectedProcedure
+    planConsumption: userProcedure
       .input(z.object({
         estimatedTokens: z.number().min(1).max(1000000),
         hasApiKey: z.boolean().default(false)
@@ -89,7 +143,7 @@ export function createBillingRouter(
     /**
      * Get consumption history for user
      */
-    getConsumptionHistory: protectedProcedure
+    getConsumptionHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(100).default(20)
       }))
@@ -108,7 +162,7 @@ export function createBillingRouter(
     /**
      * Get user's token balance (requires authentication)
      */
-    getTokenBalance: protectedProcedure
+    getTokenBalance: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!virtualTokenService) {
@@ -141,7 +195,7 @@ export function createBillingRouter(
     /**
      * Get user's token usage history (requires authentication)
      */
-    getUsageHistory: protectedProcedure
+    getUsageHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(100).default(20),
       }))
@@ -160,7 +214,7 @@ export function createBillingRouter(
     /**
      * Get user's token purchase history (requires authentication)
      */
-    getTopupHistory: protectedProcedure
+    getTopupHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(50).default(10),
       }))
@@ -179,7 +233,7 @@ export function createBillingRouter(
     /**
      * Get user's complete usage analytics (for both subscription and BYOK users)
      */
-    getUsageAnalytics: protectedProcedure
+    getUsageAnalytics: userProcedure
       .input(z.object({
         days: z.number().min(1).max(365).default(30),
         includeHistory: z.boolean().default(false),
@@ -209,10 +263,43 @@ export function createBillingRouter(
         };
       }),
 
+    /**
+     * Query the caller's usage with time buckets, grouping, filters and cursor pagination
+     */
+    queryUsage: userProcedure
+      .input(usageQueryInputSchema)
+      .query(async ({ input, ctx }) => {
+        if (!usageAnalyticsService) {
+          throw new TRPCError({
+            code: 'NOT_IMPLEMENTED',
+            message: 'Usage analytics is not enabled on this server.',
+          });
+        }
+
+        return runUsageQuery(() => usageAnalyticsService.queryUsage(scopeUsageQuery(toUsageQuery(input), ctx.user!.userId)));
+      }),
+
+    /**
+     * Export the caller's usage query as CSV or NDJSON
+     */
+    exportUsage: userProcedure
+      .input(usageExportInputSchema)
+      .query(async ({ input, ctx }) => {
+        if (!usageAnalyticsService) {
+          throw new TRPCError({
+            code: 'NOT_IMPLEMENTED',
+            message: 'Usage analytics is not enabled on this server.',
+          });
+        }
+
+        const { format, maxRows, ...query } = input;
+        return usageAnalyticsService.exportUsage(scopeUsageQuery(toUsageQuery(query), ctx.user!.userId), format, maxRows);
+      }),
+
     /**
      * Get user's purchase history (both subscription and one-time)
      */
-    getPurchaseHistory: protectedProcedure
+    getPurchaseHistory: userProcedure
       .input(z.object({
         limit: z.number().min(1).max(50).default(10),
         type: z.enum(['all', 'subscription', 'one_time']).default('all'),
@@ -251,6 +338,108 @@ export function createBillingRouter(
           }
         };
       }),
+
+    /**
+     * Current spend of every budget that applies to the caller
+     * Covers the user, the provider key sent in X-API-Key and the organization.
+     */
+    getBudgets: userProcedure
+      .input(z.void())
+      .query(async ({ ctx }) => {
+        const budgets = await requireBudgetService().getStatus({
+          userId: ctx.user!.userId,
+          apiKey: ctx.apiKey || undefined,
+          organizationId: ctx.user!.organizationId
+        });
+        return { budgets };
+      }),
+
+    /**
+     * Set a self-imposed budget for the caller or one of their provider keys
+     * Self-imposed budgets also cap BYOK requests. Service accounts cannot change budgets.
+     */
+    setBudget: userProcedure
+      .input(z.object({
+        scope: z.enum(['user', 'api_key']).default('user'),
+        apiKey: z.string().min(1).optional(), // Key to cap (default: X-API-Key header)
+        period: z.enum(['daily', 'monthly']),
+        unit: z.enum(['usd', 'tokens']),
+        limit: z.number().positive(),
+        alertThresholds: z.array(z.number().int().min(1).max(100)).max(10).optional(),
+        hardCap: z.boolean().default(true),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const service = requireBudgetService();
+        const userId = ctx.user!.userId;
+
+        let scopeId = userId;
+        if (input.scope === 'api_key') {
+          const apiKey = input.apiKey || ctx.apiKey;
+          if (!apiKey) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'An API key is required for an api_key budget.',
+            });
+          }
+          scopeId = BudgetService.apiKeyScopeId(apiKey);
+        }
+
+        const budget = await service.setBudget({
+          scope: input.scope,
+          scopeId,
+          period: input.period,
+          unit: input.unit,
+          limit: input.limit,
+          alertThresholds: input.alertThresholds,
+          hardCap: input.hardCap,
+          selfImposed: true,
+          createdBy: userId
+        });
+        return { budget };
+      }),
+
+    /**
+     * Remove one of the caller's self-imposed budgets
+     */
+    deleteBudget: userProcedure
+      .input(z.object({ budgetId: z.string().min(1) }))
+      .mutation(async ({ input, ctx }) => {
+        const service = requireBudgetService();
+        const budget = await service.getBudget(input.budgetId);
+
+        if (!budget || !budget.selfImposed || budget.createdBy !== ctx.user!.userId) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: `Budget ${input.budgetId} not found`,
+          });
+        }
+
+        await service.deleteBudget(budget.id);
+        return { success: true };
+      }),
+
+    /**
+     * Monthly statement: usage by provider/model/method with fees, top-ups and refunds
+     * Closed months return the stored snapshot; the current month is built live.
+     */
+    getStatement: userProcedure
+      .input(z.object({
+        period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional(), // 'YYYY-MM' (default: current month)
+        format: z.enum(['json', 'csv', 'html']).default('json'),
+      }))
+      .query(async ({ input, ctx }) => {
+        if (!statementService) {
+          throw new TRPCError({
+            code: 'NOT_IMPLEMENTED',
+            message: 'Token tracking is not enabled on this server.',
+          });
+        }
+
+        const period = input.period ?? new Date().toISOString().slice(0, 7);
+        const statement = await statementService.getStatement(ctx.user!.userId, period);
+        const { contentType, content } = await statementService.render(statement, input.format);
+        return { statement, format: input.format, contentType, content };
+      }),
   });
 }
 
@@ -0,0 +1,64 @@
+/**
+ * Usage query and export inputs shared by billing (own usage) and admin (all usage)
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { UsageQuery } from '@services/billing/usage-analytics-service';
+
+const valuesSchema = z.array(z.string().min(1)).min(1).max(100).optional();
+
+const usageQueryFields = z.object({
+  from: z.string().datetime({ offset: true }), // ISO 8601
+  to: z.string().datetime({ offset: true }),   // ISO 8601, exclusive
+  bucket: z.enum(['hour', 'day', 'week']).optional(),
+  groupBy: z.array(z.enum(['provider', 'model', 'method', 'user', 'organization', 'userType'])).max(6).optional(),
+  filters: z.object({
+    userId: valuesSchema,
+    organizationId: valuesSchema,
+    provider: valuesSchema,
+    model: valuesSchema,
+    method: valuesSchema,
+    userType: z.enum(['subscription', 'byok']).optional(),
+  }).optional(),
+});
+
+const validRange = (input: { from: string; to: string }) => new Date(input.from) < new Date(input.to);
+
+export const usageQueryInputSchema = usageQueryFields.extend({
+  limit: z.number().int().min(1).max(1000).default(100),
+  cursor: z.string().optional(),
+}).refine(validRange, { message: '`from` must be before `to`' });
+
+export const usageExportInputSchema = usageQueryFields.extend({
+  format: z.enum(['csv', 'ndjson']).default('csv'),
+  maxRows: z.number().int().min(1).max(100000).default(100000),
+}).refine(validRange, { message: '`from` must be before `to`' });
+
+/**
+ * Convert the validated ISO `from`/`to` strings to Dates
+ */
+export function toUsageQuery<Q extends { from: string; to: string }>(input: Q): Omit<Q, 'from' | 'to'> & { from: Date; to: Date } {
+  return { ...input, from: new Date(input.from), to: new Date(input.to) };
+}
+
+/**
+ * Run a usage query, reporting bad cursors as BAD_REQUEST
+ */
+export async function runUsageQuery<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Invalid cursor')) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Restrict a query to one user's usage
+ */
+export function scopeUsageQuery<Q extends Pick<UsageQuery, 'filters'>>(query: Q, userId: string): Q {
+  return { ...query, filters: { ...query.filters, userId: [userId] } };
+}
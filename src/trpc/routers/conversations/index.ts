@@ -0,0 +1,130 @@
+/**
+ * Conversations Router - Server-side conversation threads
+ *
+ * Threads are scoped to ctx.user.userId. To continue a thread with the model,
+ * call ai.generateText / ai.streamText with the new message and its threadId.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, userProcedure } from '@src-trpc/index';
+import type { ConversationService } from '@services/conversations/conversation-service';
+import { chatMessageSchema } from '@src-trpc/routers/ai/methods/generation';
+
+export function createConversationsRouter(
+  conversationService: ConversationService | null
+): ReturnType<typeof router> {
+  const requireService = (): ConversationService => {
+    if (!conversationService) {
+      throw new TRPCError({
+        code: 'NOT_IMPLEMENTED',
+        message: 'Conversations are not enabled on this server.',
+      });
+    }
+    return conversationService;
+  };
+
+  const notFound = (threadId: string) => new TRPCError({
+    code: 'NOT_FOUND',
+    message: `Conversation not found: ${threadId}`,
+  });
+
+  return router({
+    /**
+     * Create a new conversation thread, optionally seeded with existing messages
+     */
+    create: userProcedure
+      .input(z.object({
+        title: z.string().max(500).optional(),
+        metadata: z.record(z.string(), z.any()).optional(),
+        messages: z.array(chatMessageSchema).max(1000).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const thread = await requireService().createThread(ctx.user!.userId, input);
+        return { threadId: thread.id, thread };
+      }),
+
+    /**
+     * Append messages to a thread without calling the model (e.g. importing history or tool results)
+     */
+    append: userProcedure
+      .input(z.object({
+        threadId: z.string(),
+        messages: z.array(chatMessageSchema).min(1).max(1000),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const appended = await requireService().appendMessages(ctx.user!.userId, input.threadId, input.messages);
+        if (!appended) {
+          throw notFound(input.threadId);
+        }
+        return { threadId: input.threadId, messages: appended };
+      }),
+
+    /**
+     * List the current user's threads (most recently updated first)
+     */
+    list: userProcedure
+      .input(z.void())
+      .query(async ({ ctx }) => {
+        const threads = await requireService().listThreads(ctx.user!.userId);
+        return { threads };
+      }),
+
+    /**
+     * Get a thread with its full message history
+     */
+    get: userProcedure
+      .input(z.object({ threadId: z.string() }))
+      .query(async ({ input, ctx }) => {
+        const thread = await requireService().getThread(ctx.user!.userId, input.threadId);
+        if (!thread) {
+          throw notFound(input.threadId);
+        }
+        return thread;
+      }),
+
+    /**
+     * Fork a thread into a new one, optionally only up to a given message
+     */
+    fork: userProcedure
+      .input(z.object({
+        threadId: z.string(),
+        fromMessageId: z.string().optional(),
+        title: z.string().max(500).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const service = requireService();
+        let fork;
+        try {
+          fork = await service.forkThread(ctx.user!.userId, input.threadId, {
+            fromMessageId: input.fromMessageId,
+            title: input.title,
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : 'Failed to fork conversation',
+          });
+        }
+        if (!fork) {
+          throw notFound(input.threadId);
+        }
+        return { threadId: fork.id, thread: fork };
+      }),
+
+    /**
+     * Delete a thread and its history
+     */
+    delete: userProcedure
+      .input(z.object({ threadId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const deleted = await requireService().deleteThread(ctx.user!.userId, input.threadId);
+        if (!deleted) {
+          throw notFound(input.threadId);
+        }
+        return { success: true };
+      }),
+  });
+}
+
+export const conversationsRouter: ReturnType<typeof createConversationsRouter> = createConversationsRouter(null);
@@ -0,0 +1,48 @@
+import type { AuthenticatedRequest } from '../../../auth/jwt-middleware';
+import type { AgentToolCaller, AgentToolExecutor } from '../../../services/ai/agent-tools.js';
+import type { MCPProtocolHandler } from './protocol-handler';
+
+/**
+ * Agent tools backed by the MCP protocol handler
+ * Agents see and call exactly what an MCP client with the same user could:
+ * tRPC MCP tools and remote MCP tools, with the same auth and scope checks.
+ * The handler is resolved per call because the server creates it on start().
+ */
+export function createMCPAgentToolExecutor(getHandler: () => MCPProtocolHandler | undefined): AgentToolExecutor {
+  let requestId = 0;
+
+  const dispatch = async (
+    handler: MCPProtocolHandler,
+    method: string,
+    params: Record<string, unknown>,
+    caller: AgentToolCaller,
+    signal?: AbortSignal
+  ) => {
+    const req = { user: caller.user ?? undefined, headers: {} } as AuthenticatedRequest;
+    const response = await handler.dispatch({ jsonrpc: '2.0', id: `agent-${++requestId}`, method, params }, req, undefined, signal);
+
+    if (response?.error) {
+      throw new Error(response.error.message);
+    }
+    return response?.result;
+  };
+
+  return {
+    async listTools(caller) {
+      const handler = getHandler();
+      if (!handler) return [];
+
+      const result = await dispatch(handler, 'tools/list', {}, caller);
+      return result?.tools ?? [];
+    },
+
+    async callTool(name, args, caller, { signal }) {
+      const handler = getHandler();
+      if (!handler) {
+        throw new Error('MCP is not enabled on this server');
+      }
+      // Aborted on tool timeout - remote MCP servers get notifications/cancelled
+      return dispatch(handler, 'tools/call', { name, arguments: args ?? {} }, caller, signal);
+    }
+  };
+}
@@ -73,5 +73,9 @@ export {
   MCPProtocolHandler
 };
 
+// stdio transport for locally launched MCP clients
+export { startMCPStdioTransport, redirectConsoleToStderr } from "./stdio-transport";
+export type { MCPStdioTransport, MCPStdioTransportOptions } from "./stdio-transport";
+
 // Default export for backwards compatibility
 export default createMCPRouter;
\ No newline at end of file
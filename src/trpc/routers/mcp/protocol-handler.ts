@@ -8,6 +8,8 @@ import { MCPRateLimiter, getDefaultRateLimiter } from '../../../security/rate-li
 import { SecurityLogger, getDefaultSecurityLogger } from '../../../security/security-logger';
 import { AuthEnforcer, getDefaultAuthEnforcer } from '../../../security/auth-enforcer';
 import { MCPRouterConfig, MCPAuthConfig } from './types';
+import { MCPSessionManager, type MCPSession } from './session-manager';
+import type { RemoteMCPGateway } from '../../../mcp/remote-mcp-gateway.js';
 import { mcpResourceRegistry } from '../../../services/resources/mcp/mcp-resource-registry.js';
 import { logger } from '../../../utils/logger.js';
 import { redactEmail } from '../../../utils/redact.js';
@@ -45,6 +47,8 @@ export class MCPProtocolHandler {
   private clientCapabilities: any = null;
   private aiEnabled: boolean;
   private namespaceWhitelist?: string[];
+  private sessionManager?: MCPSessionManager;
+  private remoteGateway?: RemoteMCPGateway;
 
   constructor(appRouter: any, config?: MCPRouterConfig) {
     this.appRouter = appRouter;
@@ -82,6 +86,10 @@ export class MCPProtocolHandler {
 
     this.extensionsConfig = config?.extensions;
 
+    if (config?.sessions?.enabled) {
+      this.sessionManager = new MCPSessionManager(config.sessions);
+    }
+
     this.logInitialization();
   }
 
@@ -93,6 +101,29 @@ export class MCPProtocolHandler {
     this.rootManager = workspaceManager; // Keep existing property name for compatibility
   }
 
+  /**
+   * Proxy tools, prompts and resources of remote MCP servers through this endpoint
+   */
+  setRemoteGateway(gateway: RemoteMCPGateway) {
+    this.remoteGateway = gateway;
+  }
+
+  /**
+   * Streamable HTTP session manager (undefined when sessions are disabled)
+   */
+  getSessionManager(): MCPSessionManager | undefined {
+    return this.sessionManager;
+  }
+
+  /**
+   * Push a notification to every connected session
+   * (e.g. 'notifications/tools/list_changed' after the router changes)
+   */
+  broadcastNotification(method: string, params?: Record<string, unknown>): number {
+    if (!this.sessionManager) return 0;
+    return this.sessionManager.broadcast({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
   /**
    * @deprecated Use setWorkspaceManager instead
    */
@@ -264,11 +295,20 @@ export class MCPProtocolHandler {
     // Apply all middleware
     app.post(path, ...middlewareChain);
 
+    // Streamable HTTP: GET opens the server-to-client stream, DELETE ends the session
+    if (this.sessionManager) {
+      const authChain = this.jwtMiddleware ? [this.jwtMiddleware.authenticate] : [];
+      app.get(path, ...authChain, (req: AuthenticatedRequest, res: Response) => {
+        this.handleMCPStreamRequest(req, res);
+      });
+      app.delete(path, ...authChain, (req: AuthenticatedRequest, res: Response) => {
+        this.handleMCPSessionDelete(req, res);
+      });
+    }
+
     // Add CORS preflight
     app.options(path, (req: Request, res: Response) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      this.setCorsHeaders(res);
       res.status(200).send();
     });
 
@@ -349,62 +389,37 @@ export class MCPProtocolHandler {
         return;
       }
 
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      this.setCorsHeaders(res);
       res.header('Content-Type', 'application/json');
 
       const mcpRequest = req.body;
-      const requestId = mcpRequest.id || 'unknown';
-
-      let response;
-
-      switch (mcpRequest.method) {
-        case 'initialize':
-          response = this.handleInitialize(mcpRequest);
-          break;
-        case 'ping':
-          response = this.handlePing(mcpRequest);
-          break;
-        case 'tools/list':
-          response = await this.handleToolsList(mcpRequest, req);
-          break;
-        case 'tools/call':
-          response = await this.handleToolsCall(mcpRequest, req);
-          break;
-        case 'prompts/list':
-          response = await this.handlePromptsList(mcpRequest, req);
-          break;
-        case 'prompts/get':
-          response = await this.handlePromptsGet(mcpRequest, req);
-          break;
-        case 'resources/list':
-          response = await this.handleResourcesList(mcpRequest, req);
-          break;
-        case 'resources/read':
-          response = await this.handleResourcesRead(mcpRequest, req);
-          break;
-        case 'resources/templates/list':
-          response = await this.handleResourcesTemplatesList(mcpRequest, req);
-          break;
-        case 'roots/list':
-          response = await this.handleRootsList(mcpRequest, req);
-          break;
-        case 'notifications/cancelled':
-          response = this.handleCancellation(mcpRequest);
-          break;
-        case 'notifications/initialized':
-          response = this.handleNotificationInitialized(mcpRequest);
-          break;
-        case 'notifications/roots/list_changed':
-          response = this.handleRootsListChanged(mcpRequest);
-          break;
-        default:
-          response = this.createErrorResponse(
-            mcpRequest.id,
-            ErrorCode.MethodNotFound,
-            `Method '${mcpRequest.method}' not found`
-          );
+
+      // Requests without Mcp-Session-Id are handled statelessly (backward compatible);
+      // an unknown or expired id gets 404 so the client re-initializes
+      let session: MCPSession | undefined;
+      const sessionId = req.headers['mcp-session-id'];
+      if (this.sessionManager && typeof sessionId === 'string') {
+        session = this.sessionManager.getSession(sessionId, req.user?.userId);
+        if (!session) {
+          res.status(404).json(this.createErrorResponse(mcpRequest?.id ?? null, ErrorCode.InvalidRequest, 'Session not found'));
+          return;
+        }
+      }
+
+      // Client answer to a server-initiated request (sampling, elicitation)
+      if (mcpRequest && typeof mcpRequest === 'object' && !mcpRequest.method && ('result' in mcpRequest || 'error' in mcpRequest)) {
+        if (session) {
+          this.sessionManager!.handleResponse(session, mcpRequest);
+        }
+        res.status(202).end();
+        return;
+      }
+
+      const response = await this.dispatch(mcpRequest, req, session);
+
+      if (this.sessionManager && mcpRequest?.method === 'initialize' && !response?.error) {
+        const newSession = this.sessionManager.createSession(req.user?.userId);
+        res.header('Mcp-Session-Id', newSession.id);
       }
 
       res.json(response);
@@ -424,6 +439,137 @@ export class MCPProtocolHandler {
     }
   }
 
+  /**
+   * Handle GET: open the server-to-client event stream for a session
+   */
+  private handleMCPStreamRequest(req: AuthenticatedRequest, res: Response) {
+    const validationError = this.validateRequestHeaders(req);
+    if (validationError) {
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: validationError
+        },
+        id: null
+      });
+      return;
+    }
+
+    this.setCorsHeaders(res);
+
+    if (!String(req.headers.accept || '').includes('text/event-stream')) {
+      res.status(406).json(this.createErrorResponse(null, ErrorCode.InvalidRequest, 'Accept must include text/event-stream'));
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId !== 'string') {
+      res.status(400).json(this.createErrorResponse(null, ErrorCode.InvalidRequest, 'Mcp-Session-Id header is required'));
+      return;
+    }
+
+    const session = this.sessionManager!.getSession(sessionId, req.user?.userId);
+    if (!session) {
+      res.status(404).json(this.createErrorResponse(null, ErrorCode.InvalidRequest, 'Session not found'));
+      return;
+    }
+
+    const lastEventId = Number(req.headers['last-event-id']);
+    this.sessionManager!.attachStream(session, res, Number.isFinite(lastEventId) ? lastEventId : undefined);
+    logger.debug(`📡 MCP stream opened for session ${session.id}`);
+  }
+
+  /**
+   * Handle DELETE: terminate a session
+   */
+  private handleMCPSessionDelete(req: AuthenticatedRequest, res: Response) {
+    this.setCorsHeaders(res);
+
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string'
+      ? this.sessionManager!.getSession(sessionId, req.user?.userId)
+      : undefined;
+    if (!session) {
+      res.status(404).json(this.createErrorResponse(null, ErrorCode.InvalidRequest, 'Session not found'));
+      return;
+    }
+
+    this.sessionManager!.deleteSession(session.id);
+    res.status(204).end();
+  }
+
+  private setCorsHeaders(res: Response) {
+    res.header('Access-Control-Allow-Origin', '*');
+    if (this.sessionManager) {
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Last-Event-ID');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    } else {
+      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+  }
+
+  /**
+   * Dispatch a single MCP JSON-RPC message to its handler
+   * Transport-agnostic: used by the HTTP endpoint, the stdio transport and agent
+   * tool calls. The signal cancels a running tools/call.
+   */
+  public async dispatch(mcpRequest: any, req?: AuthenticatedRequest, session?: MCPSession, signal?: AbortSignal): Promise<any> {
+    let response;
+
+    switch (mcpRequest.method) {
+      case 'initialize':
+        response = this.handleInitialize(mcpRequest);
+        break;
+      case 'ping':
+        response = this.handlePing(mcpRequest);
+        break;
+      case 'tools/list':
+        response = await this.handleToolsList(mcpRequest, req);
+        break;
+      case 'tools/call':
+        response = await this.handleToolsCall(mcpRequest, req, session, signal);
+        break;
+      case 'prompts/list':
+        response = await this.handlePromptsList(mcpRequest, req);
+        break;
+      case 'prompts/get':
+        response = await this.handlePromptsGet(mcpRequest, req);
+        break;
+      case 'resources/list':
+        response = await this.handleResourcesList(mcpRequest, req);
+        break;
+      case 'resources/read':
+        response = await this.handleResourcesRead(mcpRequest, req);
+        break;
+      case 'resources/templates/list':
+        response = await this.handleResourcesTemplatesList(mcpRequest, req);
+        break;
+      case 'roots/list':
+        response = await this.handleRootsList(mcpRequest, req);
+        break;
+      case 'notifications/cancelled':
+        response = this.handleCancellation(mcpRequest);
+        break;
+      case 'notifications/initialized':
+        response = this.handleNotificationInitialized(mcpRequest);
+        break;
+      case 'notifications/roots/list_changed':
+        response = this.handleRootsListChanged(mcpRequest);
+        break;
+      default:
+        response = this.createErrorResponse(
+          mcpRequest.id,
+          ErrorCode.MethodNotFound,
+          `Method '${mcpRequest.method}' not found`
+        );
+    }
+
+    return response;
+  }
+
   // ... (continuing with the handler methods - these would be very long)
   // For now, I'll include the key ones and indicate where the others would go
 
@@ -519,6 +665,7 @@ export class MCPProtocolHandler {
     category?: string;
     public?: boolean;
     requireAdminUser?: boolean;
+    remote?: boolean;
   }> {
     const tools: Array<{
       name: string;
@@ -530,6 +677,7 @@ export class MCPProtocolHandler {
       category?: string;
       public?: boolean;
       requireAdminUser?: boolean;
+      remote?: boolean;
     }> = [];
 
     try {
@@ -716,6 +864,54 @@ export class MCPProtocolHandler {
   }
 
   // MCP handler implementations
+  /**
+   * Remote gateway tools in the same shape as tRPC tools (procedure is null)
+   */
+  private async listRemoteTools(): Promise<ReturnType<MCPProtocolHandler['extractMCPToolsFromTRPC']>> {
+    if (!this.remoteGateway) return [];
+
+    const tools = await this.remoteGateway.listTools();
+    return tools.map(tool => ({
+      name: tool.name,
+      fullName: tool.name,
+      description: this.sanitizeDescription(tool.description),
+      inputSchema: tool.inputSchema,
+      procedure: null,
+      scopes: tool.scopes,
+      public: tool.public,
+      remote: true
+    }));
+  }
+
+  private resolveRemoteTool(name: string): ReturnType<MCPProtocolHandler['extractMCPToolsFromTRPC']>[number] | undefined {
+    const target = this.remoteGateway?.resolveName(name);
+    if (!target) return undefined;
+
+    return {
+      name,
+      fullName: name,
+      description: '',
+      inputSchema: {},
+      procedure: null,
+      scopes: target.scopes,
+      public: target.public,
+      remote: true
+    };
+  }
+
+  /**
+   * Access rule for remote prompts/resources: admin, public server, or authenticated with scopes
+   */
+  private canAccessRemote(entry: { public?: boolean; scopes?: any }, req?: AuthenticatedRequest): boolean {
+    const userInfo = this.extractUserInfo(req);
+    if (this.isAdminUser(userInfo?.email, userInfo?.id)) return true;
+    if (entry.public) return true;
+    if (!req?.user) return false;
+    return entry.scopes
+      ? ScopeValidator.hasScope(this.extractUserScopes(req), entry.scopes, userInfo || undefined)
+      : true;
+  }
+
   private async handleToolsList(request: any, req?: AuthenticatedRequest): Promise<any> {
     try {
       // Check auth requirements for tools/list
@@ -732,8 +928,8 @@ export class MCPProtocolHandler {
       const userScopes = this.extractUserScopes(req);
       const isAdmin = this.isAdminUser(userInfo?.email, userInfo?.id);
 
-      // Get all available MCP tools from tRPC procedures
-      const mcpTools = this.extractMCPToolsFromTRPC();
+      // Get all available MCP tools from tRPC procedures and remote MCP servers
+      const mcpTools = [...this.extractMCPToolsFromTRPC(), ...(await this.listRemoteTools())];
 
       // Filter tools based on auth and visibility rules
       const availableTools = mcpTools
@@ -741,7 +937,7 @@ export class MCPProtocolHandler {
           // Check if tool should be public
           const isPublic = this.isToolPublic({
             name: tool.name,
-            public: true // Default to public for tRPC MCP tools
+            public: tool.remote ? tool.public : true // Default to public for tRPC MCP tools
           });
 
           // Check scope requirements if defined
@@ -793,7 +989,7 @@ export class MCPProtocolHandler {
     }
   }
 
-  private async handleToolsCall(request: any, req?: AuthenticatedRequest): Promise<any> {
+  private async handleToolsCall(request: any, req?: AuthenticatedRequest, session?: MCPSession, signal?: AbortSignal): Promise<any> {
     try {
       const { name, arguments: args } = request.params || {};
 
@@ -815,7 +1011,7 @@ export class MCPProtocolHandler {
 
       // Find the requested tool
       const mcpTools = this.extractMCPToolsFromTRPC();
-      const tool = mcpTools.find(t => t.name === name || t.fullName === name);
+      const tool = mcpTools.find(t => t.name === name || t.fullName === name) ?? this.resolveRemoteTool(name);
 
       if (!tool) {
         return this.createErrorResponse(
@@ -894,6 +1090,17 @@ export class MCPProtocolHandler {
         );
       }
 
+      // Remote tools are proxied after the same auth and scope checks
+      if (tool.remote) {
+        logger.debug(`Proxying tool ${name} to remote MCP server`);
+        const result = await this.remoteGateway!.callTool(name, args || {}, signal);
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result
+        };
+      }
+
       // Execute the tRPC procedure
       const procedure = tool.procedure;
       const inputParser = procedure._def?.inputs?.[0];
@@ -926,7 +1133,8 @@ export class MCPProtocolHandler {
       const ctx = {
         user: req?.user,
         type: procedure._def?.type || 'mutation',
-        appRouter: this.appRouter // Add appRouter for tools that need to discover procedures
+        appRouter: this.appRouter, // Add appRouter for tools that need to discover procedures
+        mcp: this.createToolSessionContext(session, request.params?._meta?.progressToken)
       };
 
       // Privacy: Don't log user input - only log tool name
@@ -938,7 +1146,8 @@ export class MCPProtocolHandler {
         ctx,
         type: procedure._def?.type || 'mutation',
         path: name,
-        getRawInput: () => validatedInput
+        getRawInput: () => validatedInput,
+        signal
       });
 
       logger.debug(`Tool ${name} executed successfully`);
@@ -984,6 +1193,35 @@ export class MCPProtocolHandler {
     }
   }
 
+  /**
+   * Server-to-client helpers exposed to tools as ctx.mcp (only within a session)
+   */
+  private createToolSessionContext(session: MCPSession | undefined, progressToken?: string | number) {
+    if (!session || !this.sessionManager) {
+      return undefined;
+    }
+    const sessionManager = this.sessionManager;
+
+    return {
+      sessionId: session.id,
+      /** Report progress when the client sent a progressToken (no-op otherwise) */
+      sendProgress: (progress: number, total?: number, message?: string) => {
+        if (progressToken === undefined) return;
+        sessionManager.send(session.id, {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message }
+        });
+      },
+      sendNotification: (method: string, params?: Record<string, unknown>) => {
+        sessionManager.send(session.id, { jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+      },
+      /** e.g. sendRequest('sampling/createMessage', {...}) or sendRequest('elicitation/create', {...}) */
+      sendRequest: (method: string, params?: Record<string, unknown>) =>
+        sessionManager.sendRequest(session.id, method, params)
+    };
+  }
+
   private async handlePromptsList(request: any, req?: AuthenticatedRequest): Promise<any> {
     try {
       // Check auth requirements if enabled
@@ -1059,6 +1297,23 @@ export class MCPProtocolHandler {
         }
       }
 
+      // Add remote MCP server prompts (namespaced)
+      if (this.remoteGateway) {
+        for (const prompt of await this.remoteGateway.listPrompts()) {
+          if (!promptNames.has(prompt.name) && this.canAccessRemote(prompt, req)) {
+            prompts.push({
+              name: prompt.name,
+              description: prompt.description || `Remote prompt: ${prompt.remoteName}`,
+              arguments: prompt.arguments || [],
+              template: null,
+              variables: this.buildPromptVariableDefinitions({ arguments: prompt.arguments }),
+              category: 'remote'
+            });
+            promptNames.add(prompt.name);
+          }
+        }
+      }
+
       logger.debug(`MCP prompts/list: ${prompts.length} prompts available`);
 
       return {
@@ -1109,6 +1364,23 @@ export class MCPProtocolHandler {
 
       logger.debug(`MCP prompts/get: ${name} (${Object.keys(args || {}).length} args)`);
 
+      // Remote MCP server prompt
+      const remotePrompt = this.remoteGateway?.resolveName(name);
+      if (remotePrompt) {
+        if (!this.canAccessRemote(remotePrompt, req)) {
+          return this.createErrorResponse(
+            request.id,
+            ErrorCode.InvalidRequest,
+            `Missing required permissions for prompt '${name}'`
+          );
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: await this.remoteGateway!.getPrompt(name, args)
+        };
+      }
+
       // Find the requested prompt from MCP prompts
       const mcpPrompts = this.extractMCPPromptsFromTRPC();
       let prompt = mcpPrompts.find(p => p.name === name);
@@ -1405,6 +1677,20 @@ export class MCPProtocolHandler {
           mimeType: resource.mimeType
         }));
 
+      // Add remote MCP server resources (URIs wrapped as remote://<prefix>/...)
+      if (this.remoteGateway) {
+        for (const resource of await this.remoteGateway.listResources()) {
+          if (this.canAccessRemote(resource, req)) {
+            accessibleResources.push({
+              uri: resource.uri,
+              name: resource.name,
+              description: resource.description,
+              mimeType: resource.mimeType
+            });
+          }
+        }
+      }
+
       logger.debug(`MCP resources/list: ${accessibleResources.length} resources available (${allResources.length} total)`);
 
       return {
@@ -1450,6 +1736,23 @@ export class MCPProtocolHandler {
 
       console.log(`📖 MCP Resource Read: ${uri} (user: ${redactEmail(req?.user?.email)})`);
 
+      // Remote MCP server resource
+      const remoteResource = this.remoteGateway?.resolveUri(uri);
+      if (remoteResource) {
+        if (!this.canAccessRemote(remoteResource, req)) {
+          return this.createErrorResponse(
+            request.id,
+            ErrorCode.InvalidRequest,
+            `Missing required permissions for resource '${uri}'`
+          );
+        }
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: await this.remoteGateway!.readResource(uri)
+        };
+      }
+
       // Extract user info for permission checks
       const userInfo = this.extractUserInfo(req);
       const userScopes = this.extractUserScopes(req);
@@ -0,0 +1,255 @@
+/**
+ * MCP Streamable HTTP sessions
+ *
+ * Tracks Mcp-Session-Id sessions for the MCP endpoint and delivers
+ * server-to-client messages (notifications/progress, list_changed, sampling
+ * and elicitation requests) over each session's GET event stream.
+ *
+ * Every message gets a per-session event id and is kept in a bounded buffer,
+ * so a client reconnecting with Last-Event-ID receives what it missed.
+ */
+
+import crypto from 'crypto';
+import type { Response } from 'express';
+
+export interface MCPSessionConfig {
+  enabled?: boolean;           // Default: false - assign Mcp-Session-Id on initialize
+  sessionTtlMs?: number;       // Default: 30 minutes of inactivity
+  maxBufferedEvents?: number;  // Default: 100 events kept per session for Last-Event-ID replay
+  requestTimeoutMs?: number;   // Default: 60s to answer a server-initiated request
+  keepAliveMs?: number;        // Default: 25s between SSE keep-alive comments
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface MCPSession {
+  id: string;
+  userId?: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+  events: Array<{ id: number; message: unknown }>;
+  nextEventId: number;
+  lastDeliveredEventId: number;
+  stream?: Response;
+  keepAlive?: NodeJS.Timeout;
+  pendingRequests: Map<string, PendingRequest>;
+  nextRequestId: number;
+}
+
+export class MCPSessionManager {
+  private sessions = new Map<string, MCPSession>();
+  private sessionTtlMs: number;
+  private maxBufferedEvents: number;
+  private requestTimeoutMs: number;
+  private keepAliveMs: number;
+
+  constructor(config: MCPSessionConfig = {}) {
+    this.sessionTtlMs = config.sessionTtlMs ?? 30 * 60 * 1000;
+    this.maxBufferedEvents = config.maxBufferedEvents ?? 100;
+    this.requestTimeoutMs = config.requestTimeoutMs ?? 60 * 1000;
+    this.keepAliveMs = config.keepAliveMs ?? 25 * 1000;
+  }
+
+  createSession(userId?: string): MCPSession {
+    this.pruneExpired();
+
+    const now = new Date();
+    const session: MCPSession = {
+      id: crypto.randomUUID(),
+      userId,
+      createdAt: now,
+      lastActiveAt: now,
+      events: [],
+      nextEventId: 1,
+      lastDeliveredEventId: 0,
+      pendingRequests: new Map(),
+      nextRequestId: 1
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Look up a live session. Sessions bound to a user are invisible to anyone else.
+   */
+  getSession(sessionId: string, userId?: string): MCPSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    if (Date.now() - session.lastActiveAt.getTime() > this.sessionTtlMs && !session.stream) {
+      this.deleteSession(sessionId);
+      return undefined;
+    }
+    if (session.userId && session.userId !== userId) {
+      return undefined;
+    }
+
+    session.lastActiveAt = new Date();
+    return session;
+  }
+
+  deleteSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    const stream = session.stream;
+    this.detachStream(session);
+    stream?.end();
+    for (const pending of session.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('MCP session closed'));
+    }
+    session.pendingRequests.clear();
+    return this.sessions.delete(sessionId);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Open the server-to-client event stream for a session (GET).
+   * Replays buffered events after lastEventId, or everything not yet delivered.
+   * A new stream replaces any previous one for the same session.
+   */
+  attachStream(session: MCPSession, res: Response, lastEventId?: number): void {
+    if (session.stream) {
+      const previous = session.stream;
+      this.detachStream(session);
+      previous.end();
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Mcp-Session-Id': session.id
+    });
+    res.flushHeaders?.();
+
+    session.stream = res;
+    session.keepAlive = setInterval(() => res.write(': keep-alive\n\n'), this.keepAliveMs);
+    session.keepAlive.unref?.();
+
+    res.on('close', () => {
+      if (session.stream === res) {
+        this.detachStream(session);
+      }
+    });
+
+    const replayFrom = lastEventId ?? session.lastDeliveredEventId;
+    for (const event of session.events) {
+      if (event.id > replayFrom) {
+        this.writeEvent(session, event);
+      }
+    }
+  }
+
+  /**
+   * Queue a message for the client; written immediately if a stream is open
+   */
+  send(sessionId: string, message: unknown): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    const event = { id: session.nextEventId++, message };
+    session.events.push(event);
+    if (session.events.length > this.maxBufferedEvents) {
+      session.events.shift();
+    }
+
+    if (session.stream) {
+      this.writeEvent(session, event);
+    }
+    return true;
+  }
+
+  /**
+   * Send a notification to every session (e.g. notifications/tools/list_changed)
+   */
+  broadcast(message: unknown): number {
+    let count = 0;
+    for (const sessionId of this.sessions.keys()) {
+      if (this.send(sessionId, message)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Send a server-initiated request (sampling/createMessage, elicitation/create)
+   * and wait for the client to POST the matching response
+   */
+  sendRequest(sessionId: string, method: string, params?: unknown): Promise<any> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return Promise.reject(new Error(`MCP session not found: ${sessionId}`));
+    }
+
+    const id = `server-${session.nextRequestId++}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        session.pendingRequests.delete(id);
+        reject(new Error(`MCP client did not answer ${method} within ${this.requestTimeoutMs}ms`));
+      }, this.requestTimeoutMs);
+
+      session.pendingRequests.set(id, { resolve, reject, timer });
+      this.send(sessionId, { jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) });
+    });
+  }
+
+  /**
+   * Route a client JSON-RPC response to its pending server-initiated request
+   */
+  handleResponse(session: MCPSession, message: { id?: string | number; result?: unknown; error?: { message?: string } }): boolean {
+    const pending = session.pendingRequests.get(String(message.id));
+    if (!pending) return false;
+
+    clearTimeout(pending.timer);
+    session.pendingRequests.delete(String(message.id));
+    if (message.error) {
+      pending.reject(new Error(message.error.message || 'MCP client returned an error'));
+    } else {
+      pending.resolve(message.result);
+    }
+    return true;
+  }
+
+  /**
+   * Close all streams and sessions (server shutdown)
+   */
+  closeAll(): void {
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.deleteSession(sessionId);
+    }
+  }
+
+  private writeEvent(session: MCPSession, event: { id: number; message: unknown }): void {
+    const stream = session.stream;
+    if (!stream || stream.writableEnded) return;
+
+    stream.write(`id: ${event.id}\ndata: ${JSON.stringify(event.message)}\n\n`);
+    session.lastDeliveredEventId = Math.max(session.lastDeliveredEventId, event.id);
+  }
+
+  private detachStream(session: MCPSession): void {
+    if (session.keepAlive) {
+      clearInterval(session.keepAlive);
+      session.keepAlive = undefined;
+    }
+    session.stream = undefined;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const session of [...this.sessions.values()]) {
+      if (!session.stream && now - session.lastActiveAt.getTime() > this.sessionTtlMs) {
+        this.deleteSession(session.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * MCP stdio transport
+ *
+ * Serves the MCPProtocolHandler dispatch over newline-delimited JSON-RPC on
+ * stdin/stdout, so desktop MCP clients (e.g. Claude Desktop) can launch the
+ * backend as a local process. stdout must carry protocol messages only, so
+ * call redirectConsoleToStderr() before anything else logs.
+ */
+
+import readline from 'readline';
+import { format } from 'util';
+import type { Readable, Writable } from 'stream';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthenticatedRequest } from '../../../auth/jwt-middleware';
+import type { MCPProtocolHandler } from './protocol-handler';
+
+export interface MCPStdioTransportOptions {
+  input?: Readable;    // Default: process.stdin
+  output?: Writable;   // Default: process.stdout
+  /**
+   * Identity used for every message. stdio has no auth headers - the client is
+   * the local user who launched the process. Without a user, only public tools
+   * are callable (same rules as anonymous HTTP requests).
+   */
+  user?: AuthenticatedRequest['user'];
+}
+
+export interface MCPStdioTransport {
+  /** Resolves when the input stream ends and in-flight messages are answered */
+  closed: Promise<void>;
+  close(): void;
+}
+
+/**
+ * Route console.log/info/debug to stderr (console.warn/error already go there)
+ */
+export function redirectConsoleToStderr(): void {
+  const writeToStderr = (...args: any[]) => {
+    process.stderr.write(`${format(...args)}\n`);
+  };
+  console.log = writeToStderr;
+  console.info = writeToStderr;
+  console.debug = writeToStderr;
+}
+
+/**
+ * Start serving MCP messages from input to output
+ */
+export function startMCPStdioTransport(
+  protocolHandler: MCPProtocolHandler,
+  options: MCPStdioTransportOptions = {}
+): MCPStdioTransport {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  // Handlers read auth from an Express-style request
+  const req = { headers: {}, user: options.user } as AuthenticatedRequest;
+
+  const send = (message: unknown) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+
+  const handleMessage = async (message: any): Promise<unknown | null> => {
+    if (!message || typeof message !== 'object' || typeof message.method !== 'string') {
+      // Responses to server-initiated requests are not used by this server
+      if (message && typeof message === 'object' && ('result' in message || 'error' in message)) {
+        return null;
+      }
+      return {
+        jsonrpc: '2.0',
+        id: message?.id ?? null,
+        error: { code: ErrorCode.InvalidRequest, message: 'Invalid Request' }
+      };
+    }
+
+    // Notifications (no id) must never get a response
+    const isNotification = !('id' in message);
+
+    try {
+      const response = await protocolHandler.dispatch(message, req);
+      return isNotification ? null : response;
+    } catch (error) {
+      console.error('❌ MCP stdio error:', error);
+      return isNotification ? null : {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: ErrorCode.InternalError,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  };
+
+  const handleLine = async (line: string) => {
+    if (!line.trim()) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: ErrorCode.ParseError, message: 'Parse error' } });
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      const responses = (await Promise.all(parsed.map(handleMessage))).filter(response => response !== null);
+      if (responses.length > 0) {
+        send(responses);
+      }
+      return;
+    }
+
+    const response = await handleMessage(parsed);
+    if (response !== null) {
+      send(response);
+    }
+  };
+
+  // Messages are handled concurrently so a slow tools/call doesn't block ping or cancellation
+  const inFlight = new Set<Promise<void>>();
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+
+  rl.on('line', (line) => {
+    const task = handleLine(line).finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    rl.on('close', () => {
+      Promise.allSettled([...inFlight]).then(() => resolve());
+    });
+  });
+
+  console.error('✅ MCP stdio transport ready');
+
+  return {
+    closed,
+    close: () => rl.close()
+  };
+}
@@ -2,6 +2,7 @@ import { JWTMiddleware } from '../../../auth/jwt-middleware';
 import { MCPRateLimitConfig } from '../../../security/rate-limiter';
 import { SecurityLoggerConfig } from '../../../security/security-logger';
 import { AuthEnforcementConfig } from '../../../security/auth-enforcer';
+import type { MCPSessionConfig } from './session-manager';
 
 export type MCPAuthType = 'oauth' | 'jwt' | 'both' | 'none';
 
@@ -102,6 +103,12 @@ export interface MCPRouterConfig {
     };
   };
 
+  /**
+   * Streamable HTTP sessions (Mcp-Session-Id, GET event stream, Last-Event-ID replay)
+   * Required for server-to-client messages such as progress notifications
+   */
+  sessions?: MCPSessionConfig;
+
   /**
    * Namespace whitelist for MCP tool filtering
    * If specified, only tools from these namespaces will be exposed via MCP
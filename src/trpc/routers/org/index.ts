@@ -0,0 +1,289 @@
+/**
+ * Organizations Router - Teams with shared token pools and seat management
+ *
+ * Procedures act on the caller's active organization (JWT organizationId or
+ * the X-Organization-Id header) unless an organizationId is passed.
+ * Members can read, admins manage members, invitations and keys, owners
+ * manage the organization itself. Service accounts cannot use this router.
+ */
+
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, userProcedure } from '@src-trpc/index';
+import {
+  OrganizationError,
+  hasOrganizationRole,
+  type OrganizationService,
+  type OrganizationMember,
+  type OrganizationRole
+} from '@services/organizations/organization-service';
+
+const organizationIdSchema = z.string().uuid().optional();
+const providerSchema = z.enum(['anthropic', 'openai', 'google']);
+
+export function createOrgRouter(
+  organizationService: OrganizationService | null
+): ReturnType<typeof router> {
+  const requireService = (): OrganizationService => {
+    if (!organizationService) {
+      throw new TRPCError({
+        code: 'NOT_IMPLEMENTED',
+        message: 'Organizations are not enabled on this server.',
+      });
+    }
+    return organizationService;
+  };
+
+  // Service errors carry the tRPC code to report
+  const run = async <T>(fn: () => Promise<T>): Promise<T> => {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof OrganizationError) {
+        throw new TRPCError({ code: error.code, message: error.message });
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Resolve the target organization and check the caller's role in it
+   */
+  const requireMembership = async (
+    ctx: { user: { userId: string; organizationId?: string } | null },
+    organizationId: string | undefined,
+    role: OrganizationRole = 'member'
+  ): Promise<OrganizationMember> => {
+    const orgId = organizationId || ctx.user!.organizationId;
+    if (!orgId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No organization selected. Pass organizationId or set the X-Organization-Id header.',
+      });
+    }
+
+    const membership = await requireService().getMembership(orgId, ctx.user!.userId);
+    if (!membership) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Organization not found: ${orgId}` });
+    }
+    if (!hasOrganizationRole(membership.role, role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Requires the ${role} role in this organization` });
+    }
+    return membership;
+  };
+
+  return router({
+    /**
+     * Create an organization with the caller as owner
+     */
+    create: userProcedure
+      .input(z.object({
+        name: z.string().min(1).max(255),
+        seatLimit: z.number().int().positive().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const organization = await requireService().createOrganization(
+          { userId: ctx.user!.userId, email: ctx.user!.email },
+          input
+        );
+        return { organization };
+      }),
+
+    /**
+     * Organizations the caller belongs to
+     */
+    list: userProcedure
+      .input(z.void())
+      .query(async ({ ctx }) => {
+        const organizations = await requireService().listForUser(ctx.user!.userId);
+        return { organizations, activeOrganizationId: ctx.user!.organizationId ?? null };
+      }),
+
+    /**
+     * Organization details, the caller's role and the shared token balance
+     */
+    get: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema }).optional())
+      .query(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input?.organizationId);
+        const service = requireService();
+        const [organization, balance] = await Promise.all([
+          service.getOrganization(membership.organizationId),
+          service.getBalance(membership.organizationId)
+        ]);
+        return { organization, role: membership.role, balance };
+      }),
+
+    /**
+     * Rename the organization or change its seat limit (owners only, null removes the limit)
+     */
+    update: userProcedure
+      .input(z.object({
+        organizationId: organizationIdSchema,
+        name: z.string().min(1).max(255).optional(),
+        seatLimit: z.number().int().positive().nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'owner');
+        const organization = await requireService().updateOrganization(membership.organizationId, input);
+        return { organization };
+      }),
+
+    /**
+     * Members with their role, monthly limit and tokens used this month
+     */
+    listMembers: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema }).optional())
+      .query(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input?.organizationId);
+        const members = await requireService().listMembers(membership.organizationId);
+        return { members };
+      }),
+
+    /**
+     * Change a member's role or monthly token limit
+     * Admins manage members; only owners grant or take away ownership.
+     */
+    updateMember: userProcedure
+      .input(z.object({
+        organizationId: organizationIdSchema,
+        userId: z.string(),
+        role: z.enum(['owner', 'admin', 'member']).optional(),
+        monthlyTokenLimit: z.number().int().min(0).nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        const service = requireService();
+        const target = await service.getMembership(membership.organizationId, input.userId);
+        if (!target) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Member not found: ${input.userId}` });
+        }
+        if ((target.role === 'owner' || input.role === 'owner') && membership.role !== 'owner') {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Only owners can change ownership' });
+        }
+
+        const member = await run(() => service.updateMember(membership.organizationId, input.userId, input));
+        return { member };
+      }),
+
+    /**
+     * Remove a member (admins; owners can only be removed by owners)
+     */
+    removeMember: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema, userId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        const service = requireService();
+        const target = await service.getMembership(membership.organizationId, input.userId);
+        if (!target) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Member not found: ${input.userId}` });
+        }
+        if (target.role === 'owner' && membership.role !== 'owner') {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Only owners can remove an owner' });
+        }
+
+        await run(() => service.removeMember(membership.organizationId, input.userId));
+        return { success: true };
+      }),
+
+    /**
+     * Leave an organization
+     */
+    leave: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema }).optional())
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input?.organizationId);
+        await run(() => requireService().removeMember(membership.organizationId, membership.userId));
+        return { success: true };
+      }),
+
+    /**
+     * Invite someone by e-mail
+     * Returns the invitation token once - deliver it to the invitee.
+     */
+    invite: userProcedure
+      .input(z.object({
+        organizationId: organizationIdSchema,
+        email: z.string().email(),
+        role: z.enum(['admin', 'member']).default('member'),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        return run(() => requireService().createInvitation(membership.organizationId, {
+          email: input.email,
+          role: input.role,
+          invitedBy: ctx.user!.userId
+        }));
+      }),
+
+    /**
+     * Pending invitations
+     */
+    listInvitations: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema }).optional())
+      .query(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input?.organizationId, 'admin');
+        const invitations = await requireService().listInvitations(membership.organizationId);
+        return { invitations };
+      }),
+
+    revokeInvitation: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema, invitationId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        const revoked = await requireService().revokeInvitation(membership.organizationId, input.invitationId);
+        if (!revoked) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `Invitation not found: ${input.invitationId}` });
+        }
+        return { success: true };
+      }),
+
+    /**
+     * Join an organization with an invitation token (sent to the caller's e-mail)
+     */
+    acceptInvitation: userProcedure
+      .input(z.object({ token: z.string().min(1) }))
+      .mutation(async ({ input, ctx }) => {
+        const member = await run(() => requireService().acceptInvitation(input.token, {
+          userId: ctx.user!.userId,
+          email: ctx.user!.email
+        }));
+        return { member };
+      }),
+
+    /**
+     * Store an organization provider key in the secret vault
+     * Members without their own key use it for their requests.
+     */
+    setProviderKey: userProcedure
+      .input(z.object({
+        organizationId: organizationIdSchema,
+        provider: providerSchema,
+        apiKey: z.string().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        await run(() => requireService().setProviderKey(membership.organizationId, input.provider, input.apiKey));
+        return { success: true, provider: input.provider };
+      }),
+
+    /**
+     * Providers with an organization key (the keys themselves are never returned)
+     */
+    listProviderKeys: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema }).optional())
+      .query(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input?.organizationId);
+        const providers = await requireService().listProviderKeys(membership.organizationId);
+        return { providers };
+      }),
+
+    deleteProviderKey: userProcedure
+      .input(z.object({ organizationId: organizationIdSchema, provider: providerSchema }))
+      .mutation(async ({ input, ctx }) => {
+        const membership = await requireMembership(ctx, input.organizationId, 'admin');
+        const deleted = await run(() => requireService().deleteProviderKey(membership.organizationId, input.provider));
+        return { success: deleted };
+      }),
+  });
+}
@@ -4,9 +4,10 @@
 
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { router, protectedProcedure } from '@src-trpc/index';
+import { router, userProcedure } from '@src-trpc/index';
 import { VirtualTokenService } from '@services/billing/virtual-token-service';
 import { UsageAnalyticsService } from '@services/billing/usage-analytics-service';
+import type { TrialCreditService } from '@services/billing/trial-credit-service';
 
 interface HybridUserService {
   getUserProfile(userId: string): Promise<any>;
@@ -19,13 +20,33 @@ export function createUserRouter(
   virtualTokenService: VirtualTokenService | null,
   usageAnalyticsService: UsageAnalyticsService | null,
   hybridUserService: HybridUserService | null,
-  byokProviders: string[] = ['anthropic', 'openai', 'google']
+  byokProviders: string[] = ['anthropic', 'openai', 'google'],
+  trialCreditService: TrialCreditService | null = null
 ): ReturnType<typeof router> {
+  /**
+   * Trial credits of a signed-in user without a key (granted on first check)
+   */
+  const getTrialEligibility = async (ctx: { user: { userId: string; email?: string; emailVerified?: boolean }; deviceId?: string | null }) => {
+    const trial = await trialCreditService!.getOrGrantTrial({ ...ctx.user, deviceId: ctx.deviceId });
+    const available = !!trial && trialCreditService!.isAvailable(trial);
+    return {
+      canMakeRequest: available,
+      reason: available ? 'Free trial credits available' : trialCreditService!.upgradeMessage(trial),
+      trial: trial ? {
+        tokensRemaining: trial.tokensRemaining,
+        requestsRemaining: trial.requestsRemaining ?? null,
+        expiresAt: trial.expiresAt.toISOString()
+      } : null,
+      requiresApiKey: !available,
+      upgradeRequired: !available
+    };
+  };
+
   return router({
     /**
      * Get user profile with capabilities and preferences (hybrid users)
      */
-    getUserProfile: protectedProcedure
+    getUserProfile: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -48,7 +69,7 @@ export function createUserRouter(
     /**
      * Update user consumption preferences
      */
-    updateUserPreferences: protectedProcedure
+    updateUserPreferences: userProcedure
       .input(z.object({
         consumptionOrder: z.array(z.enum(['subscription', 'one_time', 'byok'])).optional(),
         byokEnabled: z.boolean().optional(),
@@ -75,7 +96,7 @@ export function createUserRouter(
     /**
      * Configure BYOK providers for user (SECURE - API keys stored server-side)
      */
-    configureBYOK: protectedProcedure
+    configureBYOK: userProcedure
       .input(z.object({
         providers: z.record(z.string(), z.object({
           enabled: z.boolean(),
@@ -116,7 +137,7 @@ export function createUserRouter(
     /**
      * Get BYOK configuration status (without exposing API keys)
      */
-    getBYOKStatus: protectedProcedure
+    getBYOKStatus: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!hybridUserService) {
@@ -156,7 +177,7 @@ export function createUserRouter(
     /**
      * Get user status (subscription vs BYOK, purchase history)
      */
-    getUserStatus: protectedProcedure
+    getUserStatus: userProcedure
       .input(z.void())
       .query(async ({ ctx }) => {
         if (!usageAnalyticsService) {
@@ -184,15 +205,19 @@ export function createUserRouter(
       }),
 
     /**
-     * Check if user can make AI requests (subscription users need tokens, BYOK users need API key)
+     * Check if user can make AI requests (subscription users need tokens, BYOK users need API key
+     * or trial credits when the server offers them)
      */
-    checkRequestEligibility: protectedProcedure
+    checkRequestEligibility: userProcedure
       .input(z.object({
         estimatedTokens: z.number().min(1).default(1000),
         hasApiKey: z.boolean().default(false),
       }))
       .query(async ({ input, ctx }) => {
         if (!usageAnalyticsService) {
+          if (!input.hasApiKey && trialCreditService) {
+            return { ...(await getTrialEligibility(ctx)), userType: 'unknown' as const };
+          }
           return {
             canMakeRequest: input.hasApiKey,
             reason: input.hasApiKey ? 'API key provided' : 'No API key provided',
@@ -214,17 +239,22 @@ export function createUserRouter(
             };
           }
 
-          const hasBalance = await virtualTokenService.checkTokenBalance(ctx.user!.userId, input.estimatedTokens);
+          const billingContext = { tier: ctx.user!.subscriptionTier };
+          const hasBalance = await virtualTokenService.checkTokenBalance(ctx.user!.userId, input.estimatedTokens, billingContext);
           const balance = await virtualTokenService.getTokenBalance(ctx.user!.userId);
+          const { totalCharge } = virtualTokenService.getBillingRules().calculateCharge(input.estimatedTokens, billingContext);
 
           return {
             canMakeRequest: hasBalance,
             reason: hasBalance ? 'Sufficient token balance' : 'Insufficient token balance',
             userType: userStatus.userType,
             tokenBalance: balance?.virtualTokenBalance || 0,
-            estimatedCost: Math.ceil(input.estimatedTokens * 1.25), // Include platform fee
+            estimatedCost: totalCharge, // Includes the platform fee
             requiresTokens: true
           };
+        } else if (!input.hasApiKey && trialCreditService) {
+          // No tokens and no key - free trial credits, if any are left
+          return { ...(await getTrialEligibility(ctx)), userType: userStatus.userType };
         } else {
           // BYOK user - just needs API key
           return {
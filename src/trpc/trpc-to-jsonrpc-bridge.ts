@@ -58,104 +58,122 @@ function mapTRPCErrorToJSONRPC(error: TRPCError): JSONRPCError {
   }
 }
 
+function invalidRequest(id: string | number | null, data?: string): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: { code: -32600, message: 'Invalid Request', data }
+  };
+}
+
+/**
+ * Run async work over items with at most `limit` in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+export interface JSONRPCBridgeOptions {
+  maxBatchSize?: number;        // Default: 50 requests per batch
+  maxBatchConcurrency?: number; // Default: 5 calls in flight per batch
+}
+
 /**
  * Bridge class that converts tRPC router to JSON-RPC handler
  */
 export class TRPCToJSONRPCBridge {
   private callerFactory: any; // TODO: Fix type - should be ReturnType<ReturnType<typeof createCallerFactory>>
+  private maxBatchSize: number;
+  private maxBatchConcurrency: number;
 
   constructor(
     private router: AppRouter,
-    private contextCreator?: (opts: CreateExpressContextOptions) => any
+    private contextCreator?: (opts: CreateExpressContextOptions) => any,
+    options: JSONRPCBridgeOptions = {}
   ) {
     // Create the caller factory once during initialization (tRPC v11 API)
     // t.createCallerFactory(router) returns a function that accepts context
     this.callerFactory = t.createCallerFactory(this.router);
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.maxBatchConcurrency = options.maxBatchConcurrency ?? 5;
   }
 
   /**
    * Create Express middleware that handles JSON-RPC requests using tRPC procedures
+   *
+   * Supports single requests, batch arrays and notifications (requests without an id).
+   * Batch items run concurrently up to `maxBatchConcurrency`; notifications get no
+   * response entry, and an all-notification batch returns 204 with no body.
    */
   createHandler() {
     return async (req: Request, res: Response): Promise<void> => {
       const timing = new TimingLogger('RPC');  // Auto-detects nesting level
+      const body = req.body;
+
+      // Batch request
+      if (Array.isArray(body)) {
+        if (body.length === 0) {
+          res.json(invalidRequest(null, 'Batch must contain at least one request'));
+          timing.end('Empty batch');
+          return;
+        }
+        if (body.length > this.maxBatchSize) {
+          res.json(invalidRequest(null, `Batch size ${body.length} exceeds limit of ${this.maxBatchSize}`));
+          timing.end('Batch too large');
+          return;
+        }
 
-      try {
-        const { method, params, id }: JSONRPCRequest = req.body;
-        let t1 = timing.checkpoint('Request parsed');
-
-        // Create tRPC context
-        const ctx = this.contextCreator
-          ? await this.contextCreator({ req, res, info: {} as any })
-          : await createTRPCContext({ req, res, info: {} as any });
-        let t2 = timing.checkpoint('Context created', t1);
-
-        try {
-          // Parse nested method path (e.g., "ai.listAllowedModels" -> caller.ai.listAllowedModels)
-          // Use tRPC v11 callerFactory API
-          const caller = this.callerFactory(ctx);
-          let t3 = timing.checkpoint('Caller created', t2);
-
-          const methodParts = method.split('.');
-
-          // Navigate to the nested procedure
-          let procedure: any = caller;
-          for (const part of methodParts) {
-            const nextValue = procedure[part];
-            if (nextValue !== undefined) {
-              procedure = nextValue;
-            } else {
-              throw new Error(`No such procedure: ${method}`);
-            }
-          }
-          let t4 = timing.checkpoint('Procedure resolved', t3);
-
-          // Call the procedure
-          if (typeof procedure !== 'function') {
-            throw new Error(`No such procedure: ${method}`);
-          }
+        const ctx = await this.createContext(req, res);
+        let t1 = timing.checkpoint('Context created');
+
+        const responses = await mapWithConcurrency(
+          body,
+          this.maxBatchConcurrency,
+          (item) => this.executeCall(item, ctx)
+        );
+        const results = responses.filter((response): response is JSONRPCResponse => response !== null);
+        timing.checkpoint(`Batch of ${body.length} executed`, t1);
+        timing.end();
+
+        if (results.length === 0) {
+          res.status(204).end();
+          return;
+        }
+        res.json(results);
+        return;
+      }
 
-          const result = await procedure(params);
-          let t5 = timing.checkpoint(`Procedure ${method} executed`, t4);
+      // Single request
+      try {
+        const ctx = await this.createContext(req, res);
+        let t1 = timing.checkpoint('Context created');
 
-          res.json({
-            jsonrpc: '2.0',
-            id,
-            result
-          } as JSONRPCResponse);
-
-          timing.checkpoint('Response sent', t5);
-          timing.end();
-        } catch (error: any) {
-          timing.end('Error occurred');
-
-          // If method not found, return proper JSON-RPC error
-          if (error.message?.includes('No such procedure')) {
-            res.json({
-              jsonrpc: '2.0',
-              id,
-              error: {
-                code: -32601,
-                message: `Method not found: ${method}`
-              }
-            } as JSONRPCResponse);
-            return;
-          }
+        const response = await this.executeCall(body, ctx);
+        timing.checkpoint(`Procedure ${body?.method} executed`, t1);
+        timing.end();
 
-          // Map other tRPC errors to JSON-RPC errors
-          console.error('Procedure error:', error);
-          res.json({
-            jsonrpc: '2.0',
-            id,
-            error: mapTRPCErrorToJSONRPC(error)
-          } as JSONRPCResponse);
+        if (response === null) {
+          res.status(204).end();
+          return;
         }
+        res.json(response);
       } catch (error: any) {
         timing.end('Parse error');
 
         res.json({
           jsonrpc: '2.0',
-          id: (req.body as JSONRPCRequest)?.id,
+          id: (body as JSONRPCRequest)?.id ?? null,
           error: {
             code: -32700,
             message: 'Parse error',
@@ -166,6 +184,147 @@ export class TRPCToJSONRPCBridge {
     };
   }
 
+  /**
+   * Create tRPC context for a JSON-RPC HTTP request
+   */
+  private async createContext(req: Request, res: Response) {
+    return this.contextCreator
+      ? await this.contextCreator({ req, res, info: {} as any })
+      : await createTRPCContext({ req, res, info: {} as any });
+  }
+
+  /**
+   * Execute a single JSON-RPC call against the tRPC router
+   * Returns null for notifications (no id), which never get a response
+   */
+  private async executeCall(request: JSONRPCRequest, ctx: any): Promise<JSONRPCResponse | null> {
+    if (!request || typeof request !== 'object' || typeof request.method !== 'string') {
+      return invalidRequest(request && typeof request === 'object' ? request.id ?? null : null, 'method must be a string');
+    }
+
+    const { method, params, id } = request;
+    const isNotification = !('id' in request);
+
+    try {
+      // Parse nested method path (e.g., "ai.listAllowedModels" -> caller.ai.listAllowedModels)
+      // Use tRPC v11 callerFactory API
+      const caller = this.callerFactory(ctx);
+      const procedure = this.resolveProcedureFromPath(caller, method.split('.'));
+      if (!procedure) {
+        throw new Error(`No such procedure: ${method}`);
+      }
+
+      const result = await procedure(params);
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+    } catch (error: any) {
+      if (isNotification) {
+        console.error(`Notification ${method} failed:`, error?.message);
+        return null;
+      }
+
+      // If method not found, return proper JSON-RPC error
+      if (error.message?.includes('No such procedure')) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32601,
+            message: `Method not found: ${method}`
+          }
+        };
+      }
+
+      // Map other tRPC errors to JSON-RPC errors
+      console.error('Procedure error:', error);
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: mapTRPCErrorToJSONRPC(error)
+      };
+    }
+  }
+
+  /**
+   * Create Express middleware that streams tRPC subscriptions as Server-Sent Events
+   *
+   * Accepts a regular JSON-RPC request body and writes each subscription event as
+   * `data: {"jsonrpc":"2.0","id":...,"result":<event>}`, followed by an `end` event.
+   * Closing the connection aborts the subscription (and the upstream provider call).
+   */
+  createStreamHandler() {
+    return async (req: Request, res: Response): Promise<void> => {
+      const { method, params, id }: JSONRPCRequest = req.body || {};
+
+      if (!method || typeof method !== 'string') {
+        res.status(400).json({
+          jsonrpc: '2.0',
+          id: id ?? null,
+          error: { code: -32600, message: 'Invalid Request', data: 'method is required' }
+        } as JSONRPCResponse);
+        return;
+      }
+
+      const abortController = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          abortController.abort();
+        }
+      });
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      const send = (message: JSONRPCResponse, event?: string) => {
+        if (res.writableEnded) return;
+        res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(message)}\n\n`);
+      };
+
+      try {
+        const ctx = await this.createContext(req, res);
+
+        const caller = this.callerFactory(ctx, { signal: abortController.signal });
+        const procedure = this.resolveProcedureFromPath(caller, method.split('.'));
+        if (!procedure) {
+          send({
+            jsonrpc: '2.0',
+            id,
+            error: { code: -32601, message: `Method not found: ${method}` }
+          }, 'error');
+          res.end();
+          return;
+        }
+
+        const result = await procedure(params);
+
+        if (result && typeof result[Symbol.asyncIterator] === 'function') {
+          for await (const event of result as AsyncIterable<any>) {
+            if (abortController.signal.aborted) break;
+            send({ jsonrpc: '2.0', id, result: event });
+          }
+        } else {
+          // Plain query/mutation - stream it as a single event
+          send({ jsonrpc: '2.0', id, result });
+        }
+
+        send({ jsonrpc: '2.0', id, result: null }, 'end');
+      } catch (error: any) {
+        if (!abortController.signal.aborted) {
+          console.error('Stream procedure error:', error);
+          send({ jsonrpc: '2.0', id, error: mapTRPCErrorToJSONRPC(error) }, 'error');
+        }
+      } finally {
+        if (!res.writableEnded) {
+          res.end();
+        }
+      }
+    };
+  }
+
   /**
    * Resolve a procedure from a flattened path like ['mcp', 'greeting']
    * Uses a more robust approach to access deeply nested procedures
@@ -175,7 +334,8 @@ export class TRPCToJSONRPCBridge {
       // Try direct path resolution
       let current = caller;
       for (const segment of path) {
-        if (current && typeof current === 'object' && current[segment]) {
+        // tRPC caller proxies are functions, so walk into those as well as objects
+        if (current && (typeof current === 'object' || typeof current === 'function') && current[segment]) {
           current = current[segment];
         } else {
           return null;
@@ -416,7 +576,8 @@ export class TRPCToJSONRPCBridge {
  */
 export function createTRPCToJSONRPCBridge(
   router: AppRouter, 
-  contextCreator?: (opts: CreateExpressContextOptions) => any
+  contextCreator?: (opts: CreateExpressContextOptions) => any,
+  options?: JSONRPCBridgeOptions
 ): TRPCToJSONRPCBridge {
-  return new TRPCToJSONRPCBridge(router, contextCreator);
+  return new TRPCToJSONRPCBridge(router, contextCreator, options);
 }
\ No newline at end of file
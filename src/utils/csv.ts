@@ -0,0 +1,19 @@
+/**
+ * CSV helpers for exports (statements, usage)
+ */
+
+/**
+ * Quotes a field when it contains a comma, quote or line break
+ * null/undefined become empty fields.
+ */
+export function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows (header first) to CSV text with a trailing newline
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
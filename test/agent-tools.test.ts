@@ -0,0 +1,149 @@
+/**
+ * Agent Tool Tests
+ *
+ * Tool sets built for agent requests (allowlist, timeouts, error handling,
+ * step trace) and the MCP-backed executor that enforces tool permissions.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { router, publicProcedure } from '../src/trpc/index';
+import { MCPProtocolHandler } from '../src/trpc/routers/mcp/protocol-handler';
+import { createMCPAgentToolExecutor } from '../src/trpc/routers/mcp/agent-tool-executor';
+import { createAgentToolSet, toAgentSteps, type AgentToolExecutor } from '../src/services/ai/agent-tools';
+
+function createFakeExecutor(): AgentToolExecutor & { callTool: ReturnType<typeof vi.fn> } {
+  return {
+    listTools: vi.fn(async () => [
+      { name: 'echo', description: 'Echo text', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+      { name: 'github__search.issues', description: 'Search issues' },
+      { name: 'slow' },
+    ]),
+    callTool: vi.fn(async (name: string, args: any) => {
+      if (name === 'slow') return new Promise(() => {});
+      if (name === 'github__search.issues') throw new Error('Rate limited');
+      return { content: [{ type: 'text', text: args.text }] };
+    }),
+  };
+}
+
+const callOptions = (toolCallId: string) => ({ toolCallId, messages: [] }) as any;
+
+describe('Agent tools', () => {
+  describe('createAgentToolSet', () => {
+    it('exposes allowed tools under provider-safe names', async () => {
+      const executor = createFakeExecutor();
+
+      const all = await createAgentToolSet(executor, {}, 1000);
+      expect(Object.keys(all.tools)).toEqual(['echo', 'github__search_issues', 'slow']);
+      expect(all.toolNames.get('github__search_issues')).toBe('github__search.issues');
+
+      const allowed = await createAgentToolSet(executor, { allowedTools: ['github__*'] }, 1000);
+      expect(Object.keys(allowed.tools)).toEqual(['github__search_issues']);
+    });
+
+    it('calls the executor as the request user and records the trace', async () => {
+      const executor = createFakeExecutor();
+      const user = { userId: 'u1', email: 'user@example.com' } as any;
+      const toolSet = await createAgentToolSet(executor, { user }, 1000);
+
+      const output = await toolSet.tools.echo.execute!({ text: 'hi' }, callOptions('call-1'));
+
+      expect(output).toBe('hi');
+      expect(executor.listTools).toHaveBeenCalledWith({ user });
+      expect(executor.callTool).toHaveBeenCalledWith('echo', { text: 'hi' }, { user }, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+      expect(toolSet.calls.get('call-1')).toMatchObject({ toolName: 'echo', args: { text: 'hi' }, result: 'hi' });
+    });
+
+    it('returns failures and timeouts to the model as errors', async () => {
+      const toolSet = await createAgentToolSet(createFakeExecutor(), { toolTimeouts: { slow: 20 } }, 1000);
+
+      await expect(toolSet.tools.github__search_issues.execute!({}, callOptions('call-1'))).resolves.toEqual({ error: 'Rate limited' });
+      await expect(toolSet.tools.slow.execute!({}, callOptions('call-2'))).resolves.toEqual({ error: "Tool 'slow' timed out after 20ms" });
+      expect(toolSet.calls.get('call-2')?.error).toContain('timed out');
+    });
+
+    it('builds the step trace from the model steps', async () => {
+      const toolSet = await createAgentToolSet(createFakeExecutor(), {}, 1000);
+      await toolSet.tools.echo.execute!({ text: 'hi' }, callOptions('call-1'));
+
+      const steps = toAgentSteps([
+        {
+          text: '',
+          toolCalls: [
+            { toolCallId: 'call-1', toolName: 'echo', input: { text: 'hi' } },
+            { toolCallId: 'call-2', toolName: 'github__search_issues', input: {} },
+          ],
+          usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+          finishReason: 'tool-calls',
+        },
+        { text: 'Done', toolCalls: [], usage: { inputTokens: 20, outputTokens: 3 }, finishReason: 'stop' },
+      ], toolSet);
+
+      expect(steps).toHaveLength(2);
+      expect(steps[0].toolCalls).toEqual([
+        expect.objectContaining({ toolName: 'echo', result: 'hi' }),
+        expect.objectContaining({ toolName: 'github__search.issues', error: 'Tool was not executed' }),
+      ]);
+      expect(steps[1]).toMatchObject({ step: 2, text: 'Done', usage: { totalTokens: 23 }, finishReason: 'stop' });
+    });
+  });
+
+  describe('createMCPAgentToolExecutor', () => {
+    const appRouter = router({
+      echo: publicProcedure
+        .meta({ mcp: { description: 'Echo' } })
+        .input(z.object({ text: z.string() }))
+        .query(({ input }) => input.text),
+      whoami: publicProcedure
+        .meta({ mcp: { description: 'Current user', public: false } })
+        .input(z.object({}))
+        .query(({ ctx }) => (ctx as any).user.email),
+    });
+    let handler: MCPProtocolHandler;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      handler = new MCPProtocolHandler(appRouter, {
+        auth: { requireAuthForToolsCall: true, publicTools: ['echo'] },
+      });
+    });
+
+    it('applies the MCP endpoint permissions for the caller', async () => {
+      const executor = createMCPAgentToolExecutor(() => handler);
+      const user = { userId: 'u1', email: 'user@example.com' } as any;
+
+      expect((await executor.listTools({ user })).map(t => t.name)).toEqual(['echo', 'whoami']);
+      expect((await executor.listTools({})).map(t => t.name)).toEqual(['echo']);
+
+      await expect(executor.callTool('whoami', {}, { user }, { signal: new AbortController().signal }))
+        .resolves.toMatchObject({ content: [{ type: 'text', text: 'user@example.com' }] });
+      await expect(executor.callTool('whoami', {}, {}, { signal: new AbortController().signal }))
+        .rejects.toThrow('Authentication required for tools/call');
+    });
+
+    it('passes the call signal to the tool so timeouts cancel it', async () => {
+      const waitRouter = router({
+        wait: publicProcedure
+          .meta({ mcp: { description: 'Wait until cancelled' } })
+          .input(z.object({}))
+          .query(({ signal }) => new Promise(resolve => signal?.addEventListener('abort', () => resolve('cancelled')))),
+      });
+      const waitHandler = new MCPProtocolHandler(waitRouter, { auth: { publicTools: ['wait'] } });
+      const executor = createMCPAgentToolExecutor(() => waitHandler);
+
+      const controller = new AbortController();
+      const call = executor.callTool('wait', {}, {}, { signal: controller.signal });
+      controller.abort();
+
+      await expect(call).resolves.toMatchObject({ content: [{ type: 'text', text: 'cancelled' }] });
+    });
+
+    it('has no tools until the MCP handler exists', async () => {
+      const executor = createMCPAgentToolExecutor(() => undefined);
+
+      expect(await executor.listTools({})).toEqual([]);
+      await expect(executor.callTool('echo', {}, {}, { signal: new AbortController().signal })).rejects.toThrow('MCP is not enabled');
+    });
+  });
+});
@@ -4,15 +4,24 @@ import type { ExecuteRequest, ExecuteResult } from '../src/services/ai/ai-servic
 
 // Mock the AI SDK
 vi.mock('ai', () => ({
-  generateText: vi.fn()
+  generateText: vi.fn(),
+  generateObject: vi.fn(),
+  jsonSchema: vi.fn(),
+  tool: vi.fn(),
+  stepCountIs: vi.fn(),
+  NoObjectGeneratedError: {
+    isInstance: (error: any) => error?.name === 'AI_NoObjectGeneratedError'
+  }
 }));
 
 vi.mock('@ai-sdk/anthropic', () => ({
-  anthropic: vi.fn()
+  anthropic: vi.fn(),
+  createAnthropic: vi.fn()
 }));
 
 vi.mock('@ai-sdk/openai', () => ({
-  openai: vi.fn()
+  openai: vi.fn(),
+  createOpenAI: vi.fn()
 }));
 
 vi.mock('@ai-sdk/google', () => ({
@@ -208,31 +217,271 @@ describe('AIService', () => {
   });
 
   describe('provider fallback', () => {
-    it.skip('should fall back to secondary provider on primary failure', async () => {
+    const providers = [
+      { name: 'anthropic' as const, apiKey: 'key1', priority: 1, model: 'claude-3-5-haiku-20241022' },
+      { name: 'openai' as const, apiKey: 'key2', priority: 2, model: 'gpt-4o-mini' }
+    ];
+    const success = (text: string) => ({
+      text,
+      usage: { promptTokens: 5, completionTokens: 10, totalTokens: 15 },
+      finishReason: 'stop'
+    });
+    const httpError = (statusCode: number) => Object.assign(new Error(`HTTP ${statusCode}`), { statusCode });
+
+    beforeEach(async () => {
+      const { createAnthropic } = await import('@ai-sdk/anthropic');
+      const { createOpenAI } = await import('@ai-sdk/openai');
+      vi.mocked(createAnthropic).mockImplementation(() => ((modelId: string) => ({ modelId })) as any);
+      vi.mocked(createOpenAI).mockImplementation(() => ((modelId: string) => ({ modelId })) as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should fall back to secondary provider on primary failure', async () => {
       const serviceWithFallback = new AIService({
-        serviceProviders: [
-          { name: 'anthropic', apiKey: 'key1', priority: 1 },
-          { name: 'openai', apiKey: 'key2', priority: 2 }
-        ]
+        serviceProviders: providers,
+        defaultProvider: 'anthropic',
+        failover: { maxRetries: 0 }
       });
 
       // First call fails, second succeeds
       mockGenerateText
         .mockRejectedValueOnce(new Error('Primary provider failed'))
-        .mockResolvedValueOnce({
-          text: 'Fallback response',
-          usage: { promptTokens: 5, completionTokens: 10, totalTokens: 15 },
-          finishReason: 'stop'
-        });
+        .mockResolvedValueOnce(success('Fallback response'));
 
       const request: ExecuteRequest = {
         content: 'Test content',
-        systemPrompt: 'Test prompt'
+        systemPrompt: 'Test prompt',
+        metadata: { model: 'claude-3-5-haiku-20241022' }
       };
 
       const result = await serviceWithFallback.execute(request);
       expect(result.content).toBe('Fallback response');
       expect(mockGenerateText).toHaveBeenCalledTimes(2);
+      // Billing uses the provider that actually answered
+      expect(result.provider).toBe('openai');
+      expect(result.attempts?.map(a => [a.provider, a.success])).toEqual([['anthropic', false], ['openai', true]]);
+    });
+
+    it('should retry transient errors and map models through the equivalence table', async () => {
+      const service = new AIService({
+        serviceProviders: providers,
+        defaultProvider: 'anthropic',
+        failover: {
+          maxRetries: 1,
+          initialDelayMs: 0,
+          modelEquivalents: { fast: { anthropic: 'claude-3-5-haiku-20241022', openai: 'gpt-4.1-mini' } }
+        }
+      });
+
+      mockGenerateText
+        .mockRejectedValueOnce(httpError(429))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce(success('From OpenAI'));
+
+      const result = await service.execute({
+        content: 'Test content',
+        systemPrompt: 'Test prompt',
+        metadata: { model: 'claude-3-5-haiku-20241022' }
+      });
+
+      expect(result.attempts?.map(a => [a.provider, a.statusCode])).toEqual([
+        ['anthropic', 429],
+        ['anthropic', 503],
+        ['openai', undefined]
+      ]);
+      expect(result.model).toBe('gpt-4.1-mini');
+      // The policy owns retries, so the SDK's own retries are disabled
+      expect(mockGenerateText.mock.calls[0][0].maxRetries).toBe(0);
+    });
+
+    it('should not retry or fall back on invalid requests', async () => {
+      const service = new AIService({
+        serviceProviders: providers,
+        defaultProvider: 'anthropic',
+        failover: { initialDelayMs: 0 }
+      });
+      mockGenerateText.mockRejectedValueOnce(httpError(400));
+
+      await expect(service.execute({
+        content: 'Test content',
+        systemPrompt: 'Test prompt',
+        metadata: { model: 'claude-3-5-haiku-20241022' }
+      })).rejects.toThrow('HTTP 400');
+      expect(mockGenerateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip providers whose circuit is open', async () => {
+      const service = new AIService({
+        serviceProviders: providers,
+        defaultProvider: 'anthropic',
+        failover: { maxRetries: 0, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000 } }
+      });
+      const request: ExecuteRequest = {
+        content: 'Test content',
+        systemPrompt: 'Test prompt',
+        metadata: { model: 'claude-3-5-haiku-20241022' }
+      };
+
+      mockGenerateText
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce(success('first'))
+        .mockResolvedValueOnce(success('second'));
+
+      await service.execute(request);
+      expect(service.getProviderCircuitStates()).toEqual({ anthropic: 'open' });
+
+      const result = await service.execute(request);
+      expect(result.content).toBe('second');
+      expect(result.attempts?.[0]).toMatchObject({ provider: 'anthropic', skipped: true });
+      expect(mockGenerateText).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('generateObject', () => {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name']
+    };
+
+    beforeEach(async () => {
+      const { createAnthropic } = await import('@ai-sdk/anthropic');
+      vi.mocked(createAnthropic).mockImplementation(() => ((modelId: string) => ({ modelId })) as any);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should feed validation errors back and retry until the object is valid', async () => {
+      const { generateObject } = await import('ai');
+      vi.mocked(generateObject)
+        .mockRejectedValueOnce(Object.assign(new Error('No object generated'), {
+          name: 'AI_NoObjectGeneratedError',
+          text: '{"name":42}',
+          usage: { inputTokens: 20, outputTokens: 5, totalTokens: 25 },
+          cause: { message: 'Type validation failed', cause: { message: '/name: expected string, got number' } }
+        }))
+        .mockResolvedValueOnce({
+          object: { name: 'Ada' },
+          usage: { inputTokens: 30, outputTokens: 5, totalTokens: 35 },
+          finishReason: 'stop',
+          response: { modelId: 'claude-3-5-haiku-20241022' }
+        } as any);
+
+      const result = await aiService.generateObject<{ name: string }>({
+        content: 'Ada Lovelace',
+        systemPrompt: 'Extract the person',
+        metadata: { model: 'claude-3-5-haiku-20241022' },
+        schema
+      });
+
+      expect(result.object).toEqual({ name: 'Ada' });
+      expect(result.repairAttempts).toBe(1);
+      // Both requests are billed
+      expect(result.usage.totalTokens).toBe(60);
+
+      const retryMessages = vi.mocked(generateObject).mock.calls[1][0].messages as any[];
+      expect(retryMessages.at(-2)).toEqual({ role: 'assistant', content: '{"name":42}' });
+      expect(retryMessages.at(-1).content).toContain('/name: expected string, got number');
+    });
+
+    it('should give up after maxRepairAttempts', async () => {
+      const { generateObject } = await import('ai');
+      vi.mocked(generateObject).mockRejectedValue(Object.assign(new Error('No object generated'), {
+        name: 'AI_NoObjectGeneratedError',
+        text: 'not json',
+        cause: { message: 'JSON parsing failed' }
+      }));
+
+      await expect(aiService.generateObject({
+        content: 'Ada Lovelace',
+        systemPrompt: 'Extract the person',
+        metadata: { model: 'claude-3-5-haiku-20241022' },
+        schema,
+        maxRepairAttempts: 1
+      })).rejects.toThrow('invalid structured output after 2 attempts: JSON parsing failed');
+      expect(generateObject).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('agent requests', () => {
+    const toolExecutor = {
+      listTools: vi.fn(),
+      callTool: vi.fn()
+    };
+
+    beforeEach(async () => {
+      const { createAnthropic } = await import('@ai-sdk/anthropic');
+      const { tool, stepCountIs } = await import('ai');
+      vi.mocked(createAnthropic).mockImplementation(() => ((modelId: string) => ({ modelId })) as any);
+      vi.mocked(tool).mockImplementation((definition: any) => definition);
+      vi.mocked(stepCountIs).mockImplementation((count: number) => ({ stepCount: count }) as any);
+      toolExecutor.listTools.mockResolvedValue([
+        { name: 'search', description: 'Search docs', inputSchema: { type: 'object' } },
+        { name: 'delete_repo', description: 'Delete a repository' }
+      ]);
+      toolExecutor.callTool.mockResolvedValue({ content: [{ type: 'text', text: '3 results' }] });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      aiService = new AIService({
+        serviceProviders: [{ name: 'anthropic', apiKey: 'test-api-key', priority: 1 }],
+        agent: { toolExecutor, maxStepsLimit: 4 }
+      });
+    });
+
+    it('should run the tool loop within the step limit and return the trace', async () => {
+      mockGenerateText.mockImplementation(async (options: any) => {
+        // Simulate the model calling one tool before answering
+        await options.tools.search.execute({ query: 'auth' }, { toolCallId: 'call-1', messages: [] });
+        return {
+          text: 'Found 3 results',
+          finishReason: 'stop',
+          usage: { inputTokens: 30, outputTokens: 10, totalTokens: 40 },
+          totalUsage: { inputTokens: 50, outputTokens: 15, totalTokens: 65 },
+          steps: [
+            {
+              text: '',
+              toolCalls: [{ toolCallId: 'call-1', toolName: 'search', input: { query: 'auth' } }],
+              usage: { inputTokens: 20, outputTokens: 5, totalTokens: 25 },
+              finishReason: 'tool-calls'
+            },
+            { text: 'Found 3 results', toolCalls: [], usage: { inputTokens: 30, outputTokens: 10, totalTokens: 40 }, finishReason: 'stop' }
+          ]
+        };
+      });
+
+      const user = { userId: 'u1', email: 'user@example.com' } as any;
+      const result = await aiService.execute({
+        content: 'How does auth work?',
+        systemPrompt: 'You are helpful',
+        metadata: { model: 'claude-3-5-haiku-20241022' },
+        agent: { maxSteps: 10, allowedTools: ['search'], user }
+      });
+
+      const options = mockGenerateText.mock.calls[0][0];
+      expect(Object.keys(options.tools)).toEqual(['search']);
+      expect(options.stopWhen).toEqual({ stepCount: 4 });
+      expect(aiService.getAgentMaxSteps({ maxSteps: 10 })).toBe(4);
+      expect(toolExecutor.callTool).toHaveBeenCalledWith('search', { query: 'auth' }, { user }, expect.anything());
+
+      expect(result.content).toBe('Found 3 results');
+      expect(result.usage.totalTokens).toBe(65);
+      expect(result.steps).toHaveLength(2);
+      expect(result.steps?.[0].toolCalls[0]).toMatchObject({ toolName: 'search', args: { query: 'auth' }, result: '3 results' });
+    });
+
+    it('should reject agent requests without a tool executor', async () => {
+      aiService = new AIService({
+        serviceProviders: [{ name: 'anthropic', apiKey: 'test-api-key', priority: 1 }]
+      });
+
+      await expect(aiService.execute({
+        content: 'Hi',
+        systemPrompt: 'You are helpful',
+        metadata: { model: 'claude-3-5-haiku-20241022' },
+        agent: {}
+      })).rejects.toThrow('Agent requests require a tool executor');
+      expect(mockGenerateText).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,199 @@
+/**
+ * OAuth Device Authorization Grant Tests
+ *
+ * RFC 8628 flow against in-memory session storage: device authorization,
+ * user code approval on /oauth/device and polling the token endpoint.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as OAuth2Server from '@node-oauth/oauth2-server';
+import {
+  createOAuthServer,
+  initializeOAuthServer,
+  closeOAuthServer,
+  handleDeviceAuthorization,
+  handleDeviceVerificationPage,
+  handleDeviceVerificationDecision,
+  startDeviceSession
+} from '../../src/auth/oauth-middleware';
+import { DEVICE_CODE_GRANT, DeviceAuthorizationStore } from '../../src/auth/device-authorization';
+
+const ISSUER = 'https://auth.example.com';
+const user = { id: 'github:42', username: 'alice@example.com', email: 'alice@example.com', name: 'Alice', provider: 'github' };
+const cli = { id: 'cli', grants: [DEVICE_CODE_GRANT, 'refresh_token'], redirectUris: [] };
+const buildAgent = { id: 'build-agent', clientSecret: 'agent-secret', grants: [DEVICE_CODE_GRANT], redirectUris: [] };
+const webApp = { id: 'web-app', clientSecret: 'web-secret', grants: ['authorization_code'], redirectUris: ['https://app.example.com/callback'] };
+
+function createResponse() {
+  const res: any = {};
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  res.send = vi.fn(() => res);
+  res.header = vi.fn(() => res);
+  res.setHeader = vi.fn(() => res);
+  res.redirect = vi.fn(() => res);
+  res.cookie = vi.fn(() => res);
+  return res;
+}
+
+/**
+ * Sign in to the device page the way the federated login callback does
+ */
+async function signIn(userId: string) {
+  const res = createResponse();
+  await startDeviceSession(res, userId);
+  const [name, value, options] = res.cookie.mock.calls[0];
+  expect(options).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/oauth/device' });
+  return { cookie: `theme=dark; ${name}=${value}` };
+}
+
+function csrfTokenOf(res: any) {
+  return /name="csrf_token" value="([0-9a-f]+)"/.exec(res.send.mock.calls[0][0])![1];
+}
+
+describe('OAuth device authorization grant', () => {
+  let oauth: any;
+  let storage: any;
+  let deviceAuthorizations: DeviceAuthorizationStore;
+
+  beforeAll(async () => {
+    ({ oauth, storage, deviceAuthorizations } = createOAuthServer({ type: 'memory' }, [], undefined, { issuer: ISSUER }));
+    await initializeOAuthServer();
+    await storage.setClient(cli.id, cli);
+    await storage.setClient(webApp.id, webApp);
+    await storage.setClient(buildAgent.id, buildAgent);
+    await storage.setUser(user.id, user);
+  });
+
+  afterAll(async () => {
+    await closeOAuthServer();
+  });
+
+  async function startDeviceFlow() {
+    const res = createResponse();
+    await handleDeviceAuthorization({ body: { client_id: cli.id, scope: 'mcp' }, headers: {} } as any, res);
+    return res.json.mock.calls[0][0];
+  }
+
+  async function pollToken(deviceCode: string) {
+    const body = { grant_type: DEVICE_CODE_GRANT, client_id: cli.id, device_code: deviceCode };
+    const request = new OAuth2Server.Request({
+      method: 'POST',
+      query: {},
+      headers: { 'content-type': 'application/x-www-form-urlencoded', 'content-length': '1' },
+      body
+    });
+    return oauth.server.token(request, new OAuth2Server.Response());
+  }
+
+  it('issues device and user codes to clients registered for the grant', async () => {
+    const response = await startDeviceFlow();
+    expect(response).toMatchObject({
+      verification_uri: expect.stringMatching(/\/oauth\/device$/),
+      expires_in: 600,
+      interval: 5
+    });
+    expect(response.user_code).toMatch(/^[B-Z]{4}-[B-Z]{4}$/);
+    expect(response.verification_uri_complete).toContain(`user_code=${response.user_code}`);
+
+    const res = createResponse();
+    await handleDeviceAuthorization({ body: { client_id: webApp.id, client_secret: webApp.clientSecret }, headers: {} } as any, res);
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'unauthorized_client' }));
+  });
+
+  it('requires the client secret from confidential clients', async () => {
+    const withoutSecret = createResponse();
+    await handleDeviceAuthorization({ body: { client_id: buildAgent.id }, headers: {} } as any, withoutSecret);
+    expect(withoutSecret.status).toHaveBeenCalledWith(401);
+    expect(withoutSecret.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'invalid_client' }));
+
+    const withSecret = createResponse();
+    await handleDeviceAuthorization({ body: { client_id: buildAgent.id, client_secret: buildAgent.clientSecret }, headers: {} } as any, withSecret);
+    expect(withSecret.status).not.toHaveBeenCalled();
+    expect(withSecret.json.mock.calls[0][0].device_code).toEqual(expect.any(String));
+  });
+
+  it('issues tokens once the user approves the code', async () => {
+    const { device_code, user_code } = await startDeviceFlow();
+
+    await expect(pollToken(device_code)).rejects.toMatchObject({ name: 'authorization_pending', code: 400 });
+    // Polling again right away is too fast
+    await expect(pollToken(device_code)).rejects.toMatchObject({ name: 'slow_down' });
+
+    // Signed-out users are sent to the login page and come back to the code
+    const redirect = createResponse();
+    await handleDeviceVerificationPage({ query: { user_code }, headers: {}, originalUrl: `/oauth/device?user_code=${user_code}` } as any, redirect);
+    expect(redirect.redirect).toHaveBeenCalledWith(expect.stringContaining(`/login?redirect_uri=${encodeURIComponent('/oauth/device?user_code=')}`));
+
+    const headers = await signIn(user.id);
+    const page = createResponse();
+    await handleDeviceVerificationPage({ query: { user_code: user_code.toLowerCase() }, headers } as any, page);
+    expect(page.send.mock.calls[0][0]).toContain(user_code);
+    expect(page.send.mock.calls[0][0]).not.toContain('authenticated_user');
+
+    const approved = createResponse();
+    await handleDeviceVerificationDecision({ headers, body: { user_code, action: 'approve', csrf_token: csrfTokenOf(page) } } as any, approved);
+    expect(approved.status).toHaveBeenCalledWith(200);
+
+    const token = await pollToken(device_code);
+    expect(token.accessToken).toBeTruthy();
+    expect(token.refreshToken).toBeTruthy();
+    expect(token.user).toMatchObject({ id: user.id });
+    expect(await storage.getToken(token.accessToken)).toMatchObject({ client: { id: cli.id } });
+
+    // Device codes and user codes are single use
+    await expect(pollToken(device_code)).rejects.toMatchObject({ name: 'invalid_grant' });
+    expect(await deviceAuthorizations.findByUserCode(user_code)).toBeNull();
+  });
+
+  it('only accepts decisions from a signed-in session with its CSRF token', async () => {
+    const { device_code, user_code } = await startDeviceFlow();
+
+    // The federated login marker is not a session
+    const forged = createResponse();
+    await handleDeviceVerificationPage({ query: { user_code, authenticated_user: user.id }, headers: {}, originalUrl: '/oauth/device' } as any, forged);
+    expect(forged.redirect).toHaveBeenCalled();
+    const marker = createResponse();
+    await handleDeviceVerificationDecision({ query: { authenticated_user: user.id }, headers: { cookie: 'oauth_device_session=nope' }, body: { user_code, action: 'approve' } } as any, marker);
+    expect(marker.status).toHaveBeenCalledWith(401);
+
+    // A cross-site post carries the cookie but not the form's CSRF token
+    const headers = await signIn(user.id);
+    const other = await signIn(user.id);
+    const page = createResponse();
+    await handleDeviceVerificationPage({ query: { user_code }, headers: other } as any, page);
+    for (const csrf_token of [undefined, csrfTokenOf(page)]) {
+      const rejected = createResponse();
+      await handleDeviceVerificationDecision({ headers, body: { user_code, action: 'approve', csrf_token } } as any, rejected);
+      expect(rejected.status).toHaveBeenCalledWith(403);
+    }
+    await expect(pollToken(device_code)).rejects.toMatchObject({ name: 'authorization_pending' });
+  });
+
+  it('hands an approved code to only one of two concurrent polls', async () => {
+    const { device_code, user_code } = await startDeviceFlow();
+    await deviceAuthorizations.approve(user_code, user.id);
+
+    const results = await Promise.allSettled([
+      deviceAuthorizations.poll(device_code, cli.id),
+      deviceAuthorizations.poll(device_code, cli.id)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { name: 'invalid_grant' } });
+  });
+
+  it('reports denied and expired requests to the polling device', async () => {
+    const denied = await startDeviceFlow();
+    await deviceAuthorizations.deny(denied.user_code);
+    await expect(pollToken(denied.device_code)).rejects.toMatchObject({ name: 'access_denied' });
+
+    const expired = await startDeviceFlow();
+    await expect(deviceAuthorizations.poll(expired.device_code, cli.id, new Date(Date.now() + 601 * 1000)))
+      .rejects.toMatchObject({ name: 'expired_token' });
+
+    const other = await startDeviceFlow();
+    await expect(deviceAuthorizations.poll(other.device_code, webApp.id)).rejects.toMatchObject({ name: 'invalid_grant' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * OAuth Token Revocation & Introspection Tests
+ *
+ * /oauth/revoke (RFC 7009) and /oauth/introspect (RFC 7662) handlers against
+ * in-memory session storage with JWT access tokens.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import {
+  createOAuthServer,
+  createOAuthModel,
+  initializeOAuthServer,
+  closeOAuthServer,
+  handleTokenRevocation,
+  handleTokenIntrospection
+} from '../../src/auth/oauth-middleware';
+import { createTRPCContext } from '../../src/trpc/index';
+
+const ISSUER = 'https://auth.example.com';
+const user = { id: 'user-1', email: 'alice@example.com' };
+const extension = { id: 'vscode-extension', clientSecret: 'extension-secret', grants: ['authorization_code', 'refresh_token'], redirectUris: [] };
+const resourceServer = { id: 'resource-server', clientSecret: 'resource-secret', grants: [], redirectUris: [] };
+
+function createResponse() {
+  const res: any = {};
+  res.status = vi.fn(() => res);
+  res.json = vi.fn(() => res);
+  res.send = vi.fn(() => res);
+  res.header = vi.fn(() => res);
+  return res;
+}
+
+async function call(handler: typeof handleTokenRevocation, body: Record<string, string>, headers: Record<string, string> = {}) {
+  const res = createResponse();
+  await handler({ body, headers } as any, res);
+  return res;
+}
+
+function basic(client: { id: string; clientSecret: string }) {
+  return { authorization: `Basic ${Buffer.from(`${client.id}:${client.clientSecret}`).toString('base64')}` };
+}
+
+describe('OAuth token revocation and introspection', () => {
+  let model: any;
+  let storage: any;
+  let tokenSigner: any;
+
+  beforeAll(async () => {
+    ({ storage, tokenSigner } = createOAuthServer({ type: 'memory' }, [], undefined, { issuer: ISSUER }, undefined, [resourceServer.id]));
+    await initializeOAuthServer();
+    await storage.setClient(extension.id, extension);
+    await storage.setClient(resourceServer.id, resourceServer);
+    model = createOAuthModel(storage, [], tokenSigner);
+  });
+
+  afterAll(async () => {
+    await closeOAuthServer();
+  });
+
+  async function issueTokens(refreshToken: string) {
+    const accessToken = await model.generateAccessToken(extension, user, ['mcp']);
+    await model.saveToken({
+      accessToken,
+      accessTokenExpiresAt: new Date(Date.now() + 3600 * 1000),
+      refreshToken,
+      refreshTokenExpiresAt: new Date(Date.now() + 86400 * 1000),
+      scope: ['mcp']
+    }, extension, user);
+    return accessToken;
+  }
+
+  it('introspects tokens for authenticated resource servers', async () => {
+    const accessToken = await issueTokens('refresh-1');
+
+    const res = await call(handleTokenIntrospection, { token: accessToken }, basic(resourceServer));
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      active: true,
+      scope: 'mcp',
+      client_id: 'vscode-extension',
+      username: 'alice@example.com',
+      sub: 'user-1',
+      token_type: 'Bearer',
+      iss: ISSUER,
+      aud: `${ISSUER}/`
+    }));
+
+    const refresh = await call(handleTokenIntrospection, { token: 'refresh-1', client_id: resourceServer.id, client_secret: resourceServer.clientSecret });
+    expect(refresh.json).toHaveBeenCalledWith(expect.objectContaining({ active: true, token_type: 'refresh_token' }));
+
+    expect((await call(handleTokenIntrospection, { token: 'unknown' }, basic(resourceServer))).json).toHaveBeenCalledWith({ active: false });
+
+    // Introspection needs a client secret
+    expect((await call(handleTokenIntrospection, { token: accessToken, client_id: resourceServer.id })).status).toHaveBeenCalledWith(401);
+    expect((await call(handleTokenIntrospection, { token: accessToken }, basic({ ...resourceServer, clientSecret: 'wrong' }))).status).toHaveBeenCalledWith(401);
+  });
+
+  it('tells clients that are not designated resource servers nothing', async () => {
+    const accessToken = await issueTokens('refresh-introspect');
+
+    // The extension authenticates fine but is not in introspectionClients
+    const res = await call(handleTokenIntrospection, { token: accessToken }, basic(extension));
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith({ active: false });
+  });
+
+  it('revokes a refresh token together with its access token', async () => {
+    const accessToken = await issueTokens('refresh-2');
+    expect(await tokenSigner.verifyAccessToken(accessToken)).not.toBeNull();
+
+    // Public clients (PKCE) identify with client_id alone
+    const res = await call(handleTokenRevocation, { token: 'refresh-2', client_id: extension.id });
+    expect(res.status).toHaveBeenCalledWith(200);
+
+    expect(await storage.getToken('refresh-2')).toBeNull();
+    expect(await storage.getToken(accessToken)).toBeNull();
+    // The signed access token no longer authenticates on this server
+    expect(await tokenSigner.verifyAccessToken(accessToken)).toBeNull();
+    expect(tokenSigner.isOwnToken(accessToken)).toBe(true);
+
+    const introspection = await call(handleTokenIntrospection, { token: accessToken }, basic(resourceServer));
+    expect(introspection.json).toHaveBeenCalledWith({ active: false });
+  });
+
+  it('leaves tokens of other clients alone and validates the request', async () => {
+    const accessToken = await issueTokens('refresh-3');
+
+    // Another client gets 200 but the token survives
+    expect((await call(handleTokenRevocation, { token: accessToken }, basic(resourceServer))).status).toHaveBeenCalledWith(200);
+    expect(await storage.getToken(accessToken)).not.toBeNull();
+
+    expect((await call(handleTokenRevocation, { token: accessToken, client_id: 'unknown-client' })).status).toHaveBeenCalledWith(401);
+    expect((await call(handleTokenRevocation, { client_id: extension.id })).status).toHaveBeenCalledWith(400);
+
+    // Revoking the access token keeps the refresh token
+    await call(handleTokenRevocation, { token: accessToken }, basic(extension));
+    expect(await storage.getToken(accessToken)).toBeNull();
+    expect(await storage.getToken('refresh-3')).not.toBeNull();
+  });
+
+  it('never decodes refused tokens in development mode', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const accessToken = await issueTokens('refresh-4');
+    const req = { headers: { authorization: `Bearer ${accessToken}` } };
+
+    // Unknown OpenSaaS tokens are decoded without verification outside production...
+    expect(createTRPCContext({ req, res: {} } as any).user).toMatchObject({ userId: 'user-1' });
+    // ...but not once the OAuth server refused them
+    expect(createTRPCContext({ req: { ...req, oauthTokenRejected: true }, res: {} } as any).user).toBeNull();
+    expect(tokenSigner.isOwnToken('eyJhbGciOiJub25lIn0.eyJzdWIiOiJ1c2VyLTEifQ.')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * OAuth Token Signer Tests
+ *
+ * JWT access/ID tokens, the published JWKS, offline verification by a
+ * downstream service and scheduled key rotation with overlapping validity.
+ */
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OAuthTokenSigner } from '../../src/auth/oauth-token-signer';
+import { createSessionStorage } from '../../src/auth/session-storage';
+import { createOAuthModel } from '../../src/auth/oauth-middleware';
+
+const ISSUER = 'https://auth.example.com';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const client = { id: 'mcp-client' };
+const user = { id: 'user-1', email: 'alice@example.com', name: 'Alice', provider: 'google' };
+
+/**
+ * What a resource server does: find the key by `kid` in the JWKS and verify
+ */
+function verifyWithJwks(token: string, jwks: { keys: any[] }) {
+  const { header } = jwt.decode(token, { complete: true })!;
+  const jwk = jwks.keys.find(key => key.kid === header.kid);
+  if (!jwk) throw new Error(`No key ${header.kid} in JWKS`);
+  return jwt.verify(token, crypto.createPublicKey({ key: jwk, format: 'jwk' }), { algorithms: [jwk.alg] });
+}
+
+describe('OAuthTokenSigner', () => {
+  it.each(['RS256', 'ES256'] as const)('signs %s access tokens that verify offline against the JWKS', async (algorithm) => {
+    const signer = new OAuthTokenSigner(createSessionStorage({ type: 'memory' }), ISSUER, { algorithm });
+    await signer.initialize();
+
+    const token = signer.signAccessToken(client, user, ['mcp', 'mcp:call'], 3600);
+    const jwks = await signer.getJwks();
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0]).toMatchObject({ alg: algorithm, use: 'sig' });
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+
+    expect(verifyWithJwks(token, jwks)).toMatchObject({
+      iss: ISSUER,
+      aud: `${ISSUER}/`,
+      sub: 'user-1',
+      client_id: 'mcp-client',
+      scope: 'mcp mcp:call',
+      email: 'alice@example.com'
+    });
+    expect(await signer.verifyAccessToken(token)).toMatchObject({ sub: 'user-1', provider: 'google' });
+    expect(await signer.verifyAccessToken('opaque-token')).toBeNull();
+
+    // ID tokens are addressed to the client
+    expect(verifyWithJwks(signer.signIdToken(client, user), jwks)).toMatchObject({ aud: 'mcp-client', sub: 'user-1' });
+  });
+
+  it('rotates keys on schedule and keeps retired keys published during the overlap', async () => {
+    const storage = createSessionStorage({ type: 'memory' });
+    const start = new Date();
+    const signer = new OAuthTokenSigner(storage, ISSUER, { rotationIntervalDays: 30, keyOverlapHours: 24 });
+    await signer.initialize(start);
+    const oldToken = signer.signAccessToken(client, user, 'mcp', 3600);
+
+    expect(await signer.rotateIfDue(new Date(start.getTime() + 29 * DAY_MS))).toBe(false);
+    const rotatedAt = new Date(start.getTime() + 30 * DAY_MS);
+    expect(await signer.rotateIfDue(rotatedAt)).toBe(true);
+
+    const newToken = signer.signAccessToken(client, user, 'mcp', 3600);
+    expect(jwt.decode(newToken, { complete: true })!.header.kid).not.toBe(jwt.decode(oldToken, { complete: true })!.header.kid);
+
+    // Both keys are published, so tokens from before the rotation still verify
+    const jwks = await signer.getJwks(rotatedAt);
+    expect(jwks.keys).toHaveLength(2);
+    expect(verifyWithJwks(oldToken, jwks)).toMatchObject({ sub: 'user-1' });
+    expect(verifyWithJwks(newToken, jwks)).toMatchObject({ sub: 'user-1' });
+
+    // After the overlap only the new key is left
+    const afterOverlap = await signer.getJwks(new Date(rotatedAt.getTime() + 25 * 60 * 60 * 1000));
+    expect(afterOverlap.keys.map(key => key.kid)).toEqual([jwt.decode(newToken, { complete: true })!.header.kid]);
+
+    // Another instance sharing the storage verifies tokens without rotating again
+    const otherInstance = new OAuthTokenSigner(storage, ISSUER);
+    await otherInstance.initialize(rotatedAt);
+    expect(await otherInstance.verifyAccessToken(newToken)).toMatchObject({ sub: 'user-1' });
+  });
+});
+
+describe('OAuth model with JWT tokens', () => {
+  it('issues JWT access tokens and adds an ID token for openid sign-ins', async () => {
+    const storage = createSessionStorage({ type: 'memory' });
+    const signer = new OAuthTokenSigner(storage, ISSUER);
+    await signer.initialize();
+    const model = createOAuthModel(storage, [], signer) as any;
+
+    const accessToken = await model.generateAccessToken({ ...client, accessTokenLifetime: 600 }, user, ['openid', 'mcp']);
+    const claims = await signer.verifyAccessToken(accessToken);
+    expect(claims!.exp - claims!.iat).toBe(600);
+
+    const saved = await model.saveToken({ accessToken, scope: ['openid', 'mcp'] }, client, user);
+    expect(jwt.decode(saved.id_token)).toMatchObject({ aud: 'mcp-client', email: 'alice@example.com' });
+    expect(await storage.getToken(accessToken)).not.toHaveProperty('id_token');
+
+    const withoutOpenId = await model.saveToken({ accessToken, scope: ['mcp'] }, client, user);
+    expect(withoutOpenId).not.toHaveProperty('id_token');
+
+    // Without a signer the library keeps issuing opaque tokens
+    expect(createOAuthModel(storage, [])).not.toHaveProperty('generateAccessToken');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Service Account Tests
+ *
+ * Admin-managed service accounts and the client_credentials grant against
+ * in-memory session storage with JWT access tokens.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as OAuth2Server from '@node-oauth/oauth2-server';
+import { createOAuthServer, initializeOAuthServer, closeOAuthServer } from '../../src/auth/oauth-middleware';
+import { ServiceAccountManager } from '../../src/auth/service-accounts';
+import { router, t } from '../../src/trpc/index';
+import { createConversationsRouter } from '../../src/trpc/routers/conversations';
+import { createBillingRouter } from '../../src/trpc/routers/billing';
+import { createUserRouter } from '../../src/trpc/routers/user';
+import { createTokensProcedures } from '../../src/trpc/routers/ai/methods/tokens';
+import { createUserProcedures } from '../../src/trpc/routers/ai/methods/user';
+import { createGenerationProcedures } from '../../src/trpc/routers/ai/methods/generation';
+import { DEFAULT_CONFIG } from '../../src/trpc/routers/ai/types';
+import { ConversationService } from '../../src/services/conversations/conversation-service';
+import { InMemoryConversationStore } from '../../src/services/conversations/conversation-store';
+
+const ISSUER = 'https://auth.example.com';
+const ORGANIZATION_ID = '7d9f5c1e-2a4b-4c6d-8e0f-1a2b3c4d5e6f';
+
+describe('Service accounts', () => {
+  let oauth: any;
+  let tokenSigner: any;
+  let storage: any;
+  let serviceAccounts: ServiceAccountManager;
+  // user-1 is the only member of the organization
+  const organizationService = {
+    getMembership: vi.fn(async (organizationId: string, userId: string) =>
+      organizationId === ORGANIZATION_ID && userId === 'user-1' ? { organizationId, userId, role: 'member' } : null)
+  };
+
+  beforeAll(async () => {
+    ({ oauth, storage, tokenSigner } = createOAuthServer({ type: 'memory' }, [], undefined, { issuer: ISSUER }));
+    await initializeOAuthServer();
+    serviceAccounts = new ServiceAccountManager(storage, {
+      scopes: { customScopes: [{ name: 'ci:deploy', description: 'Deploy from CI' }] }
+    }, organizationService as any);
+  });
+
+  afterAll(async () => {
+    await closeOAuthServer();
+  });
+
+  async function requestToken(body: Record<string, string>) {
+    const request = new OAuth2Server.Request({
+      method: 'POST',
+      query: {},
+      headers: { 'content-type': 'application/x-www-form-urlencoded', 'content-length': '1' },
+      body: { grant_type: 'client_credentials', ...body }
+    });
+    return oauth.server.token(request, new OAuth2Server.Response());
+  }
+
+  it('only grants non-privileged scopes', async () => {
+    const allowed = serviceAccounts.allowedScopes();
+    expect(allowed).toEqual(expect.arrayContaining(['ai:execute', 'mcp:call', 'ci:deploy']));
+    expect(allowed).not.toContain('admin');
+    expect(allowed).not.toContain('system:admin');
+
+    await expect(serviceAccounts.create({ name: 'ci', ownerUserId: 'user-1', scopes: ['ai:execute', 'admin'] }, 'admin@company.com'))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining('admin') });
+    await expect(serviceAccounts.create({ name: 'ci', ownerUserId: 'user-1', scopes: [] }, 'admin@company.com'))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('requires organization accounts to be owned by a member', async () => {
+    const input = { name: 'Team evals', ownerUserId: 'user-2', organizationId: ORGANIZATION_ID, scopes: ['ai:execute'] };
+
+    await expect(serviceAccounts.create(input, 'admin@company.com'))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining('not a member') });
+    expect(organizationService.getMembership).toHaveBeenCalledWith(ORGANIZATION_ID, 'user-2');
+
+    // Without organizations on the server no organization can be checked
+    await expect(new ServiceAccountManager(storage).create({ ...input, ownerUserId: 'user-1' }, 'admin@company.com'))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect((await serviceAccounts.list()).map(account => account.name)).not.toContain('Team evals');
+  });
+
+  it('issues service principal tokens attributed to the owner', async () => {
+    const { account, clientSecret } = await serviceAccounts.create({
+      name: 'Nightly evals',
+      ownerUserId: 'user-1',
+      organizationId: ORGANIZATION_ID,
+      scopes: ['ai:execute', 'ci:deploy']
+    }, 'admin@company.com');
+    expect(account.clientId).toMatch(/^svc_/);
+
+    const token = await requestToken({ client_id: account.clientId, client_secret: clientSecret });
+    expect(token.scope).toEqual(['ai:execute', 'ci:deploy']);
+    expect(token.refreshToken).toBeUndefined();
+    expect(await tokenSigner.verifyAccessToken(token.accessToken)).toMatchObject({
+      sub: `service:${account.clientId}`,
+      client_id: account.clientId,
+      principal_type: 'service',
+      owner_id: 'user-1',
+      organization_id: ORGANIZATION_ID,
+      name: 'Nightly evals'
+    });
+
+    // Requested scopes must be a subset of the account's scopes
+    const narrowed = await requestToken({ client_id: account.clientId, client_secret: clientSecret, scope: 'ai:execute' });
+    expect(narrowed.scope).toEqual(['ai:execute']);
+    await expect(requestToken({ client_id: account.clientId, client_secret: clientSecret, scope: 'ai:execute mcp:admin' }))
+      .rejects.toMatchObject({ name: 'invalid_scope' });
+
+    // The secret is required and rotation invalidates the old one
+    await expect(requestToken({ client_id: account.clientId })).rejects.toMatchObject({ name: 'invalid_client' });
+    const rotated = await serviceAccounts.rotateSecret(account.clientId);
+    await expect(requestToken({ client_id: account.clientId, client_secret: clientSecret })).rejects.toMatchObject({ name: 'invalid_client' });
+    expect(await requestToken({ client_id: account.clientId, client_secret: rotated.clientSecret })).toHaveProperty('accessToken');
+  });
+
+  it('lists and deletes service accounts', async () => {
+    const { account, clientSecret } = await serviceAccounts.create({ name: 'Indexer', ownerUserId: 'user-2', scopes: ['mcp:call'] }, 'admin@company.com');
+    expect((await serviceAccounts.list()).map(entry => entry.name)).toEqual(expect.arrayContaining(['Nightly evals', 'Indexer']));
+
+    expect(await serviceAccounts.delete(account.clientId)).toBe(true);
+    expect(await serviceAccounts.delete(account.clientId)).toBe(false);
+    expect(await serviceAccounts.get(account.clientId)).toBeNull();
+    expect((await serviceAccounts.list()).map(entry => entry.name)).not.toContain('Indexer');
+    await expect(requestToken({ client_id: account.clientId, client_secret: clientSecret })).rejects.toMatchObject({ name: 'invalid_client' });
+    await expect(serviceAccounts.rotateSecret(account.clientId)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('Service account tokens on owner data', () => {
+  const owner = { userId: 'user-1', email: 'alice@example.com' };
+  // A service account token of the owner: ctx.user is the owner with principalType 'service'
+  const serviceAccount = { ...owner, principalType: 'service', serviceAccount: { clientId: 'svc_ci', name: 'CI' } };
+  const conversationService = new ConversationService(new InMemoryConversationStore());
+
+  const routers = {
+    conversations: createConversationsRouter(conversationService),
+    billing: createBillingRouter(null, null, null),
+    user: createUserRouter(null, null, null),
+    aiTokens: router(createTokensProcedures(null, null, null)),
+    aiUser: router(createUserProcedures(null, null, null, ['anthropic']))
+  };
+
+  it.each(Object.entries(routers))('refuses every %s procedure', async (_name, ownerDataRouter) => {
+    const caller = t.createCallerFactory(ownerDataRouter)({ user: serviceAccount, apiKey: null } as any) as any;
+    const paths = Object.keys(ownerDataRouter._def.procedures);
+    expect(paths.length).toBeGreaterThan(0);
+
+    for (const path of paths) {
+      await expect(caller[path](undefined), path).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    }
+  });
+
+  it('keeps the owner\'s threads out of AI requests', async () => {
+    const thread = await conversationService.createThread(owner.userId, { messages: [{ role: 'user', content: 'secret plans' }] });
+    const aiService = { execute: vi.fn(), getContextWindow: vi.fn(async () => undefined) };
+    const aiRouter = router(createGenerationProcedures(DEFAULT_CONFIG, aiService as any, null, null, null, conversationService));
+    const caller = t.createCallerFactory(aiRouter)({ user: serviceAccount, apiKey: 'sk-test' } as any);
+
+    await expect(caller.generateText({ threadId: thread.id, content: 'Continue', systemPrompt: 'You are helpful' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(aiService.execute).not.toHaveBeenCalled();
+
+    // The owner still reaches their own thread
+    const ownerCaller = t.createCallerFactory(routers.conversations)({ user: owner, apiKey: null } as any);
+    expect((await ownerCaller.list()).threads.map((entry: any) => entry.id)).toEqual([thread.id]);
+  });
+});
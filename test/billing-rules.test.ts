@@ -0,0 +1,73 @@
+/**
+ * Billing Rules Tests
+ *
+ * Conversion of provider usage and purchases into virtual tokens:
+ * model multipliers, tier fees, minimum charges and per-variant grants.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BillingRules } from '../src/services/billing/billing-rules';
+
+describe('BillingRules', () => {
+  it('keeps the 25% usage fee and 10 tokens per cent by default', () => {
+    const rules = new BillingRules();
+
+    expect(rules.calculateCharge(400)).toMatchObject({ billableTokens: 400, platformFeeTokens: 100, totalCharge: 500 });
+    expect(rules.calculateGrant({ amountPaidCents: 500 })).toMatchObject({
+      tokensPurchased: 5000,
+      usableTokens: 4000,
+      platformFeeTokens: 1000,
+      rule: { grantRule: 'tokensPerCent', tokensPerCent: 10, platformFeePercent: 20 }
+    });
+  });
+
+  it('picks the most specific model multiplier', () => {
+    const rules = new BillingRules({
+      platformFeePercent: 0,
+      modelMultipliers: {
+        'claude-opus-*': 5,
+        'anthropic/claude-3-haiku-20240307': 0.25,
+        'openrouter/anthropic/*': 2
+      }
+    });
+
+    expect(rules.calculateCharge(1000, { provider: 'anthropic', model: 'claude-opus-4-1-20250805' }).rule)
+      .toMatchObject({ multiplier: 5, multiplierRule: 'claude-opus-*' });
+    expect(rules.calculateCharge(1000, { provider: 'anthropic', model: 'claude-3-haiku-20240307' }).totalCharge).toBe(250);
+    expect(rules.calculateCharge(1000, { provider: 'openrouter', model: 'anthropic/claude-3.5-sonnet' }).totalCharge).toBe(2000);
+    expect(rules.calculateCharge(1000, { provider: 'openai', model: 'gpt-4o' }).rule)
+      .toMatchObject({ multiplier: 1, multiplierRule: 'default' });
+  });
+
+  it('applies tier fees and minimum charges', () => {
+    const rules = new BillingRules({
+      platformFeePercent: 30,
+      minimumChargeTokens: 50,
+      tiers: { enterprise: { platformFeePercent: 5, minimumChargeTokens: 0 } }
+    });
+
+    expect(rules.calculateCharge(1000, { tier: 'enterprise' })).toMatchObject({
+      platformFeeTokens: 50,
+      totalCharge: 1050,
+      rule: { feeRule: 'tier:enterprise', platformFeePercent: 5 }
+    });
+    expect(rules.calculateCharge(10, { tier: 'starter' })).toMatchObject({
+      totalCharge: 50,
+      rule: { feeRule: 'default', minimumChargeApplied: true }
+    });
+    expect(rules.calculateCharge(10, { tier: 'enterprise' }).totalCharge).toBe(11);
+  });
+
+  it('grants tokens from the variant table', () => {
+    const rules = new BillingRules({
+      purchaseGrants: { '12345': { tokens: 1_000_000, platformFeePercent: 10 } }
+    });
+
+    expect(rules.calculateGrant({ variantId: 12345, amountPaidCents: 999, quantity: 2 })).toEqual({
+      tokensPurchased: 2_000_000,
+      usableTokens: 1_800_000,
+      platformFeeTokens: 200_000,
+      rule: { grantRule: 'variant:12345', tokensPerUnit: 1_000_000, quantity: 2, platformFeePercent: 10 }
+    });
+  });
+});
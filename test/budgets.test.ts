@@ -0,0 +1,276 @@
+/**
+ * Spending Budget Tests
+ *
+ * Hard caps, spend holds, soft-cap alerts and BYOK opt-in in BudgetService
+ * against the PostgreSQL test database, enforcement in ai.generateText
+ * and ai.generateObject, and budget and key management being off limits to
+ * service accounts.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { BudgetService, BudgetExceededError, getBudgetPeriod } from '../src/services/billing/budget-service';
+import { router, t } from '../src/trpc/index';
+import { createGenerationProcedures } from '../src/trpc/routers/ai/methods/generation';
+import { createStructuredOutputProcedures } from '../src/trpc/routers/ai/methods/structured';
+import { DEFAULT_CONFIG } from '../src/trpc/routers/ai/types';
+import { createBillingRouter } from '../src/trpc/routers/billing';
+import { createAuthRouter } from '../src/trpc/routers/auth';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  await testDb.reset();
+});
+
+describe('BudgetService', () => {
+  it('blocks requests that would exceed a hard cap and counts spend per scope', async () => {
+    const service = new BudgetService(testDb.db);
+    await service.setBudget({ scope: 'user', scopeId: 'user-1', period: 'daily', unit: 'tokens', limit: 1000 });
+    await service.setBudget({ scope: 'organization', scopeId: 'org-1', period: 'monthly', unit: 'usd', limit: 5 });
+
+    const subject = { userId: 'user-1', organizationId: 'org-1' };
+    await service.recordSpend(subject, { tokens: 700, costUsd: 1 });
+
+    await expect(service.checkBudgets(subject, { tokens: 200, costUsd: 0.5 })).resolves.toHaveLength(2);
+    const error = await service.checkBudgets(subject, { tokens: 400, costUsd: 0.5 }).catch(e => e);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.status).toMatchObject({ scope: 'user', spent: 700, remaining: 300 });
+    expect(error.message).toContain('Daily user budget exceeded: 700 tokens of 1000 tokens spent');
+
+    // Another user in the same organization only sees the organization budget
+    await expect(service.checkBudgets({ userId: 'user-2', organizationId: 'org-1' }, { tokens: 5000, costUsd: 3.9 }))
+      .resolves.toMatchObject([{ scope: 'organization', spent: 1, remaining: 4 }]);
+    await expect(service.checkBudgets({ userId: 'user-2', organizationId: 'org-1' }, { tokens: 0, costUsd: 4.5 }))
+      .rejects.toThrow('Monthly organization budget exceeded');
+  });
+
+  it('applies only self-imposed budgets to BYOK requests', async () => {
+    const service = new BudgetService(testDb.db);
+    const apiKeyId = BudgetService.apiKeyScopeId('sk-user');
+    await service.setBudget({ scope: 'user', scopeId: 'user-1', period: 'monthly', unit: 'tokens', limit: 100 });
+    await service.setBudget({ scope: 'api_key', scopeId: apiKeyId, period: 'monthly', unit: 'tokens', limit: 500, selfImposed: true });
+
+    const subject = { userId: 'user-1', apiKey: 'sk-user' };
+    await service.recordSpend(subject, { tokens: 300, costUsd: 0.01 }, { byok: true });
+
+    // BYOK spend does not count against the admin budget...
+    expect(await service.getStatus(subject)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ scope: 'user', spent: 0 }),
+      expect.objectContaining({ scope: 'api_key', scopeId: apiKeyId, spent: 300, selfImposed: true })
+    ]));
+    // ...nor does the admin budget cap BYOK requests, but the user's own cap does
+    await expect(service.checkBudgets(subject, { tokens: 150, costUsd: 0 }, { byok: true })).resolves.toHaveLength(1);
+    await expect(service.checkBudgets(subject, { tokens: 250, costUsd: 0 }, { byok: true })).rejects.toThrow(BudgetExceededError);
+    expect(apiKeyId).not.toContain('sk-user');
+  });
+
+  it('sends each soft-cap alert once per period', async () => {
+    const onAlert = vi.fn();
+    const service = new BudgetService(testDb.db, { alertThresholds: [50, 90], onAlert });
+    await service.setBudget({ scope: 'user', scopeId: 'user-1', period: 'monthly', unit: 'usd', limit: 10, hardCap: false });
+
+    await service.recordSpend({ userId: 'user-1' }, { tokens: 0, costUsd: 4 });
+    expect(onAlert).not.toHaveBeenCalled();
+
+    await service.recordSpend({ userId: 'user-1' }, { tokens: 0, costUsd: 2 });
+    await service.recordSpend({ userId: 'user-1' }, { tokens: 0, costUsd: 1 });
+    expect(onAlert).toHaveBeenCalledTimes(1);
+    expect(onAlert).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'budget_warning', threshold: 50 }));
+
+    // Soft-only budgets alert past the limit but never block
+    const statuses = await service.recordSpend({ userId: 'user-1' }, { tokens: 0, costUsd: 5 });
+    expect(onAlert).toHaveBeenCalledTimes(2);
+    expect(statuses[0]).toMatchObject({ spent: 12, remaining: 0, percentUsed: 120 });
+    await expect(service.checkBudgets({ userId: 'user-1' }, { tokens: 0, costUsd: 1 })).resolves.toHaveLength(1);
+  });
+
+  it('holds estimates so parallel requests cannot overshoot a hard cap together', async () => {
+    const service = new BudgetService(testDb.db);
+    await service.setBudget({ scope: 'user', scopeId: 'user-1', period: 'daily', unit: 'tokens', limit: 1000 });
+    const subject = { userId: 'user-1' };
+
+    const results = await Promise.allSettled([
+      service.reserveSpend(subject, { tokens: 600, costUsd: 0 }),
+      service.reserveSpend(subject, { tokens: 600, costUsd: 0 })
+    ]);
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const hold = results.find(result => result.status === 'fulfilled') as PromiseFulfilledResult<{ id: string; statuses: any[] }>;
+    expect(hold.value.statuses).toMatchObject([{ spent: 600, remaining: 400 }]);
+
+    // Settling replaces the estimate with the actual spend
+    expect(await service.recordSpend(subject, { tokens: 250, costUsd: 0 }, { holdId: hold.value.id }))
+      .toMatchObject([{ spent: 250 }]);
+    await service.releaseSpend(hold.value.id);
+    expect(await service.getStatus(subject)).toMatchObject([{ spent: 250 }]);
+
+    // Released and expired holds stop counting
+    const released = await service.reserveSpend(subject, { tokens: 700, costUsd: 0 });
+    await service.releaseSpend(released.id);
+    const stale = await service.reserveSpend(subject, { tokens: 700, costUsd: 0 });
+    await testDb.sql(`UPDATE budget_spend SET held_until = CURRENT_TIMESTAMP - INTERVAL '1 minute' WHERE id = $1`, [stale.id]);
+    await expect(service.reserveSpend(subject, { tokens: 700, costUsd: 0 })).resolves.toBeDefined();
+  });
+
+  it('resets budgets at UTC day and month boundaries', () => {
+    const now = new Date('2026-12-31T23:30:00Z');
+    expect(getBudgetPeriod('daily', now)).toEqual({ start: new Date('2026-12-31T00:00:00Z'), end: new Date('2027-01-01T00:00:00Z') });
+    expect(getBudgetPeriod('monthly', now)).toEqual({ start: new Date('2026-12-01T00:00:00Z'), end: new Date('2027-01-01T00:00:00Z') });
+  });
+});
+
+describe('ai.generateText budgets', () => {
+  const executeResult = {
+    content: 'Hi!',
+    usage: { promptTokens: 40, completionTokens: 60, totalTokens: 100 },
+    model: 'gpt-4o-mini',
+    provider: 'openai',
+    requestId: 'req-1'
+  };
+  const input = { content: 'Hello', systemPrompt: 'Be brief', options: { maxTokens: 200 } };
+
+  function createCaller(budgetService: BudgetService, ctx: any, userType: 'subscription' | 'byok') {
+    const aiService = { execute: vi.fn(async () => executeResult), getAgentMaxSteps: vi.fn(() => 3) };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType })),
+      recordUsage: vi.fn(async () => 'usage-1')
+    };
+    const virtualTokenService = {
+      ensureUserAccount: vi.fn(async () => undefined),
+      reserveTokens: vi.fn(async () => ({ id: 'hold-1' })),
+      captureReservation: vi.fn(async () => ({ tokensDeducted: 125, platformFee: 25, newBalance: 875 })),
+      releaseReservation: vi.fn(async () => undefined)
+    };
+    const aiRouter = router(createGenerationProcedures(
+      DEFAULT_CONFIG as any, aiService as any, virtualTokenService as any, usageAnalyticsService as any, null, null, budgetService
+    ));
+    return { caller: t.createCallerFactory(aiRouter)(ctx), aiService, virtualTokenService };
+  }
+
+  it('stops subscription requests over a hard cap before calling the provider', async () => {
+    const budgetService = new BudgetService(testDb.db);
+    await budgetService.setBudget({ scope: 'organization', scopeId: 'org-1', period: 'daily', unit: 'tokens', limit: 400 });
+    const ctx = { user: { userId: 'user-1', organizationId: 'org-1', subscriptionTier: 'pro' }, apiKey: null };
+
+    const { caller, aiService, virtualTokenService } = createCaller(budgetService, ctx, 'subscription');
+    const response = await caller.generateText(input);
+    expect(response.tokenUsage).toMatchObject({
+      tokensCharged: 125,
+      remainingBalance: 875,
+      remainingBudget: { scope: 'organization', unit: 'tokens', limit: 400, spent: 100, remaining: 300 }
+    });
+
+    // Prompt estimate plus maxTokens (200) no longer fits in the remaining 300
+    await budgetService.recordSpend({ organizationId: 'org-1' }, { tokens: 150, costUsd: 0 });
+    const error = await caller.generateText(input).catch(e => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('FORBIDDEN');
+    expect(aiService.execute).toHaveBeenCalledTimes(1);
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds the estimate for every step of an agent run', async () => {
+    const budgetService = new BudgetService(testDb.db);
+    const ctx = { user: { userId: 'user-1', subscriptionTier: 'pro' }, apiKey: null };
+
+    const { caller, aiService, virtualTokenService } = createCaller(budgetService, ctx, 'subscription');
+    await caller.generateText(input);
+    await caller.generateText({ ...input, agent: { maxSteps: 3 } });
+
+    const [[, singleStep], [, agentRun]] = virtualTokenService.reserveTokens.mock.calls as any[];
+    expect(aiService.getAgentMaxSteps).toHaveBeenCalledWith(expect.objectContaining({ maxSteps: 3 }));
+    expect(agentRun).toBe(singleStep * 3);
+  });
+
+  it('lets BYOK users opt into a self-imposed cap', async () => {
+    const budgetService = new BudgetService(testDb.db);
+    await budgetService.setBudget({ scope: 'user', scopeId: 'user-1', period: 'monthly', unit: 'tokens', limit: 100 });
+    const ctx = { user: { userId: 'user-1' }, apiKey: 'sk-user' };
+
+    // The admin budget does not limit the user's own key
+    const { caller } = createCaller(budgetService, ctx, 'byok');
+    expect((await caller.generateText(input)).usageInfo).toMatchObject({ tokensUsed: 100, remainingBudget: null });
+
+    await budgetService.setBudget({ scope: 'user', scopeId: 'user-1', period: 'monthly', unit: 'tokens', limit: 1000, selfImposed: true });
+    expect((await caller.generateText(input)).usageInfo?.remainingBudget).toMatchObject({ spent: 200, remaining: 800 });
+  });
+});
+
+describe('ai.generateObject budgets', () => {
+  it('enforces hard caps and settles the hold with the actual spend', async () => {
+    const budgetService = new BudgetService(testDb.db);
+    await budgetService.setBudget({ scope: 'user', scopeId: 'user-1', period: 'daily', unit: 'tokens', limit: 500 });
+    const aiService = {
+      getContextWindow: vi.fn(() => undefined),
+      generateObject: vi.fn(async () => ({
+        object: { name: 'Ada' },
+        content: '{"name":"Ada"}',
+        usage: { promptTokens: 40, completionTokens: 60, totalTokens: 100 },
+        model: 'claude-test',
+        provider: 'anthropic',
+        requestId: 'req-1'
+      }))
+    };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType: 'byok' })),
+      recordUsage: vi.fn(async () => 'usage-1')
+    };
+    const aiRouter = router(createStructuredOutputProcedures(
+      DEFAULT_CONFIG as any, aiService as any, null, usageAnalyticsService as any, null, null, budgetService
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: { userId: 'user-1' }, apiKey: 'sk-user' } as any);
+    const input = { content: 'Ada', systemPrompt: 'Extract', schema: { type: 'object' }, options: { maxTokens: 300 } } as any;
+
+    // Admin budgets never cap the user's own key, self-imposed ones count every BYOK request
+    await caller.generateObject(input);
+    await budgetService.setBudget({ scope: 'user', scopeId: 'user-1', period: 'daily', unit: 'tokens', limit: 500, selfImposed: true });
+    expect((await caller.generateObject(input)).usageInfo?.remainingBudget).toMatchObject({ spent: 200, remaining: 300 });
+
+    // The prompt estimate plus maxTokens (300) no longer fits
+    await expect(caller.generateObject(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(aiService.generateObject).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('billing budgets and stored keys for service accounts', () => {
+  const owner = { userId: 'user-1', email: 'alice@example.com' };
+  // A service account token of the owner: ctx.user is the owner with principalType 'service'
+  const serviceAccount = { ...owner, principalType: 'service', serviceAccount: { clientId: 'svc_ci', name: 'CI' } };
+
+  it('lets only the owner change budgets', async () => {
+    const service = new BudgetService(testDb.db);
+    const createCaller = t.createCallerFactory(createBillingRouter(null, null, null, null, service));
+    const ownerCaller = createCaller({ user: owner, apiKey: null } as any);
+    const serviceCaller = createCaller({ user: serviceAccount, apiKey: null } as any);
+
+    const { budget } = await ownerCaller.setBudget({ period: 'monthly', unit: 'tokens', limit: 1000 });
+    // A compromised CI token cannot lift the owner's cap
+    await expect(serviceCaller.setBudget({ period: 'monthly', unit: 'tokens', limit: 1_000_000 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(serviceCaller.deleteBudget({ budgetId: budget.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await service.getBudget(budget.id)).toMatchObject({ limit: 1000 });
+    // The owner's budgets are owner data too
+    await expect(serviceCaller.getBudgets()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect((await ownerCaller.getBudgets()).budgets).toHaveLength(1);
+  });
+
+  it('keeps service accounts away from stored keys', async () => {
+    const postgresRPCMethods = { storeUserKey: vi.fn(async () => ({ success: true, secretId: 'secret-1' })) };
+    const createCaller = t.createCallerFactory(createAuthRouter(postgresRPCMethods as any));
+    const input = { email: owner.email, provider: 'anthropic' as const, apiKey: 'sk-ant-test' };
+
+    await expect(createCaller({ user: serviceAccount, apiKey: null } as any).storeUserKey(input))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(postgresRPCMethods.storeUserKey).not.toHaveBeenCalled();
+    await expect(createCaller({ user: owner, apiKey: null } as any).storeUserKey(input)).resolves.toMatchObject({ keyId: 'secret-1' });
+  });
+});
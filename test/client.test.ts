@@ -162,4 +162,39 @@ describe('RPCClient', () => {
       expect(result).toHaveProperty('usage');
     });
   });
-});
\ No newline at end of file
+
+  describe('batch method', () => {
+    it('should send one request and return results in call order', async () => {
+      mockAxios.post.mockImplementationOnce(async (_url: string, requests: any[]) => ({
+        // Server may answer in any order
+        data: [
+          { jsonrpc: '2.0', id: requests[1].id, error: { code: -32601, message: 'Method not found' } },
+          { jsonrpc: '2.0', id: requests[0].id, result: { status: 'healthy' } }
+        ]
+      }));
+
+      const results = await client.batch([
+        { method: 'ai.health' },
+        { method: 'ai.missing', params: { a: 1 } },
+        { method: 'system.ping', notification: true }
+      ]);
+
+      const [, requests] = mockAxios.post.mock.calls[0];
+      expect(requests).toHaveLength(3);
+      expect(requests[2]).not.toHaveProperty('id');
+      expect(results).toEqual([
+        { method: 'ai.health', result: { status: 'healthy' } },
+        { method: 'ai.missing', error: { code: -32601, message: 'Method not found' } }
+      ]);
+    });
+
+    it('should reject when the server rejects the whole batch', async () => {
+      mockAxios.post.mockResolvedValueOnce({
+        data: { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request', data: 'Batch size 3 exceeds limit of 2' } }
+      });
+
+      await expect(client.batch([{ method: 'a' }, { method: 'b' }, { method: 'c' }]))
+        .rejects.toThrow('Batch size 3 exceeds limit of 2');
+    });
+  });
+});
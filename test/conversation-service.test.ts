@@ -0,0 +1,252 @@
+/**
+ * Conversation Service Tests
+ *
+ * Thread scoping, forking, context-window truncation, file and PostgreSQL
+ * persistence and generateText with a threadId.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConversationService } from '../src/services/conversations/conversation-service';
+import {
+  InMemoryConversationStore, FileConversationStore, PostgreSQLConversationStore
+} from '../src/services/conversations/conversation-store';
+import { router, t } from '../src/trpc/index';
+import { createGenerationProcedures } from '../src/trpc/routers/ai/methods/generation';
+import { createConversationsRouter } from '../src/trpc/routers/conversations';
+import { DEFAULT_CONFIG } from '../src/trpc/routers/ai/types';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+
+  beforeEach(async () => {
+    service = new ConversationService(new InMemoryConversationStore());
+    await service.initialize();
+  });
+
+  it('scopes threads to their owner', async () => {
+    const thread = await service.createThread('alice', { title: 'Refactor' });
+
+    expect(await service.getThread('alice', thread.id)).not.toBeNull();
+    expect(await service.getThread('bob', thread.id)).toBeNull();
+    expect(await service.appendMessages('bob', thread.id, [{ role: 'user', content: 'hi' }])).toBeNull();
+    expect(await service.deleteThread('bob', thread.id)).toBe(false);
+    expect(await service.listThreads('bob')).toEqual([]);
+    expect((await service.listThreads('alice'))[0].id).toBe(thread.id);
+  });
+
+  it('forks a thread up to a given message', async () => {
+    const thread = await service.createThread('alice', {
+      title: 'Original',
+      messages: [
+        { role: 'user', content: 'one' },
+        { role: 'assistant', content: 'two' },
+        { role: 'user', content: 'three' },
+      ],
+    });
+
+    const fork = await service.forkThread('alice', thread.id, { fromMessageId: thread.messages[1].id });
+
+    expect(fork!.parentThreadId).toBe(thread.id);
+    expect(fork!.title).toBe('Original (fork)');
+    expect(fork!.messages.map(m => m.content)).toEqual(['one', 'two']);
+    expect(fork!.messages[0].id).not.toBe(thread.messages[0].id);
+  });
+
+  it('keeps the most recent turns that fit the context window', async () => {
+    const thread = await service.createThread('alice', {
+      messages: [
+        { role: 'user', content: 'a'.repeat(800) },      // ~104 tokens
+        { role: 'assistant', content: 'b'.repeat(400) },
+        { role: 'user', content: 'c'.repeat(40) },       // ~14 tokens
+      ],
+    });
+
+    const context = await service.buildContext(thread, {
+      contextWindowTokens: 200,
+      reserveOutputTokens: 50,
+    });
+
+    expect(context.droppedMessages).toBe(1);
+    expect(context.messages.map(m => m.content[0])).toEqual(['b', 'c']);
+  });
+
+  it('summarizes dropped turns when a summarizer is configured', async () => {
+    const summarizer = vi.fn(async () => 'They discussed a refactor.');
+    service = new ConversationService(new InMemoryConversationStore(), {
+      contextWindowTokens: 100,
+      reserveOutputTokens: 10,
+      summarizer,
+    });
+
+    const thread = await service.createThread('alice', {
+      messages: [
+        { role: 'user', content: 'x'.repeat(400) },
+        { role: 'assistant', content: 'short reply' },
+      ],
+    });
+
+    const context = await service.buildContext(thread);
+
+    expect(summarizer).toHaveBeenCalledTimes(1);
+    expect(context.summary).toBe('They discussed a refactor.');
+    expect(context.messages).toHaveLength(1);
+  });
+});
+
+describe('FileConversationStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'conversations-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists threads across restarts', async () => {
+    const filePath = join(dir, 'conversations.json');
+    const first = new ConversationService(new FileConversationStore(filePath));
+    await first.initialize();
+    const thread = await first.createThread('alice', { messages: [{ role: 'user', content: 'hello' }] });
+    await first.appendMessages('alice', thread.id, [{ role: 'assistant', content: 'hi there' }]);
+
+    const second = new ConversationService(new FileConversationStore(filePath));
+    await second.initialize();
+    const loaded = await second.getThread('alice', thread.id);
+
+    expect(loaded!.messages.map(m => m.content)).toEqual(['hello', 'hi there']);
+    expect(loaded!.createdAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('PostgreSQLConversationStore', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  it('round-trips assistant tool calls and their results', async () => {
+    const conversationService = new ConversationService(new PostgreSQLConversationStore(testDb.db));
+    const caller = t.createCallerFactory(createConversationsRouter(conversationService))({
+      user: { userId: 'alice', email: 'alice@example.com' },
+      apiKey: null,
+    } as any);
+
+    const toolCalls = [{ toolCallId: 'call-1', toolName: 'searchDocs', args: { query: 'closures' } }];
+    const { threadId } = await caller.create({
+      messages: [
+        { role: 'user', content: 'Find the closures guide' },
+        { role: 'assistant', content: '', toolCalls },
+      ],
+    });
+    await caller.append({
+      threadId,
+      messages: [{ role: 'tool', content: 'guide.md', toolCallId: 'call-1', toolName: 'searchDocs' }],
+    });
+
+    const thread = await caller.get({ threadId });
+    expect(thread.messages[1].toolCalls).toEqual(toolCalls);
+    expect(thread.messages[2]).toMatchObject({ role: 'tool', toolCallId: 'call-1', toolName: 'searchDocs' });
+
+    // Replayed history keeps the call its tool result answers
+    const context = await conversationService.buildContext(thread);
+    expect(context.messages.slice(1)).toEqual([
+      { role: 'assistant', content: '', toolCallId: undefined, toolName: undefined, toolCalls },
+      { role: 'tool', content: 'guide.md', toolCallId: 'call-1', toolName: 'searchDocs', toolCalls: undefined },
+    ]);
+  });
+});
+
+describe('generateText with threadId', () => {
+  it('replays thread history and appends the new turn', async () => {
+    const conversationService = new ConversationService(new InMemoryConversationStore());
+    const aiService = {
+      execute: vi.fn(async () => ({
+        content: 'Sure, here is the follow-up.',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        model: 'claude-test',
+        provider: 'anthropic',
+      })),
+      getContextWindow: vi.fn(async () => undefined),
+    } as any;
+
+    const appRouter = router({
+      ai: router(createGenerationProcedures(DEFAULT_CONFIG, aiService, null, null, null, conversationService)),
+      conversations: createConversationsRouter(conversationService),
+    });
+    const caller = t.createCallerFactory(appRouter)({
+      user: { userId: 'alice', email: 'alice@example.com' },
+      apiKey: 'sk-test',
+    } as any);
+
+    const { threadId } = await caller.conversations.create({
+      messages: [
+        { role: 'user', content: 'Explain closures' },
+        { role: 'assistant', content: 'A closure captures variables.' },
+      ],
+    });
+
+    await caller.ai.generateText({ threadId, content: 'Give an example', systemPrompt: 'You are helpful' });
+
+    const request = aiService.execute.mock.calls[0][0];
+    expect(request.messages.map((m: any) => m.content)).toEqual(['Explain closures', 'A closure captures variables.']);
+    expect(request.content).toBe('Give an example');
+
+    const thread = await caller.conversations.get({ threadId });
+    expect(thread.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(thread.messages[3].content).toBe('Sure, here is the follow-up.');
+  });
+
+  it('truncates history to the context window of the requested model', async () => {
+    const conversationService = new ConversationService(new InMemoryConversationStore());
+    const aiService = {
+      execute: vi.fn(async () => ({
+        content: 'ok',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        model: 'small-model',
+        provider: 'openai',
+      })),
+      getContextWindow: vi.fn(async () => 250),
+    } as any;
+    const thread = await conversationService.createThread('alice', {
+      messages: [
+        { role: 'user', content: 'a'.repeat(800) },
+        { role: 'assistant', content: 'short reply' },
+      ],
+    });
+
+    const aiRouter = router(createGenerationProcedures(DEFAULT_CONFIG, aiService, null, null, null, conversationService));
+    const caller = t.createCallerFactory(aiRouter)({ user: { userId: 'alice' }, apiKey: 'sk-test' } as any);
+    await caller.generateText({
+      threadId: thread.id,
+      content: 'Next',
+      systemPrompt: 'You are helpful',
+      provider: 'openai',
+      options: { model: 'small-model', maxTokens: 100 },
+    });
+
+    expect(aiService.getContextWindow).toHaveBeenCalledWith('openai', 'small-model');
+    // 250 tokens minus 100 for the reply leaves no room for the 800 character turn
+    expect(aiService.execute.mock.calls[0][0].messages.map((m: any) => m.content)).toEqual(['short reply']);
+  });
+
+  it('rejects threads owned by another user', async () => {
+    const conversationService = new ConversationService(new InMemoryConversationStore());
+    const other = await conversationService.createThread('bob');
+    const aiRouter = router(createGenerationProcedures(DEFAULT_CONFIG, { execute: vi.fn() } as any, null, null, null, conversationService));
+    const caller = t.createCallerFactory(aiRouter)({ user: { userId: 'alice' }, apiKey: 'sk-test' } as any);
+
+    await expect(caller.generateText({ threadId: other.id, content: 'hi', systemPrompt: 'You are helpful' }))
+      .rejects.toThrow('Conversation not found');
+  });
+});
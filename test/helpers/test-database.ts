@@ -0,0 +1,113 @@
+/**
+ * PostgreSQL Test Database
+ *
+ * Shared database for service tests: an in-process PostgreSQL (PGlite) with
+ * every migration from src/database/migrations applied, behind the same API
+ * as PostgreSQLAdapter. Services run their real SQL against it.
+ *
+ * Create one per test file (startup takes a few seconds) and reset() it
+ * between tests. PGlite has a single session, so connections are handed out
+ * one at a time: a transaction holds the database until it is released.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { PGlite, types } from '@electric-sql/pglite';
+import type { PostgreSQLAdapter } from '../../src/database/postgres-adapter';
+
+const MIGRATIONS_DIR = join(__dirname, '../../src/database/migrations');
+// Waiting this long for a connection means a service nested getConnection() calls
+const ACQUIRE_TIMEOUT_MS = 5000;
+
+export interface TestDatabase {
+  /** PostgreSQLAdapter-compatible handle to pass to services */
+  db: PostgreSQLAdapter;
+  /** Run SQL directly, for seeding and assertions */
+  sql<T = any>(query: string, params?: any[]): Promise<T[]>;
+  /** Empty every table */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export async function createTestDatabase(options: { schema?: string[] } = {}): Promise<TestDatabase> {
+  // node-postgres returns BIGINT and NUMERIC as strings - services parse them
+  const pg = new PGlite({
+    parsers: {
+      [types.INT8]: (value: string) => value,
+      [types.NUMERIC]: (value: string) => value
+    }
+  });
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+    await pg.exec(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+  for (const statement of options.schema || []) {
+    await pg.exec(statement);
+  }
+
+  let queue: Promise<void> = Promise.resolve();
+  const acquire = async (): Promise<() => void> => {
+    let release!: () => void;
+    const previous = queue;
+    queue = new Promise<void>(resolve => { release = resolve; });
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      previous,
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Test database connection timeout (nested getConnection?)')), ACQUIRE_TIMEOUT_MS);
+      })
+    ]).finally(() => clearTimeout(timer));
+    return release;
+  };
+
+  const run = async (query: string, params?: any[]) => {
+    const result = await pg.query<any>(query, params);
+    return { rows: result.rows, rowCount: Math.max(result.rows.length, result.affectedRows ?? 0) };
+  };
+
+  const withConnection = async <T>(fn: () => Promise<T>): Promise<T> => {
+    const release = await acquire();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+
+  const db = {
+    query: (query: string, params?: any[]) => withConnection(async () => (await run(query, params)).rows),
+    all: (query: string, params?: any[]) => withConnection(async () => (await run(query, params)).rows),
+    get: (query: string, params?: any[]) => withConnection(async () => (await run(query, params)).rows[0]),
+    execute: (query: string, params?: any[]) => withConnection(async () => {
+      const result = await run(query, params);
+      return { changes: result.rowCount, lastInsertRowid: result.rows[0]?.id };
+    }),
+    run: (query: string, params?: any[]) => db.execute(query, params),
+    getConnection: async () => {
+      const release = await acquire();
+      let released = false;
+      return {
+        query: run,
+        release: () => {
+          if (!released) {
+            released = true;
+            release();
+          }
+        }
+      };
+    }
+  };
+
+  return {
+    db: db as unknown as PostgreSQLAdapter,
+    sql: async (query, params) => (await withConnection(() => run(query, params))).rows,
+    reset: () => withConnection(async () => {
+      const tables = await pg.query<{ tablename: string }>(`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+      if (tables.rows.length > 0) {
+        await pg.exec(`TRUNCATE ${tables.rows.map(table => `"${table.tablename}"`).join(', ')} CASCADE`);
+      }
+    }),
+    close: () => pg.close()
+  };
+}
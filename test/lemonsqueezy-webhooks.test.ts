@@ -0,0 +1,231 @@
+/**
+ * LemonSqueezy Webhook Tests
+ *
+ * Raw-body signature checks, the idempotent event log, subscription lifecycle
+ * and refund claw-backs against the PostgreSQL test database.
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { LemonSqueezyWebhookHandler } from '../src/services/billing/lemonsqueezy-webhooks';
+import { VirtualTokenService } from '../src/services/billing/virtual-token-service';
+import { BillingRules } from '../src/services/billing/billing-rules';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+const SECRET = 'whsec_test';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await testDb.reset();
+});
+
+async function getSubscription(subscriptionId: string) {
+  const [subscription] = await testDb.sql(
+    `SELECT user_id, plan, status FROM billing_subscriptions WHERE provider = 'lemonsqueezy' AND subscription_id = $1`,
+    [subscriptionId]
+  );
+  return subscription;
+}
+
+function createHandler(config: Record<string, any> = {}) {
+  const granted = new Set<string>();
+  const virtualTokenService = {
+    getBillingRules: () => new BillingRules(),
+    isPaymentProcessed: vi.fn(async (paymentId: string) => granted.has(paymentId)),
+    addTokensFromPayment: vi.fn(async (_userId: string, _grant: any, paymentId: string) => { granted.add(paymentId); }),
+    refundTopup: vi.fn(async (paymentId: string) => granted.has(paymentId)
+      ? { paymentId, userId: 'user-1', tokensClawedBack: 800, newBalance: 0, shortfall: 300, frozen: true }
+      : null)
+  };
+  const handler = new LemonSqueezyWebhookHandler(
+    testDb.db,
+    { virtualTokenService: virtualTokenService as any, billingRules: new BillingRules({ purchaseGrants: { '42': { tokens: 1000 } } }) },
+    {
+      webhookSecret: SECRET,
+      variantPlans: { '42': { plan: 'pro', type: 'subscription' }, '7': { plan: 'lifetime', type: 'one_time' } },
+      ...config
+    }
+  );
+  return { handler, virtualTokenService };
+}
+
+const body = (eventName: string, data: any, customData: any = { user_id: 'user-1' }) =>
+  JSON.stringify({ meta: { event_name: eventName, custom_data: customData }, data });
+
+const order = (id: string, attributes: any = {}) => ({
+  type: 'orders',
+  id,
+  attributes: { status: 'paid', user_email: 'ada@example.com', total: 1000, first_order_item: { variant_id: 42, quantity: 1 }, ...attributes }
+});
+
+describe('LemonSqueezyWebhookHandler', () => {
+  it('verifies the HMAC of the raw body, with or without the sha256= prefix', () => {
+    const { handler } = createHandler();
+    const raw = body('order_created', order('1'));
+    const signature = crypto.createHmac('sha256', SECRET).update(raw).digest('hex');
+
+    expect(handler.verifySignature(Buffer.from(raw), signature)).toBe(true);
+    expect(handler.verifySignature(raw, `sha256=${signature}`)).toBe(true);
+    expect(handler.verifySignature(JSON.stringify(JSON.parse(raw), null, 2), signature)).toBe(false);
+    expect(handler.verifySignature(raw, 'not-hex')).toBe(false);
+    expect(handler.verifySignature(raw, undefined)).toBe(false);
+  });
+
+  it('grants tokens once per order and retries only failed deliveries', async () => {
+    const { handler, virtualTokenService } = createHandler();
+    const raw = body('order_created', order('1001'));
+
+    const first = await handler.receive(raw);
+    const retry = await handler.receive(raw);
+
+    expect(first).toMatchObject({ status: 'processed', duplicate: false });
+    expect(retry).toMatchObject({ eventId: first.eventId, status: 'processed', duplicate: true });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledTimes(1);
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledWith(
+      'user-1', expect.objectContaining({ tokensPurchased: 1000 }), '1001', '42', 1000, 'USD', expect.anything()
+    );
+
+    virtualTokenService.addTokensFromPayment.mockRejectedValueOnce(new Error('database unavailable'));
+    const failedRaw = body('order_created', order('1002'));
+    const failed = await handler.receive(failedRaw);
+    expect(failed).toMatchObject({ status: 'failed', message: 'database unavailable' });
+
+    expect(await handler.receive(failedRaw)).toMatchObject({ eventId: failed.eventId, status: 'processed', duplicate: true });
+    expect(await handler.replay(failed.eventId)).toMatchObject({ status: 'ignored', message: 'Payment 1002 already granted' });
+  });
+
+  it('processes concurrent deliveries of an event once', async () => {
+    const { handler, virtualTokenService } = createHandler();
+    const raw = body('order_created', order('1003'));
+    // Hold the first grant until the second delivery has returned
+    let finishGrant!: () => void;
+    virtualTokenService.addTokensFromPayment.mockImplementationOnce(() => new Promise<void>(resolve => { finishGrant = resolve; }));
+
+    const first = handler.receive(raw);
+    await vi.waitFor(() => expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalled());
+    expect(await handler.receive(raw)).toMatchObject({ status: 'processing', duplicate: true });
+    finishGrant();
+
+    expect(await first).toMatchObject({ status: 'processed', duplicate: false });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledTimes(1);
+    expect(await handler.receive(raw)).toMatchObject({ status: 'processed', duplicate: true });
+  });
+
+  it('replays only events no delivery is processing, unless the claim went stale', async () => {
+    const { handler, virtualTokenService } = createHandler();
+    const { eventId } = await handler.receive(body('order_created', order('1004')));
+    await testDb.sql(`UPDATE payment_webhook_events SET status = 'processing', claimed_at = CURRENT_TIMESTAMP WHERE id = $1`, [eventId]);
+
+    expect(await handler.replay(eventId)).toMatchObject({ status: 'processing', message: 'Event is being processed' });
+    expect(await handler.receive(body('order_created', order('1004')))).toMatchObject({ status: 'processing', duplicate: true });
+
+    await testDb.sql(`UPDATE payment_webhook_events SET claimed_at = CURRENT_TIMESTAMP - INTERVAL '1 hour' WHERE id = $1`, [eventId]);
+    expect(await handler.replay(eventId)).toMatchObject({ status: 'ignored', message: 'Payment 1004 already granted' });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledTimes(1);
+    expect((await handler.listEvents()).find(event => event.id === eventId)).toMatchObject({ status: 'ignored', attempts: 2 });
+  });
+
+  it('tracks the subscription lifecycle and grants tokens on renewals', async () => {
+    const { handler, virtualTokenService } = createHandler();
+    const subscription = (status: string) => ({
+      type: 'subscriptions',
+      id: 'sub_1',
+      attributes: { status, variant_id: 42, user_email: 'ada@example.com', renews_at: '2026-11-19T00:00:00Z' }
+    });
+    const invoice = (id: string, billingReason: string) => ({
+      type: 'subscription-invoices',
+      id,
+      attributes: { subscription_id: 'sub_1', billing_reason: billingReason, total: 1000, status: 'paid' }
+    });
+
+    // Renewal before the subscription is known fails, so LemonSqueezy retries it
+    expect(await handler.receive(body('subscription_payment_success', invoice('inv_0', 'renewal'))))
+      .toMatchObject({ status: 'failed' });
+
+    await handler.receive(body('subscription_created', subscription('active')));
+    expect(await getSubscription('sub_1')).toMatchObject({ user_id: 'user-1', plan: 'pro', status: 'active' });
+
+    expect(await handler.receive(body('subscription_payment_success', invoice('inv_1', 'initial'))))
+      .toMatchObject({ status: 'ignored' });
+    expect(await handler.receive(body('subscription_payment_success', invoice('inv_2', 'renewal'))))
+      .toMatchObject({ status: 'processed' });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledWith(
+      'user-1', expect.objectContaining({ tokensPurchased: 1000 }), 'invoice:inv_2', '42', 1000, 'USD', expect.anything()
+    );
+
+    await handler.receive(body('subscription_payment_failed', invoice('inv_3', 'renewal')));
+    expect((await getSubscription('sub_1')).status).toBe('past_due');
+
+    await handler.receive(body('subscription_cancelled', subscription('cancelled')));
+    await handler.receive(body('subscription_expired', subscription('expired')));
+    expect((await getSubscription('sub_1')).status).toBe('expired');
+  });
+
+  it('ignores unmapped variants and claws back refunded orders', async () => {
+    const { handler, virtualTokenService } = createHandler({ refundPolicy: 'negative_balance' });
+
+    expect(await handler.receive(body('order_created', order('2001', { first_order_item: { variant_id: 99 } }))))
+      .toMatchObject({ status: 'ignored', message: 'Variant 99 is not mapped to a plan' });
+    expect(await handler.receive(body('order_refunded', order('2001', { status: 'refunded', refunded_amount: 1000 }))))
+      .toMatchObject({ status: 'ignored' });
+
+    await handler.receive(body('order_created', order('2002')));
+    const refund = await handler.receive(body('order_refunded', order('2002', { status: 'partial_refund', refunded_amount: 500 })));
+
+    expect(refund.status).toBe('processed');
+    expect(virtualTokenService.refundTopup).toHaveBeenLastCalledWith('2002', { refundedAmountCents: 500, policy: 'negative_balance' });
+  });
+});
+
+describe('VirtualTokenService.refundTopup', () => {
+  async function createTopup(balance: number, refunded = 0) {
+    await testDb.sql('INSERT INTO user_token_accounts (user_id, virtual_token_balance) VALUES ($1, $2)', ['user-1', balance]);
+    await testDb.sql(
+      `INSERT INTO token_topups (user_id, payment_id, tokens_purchased, usable_tokens, platform_fee_tokens, amount_paid_cents, refunded_tokens)
+       VALUES ('user-1', 'order-1', 1000, 800, 200, 1000, $1)`,
+      [refunded]
+    );
+  }
+
+  async function getAccount() {
+    const [account] = await testDb.sql('SELECT virtual_token_balance, frozen_at, frozen_reason FROM user_token_accounts WHERE user_id = $1', ['user-1']);
+    return { balance: Number(account.virtual_token_balance), frozen: account.frozen_at !== null, frozenReason: account.frozen_reason };
+  }
+
+  it('freezes the account when the balance cannot cover the claw-back', async () => {
+    await createTopup(500);
+    const result = await new VirtualTokenService(testDb.db).refundTopup('order-1');
+
+    expect(result).toMatchObject({ userId: 'user-1', tokensClawedBack: 800, newBalance: 0, shortfall: 300, frozen: true });
+    expect(await getAccount()).toEqual({ balance: 0, frozen: true, frozenReason: 'refund:order-1' });
+    expect(await new VirtualTokenService(testDb.db).refundTopup('order-2')).toBeNull();
+  });
+
+  it('lets the balance go negative and never claws back twice', async () => {
+    await createTopup(500);
+    const service = new VirtualTokenService(testDb.db);
+    expect(await service.refundTopup('order-1', { policy: 'negative_balance' }))
+      .toMatchObject({ tokensClawedBack: 800, newBalance: -300, frozen: false });
+    expect(await service.refundTopup('order-1', { policy: 'negative_balance' })).toMatchObject({ tokensClawedBack: 0, newBalance: -300 });
+    expect(await getAccount()).toMatchObject({ balance: -300, frozen: false });
+  });
+
+  it('claws back only the newly refunded share', async () => {
+    // Refunds report the cumulative amount: 75% refunded after 50% was already clawed back
+    await createTopup(1000, 400);
+    expect(await new VirtualTokenService(testDb.db).refundTopup('order-1', { refundedAmountCents: 750 }))
+      .toMatchObject({ tokensClawedBack: 200, newBalance: 800, frozen: false });
+    const [topup] = await testDb.sql(`SELECT refunded_tokens FROM token_topups WHERE payment_id = 'order-1'`);
+    expect(Number(topup.refunded_tokens)).toBe(600);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * MCP stdio Transport Tests
+ *
+ * Newline-delimited JSON-RPC over stdin/stdout using the same
+ * MCPProtocolHandler dispatch as the HTTP endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { z } from 'zod';
+import { router, publicProcedure } from '../../src/trpc/index';
+import { MCPProtocolHandler } from '../../src/trpc/routers/mcp/protocol-handler';
+import { startMCPStdioTransport, type MCPStdioTransport } from '../../src/trpc/routers/mcp/stdio-transport';
+
+const testRouter = router({
+  greeting: publicProcedure
+    .meta({ mcp: { description: 'Say hello' } })
+    .input(z.object({ name: z.string() }))
+    .query(({ input }) => `Hello, ${input.name}!`),
+  whoami: publicProcedure
+    .meta({ mcp: { description: 'Current user' } })
+    .query(({ ctx }) => ({ userId: (ctx as any).user?.userId ?? null })),
+});
+
+describe('MCP stdio transport', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let lines: string[];
+  let transport: MCPStdioTransport;
+
+  const start = (options: { user?: any } = {}) => {
+    const handler = new MCPProtocolHandler(testRouter, {
+      auth: { requireAuthForToolsCall: true, publicTools: ['greeting'] },
+    });
+    transport = startMCPStdioTransport(handler, { input, output, ...options });
+  };
+
+  const nextMessage = async (): Promise<any> => {
+    await vi.waitFor(() => expect(lines.length).toBeGreaterThan(0));
+    return JSON.parse(lines.shift()!);
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    input = new PassThrough();
+    output = new PassThrough();
+    lines = [];
+    let buffer = '';
+    output.on('data', (chunk) => {
+      buffer += chunk.toString();
+      const parts = buffer.split('\n');
+      buffer = parts.pop()!;
+      lines.push(...parts);
+    });
+  });
+
+  afterEach(async () => {
+    transport?.close();
+    await transport?.closed;
+    vi.restoreAllMocks();
+  });
+
+  it('answers initialize and tools/list with one JSON message per line', async () => {
+    start();
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { capabilities: {} } }) + '\n');
+    const init = await nextMessage();
+    expect(init.id).toBe(1);
+    expect(init.result.serverInfo.name).toBe('Simple RPC AI Backend MCP');
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }) + '\n');
+    const list = await nextMessage();
+    expect(list.result.tools.map((tool: any) => tool.name)).toEqual(['greeting']);
+  });
+
+  it('calls tools and never answers notifications', async () => {
+    start();
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+    input.write(JSON.stringify({
+      jsonrpc: '2.0', id: 'call-1', method: 'tools/call', params: { name: 'greeting', arguments: { name: 'Ada' } },
+    }) + '\n');
+
+    const response = await nextMessage();
+    expect(response.id).toBe('call-1');
+    expect(response.result.content[0].text).toBe('Hello, Ada!');
+    expect(lines).toEqual([]);
+  });
+
+  it('reports parse errors and unknown methods', async () => {
+    start();
+
+    input.write('{not json\n');
+    expect((await nextMessage()).error.code).toBe(-32700);
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'nope' }) + '\n');
+    expect((await nextMessage())).toMatchObject({ id: 3, error: { code: -32601 } });
+  });
+
+  it('uses the configured stdio user for protected tools', async () => {
+    start({ user: { userId: 'local-user', email: 'local@example.com' } });
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'whoami' } }) + '\n');
+
+    const response = await nextMessage();
+    expect(JSON.parse(response.result.content[0].text)).toEqual({ userId: 'local-user' });
+  });
+});
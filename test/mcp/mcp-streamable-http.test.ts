@@ -0,0 +1,191 @@
+/**
+ * MCP Streamable HTTP Tests
+ *
+ * Mcp-Session-Id sessions, the GET event stream, Last-Event-ID replay,
+ * progress notifications and server-initiated requests.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { router, publicProcedure } from '../../src/trpc/index';
+import { MCPProtocolHandler } from '../../src/trpc/routers/mcp/protocol-handler';
+
+const testRouter = router({
+  slowTask: publicProcedure
+    .meta({ mcp: { description: 'Reports progress' } })
+    .input(z.object({ steps: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      for (let step = 1; step <= input.steps; step++) {
+        (ctx as any).mcp?.sendProgress(step, input.steps);
+      }
+      return 'done';
+    }),
+  askUser: publicProcedure
+    .meta({ mcp: { description: 'Elicits a value from the client' } })
+    .mutation(async ({ ctx }) => {
+      const answer = await (ctx as any).mcp.sendRequest('elicitation/create', { message: 'Pick a color' });
+      return `You picked ${answer.content.color}`;
+    }),
+});
+
+/**
+ * Minimal SSE reader over fetch
+ */
+async function openStream(url: string, headers: Record<string, string>) {
+  const controller = new AbortController();
+  const response = await fetch(url, {
+    headers: { Accept: 'text/event-stream', ...headers },
+    signal: controller.signal,
+  });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ id: number; data: any }> = [];
+  let buffer = '';
+
+  (async () => {
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        let index;
+        while ((index = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          const id = /^id: (.*)$/m.exec(block)?.[1];
+          const data = /^data: (.*)$/m.exec(block)?.[1];
+          if (data) events.push({ id: Number(id), data: JSON.parse(data) });
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+
+  return { response, events, close: () => controller.abort() };
+}
+
+describe('MCP Streamable HTTP', () => {
+  let server: Server;
+  let handler: MCPProtocolHandler;
+  let url: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const initialize = async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { capabilities: {} } });
+    return response.headers.get('mcp-session-id')!;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    handler = new MCPProtocolHandler(testRouter, {
+      auth: { requireAuthForToolsCall: false, publicTools: ['slowTask', 'askUser'] },
+      securityLogging: { enabled: false },
+      rateLimiting: { enabled: false },
+      sessions: { enabled: true, requestTimeoutMs: 2000 },
+    } as any);
+
+    const app = express();
+    app.use(express.json());
+    handler.setupMCPEndpoint(app, '/mcp');
+    server = app.listen(0);
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    handler.getSessionManager()?.closeAll();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('assigns a session on initialize and rejects unknown sessions', async () => {
+    const sessionId = await initialize();
+    expect(sessionId).toMatch(/[0-9a-f-]{36}/);
+
+    const known = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+    expect(known.status).toBe(200);
+
+    const unknown = await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'Mcp-Session-Id': 'nope' });
+    expect(unknown.status).toBe(404);
+
+    // Stateless requests keep working for clients without session support
+    const stateless = await post({ jsonrpc: '2.0', id: 4, method: 'ping' });
+    expect(stateless.status).toBe(200);
+  });
+
+  it('streams progress notifications for tool calls with a progressToken', async () => {
+    const sessionId = await initialize();
+    const stream = await openStream(url, { 'Mcp-Session-Id': sessionId });
+    expect(stream.response.headers.get('content-type')).toContain('text/event-stream');
+
+    const result = await post({
+      jsonrpc: '2.0', id: 5, method: 'tools/call',
+      params: { name: 'slowTask', arguments: { steps: 3 }, _meta: { progressToken: 'task-1' } },
+    }, { 'Mcp-Session-Id': sessionId });
+    expect((await result.json()).result.content[0].text).toBe('done');
+
+    await vi.waitFor(() => expect(stream.events).toHaveLength(3));
+    expect(stream.events.map(e => e.data.params.progress)).toEqual([1, 2, 3]);
+    expect(stream.events[0].data).toMatchObject({
+      method: 'notifications/progress',
+      params: { progressToken: 'task-1', total: 3 },
+    });
+    stream.close();
+  });
+
+  it('replays missed events after Last-Event-ID', async () => {
+    const sessionId = await initialize();
+    handler.broadcastNotification('notifications/tools/list_changed');
+    handler.broadcastNotification('notifications/resources/list_changed');
+
+    const first = await openStream(url, { 'Mcp-Session-Id': sessionId });
+    await vi.waitFor(() => expect(first.events).toHaveLength(2));
+    first.close();
+
+    const resumed = await openStream(url, { 'Mcp-Session-Id': sessionId, 'Last-Event-ID': String(first.events[0].id) });
+    await vi.waitFor(() => expect(resumed.events).toHaveLength(1));
+    expect(resumed.events[0].data.method).toBe('notifications/resources/list_changed');
+    resumed.close();
+  });
+
+  it('delivers server-initiated requests and resolves them from the client response', async () => {
+    const sessionId = await initialize();
+    const stream = await openStream(url, { 'Mcp-Session-Id': sessionId });
+
+    const call = post({
+      jsonrpc: '2.0', id: 6, method: 'tools/call', params: { name: 'askUser', arguments: {} },
+    }, { 'Mcp-Session-Id': sessionId });
+
+    await vi.waitFor(() => expect(stream.events).toHaveLength(1));
+    const request = stream.events[0].data;
+    expect(request.method).toBe('elicitation/create');
+
+    const ack = await post(
+      { jsonrpc: '2.0', id: request.id, result: { action: 'accept', content: { color: 'teal' } } },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    expect(ack.status).toBe(202);
+
+    expect((await (await call).json()).result.content[0].text).toBe('You picked teal');
+    stream.close();
+  });
+
+  it('terminates sessions on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const deleted = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(204);
+
+    const after = await post({ jsonrpc: '2.0', id: 7, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+    expect(after.status).toBe(404);
+  });
+});
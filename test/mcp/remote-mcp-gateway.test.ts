@@ -0,0 +1,112 @@
+/**
+ * Remote MCP Gateway Tests
+ *
+ * Remote tools, prompts and resources exposed through our MCP endpoint under
+ * a namespace prefix, with the same auth and scope checks as local tools.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { router, publicProcedure } from '../../src/trpc/index';
+import { MCPProtocolHandler } from '../../src/trpc/routers/mcp/protocol-handler';
+import { RemoteMCPGateway } from '../../src/mcp/remote-mcp-gateway';
+
+function createFakeManager() {
+  return {
+    getConnectedServers: vi.fn(() => ['github', 'docs']),
+    listAllTools: vi.fn(async () => new Map([
+      ['github', [{ name: 'create_issue', description: 'Create an issue', inputSchema: { type: 'object' } }]],
+      ['docs', [{ name: 'search', description: 'Search docs' }]],
+    ])),
+    listAllPrompts: vi.fn(async () => new Map([
+      ['docs', [{ name: 'summarize', description: 'Summarize a page', arguments: [{ name: 'url', required: true }] }]],
+    ])),
+    listAllResources: vi.fn(async () => new Map([
+      ['docs', [{ uri: 'file:///guide.md', name: 'Guide', mimeType: 'text/markdown' }]],
+    ])),
+    callTool: vi.fn(async (_server: string, name: string) => ({ content: [{ type: 'text', text: `ran ${name}` }] })),
+    request: vi.fn(async (_server: string, method: string, params: any) => {
+      if (method === 'resources/read') {
+        return { contents: [{ uri: params.uri, mimeType: 'text/markdown', text: '# Guide' }] };
+      }
+      return { messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${params.arguments.url}` } }] };
+    }),
+  };
+}
+
+const localRouter = router({
+  echo: publicProcedure
+    .meta({ mcp: { description: 'Echo' } })
+    .input(z.object({ text: z.string() }))
+    .query(({ input }) => input.text),
+});
+
+describe('Remote MCP gateway', () => {
+  let manager: ReturnType<typeof createFakeManager>;
+  let handler: MCPProtocolHandler;
+  const user = { headers: {}, user: { userId: 'u1', email: 'user@example.com' } } as any;
+  const anonymous = { headers: {} } as any;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = createFakeManager();
+    handler = new MCPProtocolHandler(localRouter, {
+      auth: { requireAuthForToolsCall: true, publicTools: 'default' },
+    });
+    handler.setRemoteGateway(new RemoteMCPGateway(manager as any, {
+      servers: {
+        github: { namespace: 'gh', scopes: { required: ['github:write'] } },
+        docs: { public: true },
+      },
+    }));
+  });
+
+  it('lists remote tools under their namespace next to local tools', async () => {
+    const asUser = await handler.dispatch({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, user);
+    expect(asUser.result.tools.map((t: any) => t.name)).toEqual(['echo', 'gh__create_issue', 'docs__search']);
+
+    const asAnonymous = await handler.dispatch({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, anonymous);
+    expect(asAnonymous.result.tools.map((t: any) => t.name)).toEqual(['echo', 'docs__search']);
+  });
+
+  it('routes tool calls to the owning server with the original name', async () => {
+    const response = await handler.dispatch({
+      jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'docs__search', arguments: { q: 'auth' } },
+    }, anonymous);
+
+    expect(manager.callTool).toHaveBeenCalledWith('docs', 'search', { q: 'auth' }, undefined);
+    expect(response.result.content[0].text).toBe('ran search');
+  });
+
+  it('applies scope checks to remote tools', async () => {
+    const anonymousCall = await handler.dispatch({
+      jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'gh__create_issue', arguments: {} },
+    }, anonymous);
+    const unscopedCall = await handler.dispatch({
+      jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'gh__create_issue', arguments: {} },
+    }, user);
+
+    expect(anonymousCall.error.message).toContain('Authentication required');
+    expect(unscopedCall.error.data.missingScopes).toEqual(['github:write']);
+    expect(manager.callTool).not.toHaveBeenCalled();
+  });
+
+  it('proxies prompts and resources', async () => {
+    const prompts = await handler.dispatch({ jsonrpc: '2.0', id: 6, method: 'prompts/list' }, user);
+    expect(prompts.result.prompts.map((p: any) => p.name)).toContain('docs__summarize');
+
+    const prompt = await handler.dispatch({
+      jsonrpc: '2.0', id: 7, method: 'prompts/get', params: { name: 'docs__summarize', arguments: { url: 'a.md' } },
+    }, user);
+    expect(manager.request).toHaveBeenCalledWith('docs', 'prompts/get', { name: 'summarize', arguments: { url: 'a.md' } });
+    expect(prompt.result.messages[0].content.text).toBe('Summarize a.md');
+
+    const resources = await handler.dispatch({ jsonrpc: '2.0', id: 8, method: 'resources/list' }, user);
+    const guide = resources.result.resources.find((r: any) => r.name === 'Guide');
+    expect(guide.uri).toBe('remote://docs/file:///guide.md');
+
+    const read = await handler.dispatch({ jsonrpc: '2.0', id: 9, method: 'resources/read', params: { uri: guide.uri } }, user);
+    expect(manager.request).toHaveBeenCalledWith('docs', 'resources/read', { uri: 'file:///guide.md' });
+    expect(read.result.contents[0]).toMatchObject({ uri: guide.uri, text: '# Guide' });
+  });
+});
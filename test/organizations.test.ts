@@ -0,0 +1,307 @@
+/**
+ * Organization Tests
+ *
+ * Roles, seats, invitations and per-member limits in OrganizationService,
+ * role checks and service account refusal in the org router, and the shared token pool and provider
+ * keys in ai.generateText, ai.streamText and ai.generateObject, against the
+ * PostgreSQL test database.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { OrganizationService, OrganizationError } from '../src/services/organizations/organization-service';
+import { router, t } from '../src/trpc/index';
+import { createOrgRouter } from '../src/trpc/routers/org';
+import { createGenerationProcedures } from '../src/trpc/routers/ai/methods/generation';
+import { createStreamingProcedures } from '../src/trpc/routers/ai/methods/streaming';
+import { createStructuredOutputProcedures } from '../src/trpc/routers/ai/methods/structured';
+import { DEFAULT_CONFIG } from '../src/trpc/routers/ai/types';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await testDb.reset();
+});
+
+async function getMemberUsage() {
+  const rows = await testDb.sql('SELECT user_id, tokens FROM organization_token_usage ORDER BY created_at');
+  return rows.map(row => ({ user_id: row.user_id, tokens: Number(row.tokens) }));
+}
+
+const owner = { userId: 'user-owner', email: 'owner@acme.com' };
+const dev = { userId: 'user-dev', email: 'dev@acme.com' };
+
+describe('OrganizationService', () => {
+  it('creates an organization with its owner and a shared token account', async () => {
+    const db = testDb.db;
+    const virtualTokenService = { ensureUserAccount: vi.fn(async () => undefined) };
+    const service = new OrganizationService(db, { virtualTokenService: virtualTokenService as any });
+
+    const organization = await service.createOrganization(owner, { name: 'Acme', seatLimit: 2 });
+
+    expect(await service.getMembership(organization.id, owner.userId)).toMatchObject({ role: 'owner' });
+    expect(virtualTokenService.ensureUserAccount).toHaveBeenCalledWith(`org:${organization.id}`);
+
+    // The last owner can neither be demoted nor removed
+    await expect(service.updateMember(organization.id, owner.userId, { role: 'member' })).rejects.toThrow(OrganizationError);
+    await expect(service.removeMember(organization.id, owner.userId)).rejects.toThrow('at least one owner');
+  });
+
+  it('invites by e-mail within the seat limit', async () => {
+    const db = testDb.db;
+    const service = new OrganizationService(db);
+    const organization = await service.createOrganization(owner, { name: 'Acme', seatLimit: 2 });
+
+    const { invitation, token } = await service.createInvitation(organization.id, { email: 'Dev@Acme.com', invitedBy: owner.userId });
+    expect(invitation).toMatchObject({ email: 'dev@acme.com', role: 'member' });
+    const [stored] = await testDb.sql('SELECT token_hash FROM organization_invitations');
+    expect(stored.token_hash).not.toBe(token);
+
+    // Owner plus the pending invitation take both seats
+    await expect(service.createInvitation(organization.id, { email: 'ops@acme.com', invitedBy: owner.userId }))
+      .rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+
+    await expect(service.acceptInvitation(token, { userId: 'user-other', email: 'other@acme.com' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(service.acceptInvitation(token, dev)).resolves.toMatchObject({ userId: dev.userId, role: 'member' });
+    await expect(service.acceptInvitation(token, dev)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    await expect(service.createInvitation(organization.id, { email: dev.email, invitedBy: owner.userId }))
+      .rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('rejects expired invitations', async () => {
+    const db = testDb.db;
+    const service = new OrganizationService(db, { invitationTtlHours: 1 });
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    const { token } = await service.createInvitation(organization.id, { email: dev.email, invitedBy: owner.userId });
+
+    await testDb.sql(`UPDATE organization_invitations SET expires_at = CURRENT_TIMESTAMP - INTERVAL '1 hour'`);
+    await expect(service.acceptInvitation(token, dev)).rejects.toThrow('Invitation has expired');
+  });
+
+  it('enforces per-member monthly limits on the shared pool', async () => {
+    const db = testDb.db;
+    const service = new OrganizationService(db);
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    await service.updateMember(organization.id, owner.userId, { monthlyTokenLimit: 1000 });
+
+    await service.recordMemberUsage(organization.id, owner.userId, 800);
+    await expect(service.checkMemberAllowance(organization.id, owner.userId, 200)).resolves.toBeUndefined();
+    await expect(service.checkMemberAllowance(organization.id, owner.userId, 300))
+      .rejects.toThrow('Monthly organization token limit reached: 800 of 1000 tokens used');
+
+    // null removes the limit
+    await service.updateMember(organization.id, owner.userId, { monthlyTokenLimit: null });
+    await expect(service.checkMemberAllowance(organization.id, owner.userId, 5000)).resolves.toBeUndefined();
+  });
+});
+
+describe('org router', () => {
+  it('checks roles in the active organization', async () => {
+    const db = testDb.db;
+    const service = new OrganizationService(db);
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    const { token } = await service.createInvitation(organization.id, { email: dev.email, invitedBy: owner.userId });
+    await service.acceptInvitation(token, dev);
+
+    const createCaller = t.createCallerFactory(createOrgRouter(service));
+    const devCaller = createCaller({ user: { ...dev, organizationId: organization.id }, apiKey: null } as any);
+    const ownerCaller = createCaller({ user: owner, apiKey: null } as any);
+
+    const error = await devCaller.invite({ email: 'ops@acme.com' }).catch(e => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('FORBIDDEN');
+    expect((await devCaller.listMembers()).members).toHaveLength(2);
+
+    await ownerCaller.updateMember({ organizationId: organization.id, userId: dev.userId, role: 'admin' });
+    await expect(devCaller.invite({ email: 'ops@acme.com' })).resolves.toHaveProperty('token');
+    // Admins cannot touch owners
+    await expect(devCaller.removeMember({ userId: owner.userId })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(ownerCaller.get()).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('refuses service accounts, whatever their scopes', async () => {
+    const service = new OrganizationService(testDb.db);
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    // A service account token of the owner: ctx.user is the owner with principalType 'service'
+    const serviceAccount = {
+      ...owner, organizationId: organization.id, principalType: 'service',
+      serviceAccount: { clientId: 'svc_ci', name: 'CI' }, features: ['ai:execute', 'org:admin', 'oauth']
+    };
+    const caller = t.createCallerFactory(createOrgRouter(service))({ user: serviceAccount, apiKey: null } as any);
+
+    await expect(caller.list()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.invite({ email: 'ops@acme.com' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(caller.setProviderKey({ provider: 'anthropic', apiKey: 'sk-ant-stolen' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(await service.listProviderKeys(organization.id)).toEqual([]);
+  });
+});
+
+describe('ai.generateText organizations', () => {
+  const executeResult = {
+    content: 'Hi!',
+    usage: { promptTokens: 40, completionTokens: 60, totalTokens: 100 },
+    model: 'gpt-4o-mini',
+    provider: 'openai',
+    requestId: 'req-1'
+  };
+  const input = { content: 'Hello', systemPrompt: 'Be brief', options: { maxTokens: 200 } };
+
+  function createCaller(organizationService: OrganizationService, ctx: any) {
+    const aiService = { execute: vi.fn(async () => executeResult) };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType: 'byok' })),
+      recordUsage: vi.fn(async () => 'usage-1')
+    };
+    const virtualTokenService = {
+      ensureUserAccount: vi.fn(async () => undefined),
+      reserveTokens: vi.fn(async () => ({ id: 'hold-1' })),
+      captureReservation: vi.fn(async () => ({ tokensDeducted: 125, platformFee: 25, newBalance: 875 })),
+      releaseReservation: vi.fn(async () => undefined)
+    };
+    const aiRouter = router(createGenerationProcedures(
+      DEFAULT_CONFIG as any, aiService as any, virtualTokenService as any, usageAnalyticsService as any,
+      null, null, null, organizationService
+    ));
+    return { caller: t.createCallerFactory(aiRouter)(ctx), aiService, virtualTokenService };
+  }
+
+  it('draws members without a key from the shared pool', async () => {
+    const db = testDb.db;
+    const service = new OrganizationService(db);
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    await service.updateMember(organization.id, owner.userId, { monthlyTokenLimit: 500 });
+
+    const ctx = { user: { ...owner, organizationId: organization.id }, apiKey: null };
+    const { caller, virtualTokenService } = createCaller(service, ctx);
+
+    const response = await caller.generateText(input);
+    expect(response.tokenUsage).toMatchObject({ tokensCharged: 125, remainingBalance: 875 });
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledWith(`org:${organization.id}`, expect.any(Number), expect.anything());
+    expect(await getMemberUsage()).toEqual([{ user_id: owner.userId, tokens: 125 }]);
+
+    // The next estimate (prompt plus maxTokens 200) would pass the member's 500 token limit
+    await service.recordMemberUsage(organization.id, owner.userId, 200);
+    await expect(caller.generateText(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the organization provider key when one is stored', async () => {
+    const db = testDb.db;
+    const keyVault = {
+      getUserProviders: vi.fn(async () => ({ success: true, providers: ['anthropic'] })),
+      getUserKey: vi.fn(async () => ({ success: true, message: 'sk-ant-org' }))
+    };
+    const service = new OrganizationService(db, { keyVault: keyVault as any });
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+
+    const { caller, aiService, virtualTokenService } = createCaller(service, { user: { ...owner, organizationId: organization.id }, apiKey: null });
+    expect((await caller.generateText(input)).usageInfo).toMatchObject({ tokensUsed: 100 });
+    expect(aiService.execute).toHaveBeenCalledWith(expect.objectContaining({
+      apiKey: 'sk-ant-org',
+      metadata: expect.objectContaining({ provider: 'anthropic' })
+    }));
+    expect(keyVault.getUserKey).toHaveBeenCalledWith({ email: `org:${organization.id}`, provider: 'anthropic' });
+    expect(virtualTokenService.reserveTokens).not.toHaveBeenCalled();
+
+    // Known organizations require membership
+    const { caller: outsider } = createCaller(service, { user: { userId: 'user-x', organizationId: organization.id }, apiKey: null });
+    await expect(outsider.generateText(input)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('ai.streamText and ai.generateObject organizations', () => {
+  const result = {
+    content: '{"name":"Ada"}',
+    object: { name: 'Ada' },
+    usage: { promptTokens: 40, completionTokens: 60, totalTokens: 100 },
+    model: 'claude-test',
+    provider: 'anthropic',
+    requestId: 'req-1'
+  };
+  const input = { content: 'Hello', systemPrompt: 'Be brief', options: { maxTokens: 200 } };
+
+  function createServices() {
+    const aiService = {
+      getContextWindow: vi.fn(() => undefined),
+      stream: vi.fn(async function* () {
+        yield { type: 'text-delta' as const, text: 'Hi' };
+        yield { type: 'finish' as const, result };
+      }),
+      generateObject: vi.fn(async () => result)
+    };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType: 'byok' })),
+      recordUsage: vi.fn(async () => 'usage-1')
+    };
+    const virtualTokenService = {
+      ensureUserAccount: vi.fn(async () => undefined),
+      reserveTokens: vi.fn(async () => ({ id: 'hold-1' })),
+      captureReservation: vi.fn(async () => ({ tokensDeducted: 125, platformFee: 25, newBalance: 875 })),
+      releaseReservation: vi.fn(async () => undefined)
+    };
+    return { aiService, usageAnalyticsService, virtualTokenService };
+  }
+
+  it('draws streamed requests from the shared pool within the member limit', async () => {
+    const service = new OrganizationService(testDb.db);
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+    await service.updateMember(organization.id, owner.userId, { monthlyTokenLimit: 500 });
+
+    const { aiService, usageAnalyticsService, virtualTokenService } = createServices();
+    const aiRouter = router(createStreamingProcedures(
+      DEFAULT_CONFIG as any, aiService as any, virtualTokenService as any, usageAnalyticsService as any,
+      null, null, null, service
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: { ...owner, organizationId: organization.id }, apiKey: null } as any);
+
+    const events: any[] = [];
+    for await (const event of await caller.streamText(input)) {
+      events.push(event);
+    }
+    expect(events[1].tokenUsage).toMatchObject({ tokensCharged: 125, remainingBalance: 875 });
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledWith(`org:${organization.id}`, expect.any(Number), expect.anything());
+    expect(await getMemberUsage()).toEqual([{ user_id: owner.userId, tokens: 125 }]);
+
+    await service.recordMemberUsage(organization.id, owner.userId, 200);
+    await expect((async () => {
+      for await (const _event of await caller.streamText(input)) { /* drain */ }
+    })()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the organization provider key for structured output', async () => {
+    const keyVault = {
+      getUserProviders: vi.fn(async () => ({ success: true, providers: ['anthropic'] })),
+      getUserKey: vi.fn(async () => ({ success: true, message: 'sk-ant-org' }))
+    };
+    const service = new OrganizationService(testDb.db, { keyVault: keyVault as any });
+    const organization = await service.createOrganization(owner, { name: 'Acme' });
+
+    const { aiService, usageAnalyticsService, virtualTokenService } = createServices();
+    const aiRouter = router(createStructuredOutputProcedures(
+      DEFAULT_CONFIG as any, aiService as any, virtualTokenService as any, usageAnalyticsService as any,
+      null, null, null, service
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: { ...owner, organizationId: organization.id }, apiKey: null } as any);
+
+    const response = await caller.generateObject({ ...input, schema: { type: 'object' } } as any);
+    expect(response.usageInfo).toMatchObject({ tokensUsed: 100 });
+    expect(aiService.generateObject).toHaveBeenCalledWith(expect.objectContaining({
+      apiKey: 'sk-ant-org',
+      metadata: expect.objectContaining({ provider: 'anthropic' })
+    }));
+    expect(usageAnalyticsService.recordUsage).toHaveBeenCalledWith(expect.objectContaining({ organizationId: organization.id }));
+    expect(virtualTokenService.reserveTokens).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Pricing Catalog Tests
+ *
+ * Model-aware price lookup (aliases, effective dates, provider defaults),
+ * cost calculation and admin edits persisted to the PostgreSQL test database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PricingCatalog } from '../src/services/billing/pricing-catalog';
+import { UsageAnalyticsService } from '../src/services/billing/usage-analytics-service';
+import { createTestDatabase } from './helpers/test-database';
+
+describe('PricingCatalog', () => {
+  it('resolves production IDs, aliases and dated IDs from the bundled catalog', () => {
+    const catalog = new PricingCatalog();
+
+    expect(catalog.getPrice('anthropic', 'claude-3-5-haiku-20241022')).toMatchObject({ input: 0.8, output: 4, currency: 'USD' });
+    expect(catalog.getPrice('anthropic', 'claude-haiku-3-5')?.model).toBe('claude-3-5-haiku-20241022');
+    expect(catalog.getPrice('openai', 'gpt-5-2025-10-21')?.model).toBe('gpt-5');
+    expect(catalog.getPrice('openrouter', 'openai/gpt-4o-mini')).toMatchObject({ provider: 'openai', input: 0.15 });
+    expect(catalog.getPrice('huggingface', 'some-org/unlisted-model')?.model).toBe('*');
+    expect(catalog.getPrice('anthropic', 'unknown-model')).toBeNull();
+  });
+
+  it('uses the price version in effect at the given date', () => {
+    const catalog = new PricingCatalog();
+
+    expect(catalog.getPrice('openai', 'gpt-4o', new Date('2024-06-01'))).toMatchObject({ input: 5, output: 15 });
+    expect(catalog.getPrice('openai', 'gpt-4o', new Date('2025-01-01'))).toMatchObject({ input: 2.5, output: 10 });
+    expect(catalog.getPrice('openai', 'gpt-4o', new Date('2024-01-01'))).toBeNull();
+  });
+
+  it('bills cached input tokens at the cached rate and falls back to the default price', () => {
+    const catalog = new PricingCatalog({
+      currency: 'EUR',
+      default: { input: 1, output: 2, effectiveFrom: '2024-01-01' },
+      providers: {
+        acme: { 'acme-1': [{ input: 10, output: 20, cachedInput: 1, effectiveFrom: '2024-01-01' }] }
+      }
+    });
+
+    const estimate = catalog.calculateCost('acme', 'acme-1', { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 500_000 });
+    expect(estimate).toMatchObject({ inputCost: 6, cachedInputCost: 0.4, outputCost: 10, cost: 16.4, currency: 'EUR', matched: true });
+
+    const fallback = catalog.calculateCost('acme', 'other', { inputTokens: 1000, outputTokens: 1000 });
+    expect(fallback).toMatchObject({ cost: 0.003, matched: false });
+  });
+
+  it('keeps UsageAnalyticsService estimates on the shared catalog', () => {
+    expect(UsageAnalyticsService.estimateCost('anthropic', 'claude-3-haiku-20240307', 1000, 1000)).toBe(0.0015);
+  });
+
+  it('persists admin edits and merges stored prices on load', async () => {
+    const testDb = await createTestDatabase();
+    try {
+      await testDb.sql(
+        `INSERT INTO model_pricing (provider, model, input_per_million, output_per_million, currency, effective_from)
+         VALUES ('openai', 'gpt-4o', 2, 8, 'USD', '2025-09-01')`
+      );
+      const catalog = new PricingCatalog().useDatabase(testDb.db);
+
+      expect(await catalog.loadFromDatabase()).toBe(1);
+      expect(catalog.getPrice('openai', 'gpt-4o', new Date('2025-10-01'))).toMatchObject({ input: 2, output: 8, source: 'database' });
+      expect(catalog.getPrice('openai', 'gpt-4o', new Date('2025-08-01'))).toMatchObject({ input: 2.5, source: 'file' });
+
+      const price = await catalog.setPrice({ provider: 'Acme', model: 'acme-1', input: 1, output: 3, effectiveFrom: '2025-01-01' }, 'admin@example.com');
+      expect(price).toMatchObject({ provider: 'acme', currency: 'USD', source: 'database' });
+      expect(await testDb.sql(`SELECT model, input_per_million, output_per_million, updated_by FROM model_pricing WHERE provider = 'acme'`))
+        .toEqual([{ model: 'acme-1', input_per_million: '1.000000', output_per_million: '3.000000', updated_by: 'admin@example.com' }]);
+      expect(catalog.listPrices({ provider: 'acme' })).toHaveLength(1);
+
+      expect(await catalog.removePrice('acme', 'acme-1')).toBe(1);
+      expect(await testDb.sql(`SELECT model FROM model_pricing WHERE provider = 'acme'`)).toEqual([]);
+      expect(catalog.getPrice('acme', 'acme-1')).toBeNull();
+
+      // A fresh catalog picks up the stored prices
+      expect(await new PricingCatalog().useDatabase(testDb.db).loadFromDatabase()).toBe(1);
+    } finally {
+      await testDb.close();
+    }
+  }, 60000);
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ProviderCircuitBreaker,
+  classifyProviderError,
+  findEquivalentModel,
+  getBackoffDelay,
+  parseRetryAfter,
+  resolveFailoverPolicy
+} from '../src/services/ai/provider-failover.js';
+
+describe('provider failover policy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps single-attempt behaviour when not configured', () => {
+    const policy = resolveFailoverPolicy();
+    expect(policy.maxRetries).toBe(0);
+    expect(policy.fallback).toBe(false);
+    expect(policy.circuitBreaker.enabled).toBe(false);
+  });
+
+  it('classifies provider errors', () => {
+    expect(classifyProviderError({ statusCode: 429 })).toBe('retryable');
+    expect(classifyProviderError({ statusCode: 503 })).toBe('retryable');
+    expect(classifyProviderError({ statusCode: 401 })).toBe('provider');
+    expect(classifyProviderError({ statusCode: 404 })).toBe('provider');
+    expect(classifyProviderError({ statusCode: 400 })).toBe('request');
+    expect(classifyProviderError({ cause: { code: 'ECONNRESET' } })).toBe('retryable');
+  });
+
+  it('computes exponential backoff capped by maxDelayMs and honours Retry-After', () => {
+    const policy = resolveFailoverPolicy({ initialDelayMs: 100, maxDelayMs: 1000, jitter: false });
+    expect([1, 2, 3, 4, 5].map(retry => getBackoffDelay(policy, retry))).toEqual([100, 200, 400, 800, 1000]);
+    expect(getBackoffDelay(policy, 1, parseRetryAfter({ 'retry-after': '0.5' }))).toBe(500);
+    expect(getBackoffDelay(policy, 1, parseRetryAfter({ 'retry-after': '30' }))).toBe(1000);
+  });
+
+  it('maps models through equivalence groups in either direction', () => {
+    const policy = resolveFailoverPolicy({
+      modelEquivalents: { fast: { anthropic: 'claude-3-5-haiku-20241022', openai: 'gpt-4o-mini' } }
+    });
+    expect(findEquivalentModel(policy, 'claude-3-5-haiku-20241022', 'openai')).toBe('gpt-4o-mini');
+    expect(findEquivalentModel(policy, 'gpt-4o-mini', 'anthropic')).toBe('claude-3-5-haiku-20241022');
+    expect(findEquivalentModel(policy, 'gpt-4o-mini', 'google')).toBeUndefined();
+  });
+
+  it('opens the circuit after repeated failures and lets one trial through after the timeout', () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const breaker = new ProviderCircuitBreaker({ enabled: true, failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    breaker.recordFailure('anthropic');
+    expect(breaker.tryAcquire('anthropic')).toBe(true);
+    breaker.recordFailure('anthropic');
+    expect(breaker.getState('anthropic')).toBe('open');
+    expect(breaker.tryAcquire('anthropic')).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire('anthropic')).toBe(true);
+    expect(breaker.tryAcquire('anthropic')).toBe(false); // only one trial in flight
+
+    // Failed trial re-opens, successful trial closes
+    breaker.recordFailure('anthropic');
+    expect(breaker.getState('anthropic')).toBe('open');
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire('anthropic')).toBe(true);
+    breaker.recordSuccess('anthropic');
+    expect(breaker.getState('anthropic')).toBe('closed');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Billing Statement Tests
+ *
+ * Statement aggregation, closing and rendering in StatementService against
+ * the PostgreSQL test database.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { StatementService, statementToCsv, getStatementPeriod, previousStatementPeriod } from '../src/services/billing/statement-service';
+import { t } from '../src/trpc/index';
+import { createBillingRouter } from '../src/trpc/routers/billing';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+let testDb: TestDatabase;
+
+async function recordUsage(provider: string, model: string, method: string, timestamp: string, charged: number) {
+  await testDb.sql(
+    `INSERT INTO token_usage_log
+     (user_id, provider, model, method, input_tokens, output_tokens, total_tokens, virtual_tokens_deducted, platform_fee_tokens, event_type, timestamp)
+     VALUES ('user-1', $1, $2, $3, 40, 60, 100, $4, $5, 'capture', $6)`,
+    [provider, model, method, charged, charged - 100, timestamp]
+  );
+}
+
+async function seed() {
+  await testDb.sql(`INSERT INTO user_token_accounts (user_id) VALUES ('user-1')`);
+  await recordUsage('anthropic', 'claude-3-5-haiku', 'generateText', '2026-09-03T10:00:00Z', 125);
+  await recordUsage('anthropic', 'claude-3-5-haiku', 'generateText', '2026-09-20T10:00:00Z', 125);
+  await recordUsage('openai', 'gpt-4o-mini', 'streamText', '2026-09-30T23:59:00Z', 120);
+  await recordUsage('openai', 'gpt-4o-mini', 'streamText', '2026-10-01T00:00:00Z', 120);
+  await testDb.sql(
+    `INSERT INTO token_topups
+     (user_id, payment_id, tokens_purchased, usable_tokens, platform_fee_tokens, amount_paid_cents, currency, processed_at, refunded_tokens, refunded_at)
+     VALUES ('user-1', 'order_1', 100000, 80000, 20000, 1000, 'USD', '2026-09-01T08:00:00Z', 40000, '2026-09-15T08:00:00Z')`
+  );
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  await testDb.reset();
+  await seed();
+});
+
+describe('StatementService', () => {
+  it('aggregates a month of usage with fees, top-ups and refunds', async () => {
+    const service = new StatementService(testDb.db);
+
+    const statement = await service.getStatement('user-1', '2026-09', new Date('2026-09-25T00:00:00Z'));
+    expect(statement).toMatchObject({
+      status: 'open',
+      periodStart: '2026-09-01T00:00:00.000Z',
+      periodEnd: '2026-10-01T00:00:00.000Z',
+      usage: [
+        { provider: 'anthropic', model: 'claude-3-5-haiku', method: 'generateText', requests: 2, tokensCharged: 250, platformFeeTokens: 50 },
+        { provider: 'openai', model: 'gpt-4o-mini', method: 'streamText', requests: 1, tokensCharged: 120, platformFeeTokens: 20 }
+      ],
+      topups: [{ paymentId: 'order_1', usableTokens: 80000, amountPaidCents: 1000 }],
+      refunds: [{ paymentId: 'order_1', refundedTokens: 40000 }],
+      totals: { requests: 3, totalTokens: 300, tokensCharged: 370, platformFeeTokens: 70, tokensAdded: 80000, tokensRefunded: 40000, amountPaidCents: 1000 }
+    });
+  });
+
+  it('closes ended months as snapshots that later changes do not touch', async () => {
+    const service = new StatementService(testDb.db);
+    const now = new Date('2026-10-02T00:00:00Z');
+
+    await expect(service.closeStatement('user-1', '2026-10', now)).rejects.toThrow('has not ended yet');
+
+    expect(previousStatementPeriod(now)).toBe('2026-09');
+    await expect(service.closePeriod(undefined, now)).resolves.toEqual({ period: '2026-09', closed: 1 });
+    // A late usage row for September does not change the closed statement
+    await recordUsage('anthropic', 'claude-3-5-haiku', 'generateText', '2026-09-10T00:00:00Z', 125);
+
+    const closed = await service.getStatement('user-1', '2026-09');
+    expect(closed).toMatchObject({ status: 'closed', closedAt: now.toISOString(), totals: { requests: 3 } });
+    await expect(service.closePeriod('2026-09', now)).resolves.toEqual({ period: '2026-09', closed: 0 });
+    expect((await service.closeStatement('user-1', '2026-09', new Date())).closedAt).toBe(now.toISOString());
+  });
+
+  it('renders CSV and printable HTML', async () => {
+    const service = new StatementService(testDb.db);
+    const statement = await service.getStatement('user-1', '2026-09');
+
+    const csv = statementToCsv(statement).trim().split('\n');
+    expect(csv[0]).toBe('type,date,reference,provider,model,method,requests,input_tokens,output_tokens,total_tokens,tokens_charged,platform_fee_tokens,tokens_added,amount_cents,currency');
+    expect(csv).toContain('usage,,,anthropic,claude-3-5-haiku,generateText,2,80,120,200,250,50,,,');
+    expect(csv).toContain('topup,2026-09-01,order_1,,,,,,,,,20000,80000,1000,USD');
+    expect(csv).toContain('refund,2026-09-15,order_1,,,,,,,,,,-40000,,');
+    expect(csv.at(-1)).toBe('total,2026-09,open,,,,3,,,300,370,70,40000,1000,');
+
+    const html = await service.render(statement, 'html');
+    expect(html.contentType).toBe('text/html');
+    expect(html.content).toContain('<title>Statement 2026-09 - Simple RPC AI Backend</title>');
+    expect(html.content).toContain('claude-3-5-haiku');
+    expect(html.content).toContain('10.00 USD');
+    expect(html.content).toContain('80,000');
+  });
+
+  it('validates statement periods', () => {
+    expect(getStatementPeriod('2026-12')).toEqual({ start: new Date('2026-12-01T00:00:00Z'), end: new Date('2027-01-01T00:00:00Z') });
+    expect(() => getStatementPeriod('2026-13')).toThrow('Invalid statement period');
+  });
+});
+
+describe('billing.getStatement', () => {
+  it('returns the caller statement in the requested format', async () => {
+    const billingRouter = createBillingRouter(null, null, null, null, null, new StatementService(testDb.db));
+    const caller = t.createCallerFactory(billingRouter)({ user: { userId: 'user-1' }, apiKey: null } as any);
+
+    const result = await caller.getStatement({ period: '2026-09', format: 'csv' });
+    expect(result).toMatchObject({ format: 'csv', contentType: 'text/csv', statement: { userId: 'user-1', totals: { requests: 3 } } });
+    expect(result.content.split('\n')[0]).toMatch(/^type,date,reference/);
+    await expect(caller.getStatement({ period: '2026-9' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
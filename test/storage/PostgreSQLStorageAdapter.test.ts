@@ -0,0 +1,157 @@
+/**
+ * PostgreSQL Storage Adapter Tests
+ *
+ * Encrypted, per-user key storage against the PostgreSQL test database, and
+ * DATABASE_URL auto-detection in StorageFactory.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import { PostgreSQLStorageAdapter } from '../../src/storage/PostgreSQLStorageAdapter.js';
+import { StorageFactory } from '../../src/storage/StorageFactory.js';
+import { createTestDatabase, type TestDatabase } from '../helpers/test-database';
+
+const { connections, database } = vi.hoisted(() => ({
+  connections: [] as any[],
+  database: {} as { current?: TestDatabase }
+}));
+
+// StorageFactory connects through PostgreSQLAdapter; hand it the test database
+vi.mock('../../src/database/postgres-adapter', () => ({
+  PostgreSQLAdapter: vi.fn().mockImplementation((config: any) => {
+    connections.push(config);
+    return database.current!.db;
+  })
+}));
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+  database.current = testDb;
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  await testDb.sql('DROP TABLE IF EXISTS storage_api_keys');
+});
+
+const ENCRYPTION_KEY = 'test-encryption-key-32-characters!';
+
+describe('PostgreSQLStorageAdapter', () => {
+  it('stores keys encrypted and isolated per user', async () => {
+    const db = testDb.db;
+    const adapter = new PostgreSQLStorageAdapter(db, ENCRYPTION_KEY);
+    await adapter.initialize();
+
+    const keyId = await adapter.storeApiKey('anthropic', 'sk-ant-alice', 'alice');
+    await adapter.storeApiKey('anthropic', 'sk-ant-bob', 'bob');
+    await adapter.storeApiKey('openai', 'sk-server');
+
+    // Nothing readable at rest
+    const rows = await testDb.sql('SELECT encrypted_key FROM storage_api_keys');
+    expect(rows).toHaveLength(3);
+    for (const row of rows) {
+      expect(row.encrypted_key).not.toContain('sk-');
+      expect(row.encrypted_key.split(':')).toHaveLength(3);
+    }
+
+    expect(await adapter.getApiKey('anthropic', 'alice')).toBe('sk-ant-alice');
+    expect(await adapter.getApiKey('anthropic', 'bob')).toBe('sk-ant-bob');
+    expect(await adapter.getApiKey('openai', 'alice')).toBeNull();
+    expect(await adapter.getApiKey('openai')).toBe('sk-server');
+
+    // Storing again updates the same row
+    expect(await adapter.storeApiKey('anthropic', 'sk-ant-alice-2', 'alice')).toBe(keyId);
+    expect(await adapter.getApiKey('anthropic', 'alice')).toBe('sk-ant-alice-2');
+
+    const providers = await adapter.listProviders('alice');
+    expect(providers).toContainEqual({ provider: 'anthropic', hasKey: true });
+    expect(providers).toContainEqual({ provider: 'openai', hasKey: false });
+
+    expect(await adapter.deleteApiKey('anthropic', 'bob')).toBe(true);
+    expect(await adapter.deleteApiKey('anthropic', 'bob')).toBe(false);
+    expect(await adapter.validateApiKey('anthropic', 'alice')).toBe(true);
+    expect(await adapter.validateApiKey('anthropic', 'bob')).toBe(false);
+  });
+
+  it('rotates keys and reports health', async () => {
+    const db = testDb.db;
+    const adapter = new PostgreSQLStorageAdapter(db, ENCRYPTION_KEY);
+
+    expect((await adapter.healthCheck()).status).toBe('unhealthy');
+    await adapter.initialize();
+
+    const keyId = await adapter.storeApiKey('google', 'old-key', 'alice');
+    expect(await adapter.rotateApiKey('google', 'new-key', 'alice')).toBe(keyId);
+    expect(await adapter.getApiKey('google', 'alice')).toBe('new-key');
+    const [rotated] = await testDb.sql(`SELECT rotated_at FROM storage_api_keys WHERE provider = 'google'`);
+    expect(rotated.rotated_at).toBeInstanceOf(Date);
+
+    // Rotating a missing key stores it
+    await adapter.rotateApiKey('deepseek', 'first-key', 'alice');
+    expect(await adapter.getApiKey('deepseek', 'alice')).toBe('first-key');
+
+    expect(await adapter.healthCheck()).toEqual({
+      status: 'healthy',
+      details: { type: 'postgres', connected: true, keyCount: 2, userCount: 1 }
+    });
+    expect(adapter.getType()).toBe('postgres');
+  });
+
+  it('rejects short encryption keys and keys encrypted with another key', async () => {
+    const db = testDb.db;
+    expect(() => new PostgreSQLStorageAdapter(db, 'too-short')).toThrow('at least 32 characters');
+
+    const adapter = new PostgreSQLStorageAdapter(db, ENCRYPTION_KEY);
+    await adapter.initialize();
+    await adapter.storeApiKey('anthropic', 'sk-ant', 'alice');
+
+    const other = new PostgreSQLStorageAdapter(db, 'another-encryption-key-32-characters');
+    await other.initialize();
+    expect(await other.getApiKey('anthropic', 'alice')).toBeNull();
+  });
+});
+
+describe('StorageFactory PostgreSQL storage', () => {
+  beforeEach(() => {
+    connections.length = 0;
+    delete process.env.SECRET_MANAGER_DB_HOST;
+    delete process.env.SECRET_MANAGER_DB_PASS;
+    delete process.env.SECRET_MANAGER_ENCRYPTION_KEY;
+    delete process.env.STORAGE_FILE_PATH;
+    delete process.env.MASTER_KEY;
+  });
+
+  afterEach(() => {
+    delete process.env.DATABASE_URL;
+    delete process.env.SECRET_MANAGER_ENCRYPTION_KEY;
+    delete process.env.MASTER_KEY;
+  });
+
+  it('selects PostgreSQL storage when DATABASE_URL is set', async () => {
+    process.env.DATABASE_URL = 'postgresql://app:secret@db:5432/app';
+    process.env.SECRET_MANAGER_ENCRYPTION_KEY = ENCRYPTION_KEY;
+    // A file key alone no longer wins over the shared database
+    process.env.MASTER_KEY = 'file-master-key';
+
+    const adapter = await StorageFactory.createFromEnvironment();
+    expect(adapter.getType()).toBe('postgres');
+    expect(connections).toEqual(['postgresql://app:secret@db:5432/app']);
+  });
+
+  it('requires an encryption key with DATABASE_URL', async () => {
+    process.env.DATABASE_URL = 'postgresql://app:secret@db:5432/app';
+
+    await expect(StorageFactory.createFromEnvironment()).rejects.toThrow('SECRET_MANAGER_ENCRYPTION_KEY');
+  });
+
+  it('accepts a connection string in place of host credentials', () => {
+    expect(StorageFactory.validateConfig({
+      type: 'postgres',
+      config: { connectionString: 'postgresql://app:secret@db:5432/app', encryptionKey: ENCRYPTION_KEY }
+    } as any)).toEqual([]);
+  });
+});
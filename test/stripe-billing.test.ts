@@ -0,0 +1,380 @@
+/**
+ * Stripe Billing Tests
+ *
+ * Checkout sessions and metered usage records against a local mock of the
+ * Stripe HTTP API, webhook signatures, webhook handling for token grants
+ * (StripeWebhookHandler, against the PostgreSQL test database) and
+ * subscriptions (BillingEngine), and metered plans billed through
+ * StripeUsageReporter.
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { StripeClient, StripeApiError, verifyStripeSignature } from '../src/services/billing/stripe-client';
+import { StripeCheckoutService } from '../src/services/billing/stripe-checkout';
+import { StripeWebhookHandler } from '../src/services/billing/stripe-webhooks';
+import { StripeUsageReporter } from '../src/services/billing/stripe-usage-reporter';
+import { VirtualTokenService } from '../src/services/billing/virtual-token-service';
+import { BillingRules } from '../src/services/billing/billing-rules';
+import { BillingEngine } from '../src/billing/billing-engine';
+import { router, t } from '../src/trpc/index';
+import { createGenerationProcedures } from '../src/trpc/routers/ai/methods/generation';
+import { DEFAULT_CONFIG } from '../src/trpc/routers/ai/types';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+const WEBHOOK_SECRET = 'whsec_test';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  form: URLSearchParams;
+}
+
+// Local stand-in for the Stripe HTTP API
+const stripeRequests: MockRequest[] = [];
+let apiBase = '';
+const mockStripe = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const form = new URLSearchParams(body);
+    stripeRequests.push({ method: req.method!, path: req.url!, headers: req.headers, form });
+    res.setHeader('Content-Type', 'application/json');
+
+    if (req.headers.authorization !== 'Bearer sk_test_123') {
+      res.statusCode = 401;
+      res.end(JSON.stringify({ error: { type: 'invalid_request_error', message: 'Invalid API Key provided' } }));
+      return;
+    }
+    if (req.url === '/v1/checkout/sessions') {
+      res.end(JSON.stringify({ id: 'cs_test_1', url: 'https://checkout.stripe.test/cs_test_1', mode: form.get('mode') }));
+      return;
+    }
+    const usage = req.url!.match(/^\/v1\/subscription_items\/([^/]+)\/usage_records$/);
+    if (usage) {
+      res.end(JSON.stringify({ id: `mbur_${stripeRequests.length}`, quantity: Number(form.get('quantity')), subscription_item: usage[1] }));
+      return;
+    }
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: { type: 'invalid_request_error', code: 'resource_missing', message: 'Unrecognized request URL' } }));
+  });
+});
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => mockStripe.listen(0, '127.0.0.1', resolve));
+  apiBase = `http://127.0.0.1:${(mockStripe.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => mockStripe.close(() => resolve()));
+});
+
+beforeEach(() => {
+  stripeRequests.length = 0;
+});
+
+function signStripe(rawBody: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+const stripeEvent = (id: string, type: string, object: any) => JSON.stringify({ id, type, data: { object } });
+
+describe('StripeClient', () => {
+  it('creates checkout sessions and usage records with form-encoded params', async () => {
+    const checkout = new StripeCheckoutService(new StripeClient({ secretKey: 'sk_test_123', apiBase }), {
+      pricePlans: { price_pro: { plan: 'pro', type: 'subscription' }, price_tokens: { plan: 'tokens', type: 'one_time' } },
+      successUrl: 'https://app.test/success',
+      cancelUrl: 'https://app.test/cancel'
+    });
+
+    const session = await checkout.createCheckout({ userId: 'user-1', email: 'ada@example.com' }, { priceId: 'price_pro', quantity: 2 });
+    expect(session).toEqual({ sessionId: 'cs_test_1', url: 'https://checkout.stripe.test/cs_test_1', mode: 'subscription', plan: 'pro' });
+
+    const { form, headers } = stripeRequests[0];
+    expect(headers['content-type']).toBe('application/x-www-form-urlencoded');
+    expect(form.get('line_items[0][price]')).toBe('price_pro');
+    expect(form.get('line_items[0][quantity]')).toBe('2');
+    expect(form.get('client_reference_id')).toBe('user-1');
+    expect(form.get('subscription_data[metadata][user_id]')).toBe('user-1');
+    expect(form.get('payment_intent_data[metadata][user_id]')).toBeNull();
+
+    await expect(checkout.createCheckout({ userId: 'user-1' }, { priceId: 'price_unknown' })).rejects.toThrow('Unknown price');
+
+    const client = new StripeClient({ secretKey: 'sk_test_123', apiBase });
+    const record = await client.createUsageRecord('si_1', { quantity: 1500, timestamp: new Date('2026-10-01T00:00:00Z') }, 'usage_si_1_1');
+    expect(record.quantity).toBe(1500);
+    expect(stripeRequests[1].headers['idempotency-key']).toBe('usage_si_1_1');
+    expect(stripeRequests[1].form.get('timestamp')).toBe(String(Date.parse('2026-10-01T00:00:00Z') / 1000));
+    expect(stripeRequests[1].form.get('action')).toBe('increment');
+  });
+
+  it('surfaces Stripe API errors', async () => {
+    const client = new StripeClient({ secretKey: 'sk_wrong', apiBase });
+
+    const error = await client.createUsageRecord('si_1', { quantity: 1 }).catch(e => e);
+    expect(error).toBeInstanceOf(StripeApiError);
+    expect(error).toMatchObject({ status: 401, type: 'invalid_request_error', message: 'Invalid API Key provided' });
+  });
+
+  it('verifies webhook signatures against the raw body and timestamp', () => {
+    const raw = stripeEvent('evt_1', 'invoice.paid', { id: 'in_1' });
+
+    expect(verifyStripeSignature(raw, signStripe(raw), WEBHOOK_SECRET)).toBe(true);
+    expect(verifyStripeSignature(raw.replace('in_1', 'in_2'), signStripe(raw), WEBHOOK_SECRET)).toBe(false);
+    expect(verifyStripeSignature(raw, signStripe(raw, Math.floor(Date.now() / 1000) - 3600), WEBHOOK_SECRET)).toBe(false);
+    expect(verifyStripeSignature(raw, 'v1=abc', WEBHOOK_SECRET)).toBe(false);
+  });
+});
+
+describe('StripeWebhookHandler', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await testDb.reset();
+  });
+
+  async function getSubscription(subscriptionId: string) {
+    const [subscription] = await testDb.sql(
+      `SELECT user_id, customer_id, subscription_item_id, plan, status FROM billing_subscriptions
+       WHERE provider = 'stripe' AND subscription_id = $1`,
+      [subscriptionId]
+    );
+    return subscription;
+  }
+
+  function createHandler() {
+    const granted = new Set<string>();
+    const virtualTokenService = {
+      getBillingRules: () => new BillingRules(),
+      isPaymentProcessed: vi.fn(async (paymentId: string) => granted.has(paymentId)),
+      addTokensFromPayment: vi.fn(async (_userId: string, _grant: any, paymentId: string) => { granted.add(paymentId); }),
+      refundTopup: vi.fn(async (paymentId: string) => ({ paymentId, userId: 'user-1', tokensClawedBack: 400, newBalance: 100, shortfall: 0, frozen: false }))
+    };
+
+    const handler = new StripeWebhookHandler(
+      testDb.db,
+      { virtualTokenService: virtualTokenService as any, billingRules: new BillingRules({ purchaseGrants: { price_tokens: { tokens: 500 } } }) },
+      {
+        webhookSecret: WEBHOOK_SECRET,
+        pricePlans: {
+          price_tokens: { plan: 'tokens', type: 'one_time' },
+          price_pro: { plan: 'pro', type: 'subscription' },
+          price_metered: { plan: 'payg', type: 'metered' }
+        }
+      }
+    );
+    return { handler, virtualTokenService };
+  }
+
+  it('grants one-time checkouts once and renewals from paid invoices', async () => {
+    const { handler, virtualTokenService } = createHandler();
+
+    const checkout = stripeEvent('evt_1', 'checkout.session.completed', {
+      id: 'cs_1', mode: 'payment', payment_status: 'paid', payment_intent: 'pi_1', amount_total: 1000, currency: 'eur',
+      client_reference_id: 'user-1', metadata: { user_id: 'user-1', price_id: 'price_tokens', quantity: '2' }
+    });
+    expect(handler.verifySignature(checkout, signStripe(checkout))).toBe(true);
+    expect(await handler.receive(checkout)).toMatchObject({ status: 'processed', duplicate: false });
+    expect(await handler.receive(checkout)).toMatchObject({ status: 'processed', duplicate: true });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledTimes(1);
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenCalledWith(
+      'user-1', expect.objectContaining({ tokensPurchased: 1000 }), 'stripe:pi_1', 'price_tokens', 1000, 'EUR', expect.anything()
+    );
+
+    await handler.receive(stripeEvent('evt_2', 'customer.subscription.created', {
+      id: 'sub_1', customer: 'cus_1', status: 'active', metadata: { user_id: 'user-1' },
+      items: { data: [{ id: 'si_1', price: { id: 'price_pro' } }] }, current_period_end: 1790000000
+    }));
+    expect(await getSubscription('sub_1')).toMatchObject({ user_id: 'user-1', customer_id: 'cus_1', subscription_item_id: 'si_1', plan: 'pro' });
+
+    const invoice = (id: string, priceId: string) => ({
+      id, subscription: 'sub_1', amount_paid: 2000, currency: 'usd', lines: { data: [{ price: { id: priceId }, quantity: 1 }] }
+    });
+    expect(await handler.receive(stripeEvent('evt_3', 'invoice.paid', invoice('in_1', 'price_pro')))).toMatchObject({ status: 'processed' });
+    expect(virtualTokenService.addTokensFromPayment).toHaveBeenLastCalledWith(
+      'user-1', expect.objectContaining({ tokensPurchased: 20000 }), 'stripe:invoice:in_1', 'price_pro', 2000, 'USD', expect.anything()
+    );
+    expect(await handler.receive(stripeEvent('evt_4', 'invoice.paid', invoice('in_2', 'price_metered'))))
+      .toMatchObject({ status: 'ignored', message: 'Invoice in_2 bills metered usage' });
+
+    await handler.receive(stripeEvent('evt_5', 'invoice.payment_failed', invoice('in_3', 'price_pro')));
+    expect((await getSubscription('sub_1')).status).toBe('past_due');
+  });
+
+  it('claws back refunded charges by payment intent or invoice', async () => {
+    const { handler, virtualTokenService } = createHandler();
+
+    await handler.receive(stripeEvent('evt_10', 'charge.refunded', { id: 'ch_1', payment_intent: 'pi_1', amount_refunded: 500 }));
+    await handler.receive(stripeEvent('evt_11', 'charge.refunded', { id: 'ch_2', payment_intent: 'pi_2', invoice: 'in_1', amount_refunded: 2000 }));
+
+    expect(virtualTokenService.refundTopup).toHaveBeenNthCalledWith(1, 'stripe:pi_1', { refundedAmountCents: 500, policy: undefined });
+    expect(virtualTokenService.refundTopup).toHaveBeenNthCalledWith(2, 'stripe:invoice:in_1', { refundedAmountCents: 2000, policy: undefined });
+  });
+});
+
+describe('BillingEngine Stripe integration', () => {
+  function createEngine() {
+    const reports: any[][] = [];
+    const updates: any[][] = [];
+    const db = {
+      all: vi.fn(async () => [{ user_id: 'user-1', stripe_subscription_item_id: 'si_1', billing_period_start: '2026-10-01' }]),
+      get: vi.fn(async (sql: string) => sql.includes('stripe_usage_reports')
+        ? { period_end: reports.length > 0 ? reports[reports.length - 1][5] : null }
+        : { user_id: 'user-1' }),
+      execute: vi.fn(async (sql: string, params: any[]) => {
+        if (sql.includes('INSERT INTO stripe_usage_reports')) reports.push(params);
+        if (sql.includes('UPDATE subscription_info')) updates.push(params);
+        return { changes: 1 };
+      })
+    };
+    const usageTracker = {
+      getUsageTotals: vi.fn(async (_userId: string, since: Date) => ({
+        totalTokens: since.toISOString().startsWith('2026-10-01') ? 4200 : 0,
+        totalCost: 0.1,
+        requestCount: 3
+      }))
+    };
+    const engine = new BillingEngine(db as any, usageTracker as any, {
+      platformFee: { percentage: 20 },
+      billingProvider: 'stripe',
+      enableUsageBasedBilling: true,
+      quotaWarningThresholds: [80],
+      stripeWebhookSecret: WEBHOOK_SECRET,
+      stripe: { secretKey: 'sk_test_123', apiBase }
+    });
+    return { engine, reports, updates, usageTracker };
+  }
+
+  it('reports usage since the last report to the metered subscription item', async () => {
+    const { engine, reports, usageTracker } = createEngine();
+    const until = new Date('2026-10-15T12:00:00Z');
+
+    expect(await engine.reportStripeUsage(until)).toEqual({ reported: 1, totalQuantity: 4200, failed: [] });
+    expect(stripeRequests).toHaveLength(1);
+    expect(stripeRequests[0].path).toBe('/v1/subscription_items/si_1/usage_records');
+    expect(stripeRequests[0].form.get('quantity')).toBe('4200');
+    expect(reports[0]).toEqual([expect.any(String), 'user-1', 'si_1', 4200, new Date('2026-10-01').toISOString(), until.toISOString(), 'mbur_1']);
+
+    // Next run starts where the last report ended and has nothing new to report
+    expect(await engine.reportStripeUsage(new Date('2026-10-15T13:00:00Z'))).toMatchObject({ reported: 0 });
+    expect(usageTracker.getUsageTotals).toHaveBeenLastCalledWith('user-1', until, new Date('2026-10-15T13:00:00Z'));
+    expect(stripeRequests).toHaveLength(1);
+  });
+
+  it('links verified subscription webhooks and rejects unverifiable payloads', async () => {
+    const { engine, updates } = createEngine();
+    const raw = stripeEvent('evt_20', 'customer.subscription.updated', {
+      id: 'sub_9', customer: 'cus_9', status: 'active', metadata: { user_id: 'user-1' },
+      items: { data: [{ id: 'si_flat', price: { recurring: { usage_type: 'licensed' } } }, { id: 'si_metered', price: { recurring: { usage_type: 'metered' } } }] }
+    });
+
+    await engine.processWebhook('stripe', Buffer.from(raw), signStripe(raw));
+    expect(updates[0]).toEqual(['sub_9', 'cus_9', 'si_metered', 'active', 'user-1']);
+
+    await expect(engine.processWebhook('stripe', JSON.parse(raw), signStripe(raw))).rejects.toThrow('Invalid webhook signature');
+    await expect(engine.processWebhook('stripe', raw, signStripe(raw.replace('cus_9', 'cus_x')))).rejects.toThrow('Invalid webhook signature');
+  });
+});
+
+describe('StripeUsageReporter', () => {
+  let testDb: TestDatabase;
+  const pricePlans = {
+    price_pro: { plan: 'pro', type: 'subscription' as const },
+    price_metered: { plan: 'payg', type: 'metered' as const }
+  };
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await testDb.reset();
+  });
+
+  async function subscribe(userId: string, subscriptionId: string, priceId: string, status = 'active') {
+    await testDb.sql(
+      `INSERT INTO billing_subscriptions (provider, subscription_id, user_id, customer_id, subscription_item_id, variant_id, status)
+       VALUES ('stripe', $1, $2, 'cus_1', $3, $4, $5)`,
+      [subscriptionId, userId, `si_${subscriptionId}`, priceId, status]
+    );
+  }
+
+  const createReporter = (secretKey = 'sk_test_123') =>
+    new StripeUsageReporter(testDb.db, new StripeClient({ secretKey, apiBase }), { pricePlans });
+
+  it('finds billable metered subscriptions only', async () => {
+    await subscribe('user-1', 'sub_1', 'price_metered');
+    await subscribe('user-2', 'sub_2', 'price_pro');
+    await subscribe('user-3', 'sub_3', 'price_metered', 'canceled');
+    const reporter = createReporter();
+
+    expect(await reporter.getMeteredSubscription('user-1'))
+      .toEqual({ subscriptionId: 'sub_1', subscriptionItemId: 'si_sub_1', priceId: 'price_metered', plan: 'payg' });
+    expect(await reporter.getMeteredSubscription('user-2')).toBeNull();
+    expect(await reporter.getMeteredSubscription('user-3')).toBeNull();
+  });
+
+  it('reports logged usage once and resends failed reports with the same idempotency key', async () => {
+    const tokens = new VirtualTokenService(testDb.db);
+    await tokens.ensureUserAccount('user-1');
+    await tokens.recordMeteredUsage('user-1', 'si_1', 400, 'anthropic');
+    await tokens.recordMeteredUsage('user-1', 'si_1', 800, 'anthropic');
+
+    // Stripe rejects the first attempt; the usage stays claimed by the pending report
+    expect(await createReporter('sk_wrong').reportUsage()).toMatchObject({ reported: 0, failed: [{ subscriptionItemId: 'si_1' }] });
+    await tokens.recordMeteredUsage('user-1', 'si_1', 200, 'anthropic');
+
+    expect(await createReporter().reportUsage()).toEqual({ reported: 2, totalQuantity: 1750, failed: [] });
+    const usageRequests = stripeRequests.filter(request => request.path === '/v1/subscription_items/si_1/usage_records');
+    expect(usageRequests.map(request => request.form.get('quantity'))).toEqual(['1500', '1500', '250']);
+    expect(usageRequests[1].headers['idempotency-key']).toBe(usageRequests[0].headers['idempotency-key']);
+
+    // Balances are untouched and nothing is left to report
+    expect(await tokens.getTokenBalance('user-1')).toMatchObject({ virtualTokenBalance: 0, totalTokensUsed: 1400 });
+    expect(await createReporter().reportUsage()).toEqual({ reported: 0, totalQuantity: 0, failed: [] });
+  });
+
+  it('bills metered subscribers on the server keys through ai.generateText', async () => {
+    await subscribe('user-1', 'sub_1', 'price_metered');
+    const aiService = {
+      getContextWindow: vi.fn(() => undefined),
+      execute: vi.fn(async () => ({
+        content: 'Hi!',
+        usage: { promptTokens: 40, completionTokens: 60, totalTokens: 100 },
+        model: 'claude-test',
+        provider: 'anthropic',
+        requestId: 'req-1'
+      }))
+    };
+    const aiRouter = router(createGenerationProcedures(
+      DEFAULT_CONFIG as any, aiService as any, new VirtualTokenService(testDb.db), null,
+      null, null, null, null, null, createReporter()
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: { userId: 'user-1' }, apiKey: 'sk-server' } as any);
+
+    const response = await caller.generateText({ content: 'Hello', systemPrompt: 'Be brief' });
+    expect(response.tokenUsage).toMatchObject({ tokensUsed: 100, tokensCharged: 125, platformFee: 25, remainingBalance: null });
+    expect(aiService.execute).toHaveBeenCalledWith(expect.objectContaining({ apiKey: undefined }));
+
+    const [usage] = await testDb.sql(`SELECT stripe_subscription_item_id, virtual_tokens_deducted FROM token_usage_log`);
+    expect(usage).toMatchObject({ stripe_subscription_item_id: 'si_sub_1', virtual_tokens_deducted: 125 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { SchemaRegistry, createZodSchema } from '../src/schemas/schema-registry.js';
+import { resolveOutputSchema, validateJsonSchema, StructuredOutputError } from '../src/services/ai/structured-output.js';
+
+describe('structured output', () => {
+  describe('validateJsonSchema', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+        status: { enum: ['active', 'inactive'] }
+      },
+      required: ['name', 'age'],
+      additionalProperties: false
+    };
+
+    it('accepts matching values', () => {
+      expect(validateJsonSchema({ name: 'Ada', age: 36, tags: ['math'], status: 'active' }, schema)).toEqual([]);
+    });
+
+    it('reports every mismatch with its path', () => {
+      const errors = validateJsonSchema({ name: '', age: 1.5, tags: ['a', 2, 'c'], status: 'gone', extra: true }, schema);
+
+      expect(errors).toEqual([
+        '/name: must have at least 1 characters',
+        '/age: expected integer, got number',
+        '/tags: must have at most 2 items',
+        '/tags/1: expected string, got number',
+        '/status: must be one of "active", "inactive"',
+        '/extra: is not allowed'
+      ]);
+      expect(validateJsonSchema({}, schema)).toEqual(['/name: is required', '/age: is required']);
+    });
+
+    it('supports nullable types and anyOf', () => {
+      expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+      expect(validateJsonSchema(3, { anyOf: [{ type: 'string' }, { type: 'boolean' }] })).toEqual([
+        '(root): does not match any allowed schema'
+      ]);
+    });
+  });
+
+  describe('resolveOutputSchema', () => {
+    const registry = new SchemaRegistry();
+    registry.register(createZodSchema('person', 'Person', 'A person', z.object({
+      name: z.string(),
+      birthYear: z.number().int()
+    })));
+
+    it('resolves registry schemas to JSON Schema plus a Zod validator', () => {
+      const output = resolveOutputSchema({ schemaId: 'person' }, registry);
+
+      expect(output.name).toBe('Person');
+      expect(output.jsonSchema.properties).toHaveProperty('birthYear');
+      expect(output.validate({ name: 'Ada', birthYear: 1815 })).toEqual({ success: true, value: { name: 'Ada', birthYear: 1815 } });
+
+      const invalid = output.validate({ name: 'Ada', birthYear: 'soon' });
+      expect(invalid.success).toBe(false);
+      expect(!invalid.success && invalid.error.message).toContain('birthYear');
+    });
+
+    it('validates inline JSON Schemas', () => {
+      const output = resolveOutputSchema({ schema: { type: 'object', required: ['id'] } }, registry);
+      expect(output.validate({ id: 1 }).success).toBe(true);
+      expect(output.validate({})).toMatchObject({ success: false, error: { message: '/id: is required' } });
+    });
+
+    it('rejects unknown schema ids', () => {
+      expect(() => resolveOutputSchema({ schemaId: 'missing' }, registry)).toThrow(StructuredOutputError);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Trial Credit Tests
+ *
+ * Grants, abuse controls and limits in TrialCreditService, the trial path
+ * in ai.generateText and user.checkRequestEligibility, against the
+ * PostgreSQL test database.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { TrialCreditService, TrialCreditError, normalizeTrialEmail } from '../src/services/billing/trial-credit-service';
+import { router, t } from '../src/trpc/index';
+import { createGenerationProcedures } from '../src/trpc/routers/ai/methods/generation';
+import { createUserRouter } from '../src/trpc/routers/user';
+import { DEFAULT_CONFIG } from '../src/trpc/routers/ai/types';
+import { VirtualTokenService } from '../src/services/billing/virtual-token-service';
+import { BillingRules } from '../src/services/billing/billing-rules';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+let testDb: TestDatabase;
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await testDb.reset();
+});
+
+const alice = { userId: 'user-1', email: 'alice@example.com', emailVerified: true };
+
+describe('TrialCreditService', () => {
+  it('grants once per verified e-mail and device', async () => {
+    const db = testDb.db;
+    const service = new TrialCreditService(db, { tokens: 5000, expiresInDays: 7 });
+    const now = new Date('2026-10-01T00:00:00Z');
+
+    const trial = await service.getOrGrantTrial({ ...alice, deviceId: 'machine-a' }, now);
+    expect(trial).toMatchObject({ tokensGranted: 5000, tokensRemaining: 5000, expiresAt: new Date('2026-10-08T00:00:00Z') });
+    // Signing in again returns the same grant
+    expect(await service.getOrGrantTrial(alice, now)).toMatchObject({ grantedAt: now });
+
+    // Same inbox with a +tag, or the same device, gets nothing
+    expect(await service.getOrGrantTrial({ userId: 'user-2', email: 'Alice+trial@example.com', emailVerified: true }, now)).toBeNull();
+    expect(await service.getOrGrantTrial({ userId: 'user-3', email: 'bob@example.com', emailVerified: true, deviceId: 'machine-a' }, now)).toBeNull();
+    // Unverified e-mails are not eligible
+    expect(await service.getOrGrantTrial({ userId: 'user-4', email: 'carol@example.com' }, now)).toBeNull();
+
+    expect(normalizeTrialEmail(' Alice+trial@Example.com ')).toBe('alice@example.com');
+  });
+
+  it('stops at the request cap and after expiry with an upgrade message', async () => {
+    const db = testDb.db;
+    const service = new TrialCreditService(db, { tokens: 1000, requests: 2, upgradeUrl: 'https://example.com/pricing' });
+    const now = new Date('2026-10-01T00:00:00Z');
+    await service.getOrGrantTrial(alice, now);
+
+    const failed = await service.claimRequest(alice.userId, 100, now);
+    await service.releaseRequest(failed.holdId);   // Failed request is given back
+    await service.claimRequest(alice.userId, 100, now);
+    const trial = await service.claimRequest(alice.userId, 100, now);
+    expect(trial).toMatchObject({ requestsUsed: 2, requestsRemaining: 0 });
+
+    await expect(service.claimRequest(alice.userId, 100, now)).rejects.toMatchObject({
+      reason: 'exhausted',
+      message: 'Your free trial credits are used up. Top up tokens or add your own API key to continue. Upgrade at https://example.com/pricing'
+    });
+    const later = new Date('2026-11-01T00:00:00Z');
+    await expect(service.claimRequest(alice.userId, 100, later)).rejects.toThrow('Your free trial expired on 2026-10-15.');
+    await expect(service.claimRequest('user-x', 100, now)).rejects.toBeInstanceOf(TrialCreditError);
+  });
+
+  it('holds the estimate until the request is settled', async () => {
+    const service = new TrialCreditService(testDb.db, { tokens: 1000 });
+    await service.getOrGrantTrial(alice);
+
+    // Parallel requests cannot spend the same credits
+    const first = await service.claimRequest(alice.userId, 600);
+    const second = await service.claimRequest(alice.userId, 600);
+    expect(first).toMatchObject({ tokensHeld: 600, tokensRemaining: 400 });
+    expect(second).toMatchObject({ tokensHeld: 1000, tokensRemaining: 0 });
+    await expect(service.claimRequest(alice.userId, 600)).rejects.toMatchObject({ reason: 'exhausted' });
+
+    // Actual usage replaces the hold; a failed request gives its hold back
+    expect(await service.recordUsage(alice.userId, 250, first.holdId))
+      .toMatchObject({ tokensUsed: 250, tokensHeld: 400, tokensRemaining: 350 });
+    await service.releaseRequest(second.holdId);
+    expect(await service.getTrial(alice.userId)).toMatchObject({ tokensHeld: 0, tokensRemaining: 750, requestsUsed: 1 });
+
+    // Holds of requests that never finished expire
+    await service.claimRequest(alice.userId, 700);
+    const later = new Date(Date.now() + 60 * 60 * 1000);
+    expect(await service.getTrial(alice.userId, later)).toMatchObject({ tokensHeld: 0, tokensRemaining: 750 });
+  });
+});
+
+describe('ai.generateText trial credits', () => {
+  const input = { content: 'Hello', systemPrompt: 'Be brief' };
+
+  function createCaller(service: TrialCreditService, ctx: any) {
+    const aiService = {
+      execute: vi.fn(async () => ({
+        content: 'Hi!',
+        usage: { promptTokens: 400, completionTokens: 600, totalTokens: 1000 },
+        model: 'claude-3-5-haiku',
+        provider: 'anthropic',
+        requestId: 'req-1'
+      }))
+    };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType: 'unknown' })),
+      recordUsage: vi.fn(async () => 'usage-1')
+    };
+    const aiRouter = router(createGenerationProcedures(
+      DEFAULT_CONFIG as any, aiService as any, null, usageAnalyticsService as any,
+      null, null, null, null, service
+    ));
+    return { caller: t.createCallerFactory(aiRouter)(ctx), aiService };
+  }
+
+  it('spends trial credits on the server keys, then requires payment', async () => {
+    const db = testDb.db;
+    const service = new TrialCreditService(db, { tokens: 1500 });
+    const { caller, aiService } = createCaller(service, { user: alice, apiKey: null, deviceId: 'machine-a' });
+
+    const response = await caller.generateText(input);
+    expect(response.trialUsage).toMatchObject({ tokensUsed: 1000, tokensRemaining: 500, requestsRemaining: null });
+    expect(aiService.execute).toHaveBeenCalledWith(expect.not.objectContaining({ apiKey: expect.anything() }));
+
+    // The last request may overrun the grant; after that the trial is used up
+    await caller.generateText(input);
+    await expect(caller.generateText(input)).rejects.toMatchObject({
+      code: 'PAYMENT_REQUIRED',
+      message: expect.stringContaining('Your free trial credits are used up')
+    });
+    expect(aiService.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves callers with their own key alone', async () => {
+    const db = testDb.db;
+    const { caller, aiService } = createCaller(new TrialCreditService(db), { user: alice, apiKey: 'sk-own' });
+
+    expect(await caller.generateText(input)).not.toHaveProperty('trialUsage');
+    expect(aiService.execute).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'sk-own' }));
+    expect(await testDb.sql('SELECT user_id FROM trial_credits')).toEqual([]);
+  });
+});
+
+describe('user.checkRequestEligibility', () => {
+  it('reports trial credits and the upgrade message', async () => {
+    const db = testDb.db;
+    const service = new TrialCreditService(db, { tokens: 2000 });
+    const usageAnalyticsService = { getUserStatus: vi.fn(async () => ({ userType: 'unknown' })) };
+    const userRouter = createUserRouter(null, usageAnalyticsService as any, null, undefined, service);
+    const createCaller = t.createCallerFactory(userRouter);
+
+    const eligible = await createCaller({ user: alice, apiKey: null } as any).checkRequestEligibility({});
+    expect(eligible).toMatchObject({ canMakeRequest: true, upgradeRequired: false, trial: { tokensRemaining: 2000 } });
+
+    const unverified = await createCaller({ user: { userId: 'user-2', email: 'bob@example.com' }, apiKey: null } as any)
+      .checkRequestEligibility({});
+    expect(unverified).toMatchObject({
+      canMakeRequest: false,
+      upgradeRequired: true,
+      trial: null,
+      reason: 'No free trial credits are available for this account. Top up tokens or add your own API key to continue.'
+    });
+  });
+
+  it('estimates token costs with the billing rules', async () => {
+    await testDb.sql('INSERT INTO user_token_accounts (user_id, virtual_token_balance) VALUES ($1, 1200)', [alice.userId]);
+    const billingRules = new BillingRules({ tiers: { pro: { platformFeePercent: 10 } } });
+    const virtualTokenService = new VirtualTokenService(testDb.db, { billingRules });
+    const usageAnalyticsService = { getUserStatus: vi.fn(async () => ({ userType: 'subscription' })) };
+    const userRouter = createUserRouter(virtualTokenService, usageAnalyticsService as any, null);
+    const caller = t.createCallerFactory(userRouter)({ user: { ...alice, subscriptionTier: 'pro' }, apiKey: null } as any);
+
+    expect(await caller.checkRequestEligibility({ estimatedTokens: 1000 }))
+      .toMatchObject({ canMakeRequest: true, estimatedCost: 1100, tokenBalance: 1200 });
+    // The default 25% fee would not fit the balance
+    const basic = t.createCallerFactory(userRouter)({ user: alice, apiKey: null } as any);
+    expect(await basic.checkRequestEligibility({ estimatedTokens: 1000 })).toMatchObject({ canMakeRequest: false, estimatedCost: 1250 });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Structured Output Tests
+ *
+ * Covers ai.generateObject input validation, billing and error mapping.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { router, t } from '../../src/trpc/index';
+import { createStructuredOutputProcedures } from '../../src/trpc/routers/ai/methods/structured';
+import { DEFAULT_CONFIG } from '../../src/trpc/routers/ai/types';
+import { StructuredOutputError } from '../../src/services/ai/structured-output';
+
+const objectResult = {
+  object: { name: 'Ada Lovelace', birthYear: 1815 },
+  content: '{"name":"Ada Lovelace","birthYear":1815}',
+  usage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+  model: 'gpt-4o-mini',
+  provider: 'openai',
+  requestId: 'req-1',
+  finishReason: 'stop',
+  repairAttempts: 1
+};
+
+const schema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, birthYear: { type: 'integer' } },
+  required: ['name', 'birthYear']
+};
+const input = { content: 'Ada Lovelace, born 1815', systemPrompt: 'Extract the person', schema };
+
+function createCaller(aiService: any, ctx: any, services: { virtualTokenService?: any; usageAnalyticsService?: any } = {}) {
+  const aiRouter = router(createStructuredOutputProcedures(
+    DEFAULT_CONFIG, aiService, services.virtualTokenService ?? null, services.usageAnalyticsService ?? null
+  ));
+  return t.createCallerFactory(aiRouter)(ctx);
+}
+
+describe('ai.generateObject', () => {
+  it('returns the validated object and records BYOK usage', async () => {
+    const aiService = { generateObject: vi.fn(async () => objectResult) };
+    const usageAnalyticsService = {
+      getUserStatus: vi.fn(async () => ({ userType: 'byok' })),
+      recordUsage: vi.fn(async () => undefined)
+    };
+    const caller = createCaller(aiService, { user: { userId: 'user-1' }, apiKey: 'sk-user' }, { usageAnalyticsService });
+
+    const response = await caller.generateObject({ ...input, maxRepairAttempts: 1 });
+
+    expect(response.data.object).toEqual({ name: 'Ada Lovelace', birthYear: 1815 });
+    expect(aiService.generateObject).toHaveBeenCalledWith(expect.objectContaining({
+      schema,
+      maxRepairAttempts: 1,
+      apiKey: 'sk-user'
+    }));
+    expect(usageAnalyticsService.recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      provider: 'openai',
+      totalTokens: 30,
+      method: 'generateObject'
+    }));
+    expect(response.usageInfo?.tokensUsed).toBe(30);
+  });
+
+  it('requires exactly one of schema or schemaId', async () => {
+    const caller = createCaller({ generateObject: vi.fn() }, { user: null, apiKey: 'sk-test' });
+
+    await expect(caller.generateObject({ content: 'x', systemPrompt: 'y' })).rejects.toThrow('exactly one of schema or schemaId');
+    await expect(caller.generateObject({ ...input, schemaId: 'person' })).rejects.toThrow('exactly one of schema or schemaId');
+  });
+
+  it('maps structured output failures to client errors', async () => {
+    const aiService = {
+      generateObject: vi.fn()
+        .mockRejectedValueOnce(new StructuredOutputError("Schema 'missing' not found in registry", 'schema_not_found'))
+        .mockRejectedValueOnce(new StructuredOutputError('openai returned invalid structured output after 3 attempts', 'invalid_output'))
+    };
+    const caller = createCaller(aiService, { user: null, apiKey: 'sk-test' });
+    const { schema: _schema, ...withoutSchema } = input;
+
+    await expect(caller.generateObject({ ...withoutSchema, schemaId: 'missing' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.generateObject(input)).rejects.toMatchObject({ code: 'UNPROCESSABLE_CONTENT' });
+  });
+});
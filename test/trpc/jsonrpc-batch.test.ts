@@ -0,0 +1,130 @@
+/**
+ * JSON-RPC Batch Tests
+ *
+ * Batch arrays, notifications, per-item error mapping and the concurrency cap
+ * in the tRPC to JSON-RPC bridge.
+ */
+
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, publicProcedure } from '../../src/trpc/index';
+import { createTRPCToJSONRPCBridge } from '../../src/trpc/trpc-to-jsonrpc-bridge';
+
+function createApp(options: { maxBatchSize?: number; maxBatchConcurrency?: number } = {}) {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const notified: string[] = [];
+
+  const testRouter = router({
+    math: router({
+      double: publicProcedure
+        .input(z.object({ value: z.number() }))
+        .mutation(async ({ input }) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          inFlight--;
+          return { value: input.value * 2 };
+        }),
+    }),
+    fail: publicProcedure.mutation(() => {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Not allowed' });
+    }),
+    track: publicProcedure
+      .input(z.object({ event: z.string() }))
+      .mutation(({ input }) => {
+        notified.push(input.event);
+        return { ok: true };
+      }),
+  });
+
+  const bridge = createTRPCToJSONRPCBridge(testRouter as any, () => ({}), options);
+  const app = express();
+  app.use(express.json());
+  app.post('/rpc', bridge.createHandler());
+
+  return { app, notified, getMaxInFlight: () => maxInFlight };
+}
+
+describe('JSON-RPC batch requests', () => {
+  it('returns one response per request, mapping errors per item', async () => {
+    const { app } = createApp();
+
+    const response = await request(app)
+      .post('/rpc')
+      .send([
+        { jsonrpc: '2.0', id: 1, method: 'math.double', params: { value: 2 } },
+        { jsonrpc: '2.0', id: 2, method: 'fail' },
+        { jsonrpc: '2.0', id: 3, method: 'missing.method' },
+        { jsonrpc: '2.0', id: 4 },
+      ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject([
+      { jsonrpc: '2.0', id: 1, result: { value: 4 } },
+      { jsonrpc: '2.0', id: 2, error: { code: -32002, message: 'Forbidden', data: 'Not allowed' } },
+      { jsonrpc: '2.0', id: 3, error: { code: -32601 } },
+      { jsonrpc: '2.0', id: 4, error: { code: -32600, message: 'Invalid Request', data: 'method must be a string' } },
+    ]);
+  });
+
+  it('runs notifications without adding response entries', async () => {
+    const { app, notified } = createApp();
+
+    const response = await request(app)
+      .post('/rpc')
+      .send([
+        { jsonrpc: '2.0', method: 'track', params: { event: 'opened' } },
+        { jsonrpc: '2.0', id: 'a', method: 'math.double', params: { value: 5 } },
+      ]);
+
+    expect(response.body).toEqual([{ jsonrpc: '2.0', id: 'a', result: { value: 10 } }]);
+    expect(notified).toEqual(['opened']);
+  });
+
+  it('returns 204 with no body when every call is a notification', async () => {
+    const { app, notified } = createApp();
+
+    const batch = await request(app)
+      .post('/rpc')
+      .send([
+        { jsonrpc: '2.0', method: 'track', params: { event: 'one' } },
+        { jsonrpc: '2.0', method: 'fail' },
+      ]);
+    const single = await request(app)
+      .post('/rpc')
+      .send({ jsonrpc: '2.0', method: 'track', params: { event: 'two' } });
+
+    expect(batch.status).toBe(204);
+    expect(single.status).toBe(204);
+    expect(notified).toEqual(['one', 'two']);
+  });
+
+  it('caps concurrent calls within a batch', async () => {
+    const { app, getMaxInFlight } = createApp({ maxBatchConcurrency: 2 });
+
+    const response = await request(app)
+      .post('/rpc')
+      .send(Array.from({ length: 6 }, (_, i) => ({
+        jsonrpc: '2.0', id: i, method: 'math.double', params: { value: i },
+      })));
+
+    expect(response.body.map((r: any) => r.result.value)).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(getMaxInFlight()).toBe(2);
+  });
+
+  it('rejects empty and oversized batches', async () => {
+    const { app } = createApp({ maxBatchSize: 2 });
+
+    const empty = await request(app).post('/rpc').send([]);
+    const oversized = await request(app)
+      .post('/rpc')
+      .send([1, 2, 3].map(id => ({ jsonrpc: '2.0', id, method: 'math.double', params: { value: id } })));
+
+    expect(empty.body.error.code).toBe(-32600);
+    expect(oversized.body).toMatchObject({ id: null, error: { code: -32600 } });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Streaming Tests
+ *
+ * Covers ai.streamText as a tRPC subscription and via the JSON-RPC SSE bridge,
+ * including token holds and final or partial usage billing.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { router, t } from '../../src/trpc/index';
+import { createStreamingProcedures } from '../../src/trpc/routers/ai/methods/streaming';
+import { DEFAULT_CONFIG } from '../../src/trpc/routers/ai/types';
+import { createTRPCToJSONRPCBridge } from '../../src/trpc/trpc-to-jsonrpc-bridge';
+
+const finalResult = {
+  content: 'Hello world',
+  usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+  model: 'claude-test',
+  provider: 'anthropic',
+  requestId: 'req-1',
+  finishReason: 'stop'
+};
+
+function createFakeAIService(deltas: string[], error?: Error) {
+  return {
+    stream: vi.fn(async function* () {
+      yield { type: 'start' as const, provider: finalResult.provider, model: finalResult.model };
+      for (const text of deltas) {
+        yield { type: 'text-delta' as const, text };
+      }
+      if (error) throw error;
+      yield { type: 'finish' as const, result: finalResult };
+    })
+  } as any;
+}
+
+function createSubscriptionServices() {
+  const virtualTokenService = {
+    ensureUserAccount: vi.fn(async () => undefined),
+    reserveTokens: vi.fn(async (userId: string, tokens: number) => ({ id: 'res-1', userId, reservedTokens: tokens, status: 'held' })),
+    captureReservation: vi.fn(async (_reservationId: string, tokens: number) => ({
+      success: true,
+      newBalance: 1000 - tokens,
+      tokensDeducted: tokens,
+      platformFee: 0,
+      usageLogId: 1
+    })),
+    releaseReservation: vi.fn(async () => undefined)
+  } as any;
+  const usageAnalyticsService = {
+    getUserStatus: vi.fn(async () => ({ userType: 'subscription' })),
+    recordUsage: vi.fn(async () => undefined)
+  } as any;
+  return { virtualTokenService, usageAnalyticsService };
+}
+
+const input = { content: 'Say hello', systemPrompt: 'You are helpful' };
+const subscriber = { userId: 'user-1', email: 'user@example.com', subscriptionTier: 'pro' };
+
+describe('ai.streamText subscription', () => {
+  it('yields deltas then a done event and captures final usage', async () => {
+    const { virtualTokenService, usageAnalyticsService } = createSubscriptionServices();
+    const aiRouter = router(createStreamingProcedures(
+      DEFAULT_CONFIG, createFakeAIService(['Hello', ' world']), virtualTokenService, usageAnalyticsService
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: subscriber, apiKey: null } as any);
+
+    const events: any[] = [];
+    for await (const event of await caller.streamText(input)) {
+      events.push(event);
+    }
+
+    expect(events.map(e => e.type)).toEqual(['delta', 'delta', 'done']);
+    expect(events[2].data.content).toBe('Hello world');
+    expect(events[2].tokenUsage.tokensUsed).toBe(15);
+    // Hold covers the prompt estimate plus the default completion limit
+    expect(virtualTokenService.reserveTokens).toHaveBeenCalledWith('user-1', 7 + DEFAULT_CONFIG.tokens.defaultMaxTokens, { method: 'streamText', tier: 'pro' });
+    expect(virtualTokenService.captureReservation).toHaveBeenCalledTimes(1);
+    expect(virtualTokenService.captureReservation).toHaveBeenCalledWith('res-1', 15, 'anthropic', 'claude-test', 'req-1', 'streamText', 'pro');
+  });
+
+  it('bills partial usage when the consumer stops early', async () => {
+    const { virtualTokenService, usageAnalyticsService } = createSubscriptionServices();
+    const aiRouter = router(createStreamingProcedures(
+      DEFAULT_CONFIG, createFakeAIService(['12345678', 'more text']), virtualTokenService, usageAnalyticsService
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: subscriber, apiKey: null } as any);
+
+    for await (const event of await caller.streamText(input)) {
+      expect(event.type).toBe('delta');
+      break;
+    }
+
+    expect(virtualTokenService.captureReservation).toHaveBeenCalledTimes(1);
+    const [, tokens, provider, model] = virtualTokenService.captureReservation.mock.calls[0];
+    // prompt estimate (3 + 4) + 8 streamed chars / 4
+    expect(tokens).toBe(9);
+    // Billed against the provider and model the stream resolved to, not the (empty) request
+    expect(provider).toBe('anthropic');
+    expect(model).toBe('claude-test');
+  });
+
+  it('releases the token hold when the provider fails before any output', async () => {
+    const { virtualTokenService, usageAnalyticsService } = createSubscriptionServices();
+    const aiRouter = router(createStreamingProcedures(
+      DEFAULT_CONFIG, createFakeAIService([], new Error('Provider unavailable')), virtualTokenService, usageAnalyticsService
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: subscriber, apiKey: null } as any);
+
+    await expect(async () => {
+      for await (const _event of await caller.streamText(input)) {
+        // drain
+      }
+    }).rejects.toThrow('Provider unavailable');
+
+    expect(virtualTokenService.releaseReservation).toHaveBeenCalledWith('res-1');
+    expect(virtualTokenService.captureReservation).not.toHaveBeenCalled();
+  });
+
+  it('rejects subscription requests the balance cannot hold', async () => {
+    const { virtualTokenService, usageAnalyticsService } = createSubscriptionServices();
+    virtualTokenService.reserveTokens.mockResolvedValueOnce(null);
+    const aiRouter = router(createStreamingProcedures(
+      DEFAULT_CONFIG, createFakeAIService(['Hi']), virtualTokenService, usageAnalyticsService
+    ));
+    const caller = t.createCallerFactory(aiRouter)({ user: subscriber, apiKey: null } as any);
+
+    await expect(async () => {
+      for await (const _event of await caller.streamText(input)) {
+        // drain
+      }
+    }).rejects.toMatchObject({ code: 'PAYMENT_REQUIRED' });
+  });
+
+  it('requires an API key for public usage', async () => {
+    const aiRouter = router(createStreamingProcedures(DEFAULT_CONFIG, createFakeAIService([]), null, null));
+    const caller = t.createCallerFactory(aiRouter)({ user: null, apiKey: null } as any);
+
+    await expect(async () => {
+      for await (const _event of await caller.streamText(input)) {
+        // drain
+      }
+    }).rejects.toThrow('API key required');
+  });
+});
+
+describe('JSON-RPC SSE stream handler', () => {
+  it('writes each subscription event as a JSON-RPC result', async () => {
+    const aiRouter = router({
+      ai: router(createStreamingProcedures(DEFAULT_CONFIG, createFakeAIService(['Hi', '!']), null, null))
+    });
+    const bridge = createTRPCToJSONRPCBridge(aiRouter as any, () => ({ user: null, apiKey: 'sk-test' }));
+
+    const app = express();
+    app.use(express.json());
+    app.post('/rpc/stream', bridge.createStreamHandler());
+
+    const response = await request(app)
+      .post('/rpc/stream')
+      .send({ jsonrpc: '2.0', method: 'ai.streamText', params: input, id: 7 });
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const messages = response.text
+      .split('\n\n')
+      .filter(Boolean)
+      .map(chunk => JSON.parse(chunk.split('\n').find(line => line.startsWith('data: '))!.slice(6)));
+
+    expect(messages.map(m => m.id)).toEqual([7, 7, 7, 7]);
+    expect(messages[0].result).toEqual({ type: 'delta', text: 'Hi' });
+    expect(messages[2].result.type).toBe('done');
+    expect(messages[3].result).toBeNull();
+    expect(response.text).toContain('event: end');
+  });
+
+  it('returns method not found for unknown procedures', async () => {
+    const bridge = createTRPCToJSONRPCBridge(router({}) as any, () => ({ user: null, apiKey: null }));
+    const app = express();
+    app.use(express.json());
+    app.post('/rpc/stream', bridge.createStreamHandler());
+
+    const response = await request(app)
+      .post('/rpc/stream')
+      .send({ jsonrpc: '2.0', method: 'ai.missing', id: 1 });
+
+    expect(response.text).toContain('event: error');
+    expect(response.text).toContain('-32601');
+  });
+});
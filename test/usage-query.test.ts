@@ -0,0 +1,143 @@
+/**
+ * Usage Query Tests
+ *
+ * UsageAnalyticsService.queryUsage over the combined_usage view (bucketing,
+ * grouping, filters, keyset cursors), paged exports, and caller scoping in
+ * billing.queryUsage, against the PostgreSQL test database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { UsageAnalyticsService } from '../src/services/billing/usage-analytics-service';
+import { t } from '../src/trpc/index';
+import { createBillingRouter } from '../src/trpc/routers/billing';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+const from = new Date('2026-09-01T00:00:00Z');
+const to = new Date('2026-09-08T00:00:00Z');
+
+let testDb: TestDatabase;
+
+async function recordPlatformUsage(userId: string, provider: string, timestamp: string) {
+  await testDb.sql(
+    `INSERT INTO token_usage_log
+     (user_id, provider, model, input_tokens, output_tokens, total_tokens, virtual_tokens_deducted, platform_fee_tokens, method, event_type, timestamp)
+     VALUES ($1, $2, 'test-model', 40, 60, 100, 125, 25, 'generateText', 'capture', $3)`,
+    [userId, provider, timestamp]
+  );
+}
+
+async function recordByokUsage(userId: string, provider: string, timestamp: string) {
+  await testDb.sql(
+    `INSERT INTO usage_analytics
+     (id, user_id, user_type, provider, model, input_tokens, output_tokens, total_tokens, estimated_cost_usd, method, timestamp)
+     VALUES (gen_random_uuid()::text, $1, 'byok', $2, 'test-model', 40, 60, 100, 0.000054, 'generateText', $3)`,
+    [userId, provider, timestamp]
+  );
+}
+
+beforeAll(async () => {
+  testDb = await createTestDatabase();
+  await testDb.sql(`INSERT INTO user_token_accounts (user_id) VALUES ('user-1'), ('user-2')`);
+
+  // Day 1: 3 platform-paid anthropic requests and 1 BYOK openai request, day 2: 2 anthropic requests
+  for (let i = 0; i < 3; i++) {
+    await recordPlatformUsage('user-1', 'anthropic', '2026-09-01T10:00:00Z');
+  }
+  await recordByokUsage('user-1', 'openai', '2026-09-01T11:00:00Z');
+  await recordPlatformUsage('user-1', 'anthropic', '2026-09-02T09:00:00Z');
+  await recordPlatformUsage('user-1', 'anthropic', '2026-09-02T15:00:00Z');
+  // Outside the provider filter, the time range and the caller
+  await recordPlatformUsage('user-1', 'google', '2026-09-01T12:00:00Z');
+  await recordPlatformUsage('user-1', 'anthropic', '2026-09-09T12:00:00Z');
+  await recordByokUsage('user-2', 'anthropic', '2026-09-03T12:00:00Z');
+}, 60000);
+
+afterAll(async () => {
+  await testDb.close();
+});
+
+describe('UsageAnalyticsService.queryUsage', () => {
+  it('buckets, groups and filters in SQL', async () => {
+    const service = new UsageAnalyticsService(testDb.db);
+
+    const result = await service.queryUsage({
+      from, to, bucket: 'day', groupBy: ['provider', 'provider'],
+      filters: { provider: ['anthropic', 'openai'], userId: ['user-1'], model: [] }
+    });
+
+    expect(result.nextCursor).toBeNull();
+    expect(result.rows).toEqual([
+      {
+        bucket: '2026-09-01T00:00:00.000Z', provider: 'anthropic',
+        requests: 3, inputTokens: 120, outputTokens: 180, totalTokens: 300, tokensCharged: 375, estimatedCostUsd: 0
+      },
+      {
+        bucket: '2026-09-01T00:00:00.000Z', provider: 'openai',
+        requests: 1, inputTokens: 40, outputTokens: 60, totalTokens: 100, tokensCharged: 0, estimatedCostUsd: 0.000054
+      },
+      {
+        bucket: '2026-09-02T00:00:00.000Z', provider: 'anthropic',
+        requests: 2, inputTokens: 80, outputTokens: 120, totalTokens: 200, tokensCharged: 250, estimatedCostUsd: 0
+      }
+    ]);
+
+    const subscription = await service.queryUsage({
+      from, to, groupBy: ['provider'], filters: { userType: 'subscription', userId: ['user-1'] }
+    });
+    expect(subscription.rows.map(row => row.provider)).toEqual(['anthropic', 'google']);
+  });
+
+  it('pages with a keyset cursor', async () => {
+    const service = new UsageAnalyticsService(testDb.db);
+    const query = { from, to, bucket: 'day' as const, groupBy: ['provider' as const], filters: { provider: ['anthropic', 'openai'] } };
+
+    const first = await service.queryUsage({ ...query, limit: 2 });
+    expect(first.rows.map(row => row.provider)).toEqual(['anthropic', 'openai']);
+    expect(first.nextCursor).toEqual(expect.any(String));
+
+    const second = await service.queryUsage({ ...query, limit: 2, cursor: first.nextCursor! });
+    expect(second.rows).toMatchObject([
+      { bucket: '2026-09-02T00:00:00.000Z', provider: 'anthropic', requests: 2 },
+      { bucket: '2026-09-03T00:00:00.000Z', provider: 'anthropic', requests: 1 }
+    ]);
+    expect(second.nextCursor).toBeNull();
+
+    await expect(service.queryUsage({ from, to, groupBy: ['provider'], cursor: first.nextCursor! }))
+      .rejects.toThrow('Invalid cursor');
+  });
+
+  it('exports every page as CSV or NDJSON', async () => {
+    const service = new UsageAnalyticsService(testDb.db);
+    const query = { from, to, bucket: 'day' as const, groupBy: ['provider' as const], filters: { userId: ['user-1'], provider: ['anthropic', 'openai'] } };
+
+    const csv = await service.exportUsage(query, 'csv');
+    expect(csv).toMatchObject({ contentType: 'text/csv', rowCount: 3, truncated: false });
+    expect(csv.content.split('\n')).toEqual([
+      'bucket,provider,requests,inputTokens,outputTokens,totalTokens,tokensCharged,estimatedCostUsd',
+      '2026-09-01T00:00:00.000Z,anthropic,3,120,180,300,375,0',
+      '2026-09-01T00:00:00.000Z,openai,1,40,60,100,0,0.000054',
+      '2026-09-02T00:00:00.000Z,anthropic,2,80,120,200,250,0',
+      ''
+    ]);
+
+    const ndjson = await service.exportUsage(query, 'ndjson', 2);
+    expect(ndjson).toMatchObject({ contentType: 'application/x-ndjson', rowCount: 2, truncated: true });
+    expect(JSON.parse(ndjson.content.split('\n')[1])).toMatchObject({ provider: 'openai', estimatedCostUsd: 0.000054 });
+  });
+});
+
+describe('billing.queryUsage', () => {
+  it('only returns the caller usage', async () => {
+    const billingRouter = createBillingRouter(null, new UsageAnalyticsService(testDb.db), null);
+    const caller = t.createCallerFactory(billingRouter)({ user: { userId: 'user-2' }, apiKey: null } as any);
+
+    const result = await caller.queryUsage({
+      from: from.toISOString(), to: to.toISOString(), bucket: 'day', groupBy: ['provider'], filters: { userId: ['user-1'] }
+    } as any);
+    expect(result.rows).toMatchObject([{ bucket: '2026-09-03T00:00:00.000Z', provider: 'anthropic', requests: 1 }]);
+
+    await expect(caller.queryUsage({ from: to.toISOString(), to: from.toISOString() } as any)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.queryUsage({ from: 'September 1', to: to.toISOString() } as any)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(caller.queryUsage({ from: 0, to: to.toISOString() } as any)).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+});
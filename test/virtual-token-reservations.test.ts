@@ -0,0 +1,148 @@
+/**
+ * Token Reservation Tests
+ *
+ * Authorize-then-capture billing in VirtualTokenService against the
+ * PostgreSQL test database.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { VirtualTokenService } from '../src/services/billing/virtual-token-service';
+import { BillingRules } from '../src/services/billing/billing-rules';
+import { createTestDatabase, type TestDatabase } from './helpers/test-database';
+
+describe('VirtualTokenService reservations', () => {
+  let testDb: TestDatabase;
+
+  beforeAll(async () => {
+    testDb = await createTestDatabase();
+  }, 60000);
+
+  afterAll(async () => {
+    await testDb.close();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await testDb.reset();
+  });
+
+  async function createAccount(balance: number) {
+    await testDb.sql('INSERT INTO user_token_accounts (user_id, virtual_token_balance) VALUES ($1, $2)', ['user-1', balance]);
+  }
+
+  async function getBalance() {
+    const [account] = await testDb.sql('SELECT virtual_token_balance FROM user_token_accounts WHERE user_id = $1', ['user-1']);
+    return Number(account.virtual_token_balance);
+  }
+
+  async function getEvents() {
+    const rows = await testDb.sql('SELECT event_type FROM token_usage_log ORDER BY timestamp');
+    return rows.map(row => row.event_type);
+  }
+
+  it('holds the estimate plus fee and refuses holds the balance cannot cover', async () => {
+    await createAccount(2000);
+    const service = new VirtualTokenService(testDb.db);
+
+    const first = await service.reserveTokens('user-1', 1000, { method: 'generateText' });
+    const second = await service.reserveTokens('user-1', 1000, { method: 'generateText' });
+
+    expect(first).toMatchObject({ userId: 'user-1', reservedTokens: 1250, status: 'held' });
+    expect(second).toBeNull();
+    expect(await getBalance()).toBe(750);
+    expect(await getEvents()).toEqual(['hold']);
+  });
+
+  it('captures actual usage and releases the remainder', async () => {
+    await createAccount(2000);
+    const service = new VirtualTokenService(testDb.db);
+    const reservation = await service.reserveTokens('user-1', 1000);
+
+    const result = await service.captureReservation(reservation!.id, 400, 'anthropic', 'claude-test', 'req-1', 'generateText');
+
+    expect(result).toMatchObject({ success: true, tokensDeducted: 500, platformFee: 100, newBalance: 1500 });
+    expect(await getBalance()).toBe(1500);
+
+    const log = await testDb.sql(
+      'SELECT event_type, virtual_tokens_deducted, reserved_tokens, total_tokens FROM token_usage_log WHERE user_id = $1',
+      ['user-1']
+    );
+    expect(log.map(entry => ({
+      event: entry.event_type,
+      deducted: entry.virtual_tokens_deducted,
+      reserved: Number(entry.reserved_tokens),
+      totalTokens: entry.total_tokens
+    }))).toEqual(expect.arrayContaining([
+      { event: 'hold', deducted: 0, reserved: 1250, totalTokens: 0 },
+      { event: 'capture', deducted: 500, reserved: 1250, totalTokens: 400 },
+      { event: 'release', deducted: 0, reserved: 750, totalTokens: 0 }
+    ]));
+    expect(log).toHaveLength(3);
+    await expect(service.captureReservation(reservation!.id, 400, 'anthropic')).rejects.toThrow('already captured');
+  });
+
+  it('never takes the balance below zero when usage exceeds the hold', async () => {
+    await createAccount(1300);
+    const service = new VirtualTokenService(testDb.db);
+    const reservation = await service.reserveTokens('user-1', 1000);
+
+    const result = await service.captureReservation(reservation!.id, 2000, 'anthropic');
+
+    expect(result.tokensDeducted).toBe(1300);
+    expect(await getBalance()).toBe(0);
+  });
+
+  it('returns released and expired holds to the balance', async () => {
+    await createAccount(2000);
+    const service = new VirtualTokenService(testDb.db, { reservationTtlMs: -1 });
+
+    const stale = await service.reserveTokens('user-1', 800);
+    expect(await getBalance()).toBe(1000);
+
+    // The stale hold expires before the next reservation is checked
+    const fresh = await service.reserveTokens('user-1', 1000, { ttlMs: 60000 });
+    expect(fresh).not.toBeNull();
+    const [staleRow] = await testDb.sql('SELECT status FROM token_reservations WHERE id = $1', [stale!.id]);
+    expect(staleRow.status).toBe('expired');
+    expect(await getBalance()).toBe(750);
+
+    await service.releaseReservation(fresh!.id);
+    await service.releaseReservation(fresh!.id);
+    expect(await getBalance()).toBe(2000);
+    expect((await getEvents()).sort()).toEqual(['expire', 'hold', 'hold', 'release']);
+  });
+
+  it('returns stale holds on a schedule without a new reservation', async () => {
+    await createAccount(2000);
+    const service = new VirtualTokenService(testDb.db, { reservationTtlMs: -1, reservationSweepIntervalMs: 20 });
+    const stale = await service.reserveTokens('user-1', 800);
+    expect(await getBalance()).toBe(1000);
+
+    service.startReservationSweep();
+    try {
+      await vi.waitFor(async () => expect(await getBalance()).toBe(2000), { timeout: 5000, interval: 50 });
+    } finally {
+      service.stopReservationSweep();
+    }
+
+    const [staleRow] = await testDb.sql('SELECT status FROM token_reservations WHERE id = $1', [stale!.id]);
+    expect(staleRow.status).toBe('expired');
+  });
+
+  it('applies the billing rules to holds and captures and records the rule', async () => {
+    await createAccount(10000);
+    const billingRules = new BillingRules({ modelMultipliers: { 'claude-opus-*': 5 }, tiers: { pro: { platformFeePercent: 10 } } });
+    const service = new VirtualTokenService(testDb.db, { billingRules });
+
+    const reservation = await service.reserveTokens('user-1', 1000, { model: 'claude-opus-4-1-20250805', tier: 'pro' });
+    expect(reservation!.reservedTokens).toBe(5500);
+
+    const result = await service.captureReservation(reservation!.id, 400, 'anthropic', 'claude-opus-4-1-20250805', undefined, undefined, 'pro');
+
+    expect(result).toMatchObject({ tokensDeducted: 2200, platformFee: 200 });
+    expect(result.billingRule).toMatchObject({ multiplier: 5, multiplierRule: 'claude-opus-*', feeRule: 'tier:pro' });
+    const rules = await testDb.sql('SELECT billing_rule FROM token_usage_log WHERE billing_rule IS NOT NULL');
+    expect(rules.map(row => row.billing_rule)).toEqual([result.billingRule]);
+    expect(await getBalance()).toBe(7800);
+  });
+});